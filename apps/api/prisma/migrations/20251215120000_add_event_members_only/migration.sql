@@ -0,0 +1,4 @@
+-- Restrict registration for selected events to MEMBER+ users
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "isMembersOnly" BOOLEAN NOT NULL DEFAULT false;
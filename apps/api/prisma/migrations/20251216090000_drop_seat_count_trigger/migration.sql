@@ -0,0 +1,8 @@
+-- Seat counts are now reserved atomically by the API (SeatAllocationService).
+-- Remove the hand-applied trigger so seats are not counted twice.
+
+-- DropTrigger
+DROP TRIGGER IF EXISTS trg_update_event_seats ON "event_registrations";
+
+-- DropFunction
+DROP FUNCTION IF EXISTS public.update_event_seat_count();
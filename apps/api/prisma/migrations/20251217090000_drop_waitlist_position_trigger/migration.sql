@@ -0,0 +1,8 @@
+-- Waitlist positions are now assigned and compacted by the API (WaitlistService).
+-- Remove the hand-applied trigger so it cannot overwrite positions on insert.
+
+-- DropTrigger
+DROP TRIGGER IF EXISTS trg_assign_waitlist_position ON "waitlist";
+
+-- DropFunction
+DROP FUNCTION IF EXISTS public.assign_waitlist_position();
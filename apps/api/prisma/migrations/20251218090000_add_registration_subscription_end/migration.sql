@@ -0,0 +1,7 @@
+-- Track when a cancelled event subscription stops granting access
+
+-- AlterTable
+ALTER TABLE "event_registrations" ADD COLUMN "subscriptionEndsAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "event_registrations_stripeSubId_idx" ON "event_registrations"("stripeSubId");
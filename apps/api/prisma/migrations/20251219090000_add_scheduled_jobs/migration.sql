@@ -0,0 +1,37 @@
+-- Scheduled job run history and cross-instance locking, plus event reminder tracking
+
+-- CreateEnum
+CREATE TYPE "JobTrigger" AS ENUM ('SCHEDULE', 'EXTERNAL', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "event_registrations" ADD COLUMN "reminderSentAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "trigger" "JobTrigger" NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "result" JSONB,
+    "error" TEXT,
+    "triggeredById" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_locks" (
+    "jobName" TEXT NOT NULL,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("jobName")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_jobName_startedAt_idx" ON "job_runs"("jobName", "startedAt");
@@ -0,0 +1,11 @@
+-- Membership renewal: a renewal continues the previous term, and reminders go out 30/7/1 days before expiry
+
+-- AlterTable
+ALTER TABLE "memberships" ADD COLUMN "renewedFromId" TEXT,
+ADD COLUMN "renewalReminderDays" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memberships_renewedFromId_key" ON "memberships"("renewedFromId");
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_renewedFromId_fkey" FOREIGN KEY ("renewedFromId") REFERENCES "memberships"("id") ON DELETE SET NULL ON UPDATE CASCADE;
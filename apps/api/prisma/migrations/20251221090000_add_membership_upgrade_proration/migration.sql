@@ -0,0 +1,5 @@
+-- Prorated upgrades: credit for the unused part of the current membership, plus the quote it came from
+
+-- AlterTable
+ALTER TABLE "memberships" ADD COLUMN "prorationCredit" DECIMAL(10,2),
+ADD COLUMN "upgradeQuote" JSONB;
@@ -0,0 +1,37 @@
+-- Versioned membership type prices: memberships point at the price they were sold at
+
+-- CreateTable
+CREATE TABLE "membership_type_prices" (
+    "id" TEXT NOT NULL,
+    "membershipTypeId" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "effectiveTo" TIMESTAMP(3),
+    "changedById" TEXT,
+
+    CONSTRAINT "membership_type_prices_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "memberships" ADD COLUMN "membershipTypePriceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "membership_type_prices_membershipTypeId_effectiveFrom_idx" ON "membership_type_prices"("membershipTypeId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "memberships_membershipTypePriceId_idx" ON "memberships"("membershipTypePriceId");
+
+-- AddForeignKey
+ALTER TABLE "membership_type_prices" ADD CONSTRAINT "membership_type_prices_membershipTypeId_fkey" FOREIGN KEY ("membershipTypeId") REFERENCES "membership_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_membershipTypePriceId_fkey" FOREIGN KEY ("membershipTypePriceId") REFERENCES "membership_type_prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the current price of every type becomes its first version
+INSERT INTO "membership_type_prices" ("id", "membershipTypeId", "price", "effectiveFrom")
+SELECT gen_random_uuid()::text, "id", "price", "createdAt" FROM "membership_types";
+
+UPDATE "memberships" m
+SET "membershipTypePriceId" = p."id"
+FROM "membership_type_prices" p
+WHERE p."membershipTypeId" = m."membershipTypeId";
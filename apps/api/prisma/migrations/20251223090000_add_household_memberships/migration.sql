@@ -0,0 +1,56 @@
+-- Household memberships: a family tier covers linked accounts, and events can have a member price
+
+-- CreateEnum
+CREATE TYPE "HouseholdMemberStatus" AS ENUM ('INVITED', 'ACTIVE', 'DECLINED', 'REMOVED');
+
+-- CreateEnum
+CREATE TYPE "HouseholdRelationship" AS ENUM ('SPOUSE', 'CHILD', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "membership_types" ADD COLUMN "maxHouseholdMembers" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "memberPrice" DECIMAL(10,2),
+ADD COLUMN "stripeMemberPriceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "event_registrations" ADD COLUMN "amount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "household_members" (
+    "id" TEXT NOT NULL,
+    "primaryUserId" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "relationship" "HouseholdRelationship" NOT NULL,
+    "status" "HouseholdMemberStatus" NOT NULL DEFAULT 'INVITED',
+    "invitedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" TIMESTAMP(3),
+    "removedAt" TIMESTAMP(3),
+
+    CONSTRAINT "household_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "household_members_primaryUserId_email_key" ON "household_members"("primaryUserId", "email");
+
+-- CreateIndex
+CREATE INDEX "household_members_userId_status_idx" ON "household_members"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "household_members_email_status_idx" ON "household_members"("email", "status");
+
+-- AddForeignKey
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_primaryUserId_fkey" FOREIGN KEY ("primaryUserId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing paid registrations were sold at the event price
+UPDATE "event_registrations" r
+SET "amount" = e."price"
+FROM "events" e
+WHERE r."eventId" = e."id" AND e."isFree" = false;
+
+-- The seeded family tier covers the rest of the household
+UPDATE "membership_types" SET "maxHouseholdMembers" = 4 WHERE "slug" = 'family';
@@ -0,0 +1,14 @@
+-- Offline payments: cash, check, Zelle and bank transfer payments recorded by an admin
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('STRIPE', 'CASH', 'CHECK', 'ZELLE', 'BANK_TRANSFER');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "method" "PaymentMethod" NOT NULL DEFAULT 'STRIPE',
+ADD COLUMN "referenceNumber" TEXT,
+ADD COLUMN "receivedAt" TIMESTAMP(3),
+ADD COLUMN "recordedById" TEXT,
+ALTER COLUMN "stripePaymentId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "payments_method_idx" ON "payments"("method");
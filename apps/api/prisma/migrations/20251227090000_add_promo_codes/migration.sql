@@ -0,0 +1,56 @@
+-- Promo codes: percent or fixed discounts on membership and event checkouts
+
+-- CreateEnum
+CREATE TYPE "PromoDiscountType" AS ENUM ('PERCENT', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "PromoCodeScope" AS ENUM ('ALL', 'MEMBERSHIPS', 'EVENTS');
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "PromoDiscountType" NOT NULL,
+    "discountValue" DECIMAL(10,2) NOT NULL,
+    "scope" "PromoCodeScope" NOT NULL DEFAULT 'ALL',
+    "membershipTypeIds" TEXT[],
+    "eventIds" TEXT[],
+    "maxRedemptions" INTEGER,
+    "maxRedemptionsPerUser" INTEGER NOT NULL DEFAULT 1,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_code_redemptions" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_code_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_code_redemptions_paymentId_key" ON "promo_code_redemptions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "promo_code_redemptions_promoCodeId_userId_idx" ON "promo_code_redemptions"("promoCodeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "promo_code_redemptions" ADD CONSTRAINT "promo_code_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "promo_codes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_code_redemptions" ADD CONSTRAINT "promo_code_redemptions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Payment receipts: receipt numbers are taken from a sequence when the first receipt is issued
+
+-- CreateSequence
+CREATE SEQUENCE "payment_receipt_number_seq" START WITH 1001;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "receiptNumber" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_receiptNumber_key" ON "payments"("receiptNumber");
@@ -0,0 +1,36 @@
+-- Payment reconciliation: differences between local payments and Stripe balance transactions
+
+-- CreateEnum
+CREATE TYPE "ReconciliationMismatchType" AS ENUM ('MISSING_PAYMENT', 'MISSING_IN_STRIPE', 'AMOUNT_MISMATCH', 'STATUS_MISMATCH', 'MISSING_REFUND', 'REFUND_AMOUNT_MISMATCH');
+
+-- CreateTable
+CREATE TABLE "reconciliation_mismatches" (
+    "id" TEXT NOT NULL,
+    "type" "ReconciliationMismatchType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "refundId" TEXT,
+    "stripeReference" TEXT,
+    "localAmount" DECIMAL(10,2),
+    "stripeAmount" DECIMAL(10,2),
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "details" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reconciliation_mismatches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reconciliation_mismatches_type_reference_key" ON "reconciliation_mismatches"("type", "reference");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_mismatches_resolvedAt_idx" ON "reconciliation_mismatches"("resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_mismatches_paymentId_idx" ON "reconciliation_mismatches"("paymentId");
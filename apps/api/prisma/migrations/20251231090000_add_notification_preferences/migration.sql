@@ -0,0 +1,24 @@
+-- Notification preferences: per-user opt-outs for non-transactional email, honored by the outbox
+
+-- AlterTable
+ALTER TABLE "email_outbox" ADD COLUMN "headers" JSONB;
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventAnnouncements" BOOLEAN NOT NULL DEFAULT true,
+    "newsletter" BOOLEAN NOT NULL DEFAULT true,
+    "reminders" BOOLEAN NOT NULL DEFAULT true,
+    "eventCategoryIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_key" ON "notification_preferences"("userId");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Article review: contributors submit drafts, admins publish (now or scheduled) or send them back
+
+-- AlterTable
+ALTER TABLE "articles" ADD COLUMN "submittedAt" TIMESTAMP(3),
+ADD COLUMN "reviewNote" TEXT;
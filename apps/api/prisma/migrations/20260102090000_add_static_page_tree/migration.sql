@@ -0,0 +1,7 @@
+-- Static page tree: parentId references the parent page; deleting a parent lifts its children to the top level
+
+-- CreateIndex
+CREATE INDEX "static_pages_parentId_idx" ON "static_pages"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "static_pages" ADD CONSTRAINT "static_pages_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "static_pages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- Content revisions: a version of an article, static page or event on every save, for history, diffs and rollback
+
+-- CreateEnum
+CREATE TYPE "RevisionEntity" AS ENUM ('ARTICLE', 'STATIC_PAGE', 'EVENT');
+
+-- CreateTable
+CREATE TABLE "content_revisions" (
+    "id" TEXT NOT NULL,
+    "entityType" "RevisionEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL,
+    "authorId" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_revisions_entityType_entityId_version_key" ON "content_revisions"("entityType", "entityId", "version");
+
+-- CreateIndex
+CREATE INDEX "content_revisions_authorId_idx" ON "content_revisions"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "content_revisions" ADD CONSTRAINT "content_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Media images: dimensions and a generated thumbnail for uploaded images
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER,
+ADD COLUMN "thumbnailUrl" TEXT;
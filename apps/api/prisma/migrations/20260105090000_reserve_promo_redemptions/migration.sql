@@ -0,0 +1,30 @@
+-- Promo code reservations: a redemption is held while its checkout session is open
+
+-- CreateEnum
+CREATE TYPE "PromoRedemptionStatus" AS ENUM ('RESERVED', 'CONFIRMED', 'RELEASED');
+
+-- AlterTable
+ALTER TABLE "promo_code_redemptions" ADD COLUMN "checkoutFor" TEXT,
+ADD COLUMN "status" "PromoRedemptionStatus" NOT NULL DEFAULT 'RESERVED',
+ADD COLUMN "stripeSessionId" TEXT,
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "paymentId" DROP NOT NULL;
+
+-- Existing redemptions were all recorded for completed payments
+UPDATE "promo_code_redemptions" r
+SET "status" = 'CONFIRMED',
+    "expiresAt" = r."createdAt",
+    "stripeSessionId" = p."stripeSessionId",
+    "checkoutFor" = COALESCE(p."metadata"->>'membershipId', p."metadata"->>'eventId', p."id")
+FROM "payments" p
+WHERE p."id" = r."paymentId";
+
+ALTER TABLE "promo_code_redemptions" ALTER COLUMN "checkoutFor" SET NOT NULL,
+ALTER COLUMN "expiresAt" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_code_redemptions_stripeSessionId_key" ON "promo_code_redemptions"("stripeSessionId");
+
+-- CreateIndex
+CREATE INDEX "promo_code_redemptions_promoCodeId_status_idx" ON "promo_code_redemptions"("promoCodeId", "status");
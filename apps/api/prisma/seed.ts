@@ -122,6 +122,7 @@ async function main() {
         'Multiple family members',
       ],
       durationMonths: 12,
+      maxHouseholdMembers: 4, // Spouse and children linked by email invitation
       sortOrder: 2,
     },
     {
@@ -145,11 +146,27 @@ async function main() {
   ];
 
   for (const type of membershipTypes) {
-    await prisma.membershipType.upsert({
+    const saved = await prisma.membershipType.upsert({
       where: { slug: type.slug },
       update: type,
       create: type,
     });
+
+    // Keep the current price version in step with the seeded price
+    const currentPrice = await prisma.membershipTypePrice.findFirst({
+      where: { membershipTypeId: saved.id, effectiveTo: null },
+    });
+
+    if (!currentPrice || Number(currentPrice.price) !== type.price) {
+      const now = new Date();
+      await prisma.membershipTypePrice.updateMany({
+        where: { membershipTypeId: saved.id, effectiveTo: null },
+        data: { effectiveTo: now },
+      });
+      await prisma.membershipTypePrice.create({
+        data: { membershipTypeId: saved.id, price: type.price, effectiveFrom: now },
+      });
+    }
   }
 
   console.log('✅ Membership types seeded\n');
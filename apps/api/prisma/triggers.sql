@@ -34,86 +34,18 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_auth_user();
 
 -- ============================================================================
--- SEAT COUNTER TRIGGER
+-- SEAT COUNTER
 -- ============================================================================
--- Automatically update event.currentSeats when registrations change
-
-CREATE OR REPLACE FUNCTION public.update_event_seat_count()
-RETURNS TRIGGER AS $$
-BEGIN
-  IF TG_OP = 'INSERT' THEN
-    IF NEW.status = 'CONFIRMED' THEN
-      UPDATE events
-      SET current_seats = current_seats + 1,
-          updated_at = NOW()
-      WHERE id = NEW.event_id;
-    END IF;
-    RETURN NEW;
-
-  ELSIF TG_OP = 'UPDATE' THEN
-    -- Seat was confirmed
-    IF OLD.status != 'CONFIRMED' AND NEW.status = 'CONFIRMED' THEN
-      UPDATE events
-      SET current_seats = current_seats + 1,
-          updated_at = NOW()
-      WHERE id = NEW.event_id;
-    -- Seat was released
-    ELSIF OLD.status = 'CONFIRMED' AND NEW.status IN ('CANCELLED', 'COMPLETED') THEN
-      UPDATE events
-      SET current_seats = GREATEST(current_seats - 1, 0),
-          updated_at = NOW()
-      WHERE id = NEW.event_id;
-    END IF;
-    RETURN NEW;
-
-  ELSIF TG_OP = 'DELETE' THEN
-    IF OLD.status = 'CONFIRMED' THEN
-      UPDATE events
-      SET current_seats = GREATEST(current_seats - 1, 0),
-          updated_at = NOW()
-      WHERE id = OLD.event_id;
-    END IF;
-    RETURN OLD;
-  END IF;
-
-  RETURN NULL;
-END;
-$$ LANGUAGE plpgsql;
-
--- Drop existing trigger if exists
-DROP TRIGGER IF EXISTS trg_update_event_seats ON event_registrations;
-
-CREATE TRIGGER trg_update_event_seats
-  AFTER INSERT OR UPDATE OR DELETE ON event_registrations
-  FOR EACH ROW EXECUTE FUNCTION public.update_event_seat_count();
+-- events.currentSeats is no longer maintained by a trigger. Seats are reserved
+-- atomically by SeatAllocationService inside the registration transaction, and
+-- the trigger is dropped by migration 20251216090000_drop_seat_count_trigger.
 
 -- ============================================================================
--- WAITLIST POSITION TRIGGER
+-- WAITLIST POSITION
 -- ============================================================================
--- Automatically assign position when adding to waitlist
-
-CREATE OR REPLACE FUNCTION public.assign_waitlist_position()
-RETURNS TRIGGER AS $$
-DECLARE
-  next_position INT;
-BEGIN
-  SELECT COALESCE(MAX(position), 0) + 1
-  INTO next_position
-  FROM waitlist
-  WHERE event_id = NEW.event_id
-    AND status IN ('WAITING', 'OFFERED');
-
-  NEW.position := next_position;
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql;
-
--- Drop existing trigger if exists
-DROP TRIGGER IF EXISTS trg_assign_waitlist_position ON waitlist;
-
-CREATE TRIGGER trg_assign_waitlist_position
-  BEFORE INSERT ON waitlist
-  FOR EACH ROW EXECUTE FUNCTION public.assign_waitlist_position();
+-- waitlist.position is no longer assigned by a trigger. WaitlistService assigns
+-- and compacts positions under a row lock on the event, and the trigger is
+-- dropped by migration 20251217090000_drop_waitlist_position_trigger.
 
 -- ============================================================================
 -- VERIFICATION
@@ -127,8 +59,6 @@ SELECT
 FROM information_schema.triggers
 WHERE trigger_schema = 'public'
   AND trigger_name IN (
-    'on_auth_user_created',
-    'trg_update_event_seats',
-    'trg_assign_waitlist_position'
+    'on_auth_user_created'
   )
 ORDER BY trigger_name;
@@ -5,6 +5,15 @@ import { UsersModule } from './modules/users/users.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { MembershipsModule } from './modules/memberships/memberships.module';
 import { PaymentsModule } from './modules/payments/payments.module';
+import { EventsModule } from './modules/events/events.module';
+import { CronModule } from './modules/cron/cron.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { ContentModule } from './modules/content/content.module';
+import { RevisionsModule } from './modules/revisions/revisions.module';
+import { SanitizerModule } from './modules/sanitizer/sanitizer.module';
+import { MediaModule } from './modules/media/media.module';
 
 @Module({
   imports: [
@@ -17,6 +26,15 @@ import { PaymentsModule } from './modules/payments/payments.module';
     UsersModule,
     MembershipsModule,
     PaymentsModule,
+    EventsModule,
+    CronModule,
+    ReportsModule,
+    AuditModule,
+    NotificationsModule,
+    ContentModule,
+    RevisionsModule,
+    SanitizerModule,
+    MediaModule,
   ],
   controllers: [],
   providers: [],
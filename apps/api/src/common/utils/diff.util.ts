@@ -0,0 +1,100 @@
+/**
+ * A run of lines that are the same in both texts, or only in one of them
+ */
+export interface DiffChunk {
+  type: 'equal' | 'added' | 'removed';
+  lines: string[];
+}
+
+// Largest LCS table (lines x lines) diffed line by line; bigger changes are
+// reported as the whole middle section removed and re-added
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split TipTap HTML into one line per block element
+ * Editors store a document as a single line, so a plain line diff would show
+ * every edit as the whole document changing.
+ */
+export function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(
+      /(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|figure|table|tr|div)>|<br\s*\/?>|<hr\s*\/?>)/gi,
+      '$1\n',
+    )
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Line diff from `before` to `after` (longest common subsequence)
+ * The common prefix and suffix are trimmed first, so small edits to long
+ * documents stay cheap.
+ */
+export function diffLines(before: string[], after: string[]): DiffChunk[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = before.slice(prefix, before.length - suffix);
+  const added = after.slice(prefix, after.length - suffix);
+
+  const chunks: DiffChunk[] = [];
+  const push = (type: DiffChunk['type'], line: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last?.type === type) {
+      last.lines.push(line);
+    } else {
+      chunks.push({ type, lines: [line] });
+    }
+  };
+
+  before.slice(0, prefix).forEach((line) => push('equal', line));
+
+  if ((removed.length + 1) * (added.length + 1) > MAX_DIFF_CELLS) {
+    removed.forEach((line) => push('removed', line));
+    added.forEach((line) => push('added', line));
+  } else {
+    // lcs[i * width + j] = LCS length of removed[i..] and added[j..]
+    const width = added.length + 1;
+    const lcs = new Uint32Array((removed.length + 1) * width);
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          removed[i] === added[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        push('equal', removed[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('removed', removed[i++]);
+      } else {
+        push('added', added[j++]);
+      }
+    }
+    removed.slice(i).forEach((line) => push('removed', line));
+    added.slice(j).forEach((line) => push('added', line));
+  }
+
+  before.slice(before.length - suffix).forEach((line) => push('equal', line));
+
+  return chunks;
+}
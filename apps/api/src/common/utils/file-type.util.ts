@@ -0,0 +1,38 @@
+/**
+ * A file type recognized from its contents
+ */
+export interface DetectedFileType {
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Identify a file by its leading "magic" bytes
+ * The Content-Type and filename sent with an upload are chosen by the client,
+ * so they can't be trusted to say what the bytes are. Returns null for
+ * anything other than JPEG, PNG, GIF, WebP and PDF.
+ */
+export function detectFileType(buffer: Buffer): DetectedFileType | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    buffer.length >= offset + bytes.length &&
+    bytes.every((byte, index) => buffer[offset + index] === byte);
+  const ascii = (text: string, offset = 0) => startsWith([...Buffer.from(text, 'ascii')], offset);
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return { mimeType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mimeType: 'image/png', extension: 'png' };
+  }
+  if (ascii('GIF87a') || ascii('GIF89a')) {
+    return { mimeType: 'image/gif', extension: 'gif' };
+  }
+  if (ascii('RIFF') && ascii('WEBP', 8)) {
+    return { mimeType: 'image/webp', extension: 'webp' };
+  }
+  if (ascii('%PDF-')) {
+    return { mimeType: 'application/pdf', extension: 'pdf' };
+  }
+
+  return null;
+}
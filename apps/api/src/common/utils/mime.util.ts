@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * An email ready to be sent
+ */
+export interface MimeMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+}
+
+/**
+ * RFC 5322 message with text and HTML alternatives
+ *
+ * Bodies are base64 encoded, so no line of the output starts with "." and
+ * the message can go straight into an SMTP DATA command or an .eml file.
+ * Returns the generated Message-ID with the message.
+ */
+export function buildMimeMessage(message: MimeMessage): { messageId: string; raw: string } {
+  const boundary = `alt-${randomUUID()}`;
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const messageId = `<${randomUUID()}@${domain}>`;
+
+  const headers: Record<string, string> = {
+    From: encodeAddress(message.from),
+    To: encodeAddress(message.to),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString().replace('GMT', '+0000'),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  const part = (contentType: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(Buffer.from(body, 'utf8').toString('base64')),
+    ].join('\r\n');
+
+  const raw = [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  return { messageId, raw };
+}
+
+/**
+ * The address part of "Name <address>"
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode the display name of "Name <address>" when it isn't plain ASCII
+ */
+function encodeAddress(mailbox: string): string {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return extractAddress(mailbox);
+  }
+
+  const name = /^[\x20-\x7e]*$/.test(match[1])
+    ? `"${match[1].replace(/"/g, '')}"`
+    : encodeHeader(match[1]);
+  return `${name} <${match[2]}>`;
+}
+
+/**
+ * RFC 2047 encoded-word for header text that isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(encoded: string): string {
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
@@ -0,0 +1,219 @@
+// US Letter, in points (1/72 inch)
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+
+// Advance widths (per 1000 em) of printable ASCII 32-126 in the standard Helvetica fonts
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * One piece of text on a line; x is measured from the left margin, and
+ * right-aligned text ends at x
+ */
+export interface PdfColumn {
+  text: string;
+  x?: number;
+  align?: 'left' | 'right';
+  bold?: boolean;
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+}
+
+/**
+ * Minimal PDF writer for text documents (receipts, statements)
+ *
+ * Uses the standard Helvetica fonts, which every PDF reader provides, so no
+ * fonts are embedded. Text is WinAnsi (Latin-1); other characters print as "?".
+ * Pages break automatically when a line no longer fits.
+ */
+export class PdfDocument {
+  /** Width available between the margins */
+  static readonly CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+  private pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private readonly title: string) {}
+
+  /**
+   * Write one line made of columns (or a single string) and move down
+   */
+  line(columns: PdfColumn[] | string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const parts = typeof columns === 'string' ? [{ text: columns }] : columns;
+
+    this.ensureSpace(size * 1.4);
+    this.y -= size;
+
+    for (const part of parts) {
+      const bold = part.bold ?? options.bold ?? false;
+      const text = this.toWinAnsi(part.text);
+      const offset = part.x ?? 0;
+      const x =
+        MARGIN +
+        (part.align === 'right' ? offset - PdfDocument.textWidth(text, size, bold) : offset);
+
+      this.currentPage().push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td (${this.escape(text)}) Tj ET`,
+      );
+    }
+
+    this.y -= size * 0.4;
+    return this;
+  }
+
+  /**
+   * Write text wrapped to the content width
+   */
+  paragraph(text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+
+      if (current && PdfDocument.textWidth(candidate, size, bold) > PdfDocument.CONTENT_WIDTH) {
+        this.line(current, options);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current) {
+      this.line(current, options);
+    }
+
+    return this;
+  }
+
+  /**
+   * Leave vertical space
+   */
+  space(points = 10): this {
+    this.y -= points;
+    return this;
+  }
+
+  /**
+   * Draw a horizontal line across the content width
+   */
+  rule(): this {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.currentPage().push(
+      `0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`,
+    );
+    this.y -= 4;
+    return this;
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page and its content per page
+    const firstPageId = 6;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${this.escape(this.toWinAnsi(this.title))}) /CreationDate (D:${this.pdfDate(new Date())}) >>`;
+
+    this.pages.forEach((operations, index) => {
+      const pageId = firstPageId + index * 2;
+      const content = operations.join('\n');
+
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Every character is a single Latin-1 byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  /**
+   * Width of text in points, for aligning columns
+   */
+  static textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+
+    return (units * size) / 1000;
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  private toWinAnsi(text: string): string {
+    return text.normalize('NFC').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[\\()]/g, (char) => `\\${char}`);
+  }
+
+  private pdfDate(date: Date): string {
+    return date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  }
+}
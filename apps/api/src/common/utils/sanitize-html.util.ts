@@ -0,0 +1,326 @@
+/**
+ * Where images embedded in content may be loaded from
+ */
+export interface SanitizeHtmlOptions {
+  imageSources: string[]; // URL prefixes, e.g. "https://x.supabase.co/storage/v1/object/public/media/"
+}
+
+// Tags the TipTap editor emits (StarterKit, Link, Image, Table, TextAlign,
+// Highlight, Color, Underline, Subscript/Superscript) and their attributes
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: ['style'],
+  h1: ['style'],
+  h2: ['style'],
+  h3: ['style'],
+  h4: ['style'],
+  h5: ['style'],
+  h6: ['style'],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  u: [],
+  s: [],
+  del: [],
+  sub: [],
+  sup: [],
+  code: ['class'],
+  pre: [],
+  blockquote: [],
+  ul: [],
+  ol: ['start'],
+  li: [],
+  br: [],
+  hr: [],
+  a: ['href', 'target'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  table: [],
+  colgroup: [],
+  col: ['style'],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: ['colspan', 'rowspan', 'colwidth', 'style'],
+  td: ['colspan', 'rowspan', 'colwidth', 'style'],
+  mark: ['data-color', 'style'],
+  span: ['style'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'col']);
+
+// Dropped together with everything inside them
+const DROPPED_WITH_CONTENT = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'noscript',
+  'noembed',
+  'noframes',
+  'template',
+  'textarea',
+  'title',
+  'xmp',
+  'plaintext',
+  'select',
+  'svg',
+  'math',
+]);
+
+const LINK_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+// Inline styles the editor writes (alignment, text color, highlight color)
+const STYLE_PROPERTIES: Record<string, RegExp> = {
+  'text-align': /^(left|center|right|justify)$/,
+  color: /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.%]+(\s*,\s*[\d.%]+){2,3}\s*\)|[a-z]+)$/,
+  'background-color': /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.%]+(\s*,\s*[\d.%]+){2,3}\s*\)|[a-z]+)$/,
+  width: /^\d+(\.\d+)?(px|%)$/,
+  'min-width': /^\d+(\.\d+)?(px|%)$/,
+};
+
+const LINK_REL = 'noopener noreferrer nofollow';
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITY_PATTERN = /&(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+};
+
+/**
+ * Reduce rich text HTML to the tags and attributes the editor produces
+ *
+ * Anything else is removed: unknown tags are unwrapped (their text is kept),
+ * scripts, styles and embeds are dropped with their content, and comments,
+ * doctypes and event handler attributes disappear. Links keep only http(s),
+ * mailto, tel and relative URLs, and images must come from one of
+ * `imageSources`. Unclosed tags are closed, so a save can't break the page
+ * the content is rendered into.
+ */
+export function sanitizeHtml(html: string, options: SanitizeHtmlOptions): string {
+  const output: string[] = [];
+  const open: string[] = [];
+  let position = 0;
+
+  while (position < html.length) {
+    const next = html.indexOf('<', position);
+    if (next === -1) {
+      output.push(escapeText(html.slice(position)));
+      break;
+    }
+    output.push(escapeText(html.slice(position, next)));
+    position = next;
+
+    // Comments, doctypes, CDATA and processing instructions
+    if (html.startsWith('<!--', position)) {
+      const end = html.indexOf('-->', position + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[position + 1] === '!' || html[position + 1] === '?') {
+      const end = html.indexOf('>', position);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = position;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      output.push('&lt;');
+      position++;
+      continue;
+    }
+    position = TAG_PATTERN.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (DROPPED_WITH_CONTENT.has(tag)) {
+      if (!closing) {
+        const end = html.slice(position).search(new RegExp(`</${tag}\\s*>`, 'i'));
+        position = end === -1 ? html.length : html.indexOf('>', position + end) + 1;
+      }
+      continue;
+    }
+
+    if (!(tag in ALLOWED_TAGS)) {
+      continue;
+    }
+
+    if (closing) {
+      const index = open.lastIndexOf(tag);
+      if (index !== -1) {
+        while (open.length > index) {
+          output.push(`</${open.pop()}>`);
+        }
+      }
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag, match[3], options);
+    if (attributes === null) {
+      continue;
+    }
+
+    output.push(`<${tag}${attributes}>`);
+    if (!VOID_TAGS.has(tag)) {
+      open.push(tag);
+    }
+  }
+
+  while (open.length > 0) {
+    output.push(`</${open.pop()}>`);
+  }
+
+  return output.join('');
+}
+
+/**
+ * Allowed attributes of a tag, serialized with a leading space
+ * Returns null when the tag is useless without an attribute that was removed
+ * (an image with no allowed source).
+ */
+function sanitizeAttributes(
+  tag: string,
+  source: string,
+  options: SanitizeHtmlOptions,
+): string | null {
+  const allowed = ALLOWED_TAGS[tag];
+  const attributes = new Map<string, string>();
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name) || attributes.has(name)) {
+      continue;
+    }
+
+    const value = cleanAttribute(
+      name,
+      decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''),
+      options,
+    );
+    if (value !== null) {
+      attributes.set(name, value);
+    }
+  }
+
+  if (tag === 'img' && !attributes.has('src')) {
+    return null;
+  }
+  if (tag === 'a') {
+    attributes.set('rel', LINK_REL);
+  }
+
+  return [...attributes].map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+}
+
+function cleanAttribute(name: string, value: string, options: SanitizeHtmlOptions): string | null {
+  switch (name) {
+    case 'href':
+      return safeLink(value);
+    case 'src':
+      return safeImageSource(value, options.imageSources);
+    case 'target':
+      return value === '_blank' ? value : null;
+    case 'class':
+      return /^language-[\w-]+$/.test(value) ? value : null;
+    case 'style':
+      return safeStyle(value);
+    case 'start':
+    case 'colspan':
+    case 'rowspan':
+    case 'width':
+    case 'height':
+      return /^\d{1,5}$/.test(value) ? value : null;
+    case 'colwidth':
+      return /^\d{1,5}(,\d{1,5})*$/.test(value) ? value : null;
+    case 'data-color':
+      return STYLE_PROPERTIES.color.test(value.toLowerCase()) ? value : null;
+    default:
+      return value;
+  }
+}
+
+/**
+ * The URL when it is relative or uses an allowed scheme
+ * Browsers ignore whitespace and control characters inside a scheme
+ * ("java\tscript:"), so they are stripped before it is checked.
+ */
+function safeLink(value: string): string | null {
+  const url = value.trim();
+  const scheme = url.replace(/[\u0000- \u007f-\u009f]/g, '').match(/^([^/?#]*?):/);
+
+  if (scheme && !LINK_SCHEMES.has(scheme[1].toLowerCase())) {
+    return null;
+  }
+  return url;
+}
+
+function safeImageSource(value: string, imageSources: string[]): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+
+  // URL() resolves "../" segments, so a source can't climb out of its prefix
+  return imageSources.some((prefix) => url.href.startsWith(prefix)) ? url.href : null;
+}
+
+function safeStyle(value: string): string | null {
+  const declarations = value
+    .split(';')
+    .map((declaration) => {
+      const [property, ...rest] = declaration.split(':');
+      return [property.trim().toLowerCase(), rest.join(':').trim().toLowerCase()];
+    })
+    .filter(([property, propertyValue]) => STYLE_PROPERTIES[property]?.test(propertyValue))
+    .map(([property, propertyValue]) => `${property}: ${propertyValue}`);
+
+  return declarations.length > 0 ? declarations.join('; ') : null;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(ENTITY_PATTERN, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Escape text between tags, keeping entities the editor already wrote
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
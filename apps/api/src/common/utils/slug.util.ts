@@ -0,0 +1,33 @@
+/**
+ * Convert a title into a URL-friendly slug
+ * "Rath Yatra 2026: Celebration!" -> "rath-yatra-2026-celebration"
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+}
+
+/**
+ * Generate a slug that doesn't collide with existing records
+ * Appends -2, -3, ... until `exists` reports the slug is free
+ */
+export async function generateUniqueSlug(
+  value: string,
+  exists: (slug: string) => Promise<boolean>,
+): Promise<string> {
+  const base = slugify(value) || 'untitled';
+  let slug = base;
+  let suffix = 2;
+
+  while (await exists(slug)) {
+    slug = `${base}-${suffix}`;
+    suffix++;
+  }
+
+  return slug;
+}
@@ -0,0 +1,191 @@
+import { deflateRawSync } from 'zlib';
+
+export type SpreadsheetCell = string | number | null;
+
+/**
+ * A table to export: one header row, then data rows of the same width
+ */
+export interface SpreadsheetTable {
+  name: string;
+  headers: string[];
+  rows: SpreadsheetCell[][];
+}
+
+/**
+ * CSV (RFC 4180) with CRLF line endings
+ *
+ * Text starting with =, +, - or @ is prefixed with a quote so spreadsheet
+ * apps don't run it as a formula (names and notes are user input).
+ */
+export function toCsv(table: SpreadsheetTable): string {
+  const cell = (value: SpreadsheetCell): string => {
+    if (value === null) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [table.headers, ...table.rows].map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Single-sheet XLSX workbook
+ *
+ * Writes the minimum parts Excel, Numbers and LibreOffice require; strings are
+ * stored inline, so there is no shared string table or styles part.
+ */
+export function toXlsx(table: SpreadsheetTable): Buffer {
+  const sheetName = escapeXml(table.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+  const rows = [table.headers, ...table.rows].map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+
+      if (value === null) {
+        return '';
+      }
+      if (typeof value === 'number') {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const pkgRelNs = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+  return zip({
+    '[Content_Types].xml':
+      xmlHeader +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      xmlHeader +
+      `<Relationships xmlns="${pkgRelNs}">` +
+      `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml':
+      xmlHeader +
+      `<workbook xmlns="${mainNs}" xmlns:r="${relNs}">` +
+      `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      xmlHeader +
+      `<Relationships xmlns="${pkgRelNs}">` +
+      `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      xmlHeader +
+      `<worksheet xmlns="${mainNs}"><sheetData>${rows.join('')}</sheetData></worksheet>`,
+  });
+}
+
+/**
+ * Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+// CRC-32 (IEEE) lookup table for zip entries
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01 in MS-DOS date format; entries carry no real timestamps
+const DOS_EPOCH = 0x21;
+
+/**
+ * Deflated zip archive of in-memory files (no zip64, so under 4 GB)
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const fileName = Buffer.from(name, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    local.writeUInt16LE(20, 4); // Version needed (2.0)
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(0, 10); // Modification time
+    local.writeUInt16LE(DOS_EPOCH, 12); // Modification date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(DOS_EPOCH, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42); // Offset of the local header
+
+    locals.push(local, fileName, compressed);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
@@ -1,13 +1,19 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
 import { json } from 'express';
+import { resolve } from 'path';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     rawBody: true, // Enable raw body parsing for webhook verification
   });
 
+  // Client IPs (audit log) come from X-Forwarded-For only when it was set by a
+  // trusted proxy; otherwise anyone could claim any address
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
   // Enable CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
@@ -38,10 +44,31 @@ async function bootstrap() {
   // API prefix
   app.setGlobalPrefix('api');
 
+  // Serve files stored by the local storage adapter (outside the API prefix)
+  if ((process.env.STORAGE_DRIVER || 'local') === 'local') {
+    app.useStaticAssets(resolve(process.env.STORAGE_LOCAL_DIR || './tmp/uploads'), {
+      prefix: '/uploads/',
+    });
+  }
+
   const port = process.env.PORT || 3001;
   await app.listen(port);
 
   console.log(`🚀 API Server running on: http://localhost:${port}/api`);
 }
 
+/**
+ * TRUST_PROXY as Express expects it: a hop count, true/false, or a list of
+ * addresses and subnets. Unset trusts no proxy.
+ */
+function parseTrustProxy(value?: string): boolean | number | string {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 bootstrap();
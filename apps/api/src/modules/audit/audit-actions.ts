@@ -0,0 +1,20 @@
+/**
+ * Values of AuditLog.action
+ */
+export const AuditAction = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  DEACTIVATE: 'DEACTIVATE',
+  APPROVE: 'APPROVE',
+  REJECT: 'REJECT',
+  STATUS_CHANGE: 'STATUS_CHANGE',
+  ROLE_CHANGE: 'ROLE_CHANGE',
+  ASSIGN_HONORARY: 'ASSIGN_HONORARY',
+  OFFLINE_PAYMENT: 'OFFLINE_PAYMENT',
+  AMOUNT_OVERRIDE: 'AMOUNT_OVERRIDE',
+  REFUND: 'REFUND',
+  RESOLVE: 'RESOLVE',
+  SOFT_DELETE: 'SOFT_DELETE',
+} as const;
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
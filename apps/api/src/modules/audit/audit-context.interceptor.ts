@@ -0,0 +1,32 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { auditContext } from './audit-context';
+
+/**
+ * Runs each HTTP request inside an audit context (actor, IP address, user agent)
+ *
+ * Guards run before interceptors, so request.user is already set on
+ * authenticated routes. The handler is subscribed inside the context, so
+ * services it calls can record audit entries without passing the request down.
+ */
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+
+    const store = {
+      actorId: request.user?.id ?? null,
+      // Resolved by Express from X-Forwarded-For up to the trusted proxies (TRUST_PROXY)
+      ipAddress: request.ip ?? null,
+      userAgent: request.headers['user-agent'] ?? null,
+    };
+
+    return new Observable((subscriber) =>
+      auditContext.run(store, () => next.handle().subscribe(subscriber)),
+    );
+  }
+}
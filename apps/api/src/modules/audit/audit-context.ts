@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who is making the current request, and from where
+ */
+export interface AuditContext {
+  actorId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Request context for audit entries, set per request by AuditContextInterceptor
+ * Empty outside a request (scheduled jobs), which records them as system actions.
+ */
+export const auditContext = new AsyncLocalStorage<AuditContext>();
@@ -0,0 +1,41 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { AuditService } from './audit.service';
+import { AuditLogResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('audit-logs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class AuditLogsController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Search the audit log, newest first (admin only)
+   * GET /api/audit-logs?entityType=Membership&entityId=...&actorId=...&action=APPROVE&from=2026-01-01&to=2026-01-31&skip=0&take=50
+   */
+  @Get()
+  async findAll(
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorId') actorId?: string,
+    @Query('action') action?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<{ logs: AuditLogResponseDto[]; total: number }> {
+    return this.auditService.findAll({
+      entityType,
+      entityId,
+      actorId,
+      action,
+      from,
+      to,
+      skip: skip ? parseInt(skip, 10) : 0,
+      take: take ? parseInt(take, 10) : 50,
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module, forwardRef } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditService } from './audit.service';
+import { AuditLogsController } from './audit-logs.controller';
+import { AuditContextInterceptor } from './audit-context.interceptor';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+
+/**
+ * Global so any service can record audit entries without importing it
+ */
+@Global()
+@Module({
+  imports: [forwardRef(() => AuthModule), forwardRef(() => UsersModule)],
+  controllers: [AuditLogsController],
+  providers: [AuditService, { provide: APP_INTERCEPTOR, useClass: AuditContextInterceptor }],
+  exports: [AuditService],
+})
+export class AuditModule {}
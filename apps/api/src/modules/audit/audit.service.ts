@@ -0,0 +1,160 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuditAction } from './audit-actions';
+import { auditContext } from './audit-context';
+import { AuditLogResponseDto } from './dto';
+
+/**
+ * One audited action
+ *
+ * before/after are the entity's fields around the change: only fields in
+ * both whose value changed are stored. Omit `before` for a creation (all of
+ * `after` is stored) and `after` for a removal.
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: string; // Prisma model name: User, Membership, Payment, ...
+  entityId: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  actorId?: string | null; // Defaults to the user making the request
+}
+
+/**
+ * Records admin and sensitive actions in audit_logs
+ *
+ * Services call record() next to the change, inside the same transaction
+ * when there is one, so the entry commits (or rolls back) with it. The
+ * actor, IP address and user agent come from the request's audit context.
+ */
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Write an audit entry with the fields that changed
+   */
+  async record(entry: AuditEntry, tx?: Prisma.TransactionClient): Promise<void> {
+    const context = auditContext.getStore();
+    const { oldValue, newValue } = this.diff(entry.before, entry.after);
+
+    await (tx ?? this.prisma).auditLog.create({
+      data: {
+        userId: entry.actorId !== undefined ? entry.actorId : (context?.actorId ?? null),
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        oldValue: oldValue ?? undefined,
+        newValue: newValue ?? undefined,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+      },
+    });
+  }
+
+  /**
+   * Search audit entries, newest first
+   */
+  async findAll(params: {
+    entityType?: string;
+    entityId?: string;
+    actorId?: string;
+    action?: string;
+    from?: string;
+    to?: string;
+    skip: number;
+    take: number;
+  }): Promise<{ logs: AuditLogResponseDto[]; total: number }> {
+    const from = this.parseDate(params.from, 'from');
+    const to = this.parseDate(params.to, 'to', true);
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(params.entityType && { entityType: params.entityType }),
+      ...(params.entityId && { entityId: params.entityId }),
+      ...(params.actorId && { userId: params.actorId }),
+      ...(params.action && { action: params.action.toUpperCase() }),
+      ...((from || to) && {
+        createdAt: { ...(from && { gte: from }), ...(to && { lt: to }) },
+      }),
+    };
+
+    const [logs, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        include: { user: { select: { email: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: params.skip,
+        take: Math.min(params.take, 200),
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { logs: logs.map((l) => this.toResponseDto(l)), total };
+  }
+
+  /**
+   * Changed fields before and after, as JSON (dates as ISO strings, decimals as strings)
+   */
+  private diff(
+    before?: Record<string, any> | null,
+    after?: Record<string, any> | null,
+  ): { oldValue: Record<string, any> | null; newValue: Record<string, any> | null } {
+    const oldJson = before ? JSON.parse(JSON.stringify(before)) : null;
+    const newJson = after ? JSON.parse(JSON.stringify(after)) : null;
+
+    if (!oldJson || !newJson) {
+      return { oldValue: oldJson, newValue: newJson };
+    }
+
+    const oldValue: Record<string, any> = {};
+    const newValue: Record<string, any> = {};
+
+    // Fields on one side only (e.g. relations included in one query) are not compared
+    for (const key of Object.keys(oldJson).filter((k) => k in newJson)) {
+      if (JSON.stringify(oldJson[key]) !== JSON.stringify(newJson[key])) {
+        oldValue[key] = oldJson[key];
+        newValue[key] = newJson[key];
+      }
+    }
+
+    return { oldValue, newValue };
+  }
+
+  /**
+   * Parse a date filter; a bare end date (YYYY-MM-DD) includes that whole day
+   */
+  private parseDate(value: string | undefined, name: string, end = false): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO date`);
+    }
+
+    return end && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(date.getTime() + 24 * 60 * 60 * 1000)
+      : date;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(log: any): AuditLogResponseDto {
+    return {
+      id: log.id,
+      actorId: log.userId,
+      actorEmail: log.user?.email ?? null,
+      action: log.action,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      oldValue: log.oldValue,
+      newValue: log.newValue,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+      createdAt: log.createdAt,
+    };
+  }
+}
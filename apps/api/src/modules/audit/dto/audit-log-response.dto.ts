@@ -0,0 +1,16 @@
+/**
+ * Response DTO for an audit log entry
+ */
+export class AuditLogResponseDto {
+  id: string;
+  actorId: string | null; // Null for system actions (scheduled jobs)
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  oldValue: Record<string, any> | null; // Changed fields only, before
+  newValue: Record<string, any> | null; // Changed fields only, after
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
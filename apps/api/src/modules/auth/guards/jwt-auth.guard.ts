@@ -54,7 +54,7 @@ export class JwtAuthGuard implements CanActivate {
     return true;
   }
 
-  private extractToken(request: any): string | null {
+  protected extractToken(request: any): string | null {
     const authHeader = request.headers.authorization;
 
     if (!authHeader) {
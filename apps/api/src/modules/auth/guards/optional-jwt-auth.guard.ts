@@ -0,0 +1,20 @@
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+/**
+ * Authenticates the request when a Bearer token is present,
+ * but lets anonymous requests through with request.user undefined.
+ * Used by public endpoints that reveal extra data to signed-in users.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends JwtAuthGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+
+    if (!this.extractToken(request)) {
+      return true;
+    }
+
+    return super.canActivate(context);
+  }
+}
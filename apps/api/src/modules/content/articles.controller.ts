@@ -0,0 +1,253 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ArticlesService } from './articles.service';
+import {
+  ArticleStatus,
+  CreateArticleDto,
+  UpdateArticleDto,
+  PublishArticleDto,
+  RejectArticleDto,
+  ArticleResponseDto,
+} from './dto';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('articles')
+export class ArticlesController {
+  constructor(private readonly articlesService: ArticlesService) {}
+
+  /**
+   * List published articles, newest first (public endpoint)
+   * GET /api/articles?skip=0&take=10
+   */
+  @Get()
+  async getArticles(
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<{ articles: ArticleResponseDto[]; total: number }> {
+    return this.articlesService.findPublished({
+      skip: skip ? parseInt(skip, 10) : 0,
+      take: take ? parseInt(take, 10) : 10,
+    });
+  }
+
+  /**
+   * List articles to edit or review: own articles, or all for admins (contributor+)
+   * GET /api/articles/manage?status=IN_REVIEW&skip=0&take=20
+   */
+  @Get('manage')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getManageableArticles(
+    @CurrentUser() user: any,
+    @Query('status', new ParseEnumPipe(ArticleStatus, { optional: true }))
+    status?: ArticleStatus,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<{ articles: ArticleResponseDto[]; total: number }> {
+    return this.articlesService.findManageable(user, {
+      status,
+      skip: skip ? parseInt(skip, 10) : 0,
+      take: take ? parseInt(take, 10) : 20,
+    });
+  }
+
+  /**
+   * Get article by slug (public endpoint)
+   * GET /api/articles/:slug
+   */
+  @Get(':slug')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getArticleBySlug(
+    @Param('slug') slug: string,
+    @CurrentUser() user?: any,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.findBySlug(slug, user);
+  }
+
+  /**
+   * Create a new draft article (contributor+)
+   * POST /api/articles
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async createArticle(
+    @CurrentUser() user: any,
+    @Body() dto: CreateArticleDto,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.create(user.id, dto);
+  }
+
+  /**
+   * Update an article (author or admin)
+   * PUT /api/articles/:id
+   */
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async updateArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdateArticleDto,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.update(id, user, dto);
+  }
+
+  /**
+   * Delete an article (author or admin)
+   * DELETE /api/articles/:id
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async deleteArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    return this.articlesService.remove(id, user);
+  }
+
+  /**
+   * Submit a draft article for review (author or admin)
+   * POST /api/articles/:id/submit
+   */
+  @Post(':id/submit')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async submitArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.submit(id, user);
+  }
+
+  /**
+   * Publish an article now or schedule it (admin only)
+   * POST /api/articles/:id/publish
+   */
+  @Post(':id/publish')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async publishArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: PublishArticleDto,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.publish(id, user.id, dto);
+  }
+
+  /**
+   * Send an article in review back to draft with a note (admin only)
+   * POST /api/articles/:id/reject
+   */
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async rejectArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: RejectArticleDto,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.reject(id, user.id, dto.reason);
+  }
+
+  /**
+   * Archive a published article (admin only)
+   * POST /api/articles/:id/archive
+   */
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async archiveArticle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.archive(id, user.id);
+  }
+
+  /**
+   * List an article's revisions, newest first (author or admin)
+   * GET /api/articles/:id/revisions
+   */
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getArticleRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto[]> {
+    return this.articlesService.listRevisions(id, user);
+  }
+
+  /**
+   * Compare two revisions of an article (author or admin)
+   * GET /api/articles/:id/revisions/diff?from=1&to=3
+   */
+  @Get(':id/revisions/diff')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async diffArticleRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+    @CurrentUser() user: any,
+  ): Promise<RevisionDiffResponseDto> {
+    return this.articlesService.diffRevisions(id, from, to, user);
+  }
+
+  /**
+   * Get one revision of an article with its content (author or admin)
+   * GET /api/articles/:id/revisions/:version
+   */
+  @Get(':id/revisions/:version')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getArticleRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto> {
+    return this.articlesService.getRevision(id, version, user);
+  }
+
+  /**
+   * Restore an old revision of an article as a new revision (author or admin)
+   * POST /api/articles/:id/revisions/:version/restore
+   */
+  @Post(':id/revisions/:version/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async restoreArticleRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<ArticleResponseDto> {
+    return this.articlesService.restoreRevision(id, version, user);
+  }
+}
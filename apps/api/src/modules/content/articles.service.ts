@@ -0,0 +1,595 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { Article, Prisma, RevisionEntity, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+import { RevisionsService } from '../revisions/revisions.service';
+import { HtmlSanitizerService } from '../sanitizer/html-sanitizer.service';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+import {
+  ArticleStatus,
+  CreateArticleDto,
+  UpdateArticleDto,
+  PublishArticleDto,
+  ArticleResponseDto,
+} from './dto';
+import { generateUniqueSlug } from '../../common/utils/slug.util';
+
+/**
+ * Minimal shape of the authenticated user needed for permission checks
+ */
+interface ArticleActor {
+  id: string;
+  role: UserRole;
+}
+
+const articleInclude = {
+  author: { include: { profile: true } },
+} satisfies Prisma.ArticleInclude;
+
+// Statuses a contributor can still edit or delete; published content is admin-only
+const AUTHOR_EDITABLE_STATUSES: string[] = [ArticleStatus.DRAFT, ArticleStatus.IN_REVIEW];
+
+/**
+ * News articles with an editorial workflow
+ *
+ * Contributors write DRAFT articles and submit them (IN_REVIEW). Admins
+ * publish them, now or at a future publishedAt, or send them back to DRAFT
+ * with a review note. A PUBLISHED article is public once its publishedAt has
+ * passed, so scheduling needs no job. Admins archive articles to take them
+ * down without losing them.
+ */
+@Injectable()
+export class ArticlesService {
+  private readonly logger = new Logger(ArticlesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private revisionsService: RevisionsService,
+    private htmlSanitizer: HtmlSanitizerService,
+  ) {}
+
+  /**
+   * List live articles, newest first (public)
+   */
+  async findPublished(params: {
+    skip?: number;
+    take?: number;
+  }): Promise<{ articles: ArticleResponseDto[]; total: number }> {
+    const { skip = 0, take = 10 } = params;
+
+    const where: Prisma.ArticleWhereInput = {
+      status: ArticleStatus.PUBLISHED,
+      isActive: true,
+      publishedAt: { lte: new Date() },
+    };
+
+    const [articles, total] = await Promise.all([
+      this.prisma.article.findMany({
+        where,
+        skip,
+        take,
+        include: articleInclude,
+        orderBy: { publishedAt: 'desc' },
+      }),
+      this.prisma.article.count({ where }),
+    ]);
+
+    return {
+      articles: articles.map((a) => this.toResponseDto(a, { includeContent: false })),
+      total,
+    };
+  }
+
+  /**
+   * List articles for editing: the actor's own, or all of them for an admin
+   * Most recently updated first; filter by status for the review queue.
+   */
+  async findManageable(
+    actor: ArticleActor,
+    params: { status?: ArticleStatus; skip?: number; take?: number },
+  ): Promise<{ articles: ArticleResponseDto[]; total: number }> {
+    const { status, skip = 0, take = 20 } = params;
+
+    const where: Prisma.ArticleWhereInput = {
+      isActive: true,
+      ...(actor.role !== UserRole.ADMIN && { authorId: actor.id }),
+      ...(status && { status }),
+    };
+
+    const [articles, total] = await Promise.all([
+      this.prisma.article.findMany({
+        where,
+        skip,
+        take,
+        include: articleInclude,
+        orderBy: { updatedAt: 'desc' },
+      }),
+      this.prisma.article.count({ where }),
+    ]);
+
+    return {
+      articles: articles.map((a) =>
+        this.toResponseDto(a, { includeContent: false, includeReview: true }),
+      ),
+      total,
+    };
+  }
+
+  /**
+   * Get article by slug (public)
+   * Articles that aren't live yet are only visible to their author or an admin.
+   */
+  async findBySlug(slug: string, viewer?: ArticleActor): Promise<ArticleResponseDto> {
+    const article = await this.prisma.article.findUnique({
+      where: { slug },
+      include: articleInclude,
+    });
+
+    if (!article || !article.isActive) {
+      throw new NotFoundException('Article not found');
+    }
+
+    const canManage = viewer ? this.canManage(article, viewer) : false;
+
+    if (!this.isLive(article) && !canManage) {
+      throw new NotFoundException('Article not found');
+    }
+
+    return this.toResponseDto(article, { includeContent: true, includeReview: canManage });
+  }
+
+  /**
+   * Create a new article in DRAFT status (CONTRIBUTOR+)
+   */
+  async create(userId: string, dto: CreateArticleDto): Promise<ArticleResponseDto> {
+    let slug: string;
+    if (dto.slug) {
+      await this.assertSlugAvailable(dto.slug);
+      slug = dto.slug;
+    } else {
+      slug = await generateUniqueSlug(dto.title, (candidate) => this.slugExists(candidate));
+    }
+
+    const article = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.article.create({
+        data: {
+          title: dto.title,
+          slug,
+          excerpt: dto.excerpt,
+          content: this.htmlSanitizer.sanitize(dto.content),
+          featuredImage: dto.featuredImage,
+          metaTitle: dto.metaTitle,
+          metaDescription: dto.metaDescription,
+          status: ArticleStatus.DRAFT,
+          authorId: userId,
+        },
+        include: articleInclude,
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.ARTICLE,
+          entityId: created.id,
+          saved: created,
+          authorId: userId,
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    this.logger.log(`User ${userId} created article ${article.id} (${article.slug})`);
+
+    return this.toResponseDto(article, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Update article details (author or ADMIN)
+   * Authors can edit drafts and articles in review; published and archived
+   * articles are edited by admins only.
+   */
+  async update(
+    articleId: string,
+    actor: ArticleActor,
+    dto: UpdateArticleDto,
+  ): Promise<ArticleResponseDto> {
+    const article = await this.findEditable(articleId, actor);
+
+    if (dto.slug && dto.slug !== article.slug) {
+      await this.assertSlugAvailable(dto.slug);
+    }
+
+    const updated = await this.save(article, actor.id, {
+      ...(dto.title !== undefined && { title: dto.title }),
+      ...(dto.slug !== undefined && { slug: dto.slug }),
+      ...(dto.excerpt !== undefined && { excerpt: dto.excerpt }),
+      ...(dto.content !== undefined && { content: this.htmlSanitizer.sanitize(dto.content) }),
+      ...(dto.featuredImage !== undefined && { featuredImage: dto.featuredImage }),
+      ...(dto.metaTitle !== undefined && { metaTitle: dto.metaTitle }),
+      ...(dto.metaDescription !== undefined && { metaDescription: dto.metaDescription }),
+    });
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * List an article's revisions (author or ADMIN)
+   */
+  async listRevisions(articleId: string, actor: ArticleActor): Promise<RevisionResponseDto[]> {
+    await this.findOwned(articleId, actor);
+    return this.revisionsService.findAll(RevisionEntity.ARTICLE, articleId);
+  }
+
+  /**
+   * Get one revision of an article with its content (author or ADMIN)
+   */
+  async getRevision(
+    articleId: string,
+    version: number,
+    actor: ArticleActor,
+  ): Promise<RevisionResponseDto> {
+    await this.findOwned(articleId, actor);
+    return this.revisionsService.findOne(RevisionEntity.ARTICLE, articleId, version);
+  }
+
+  /**
+   * Compare two revisions of an article (author or ADMIN)
+   */
+  async diffRevisions(
+    articleId: string,
+    from: number,
+    to: number,
+    actor: ArticleActor,
+  ): Promise<RevisionDiffResponseDto> {
+    await this.findOwned(articleId, actor);
+    return this.revisionsService.diff(RevisionEntity.ARTICLE, articleId, from, to);
+  }
+
+  /**
+   * Copy an old revision back onto the article as a new revision
+   * Same rules as editing: authors can restore drafts and articles in review.
+   */
+  async restoreRevision(
+    articleId: string,
+    version: number,
+    actor: ArticleActor,
+  ): Promise<ArticleResponseDto> {
+    const article = await this.findEditable(articleId, actor);
+    const data = await this.revisionsService.getRestoreData(
+      RevisionEntity.ARTICLE,
+      articleId,
+      version,
+    );
+
+    // Revisions from before sanitization may hold HTML the editor wouldn't write
+    const updated = await this.save(
+      article,
+      actor.id,
+      { ...data, content: this.htmlSanitizer.sanitize(data.content) },
+      version,
+    );
+
+    this.logger.log(`User ${actor.id} restored article ${articleId} to revision ${version}`);
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Submit a draft for review (author or ADMIN)
+   */
+  async submit(articleId: string, actor: ArticleActor): Promise<ArticleResponseDto> {
+    const article = await this.findOwned(articleId, actor);
+
+    if (article.status !== ArticleStatus.DRAFT) {
+      throw new BadRequestException('Only draft articles can be submitted for review');
+    }
+
+    const updated = await this.prisma.article.update({
+      where: { id: articleId },
+      data: {
+        status: ArticleStatus.IN_REVIEW,
+        submittedAt: new Date(),
+        reviewNote: null,
+      },
+      include: articleInclude,
+    });
+
+    this.logger.log(`User ${actor.id} submitted article ${articleId} for review`);
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Publish an article now or at a future publishedAt (admin only)
+   * Also reschedules a published article that isn't live yet, and brings
+   * back an archived one.
+   */
+  async publish(
+    articleId: string,
+    adminId: string,
+    dto: PublishArticleDto,
+  ): Promise<ArticleResponseDto> {
+    const article = await this.findActive(articleId);
+
+    if (article.status === ArticleStatus.PUBLISHED && this.isLive(article)) {
+      throw new BadRequestException('Article is already published');
+    }
+
+    const publishedAt = dto.publishedAt ? new Date(dto.publishedAt) : new Date();
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const published = await tx.article.update({
+        where: { id: articleId },
+        data: {
+          status: ArticleStatus.PUBLISHED,
+          publishedAt,
+          reviewNote: null,
+        },
+        include: articleInclude,
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.APPROVE,
+          entityType: 'Article',
+          entityId: articleId,
+          before: { status: article.status, publishedAt: article.publishedAt },
+          after: { status: published.status, publishedAt: published.publishedAt },
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      return published;
+    });
+
+    this.logger.log(
+      `Admin ${adminId} ${publishedAt > new Date() ? `scheduled article ${articleId} for ${publishedAt.toISOString()}` : `published article ${articleId}`}`,
+    );
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Send an article in review back to its author as a DRAFT (admin only)
+   */
+  async reject(articleId: string, adminId: string, reason: string): Promise<ArticleResponseDto> {
+    const article = await this.findActive(articleId);
+
+    if (article.status !== ArticleStatus.IN_REVIEW) {
+      throw new BadRequestException('Only articles in review can be rejected');
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const rejected = await tx.article.update({
+        where: { id: articleId },
+        data: { status: ArticleStatus.DRAFT, reviewNote: reason },
+        include: articleInclude,
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.REJECT,
+          entityType: 'Article',
+          entityId: articleId,
+          before: { status: article.status, reviewNote: article.reviewNote },
+          after: { status: rejected.status, reviewNote: rejected.reviewNote },
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      return rejected;
+    });
+
+    this.logger.log(`Admin ${adminId} sent article ${articleId} back to draft`);
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Take a published article down, keeping it for later (admin only)
+   */
+  async archive(articleId: string, adminId: string): Promise<ArticleResponseDto> {
+    const article = await this.findActive(articleId);
+
+    if (article.status !== ArticleStatus.PUBLISHED) {
+      throw new BadRequestException('Only published articles can be archived');
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const archived = await tx.article.update({
+        where: { id: articleId },
+        data: { status: ArticleStatus.ARCHIVED },
+        include: articleInclude,
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.STATUS_CHANGE,
+          entityType: 'Article',
+          entityId: articleId,
+          before: { status: article.status },
+          after: { status: archived.status },
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      return archived;
+    });
+
+    this.logger.log(`Admin ${adminId} archived article ${articleId}`);
+
+    return this.toResponseDto(updated, { includeContent: true, includeReview: true });
+  }
+
+  /**
+   * Deactivate an article (author or ADMIN, same rules as editing)
+   */
+  async remove(articleId: string, actor: ArticleActor): Promise<{ message: string }> {
+    await this.findEditable(articleId, actor);
+
+    await this.prisma.article.update({
+      where: { id: articleId },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`User ${actor.id} deleted article ${articleId}`);
+
+    return { message: 'Article deleted' };
+  }
+
+  /**
+   * Update an article and record the save as a revision
+   */
+  private async save(
+    article: Article,
+    actorId: string,
+    data: Prisma.ArticleUpdateInput,
+    restoredFromVersion?: number,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.article.update({
+        where: { id: article.id },
+        data,
+        include: articleInclude,
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.ARTICLE,
+          entityId: article.id,
+          saved: updated,
+          authorId: actorId,
+          previous: { entity: article, authorId: article.authorId },
+          restoredFromVersion,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  private async findActive(articleId: string) {
+    const article = await this.prisma.article.findUnique({
+      where: { id: articleId },
+    });
+
+    if (!article || !article.isActive) {
+      throw new NotFoundException('Article not found');
+    }
+
+    return article;
+  }
+
+  /**
+   * Load an article and verify the actor is its author or an admin
+   */
+  private async findOwned(articleId: string, actor: ArticleActor) {
+    const article = await this.findActive(articleId);
+
+    if (!this.canManage(article, actor)) {
+      throw new ForbiddenException('You can only manage articles you wrote');
+    }
+
+    return article;
+  }
+
+  /**
+   * Load an article and verify the actor may still change it
+   */
+  private async findEditable(articleId: string, actor: ArticleActor) {
+    const article = await this.findOwned(articleId, actor);
+
+    if (actor.role !== UserRole.ADMIN && !AUTHOR_EDITABLE_STATUSES.includes(article.status)) {
+      throw new ForbiddenException(
+        `Only admins can change ${article.status.toLowerCase()} articles`,
+      );
+    }
+
+    return article;
+  }
+
+  /**
+   * Authors and admins can manage an article
+   */
+  private canManage(article: { authorId: string }, actor: ArticleActor): boolean {
+    return actor.role === UserRole.ADMIN || article.authorId === actor.id;
+  }
+
+  /**
+   * Published with a publishedAt that has passed
+   */
+  private isLive(article: { status: string; publishedAt: Date | null }): boolean {
+    return (
+      article.status === ArticleStatus.PUBLISHED &&
+      article.publishedAt !== null &&
+      article.publishedAt <= new Date()
+    );
+  }
+
+  private async slugExists(slug: string): Promise<boolean> {
+    const existing = await this.prisma.article.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    return !!existing;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.slugExists(slug)) {
+      throw new ConflictException(`An article with slug '${slug}' already exists`);
+    }
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(
+    article: any,
+    options: { includeContent: boolean; includeReview?: boolean },
+  ): ArticleResponseDto {
+    return {
+      id: article.id,
+      title: article.title,
+      slug: article.slug,
+      excerpt: article.excerpt,
+      ...(options.includeContent && { content: article.content }),
+      featuredImage: article.featuredImage,
+      status: article.status as ArticleStatus,
+      publishedAt: article.publishedAt,
+      metaTitle: article.metaTitle,
+      metaDescription: article.metaDescription,
+      authorId: article.authorId,
+      createdAt: article.createdAt,
+      updatedAt: article.updatedAt,
+      ...(options.includeReview && {
+        submittedAt: article.submittedAt,
+        reviewNote: article.reviewNote,
+      }),
+      author: article.author
+        ? {
+            id: article.author.id,
+            profile: article.author.profile
+              ? {
+                  firstName: article.author.profile.firstName,
+                  lastName: article.author.profile.lastName,
+                }
+              : undefined,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ArticlesController } from './articles.controller';
+import { ArticlesService } from './articles.service';
+import { PagesController } from './pages.controller';
+import { PagesService } from './pages.service';
+import { NavigationController } from './navigation.controller';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [PrismaModule, forwardRef(() => AuthModule), forwardRef(() => UsersModule)],
+  controllers: [ArticlesController, PagesController, NavigationController],
+  providers: [ArticlesService, PagesService],
+  exports: [ArticlesService, PagesService],
+})
+export class ContentModule {}
@@ -0,0 +1,35 @@
+import { ArticleStatus } from './article-status.enum';
+
+/**
+ * Response DTO for article data
+ * content is omitted from lists; reviewNote and submittedAt only reach the
+ * author and admins
+ */
+export class ArticleResponseDto {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content?: string;
+  featuredImage: string | null;
+  status: ArticleStatus;
+  publishedAt: Date | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  authorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Editorial review
+  submittedAt?: Date | null;
+  reviewNote?: string | null;
+
+  // Related data
+  author?: {
+    id: string;
+    profile?: {
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Article editorial states
+ * Stored as a plain string column on Article (see prisma/schema.prisma)
+ */
+export enum ArticleStatus {
+  DRAFT = 'DRAFT',
+  IN_REVIEW = 'IN_REVIEW',
+  PUBLISHED = 'PUBLISHED',
+  ARCHIVED = 'ARCHIVED',
+}
@@ -0,0 +1,49 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUrl,
+  Length,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+/**
+ * DTO for creating a new article
+ * Articles are always created as DRAFT and go through review to be published
+ */
+export class CreateArticleDto {
+  @IsString()
+  @Length(1, 200)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'slug may only contain lowercase letters, numbers and hyphens',
+  })
+  slug?: string; // Auto-generated from title if not provided
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  excerpt?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  content: string; // TipTap HTML
+
+  @IsUrl()
+  @IsOptional()
+  featuredImage?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(60)
+  metaTitle?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(160)
+  metaDescription?: string;
+}
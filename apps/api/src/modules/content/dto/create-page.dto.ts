@@ -0,0 +1,59 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsUUID,
+  Length,
+  MaxLength,
+  Matches,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO for creating a static page
+ */
+export class CreatePageDto {
+  @IsString()
+  @Length(1, 200)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'slug may only contain lowercase letters, numbers and hyphens',
+  })
+  slug?: string; // Auto-generated from title if not provided
+
+  @IsString()
+  @IsNotEmpty()
+  content: string; // TipTap HTML
+
+  @IsBoolean()
+  @IsOptional()
+  showInNav?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  navOrder?: number;
+
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null; // null moves the page to the top level
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(60)
+  metaTitle?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(160)
+  metaDescription?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isPublished?: boolean; // Defaults to false: new pages start unpublished
+}
@@ -0,0 +1,10 @@
+export * from './article-status.enum';
+export * from './create-article.dto';
+export * from './update-article.dto';
+export * from './publish-article.dto';
+export * from './reject-article.dto';
+export * from './article-response.dto';
+export * from './create-page.dto';
+export * from './update-page.dto';
+export * from './reorder-navigation.dto';
+export * from './page-response.dto';
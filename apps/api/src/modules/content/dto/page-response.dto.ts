@@ -0,0 +1,29 @@
+/**
+ * Response DTO for static page data
+ * content is omitted from the admin list
+ */
+export class PageResponseDto {
+  id: string;
+  title: string;
+  slug: string;
+  content?: string;
+  showInNav: boolean;
+  navOrder: number;
+  parentId: string | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  isPublished: boolean;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One entry of the public navigation menu
+ */
+export class NavigationItemResponseDto {
+  id: string;
+  title: string;
+  slug: string;
+  children: NavigationItemResponseDto[];
+}
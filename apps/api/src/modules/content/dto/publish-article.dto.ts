@@ -0,0 +1,10 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+/**
+ * DTO for publishing an article (admin only)
+ */
+export class PublishArticleDto {
+  @IsDateString()
+  @IsOptional()
+  publishedAt?: string; // Schedule for a future time; defaults to now
+}
@@ -0,0 +1,11 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+/**
+ * DTO for sending an article in review back to its author
+ */
+export class RejectArticleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  reason: string; // Shown to the author as the article's reviewNote
+}
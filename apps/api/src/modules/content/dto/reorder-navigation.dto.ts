@@ -0,0 +1,38 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * New position of one page in the navigation tree
+ */
+export class NavigationPositionDto {
+  @IsUUID()
+  id: string;
+
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null; // null or omitted = top level
+
+  @IsInt()
+  @Min(0)
+  navOrder: number;
+}
+
+/**
+ * DTO for moving and reordering pages in one go (admin only)
+ * Pages not listed keep their position.
+ */
+export class ReorderNavigationDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => NavigationPositionDto)
+  pages: NavigationPositionDto[];
+}
@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateArticleDto } from './create-article.dto';
+
+/**
+ * DTO for updating article details
+ * Status changes go through the submit/publish/reject/archive endpoints instead
+ */
+export class UpdateArticleDto extends PartialType(CreateArticleDto) {}
@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreatePageDto } from './create-page.dto';
+
+/**
+ * DTO for updating a static page
+ */
+export class UpdatePageDto extends PartialType(CreatePageDto) {}
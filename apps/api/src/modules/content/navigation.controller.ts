@@ -0,0 +1,32 @@
+import { Controller, Get, Put, Body, UseGuards } from '@nestjs/common';
+import { PagesService } from './pages.service';
+import { ReorderNavigationDto, NavigationItemResponseDto, PageResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('navigation')
+export class NavigationController {
+  constructor(private readonly pagesService: PagesService) {}
+
+  /**
+   * Get the site menu as a tree of published pages (public endpoint)
+   * GET /api/navigation
+   */
+  @Get()
+  async getNavigation(): Promise<NavigationItemResponseDto[]> {
+    return this.pagesService.getNavigation();
+  }
+
+  /**
+   * Move and reorder pages in bulk (admin only)
+   * PUT /api/navigation
+   */
+  @Put()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async reorderNavigation(@Body() dto: ReorderNavigationDto): Promise<PageResponseDto[]> {
+    return this.pagesService.reorder(dto);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * A page's place in the navigation tree
+ */
+export interface PageTreeEntry {
+  id: string;
+  parentId: string | null;
+  navOrder: number;
+}
+
+export type PageTreeNode<T extends PageTreeEntry> = T & { children: PageTreeNode<T>[] };
+
+/**
+ * Find a page whose ancestors loop back to it
+ * `parents` maps every page id to its parent id. Returns the id of a page
+ * on a cycle, or null when the pages form a tree.
+ */
+export function findCycle(parents: Map<string, string | null>): string | null {
+  const acyclic = new Set<string>();
+
+  for (const start of parents.keys()) {
+    const path = new Set<string>();
+    let current: string | null = start;
+
+    while (current && !acyclic.has(current)) {
+      if (path.has(current)) {
+        return current;
+      }
+      path.add(current);
+      current = parents.get(current) ?? null;
+    }
+
+    path.forEach((id) => acyclic.add(id));
+  }
+
+  return null;
+}
+
+/**
+ * Nest pages under their parents, each level sorted by navOrder
+ * Pages whose parent isn't in the list are left out with their subtree, so a
+ * hidden page hides its children. Pages on a cycle are unreachable from the
+ * top level and left out too.
+ */
+export function buildPageTree<T extends PageTreeEntry>(pages: T[]): PageTreeNode<T>[] {
+  const byParent = new Map<string | null, T[]>();
+  for (const page of pages) {
+    const siblings = byParent.get(page.parentId) ?? [];
+    siblings.push(page);
+    byParent.set(page.parentId, siblings);
+  }
+
+  const build = (parentId: string | null): PageTreeNode<T>[] =>
+    (byParent.get(parentId) ?? [])
+      .sort((a, b) => a.navOrder - b.navOrder)
+      .map((page) => ({ ...page, children: build(page.id) }));
+
+  return build(null);
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { PagesService } from './pages.service';
+import { CreatePageDto, UpdatePageDto, PageResponseDto } from './dto';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('pages')
+export class PagesController {
+  constructor(private readonly pagesService: PagesService) {}
+
+  /**
+   * List all pages, published or not (admin only)
+   * GET /api/pages
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPages(): Promise<PageResponseDto[]> {
+    return this.pagesService.findAll();
+  }
+
+  /**
+   * Get a published page by slug (public endpoint; admins can preview unpublished pages)
+   * GET /api/pages/:slug
+   */
+  @Get(':slug')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getPageBySlug(
+    @Param('slug') slug: string,
+    @CurrentUser() user?: any,
+  ): Promise<PageResponseDto> {
+    return this.pagesService.findBySlug(slug, user);
+  }
+
+  /**
+   * Create a page (admin only)
+   * POST /api/pages
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async createPage(@CurrentUser() user: any, @Body() dto: CreatePageDto): Promise<PageResponseDto> {
+    return this.pagesService.create(user.id, dto);
+  }
+
+  /**
+   * Update a page or move it in the navigation tree (admin only)
+   * PUT /api/pages/:id
+   */
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async updatePage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdatePageDto,
+  ): Promise<PageResponseDto> {
+    return this.pagesService.update(id, user.id, dto);
+  }
+
+  /**
+   * Delete a page; its children move up a level (admin only)
+   * DELETE /api/pages/:id
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async deletePage(@Param('id', ParseUUIDPipe) id: string): Promise<{ message: string }> {
+    return this.pagesService.remove(id);
+  }
+
+  /**
+   * List a page's revisions, newest first (admin only)
+   * GET /api/pages/:id/revisions
+   */
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPageRevisions(@Param('id', ParseUUIDPipe) id: string): Promise<RevisionResponseDto[]> {
+    return this.pagesService.listRevisions(id);
+  }
+
+  /**
+   * Compare two revisions of a page (admin only)
+   * GET /api/pages/:id/revisions/diff?from=1&to=3
+   */
+  @Get(':id/revisions/diff')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async diffPageRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+  ): Promise<RevisionDiffResponseDto> {
+    return this.pagesService.diffRevisions(id, from, to);
+  }
+
+  /**
+   * Get one revision of a page with its content (admin only)
+   * GET /api/pages/:id/revisions/:version
+   */
+  @Get(':id/revisions/:version')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPageRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<RevisionResponseDto> {
+    return this.pagesService.getRevision(id, version);
+  }
+
+  /**
+   * Restore an old revision of a page as a new revision (admin only)
+   * POST /api/pages/:id/revisions/:version/restore
+   */
+  @Post(':id/revisions/:version/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async restorePageRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<PageResponseDto> {
+    return this.pagesService.restoreRevision(id, version, user.id);
+  }
+}
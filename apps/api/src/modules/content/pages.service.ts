@@ -0,0 +1,378 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma, RevisionEntity, StaticPage, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RevisionsService } from '../revisions/revisions.service';
+import { HtmlSanitizerService } from '../sanitizer/html-sanitizer.service';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+import {
+  CreatePageDto,
+  UpdatePageDto,
+  ReorderNavigationDto,
+  PageResponseDto,
+  NavigationItemResponseDto,
+} from './dto';
+import { PageTreeNode, buildPageTree, findCycle } from './page-tree';
+import { generateUniqueSlug } from '../../common/utils/slug.util';
+
+/**
+ * Static CMS pages ("about", "contact", ...) and the navigation menu
+ *
+ * Pages form a tree through parentId. The public menu is the published pages
+ * with showInNav, nested under their parents and sorted by navOrder; moves
+ * that would make a page its own ancestor are rejected. Unpublished pages
+ * are visible to admins only, as a preview.
+ */
+@Injectable()
+export class PagesService {
+  private readonly logger = new Logger(PagesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private revisionsService: RevisionsService,
+    private htmlSanitizer: HtmlSanitizerService,
+  ) {}
+
+  /**
+   * List all pages for the CMS, in menu order (admin only)
+   */
+  async findAll(): Promise<PageResponseDto[]> {
+    const pages = await this.prisma.staticPage.findMany({
+      omit: { content: true },
+      orderBy: [{ navOrder: 'asc' }, { title: 'asc' }],
+    });
+
+    return pages.map((page) => this.toResponseDto(page));
+  }
+
+  /**
+   * Get a page by slug (public)
+   * Unpublished pages are only visible to admins, for preview.
+   */
+  async findBySlug(slug: string, viewer?: { role: UserRole }): Promise<PageResponseDto> {
+    const page = await this.prisma.staticPage.findUnique({
+      where: { slug },
+    });
+
+    if (!page || (!page.isPublished && viewer?.role !== UserRole.ADMIN)) {
+      throw new NotFoundException('Page not found');
+    }
+
+    return this.toResponseDto(page);
+  }
+
+  /**
+   * Published pages shown in the menu, nested under their parents (public)
+   * A page left out of the menu takes its children with it.
+   */
+  async getNavigation(): Promise<NavigationItemResponseDto[]> {
+    const pages = await this.prisma.staticPage.findMany({
+      where: { showInNav: true, isPublished: true },
+      select: { id: true, title: true, slug: true, parentId: true, navOrder: true },
+    });
+
+    const toItem = (node: PageTreeNode<(typeof pages)[number]>): NavigationItemResponseDto => ({
+      id: node.id,
+      title: node.title,
+      slug: node.slug,
+      children: node.children.map(toItem),
+    });
+
+    return buildPageTree(pages).map(toItem);
+  }
+
+  /**
+   * Create a page (admin only)
+   */
+  async create(adminId: string, dto: CreatePageDto): Promise<PageResponseDto> {
+    if (dto.parentId) {
+      await this.findPage(dto.parentId, 'Parent page not found');
+    }
+
+    let slug: string;
+    if (dto.slug) {
+      await this.assertSlugAvailable(dto.slug);
+      slug = dto.slug;
+    } else {
+      slug = await generateUniqueSlug(dto.title, (candidate) => this.slugExists(candidate));
+    }
+
+    const page = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.staticPage.create({
+        data: {
+          title: dto.title,
+          slug,
+          content: this.htmlSanitizer.sanitize(dto.content),
+          showInNav: dto.showInNav ?? false,
+          navOrder: dto.navOrder ?? 0,
+          parentId: dto.parentId ?? null,
+          metaTitle: dto.metaTitle,
+          metaDescription: dto.metaDescription,
+          isPublished: dto.isPublished ?? false,
+          createdById: adminId,
+        },
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.STATIC_PAGE,
+          entityId: created.id,
+          saved: created,
+          authorId: adminId,
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    this.logger.log(`Admin ${adminId} created page ${page.id} (${page.slug})`);
+
+    return this.toResponseDto(page);
+  }
+
+  /**
+   * Update a page, including moving it in the tree (admin only)
+   */
+  async update(pageId: string, adminId: string, dto: UpdatePageDto): Promise<PageResponseDto> {
+    const page = await this.findPage(pageId);
+
+    if (dto.slug && dto.slug !== page.slug) {
+      await this.assertSlugAvailable(dto.slug);
+    }
+
+    if (dto.parentId !== undefined && dto.parentId !== page.parentId) {
+      await this.assertValidMoves([{ id: pageId, parentId: dto.parentId ?? null }]);
+    }
+
+    const updated = await this.save(page, adminId, {
+      ...(dto.title !== undefined && { title: dto.title }),
+      ...(dto.slug !== undefined && { slug: dto.slug }),
+      ...(dto.content !== undefined && { content: this.htmlSanitizer.sanitize(dto.content) }),
+      ...(dto.showInNav !== undefined && { showInNav: dto.showInNav }),
+      ...(dto.navOrder !== undefined && { navOrder: dto.navOrder }),
+      ...(dto.parentId !== undefined && { parentId: dto.parentId ?? null }),
+      ...(dto.metaTitle !== undefined && { metaTitle: dto.metaTitle }),
+      ...(dto.metaDescription !== undefined && { metaDescription: dto.metaDescription }),
+      ...(dto.isPublished !== undefined && { isPublished: dto.isPublished }),
+    });
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * List a page's revisions (admin only)
+   */
+  async listRevisions(pageId: string): Promise<RevisionResponseDto[]> {
+    await this.findPage(pageId);
+    return this.revisionsService.findAll(RevisionEntity.STATIC_PAGE, pageId);
+  }
+
+  /**
+   * Get one revision of a page with its content (admin only)
+   */
+  async getRevision(pageId: string, version: number): Promise<RevisionResponseDto> {
+    await this.findPage(pageId);
+    return this.revisionsService.findOne(RevisionEntity.STATIC_PAGE, pageId, version);
+  }
+
+  /**
+   * Compare two revisions of a page (admin only)
+   */
+  async diffRevisions(pageId: string, from: number, to: number): Promise<RevisionDiffResponseDto> {
+    await this.findPage(pageId);
+    return this.revisionsService.diff(RevisionEntity.STATIC_PAGE, pageId, from, to);
+  }
+
+  /**
+   * Copy an old revision back onto the page as a new revision (admin only)
+   */
+  async restoreRevision(
+    pageId: string,
+    version: number,
+    adminId: string,
+  ): Promise<PageResponseDto> {
+    const page = await this.findPage(pageId);
+    const data = await this.revisionsService.getRestoreData(
+      RevisionEntity.STATIC_PAGE,
+      pageId,
+      version,
+    );
+
+    // Revisions from before sanitization may hold HTML the editor wouldn't write
+    const updated = await this.save(
+      page,
+      adminId,
+      { ...data, content: this.htmlSanitizer.sanitize(data.content) },
+      version,
+    );
+
+    this.logger.log(`Admin ${adminId} restored page ${pageId} to revision ${version}`);
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Move and reorder several pages at once (admin only)
+   * The moves are checked together, so swapping a parent and child in one
+   * request is fine as long as the result is a tree.
+   */
+  async reorder(dto: ReorderNavigationDto): Promise<PageResponseDto[]> {
+    const ids = dto.pages.map((position) => position.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each page may only be listed once');
+    }
+
+    await this.assertValidMoves(
+      dto.pages.map((position) => ({ id: position.id, parentId: position.parentId ?? null })),
+    );
+
+    await this.prisma.$transaction(
+      dto.pages.map((position) =>
+        this.prisma.staticPage.update({
+          where: { id: position.id },
+          data: { parentId: position.parentId ?? null, navOrder: position.navOrder },
+        }),
+      ),
+    );
+
+    this.logger.log(`Reordered ${dto.pages.length} page(s) in the navigation`);
+
+    return this.findAll();
+  }
+
+  /**
+   * Delete a page and its revisions (admin only); its children move up to its parent
+   */
+  async remove(pageId: string): Promise<{ message: string }> {
+    const page = await this.findPage(pageId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.staticPage.updateMany({
+        where: { parentId: pageId },
+        data: { parentId: page.parentId },
+      });
+
+      await tx.staticPage.delete({ where: { id: pageId } });
+
+      await tx.contentRevision.deleteMany({
+        where: { entityType: RevisionEntity.STATIC_PAGE, entityId: pageId },
+      });
+    });
+
+    this.logger.log(`Deleted page ${pageId} (${page.slug})`);
+
+    return { message: 'Page deleted' };
+  }
+
+  /**
+   * Update a page and record the save as a revision
+   */
+  private async save(
+    page: StaticPage,
+    adminId: string,
+    data: Prisma.StaticPageUncheckedUpdateInput,
+    restoredFromVersion?: number,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.staticPage.update({
+        where: { id: page.id },
+        data,
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.STATIC_PAGE,
+          entityId: page.id,
+          saved: updated,
+          authorId: adminId,
+          previous: { entity: page, authorId: page.createdById },
+          restoredFromVersion,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  private async findPage(pageId: string, notFoundMessage = 'Page not found') {
+    const page = await this.prisma.staticPage.findUnique({
+      where: { id: pageId },
+    });
+
+    if (!page) {
+      throw new NotFoundException(notFoundMessage);
+    }
+
+    return page;
+  }
+
+  /**
+   * Check that pages and their new parents exist and the moves keep the pages a tree
+   */
+  private async assertValidMoves(moves: { id: string; parentId: string | null }[]): Promise<void> {
+    const pages = await this.prisma.staticPage.findMany({
+      select: { id: true, parentId: true },
+    });
+    const parents = new Map(pages.map((page) => [page.id, page.parentId]));
+
+    for (const move of moves) {
+      if (!parents.has(move.id)) {
+        throw new NotFoundException(`Page ${move.id} not found`);
+      }
+      if (move.parentId && !parents.has(move.parentId)) {
+        throw new NotFoundException(`Parent page ${move.parentId} not found`);
+      }
+    }
+
+    for (const move of moves) {
+      parents.set(move.id, move.parentId);
+    }
+
+    const cyclic = findCycle(parents);
+    if (cyclic) {
+      throw new BadRequestException(`Page ${cyclic} cannot be nested under itself`);
+    }
+  }
+
+  private async slugExists(slug: string): Promise<boolean> {
+    const existing = await this.prisma.staticPage.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    return !!existing;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.slugExists(slug)) {
+      throw new ConflictException(`A page with slug '${slug}' already exists`);
+    }
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(page: any): PageResponseDto {
+    return {
+      id: page.id,
+      title: page.title,
+      slug: page.slug,
+      ...(page.content !== undefined && { content: page.content }),
+      showInNav: page.showInNav,
+      navOrder: page.navOrder,
+      parentId: page.parentId,
+      metaTitle: page.metaTitle,
+      metaDescription: page.metaDescription,
+      isPublished: page.isPublished,
+      createdById: page.createdById,
+      createdAt: page.createdAt,
+      updatedAt: page.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { JobTrigger, UserRole } from '@prisma/client';
+import { CronService } from './cron.service';
+import { JobResponseDto, JobRunResponseDto } from './dto';
+import { CronSecretGuard } from './guards/cron-secret.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('cron')
+export class CronController {
+  constructor(private readonly cronService: CronService) {}
+
+  /**
+   * List scheduled jobs with their latest run (admin only)
+   * GET /api/cron/jobs
+   */
+  @Get('jobs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getJobs(): Promise<JobResponseDto[]> {
+    return this.cronService.listJobs();
+  }
+
+  /**
+   * Get run history of a job (admin only)
+   * GET /api/cron/jobs/:name/runs?take=20
+   */
+  @Get('jobs/:name/runs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getJobRuns(
+    @Param('name') name: string,
+    @Query('take') take?: string,
+  ): Promise<JobRunResponseDto[]> {
+    return this.cronService.getRuns(name, take ? parseInt(take, 10) : 20);
+  }
+
+  /**
+   * Run a job now (admin only)
+   * POST /api/cron/jobs/:name/run
+   */
+  @Post('jobs/:name/run')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async runJobNow(
+    @Param('name') name: string,
+    @CurrentUser() user: any,
+  ): Promise<JobRunResponseDto> {
+    return this.cronService.runJob(name, JobTrigger.MANUAL, user.id);
+  }
+
+  /**
+   * Trigger a job from an external scheduler (CRON_SECRET bearer token)
+   * POST /api/cron/process-expired-offers
+   * POST /api/cron/cleanup-pending-registrations
+   * POST /api/cron/send-event-reminders
+   * POST /api/cron/update-expired-memberships
+   * POST /api/cron/send-renewal-reminders
+   * POST /api/cron/reconcile-payments
+   * POST /api/cron/send-emails
+   * POST /api/cron/prune-job-runs
+   */
+  @Post(':name')
+  @UseGuards(CronSecretGuard)
+  @HttpCode(HttpStatus.OK)
+  async triggerJob(@Param('name') name: string): Promise<JobRunResponseDto> {
+    return this.cronService.runJob(name, JobTrigger.EXTERNAL);
+  }
+}
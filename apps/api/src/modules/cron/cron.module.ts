@@ -0,0 +1,29 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { CronController } from './cron.controller';
+import { CronService } from './cron.service';
+import { CronSecretGuard } from './guards/cron-secret.guard';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { MembershipsModule } from '../memberships/memberships.module';
+import { EventsModule } from '../events/events.module';
+import { ReportsModule } from '../reports/reports.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    ScheduleModule.forRoot(),
+    PrismaModule,
+    forwardRef(() => AuthModule),
+    forwardRef(() => UsersModule),
+    MembershipsModule,
+    EventsModule,
+    ReportsModule,
+  ],
+  controllers: [CronController],
+  providers: [CronService, CronSecretGuard],
+  exports: [CronService],
+})
+export class CronModule {}
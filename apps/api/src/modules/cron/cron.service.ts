@@ -0,0 +1,340 @@
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { JobRunStatus, JobTrigger } from '@prisma/client';
+import { hostname } from 'os';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MembershipsService } from '../memberships/memberships.service';
+import { RegistrationsService } from '../events/registrations.service';
+import { WaitlistService } from '../events/waitlist.service';
+import { EventRemindersService } from '../events/event-reminders.service';
+import { ReconciliationService } from '../reports/reconciliation.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { JobResponseDto, JobRunResponseDto } from './dto';
+
+/**
+ * Schedules (prompts/03_API_SPECIFICATION.md section 3.9)
+ * Reminders cover the next 24h; reminderSentAt keeps a manual re-run from repeating them.
+ */
+const SCHEDULES = {
+  processExpiredOffers: '*/15 * * * *',
+  cleanupPendingRegistrations: '0 * * * *',
+  sendEventReminders: '0 9 * * *',
+  updateExpiredMemberships: '0 0 * * *',
+  sendRenewalReminders: '0 9 * * *',
+  reconcilePayments: '0 6 * * *',
+  sendEmails: '* * * * *',
+  pruneJobRuns: '0 3 * * *',
+};
+
+const SCHEDULE_TIMEZONE = 'America/New_York';
+
+// Longer than any job should take; a crashed instance loses the lock after this
+const LOCK_LEASE_MS = 15 * 60 * 1000;
+
+const PENDING_REGISTRATION_TTL_HOURS = 24;
+
+// Run history kept per job; send-emails alone records a run every minute
+const JOB_RUN_RETENTION_DAYS = 30;
+
+interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string;
+  run: () => Promise<Record<string, number>>;
+}
+
+/**
+ * Runs scheduled jobs with run history and cross-instance locking
+ *
+ * Every trigger (in-process schedule, external POST /api/cron/*, admin
+ * "run now") goes through runJob(), which takes a lease in job_locks so
+ * two API instances never run the same job at once, and records a JobRun.
+ */
+@Injectable()
+export class CronService {
+  private readonly logger = new Logger(CronService.name);
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+  private readonly jobs: JobDefinition[];
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private membershipsService: MembershipsService,
+    private registrationsService: RegistrationsService,
+    private waitlistService: WaitlistService,
+    private eventRemindersService: EventRemindersService,
+    private reconciliationService: ReconciliationService,
+    private notificationsService: NotificationsService,
+  ) {
+    this.jobs = [
+      {
+        name: 'process-expired-offers',
+        description:
+          'Expire waitlist offers past their deadline and offer the seat to the next person',
+        schedule: SCHEDULES.processExpiredOffers,
+        run: async () => ({ processed: await this.waitlistService.expireOffers() }),
+      },
+      {
+        name: 'cleanup-pending-registrations',
+        description: `Cancel registrations left unpaid for ${PENDING_REGISTRATION_TTL_HOURS}h and free their seats`,
+        schedule: SCHEDULES.cleanupPendingRegistrations,
+        run: async () => {
+          const cutoff = new Date(Date.now() - PENDING_REGISTRATION_TTL_HOURS * 60 * 60 * 1000);
+          return { cleaned: await this.registrationsService.cancelStalePending(cutoff) };
+        },
+      },
+      {
+        name: 'send-event-reminders',
+        description: 'Remind confirmed attendees of events starting within 24 hours',
+        schedule: SCHEDULES.sendEventReminders,
+        run: async () => ({ sent: await this.eventRemindersService.sendDueReminders() }),
+      },
+      {
+        name: 'update-expired-memberships',
+        description: 'Mark memberships past their expiry date as EXPIRED',
+        schedule: SCHEDULES.updateExpiredMemberships,
+        run: async () => ({ updated: await this.membershipsService.updateExpiredMemberships() }),
+      },
+      {
+        name: 'send-renewal-reminders',
+        description: 'Remind members to renew 30, 7 and 1 days before their membership expires',
+        schedule: SCHEDULES.sendRenewalReminders,
+        run: async () => ({ sent: await this.membershipsService.sendRenewalReminders() }),
+      },
+      {
+        name: 'reconcile-payments',
+        description:
+          'Compare the last 7 days of payments and refunds with Stripe balance transactions and flag mismatches',
+        schedule: SCHEDULES.reconcilePayments,
+        run: async () => {
+          const summary = await this.reconciliationService.reconcile();
+          return {
+            checked: summary.transactionsChecked,
+            flagged: summary.flagged,
+            new: summary.newMismatches,
+          };
+        },
+      },
+      {
+        name: 'send-emails',
+        description: 'Send queued emails from the outbox and retry failed sends',
+        schedule: SCHEDULES.sendEmails,
+        run: () => this.notificationsService.processOutbox(),
+      },
+      {
+        name: 'prune-job-runs',
+        description: `Delete job run history older than ${JOB_RUN_RETENTION_DAYS} days`,
+        schedule: SCHEDULES.pruneJobRuns,
+        run: async () => ({ deleted: await this.pruneJobRuns() }),
+      },
+    ];
+  }
+
+  @Cron(SCHEDULES.processExpiredOffers, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledProcessExpiredOffers(): Promise<void> {
+    await this.runScheduled('process-expired-offers');
+  }
+
+  @Cron(SCHEDULES.cleanupPendingRegistrations, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledCleanupPendingRegistrations(): Promise<void> {
+    await this.runScheduled('cleanup-pending-registrations');
+  }
+
+  @Cron(SCHEDULES.sendEventReminders, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledSendEventReminders(): Promise<void> {
+    await this.runScheduled('send-event-reminders');
+  }
+
+  @Cron(SCHEDULES.updateExpiredMemberships, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledUpdateExpiredMemberships(): Promise<void> {
+    await this.runScheduled('update-expired-memberships');
+  }
+
+  @Cron(SCHEDULES.sendRenewalReminders, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledSendRenewalReminders(): Promise<void> {
+    await this.runScheduled('send-renewal-reminders');
+  }
+
+  @Cron(SCHEDULES.reconcilePayments, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledReconcilePayments(): Promise<void> {
+    await this.runScheduled('reconcile-payments');
+  }
+
+  @Cron(SCHEDULES.sendEmails, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledSendEmails(): Promise<void> {
+    await this.runScheduled('send-emails');
+  }
+
+  @Cron(SCHEDULES.pruneJobRuns, { timeZone: SCHEDULE_TIMEZONE })
+  async scheduledPruneJobRuns(): Promise<void> {
+    await this.runScheduled('prune-job-runs');
+  }
+
+  /**
+   * List registered jobs with their latest run
+   */
+  async listJobs(): Promise<JobResponseDto[]> {
+    return Promise.all(
+      this.jobs.map(async (job) => {
+        const lastRun = await this.prisma.jobRun.findFirst({
+          where: { jobName: job.name },
+          orderBy: { startedAt: 'desc' },
+        });
+
+        return {
+          name: job.name,
+          description: job.description,
+          schedule: job.schedule,
+          lastRun: lastRun ? this.toRunResponseDto(lastRun) : null,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Get the run history of a job, newest first
+   */
+  async getRuns(name: string, take = 20): Promise<JobRunResponseDto[]> {
+    this.findJob(name);
+
+    const runs = await this.prisma.jobRun.findMany({
+      where: { jobName: name },
+      orderBy: { startedAt: 'desc' },
+      take,
+    });
+
+    return runs.map((r) => this.toRunResponseDto(r));
+  }
+
+  /**
+   * Run a job now, unless another instance holds its lock
+   */
+  async runJob(
+    name: string,
+    trigger: JobTrigger,
+    triggeredById?: string,
+  ): Promise<JobRunResponseDto> {
+    const job = this.findJob(name);
+
+    if (!(await this.acquireLock(job.name))) {
+      throw new ConflictException(`Job ${job.name} is already running`);
+    }
+
+    try {
+      const run = await this.prisma.jobRun.create({
+        data: { jobName: job.name, trigger, triggeredById },
+      });
+
+      let finished;
+      try {
+        const result = await job.run();
+
+        finished = await this.prisma.jobRun.update({
+          where: { id: run.id },
+          data: { status: JobRunStatus.SUCCEEDED, result, finishedAt: new Date() },
+        });
+
+        this.logger.log(`Job ${job.name} (${trigger}) succeeded: ${JSON.stringify(result)}`);
+      } catch (error) {
+        finished = await this.prisma.jobRun.update({
+          where: { id: run.id },
+          data: { status: JobRunStatus.FAILED, error: error.message, finishedAt: new Date() },
+        });
+
+        this.logger.error(`Job ${job.name} (${trigger}) failed: ${error.message}`);
+      }
+
+      return this.toRunResponseDto(finished);
+    } finally {
+      await this.releaseLock(job.name);
+    }
+  }
+
+  /**
+   * Delete finished runs past the retention window; returns how many
+   */
+  private async pruneJobRuns(): Promise<number> {
+    const cutoff = new Date(Date.now() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const { count } = await this.prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: cutoff }, finishedAt: { not: null } },
+    });
+
+    return count;
+  }
+
+  /**
+   * In-process trigger; skipped quietly when disabled or another instance got there first
+   */
+  private async runScheduled(name: string): Promise<void> {
+    if (this.configService.get('SCHEDULER_ENABLED') === 'false') {
+      return;
+    }
+
+    try {
+      await this.runJob(name, JobTrigger.SCHEDULE);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.debug(`Skipped ${name}: locked by another instance`);
+        return;
+      }
+      this.logger.error(`Scheduled job ${name} could not start: ${error.message}`);
+    }
+  }
+
+  /**
+   * Take the job's lease if it is free or expired
+   */
+  private async acquireLock(jobName: string): Promise<boolean> {
+    await this.prisma.jobLock.createMany({
+      data: [{ jobName, lockedUntil: new Date(0) }],
+      skipDuplicates: true,
+    });
+
+    const now = new Date();
+    const { count } = await this.prisma.jobLock.updateMany({
+      where: { jobName, lockedUntil: { lt: now } },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + LOCK_LEASE_MS),
+      },
+    });
+
+    return count === 1;
+  }
+
+  private async releaseLock(jobName: string): Promise<void> {
+    await this.prisma.jobLock.updateMany({
+      where: { jobName, lockedBy: this.instanceId },
+      data: { lockedBy: null, lockedUntil: new Date() },
+    });
+  }
+
+  private findJob(name: string): JobDefinition {
+    const job = this.jobs.find((j) => j.name === name);
+
+    if (!job) {
+      throw new NotFoundException(`Unknown job: ${name}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toRunResponseDto(run: any): JobRunResponseDto {
+    return {
+      id: run.id,
+      jobName: run.jobName,
+      trigger: run.trigger,
+      status: run.status,
+      result: run.result,
+      error: run.error,
+      triggeredById: run.triggeredById,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './job-run-response.dto';
+export * from './job-response.dto';
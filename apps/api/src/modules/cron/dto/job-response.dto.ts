@@ -0,0 +1,11 @@
+import { JobRunResponseDto } from './job-run-response.dto';
+
+/**
+ * Response DTO for a registered scheduled job and its latest run
+ */
+export class JobResponseDto {
+  name: string;
+  description: string;
+  schedule: string;
+  lastRun: JobRunResponseDto | null;
+}
@@ -0,0 +1,16 @@
+import { JobRunStatus, JobTrigger } from '@prisma/client';
+
+/**
+ * Response DTO for a single scheduled job execution
+ */
+export class JobRunResponseDto {
+  id: string;
+  jobName: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  result: Record<string, number> | null;
+  error: string | null;
+  triggeredById: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
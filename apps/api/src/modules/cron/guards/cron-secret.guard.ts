@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Cron Secret Guard
+ * Protects /api/cron/* endpoints called by external schedulers (e.g. Vercel Cron).
+ * Expects: Authorization: Bearer <CRON_SECRET>
+ */
+@Injectable()
+export class CronSecretGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const secret = this.configService.get<string>('CRON_SECRET');
+
+    if (!secret) {
+      throw new UnauthorizedException('Cron endpoints are not configured');
+    }
+
+    const provided = Buffer.from(request.headers.authorization || '');
+    const expected = Buffer.from(`Bearer ${secret}`);
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      throw new UnauthorizedException('Invalid cron secret');
+    }
+
+    return true;
+  }
+}
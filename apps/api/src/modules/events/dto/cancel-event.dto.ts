@@ -0,0 +1,11 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+/**
+ * DTO for cancelling an event
+ */
+export class CancelEventDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string; // Stored on each cancelled registration
+}
@@ -0,0 +1,114 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  IsInt,
+  IsBoolean,
+  IsNumber,
+  IsObject,
+  IsArray,
+  IsIn,
+  IsUrl,
+  Length,
+  MaxLength,
+  Matches,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO for creating a new event
+ * Events are always created as DRAFT and published separately
+ */
+export class CreateEventDto {
+  @IsString()
+  @Length(1, 200)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'slug may only contain lowercase letters, numbers and hyphens',
+  })
+  slug?: string; // Auto-generated from title if not provided
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  excerpt?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  content: string; // TipTap HTML
+
+  @IsUUID()
+  categoryId: string;
+
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  registrationDeadline?: string;
+
+  @IsInt()
+  @Min(1)
+  maxSeats: number;
+
+  @IsString()
+  @IsOptional()
+  location?: string;
+
+  @IsObject()
+  @IsOptional()
+  locationDetails?: Record<string, any>; // {address, city, state, zip, coordinates}
+
+  @IsBoolean()
+  @IsOptional()
+  isVirtual?: boolean;
+
+  @IsUrl()
+  @IsOptional()
+  virtualLink?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isFree?: boolean;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  price?: number;
+
+  // Price for members, including household members covered by a family membership
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  memberPrice?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isRecurring?: boolean;
+
+  @IsIn(['weekly', 'monthly'])
+  @IsOptional()
+  recurringInterval?: string;
+
+  @IsUrl()
+  @IsOptional()
+  featuredImage?: string;
+
+  @IsArray()
+  @IsUrl({}, { each: true })
+  @IsOptional()
+  gallery?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  isMembersOnly?: boolean;
+}
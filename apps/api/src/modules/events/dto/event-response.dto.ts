@@ -0,0 +1,53 @@
+import { EventStatus } from './event-status.enum';
+
+/**
+ * Response DTO for event data
+ * virtualLink is null unless the requester is allowed to see it
+ */
+export class EventResponseDto {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content: string;
+  categoryId: string;
+  startDate: Date;
+  endDate: Date | null;
+  registrationDeadline: Date | null;
+  maxSeats: number;
+  currentSeats: number;
+  location: string | null;
+  locationDetails: any;
+  isVirtual: boolean;
+  virtualLink: string | null;
+  isFree: boolean;
+  price: number | null;
+  memberPrice: number | null;
+  isRecurring: boolean;
+  recurringInterval: string | null;
+  featuredImage: string | null;
+  gallery: any;
+  isMembersOnly: boolean;
+  status: EventStatus;
+  publishedAt: Date | null;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Related data
+  category?: {
+    id: string;
+    name: string;
+    slug: string;
+    color: string | null;
+    icon: string | null;
+  };
+
+  createdBy?: {
+    id: string;
+    profile?: {
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
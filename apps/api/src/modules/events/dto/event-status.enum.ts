@@ -0,0 +1,10 @@
+/**
+ * Event lifecycle states
+ * Stored as a plain string column on Event (see prisma/schema.prisma)
+ */
+export enum EventStatus {
+  DRAFT = 'DRAFT',
+  PUBLISHED = 'PUBLISHED',
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED',
+}
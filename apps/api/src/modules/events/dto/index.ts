@@ -0,0 +1,7 @@
+export * from './event-status.enum';
+export * from './create-event.dto';
+export * from './update-event.dto';
+export * from './cancel-event.dto';
+export * from './event-response.dto';
+export * from './registration-response.dto';
+export * from './waitlist-entry-response.dto';
@@ -0,0 +1,36 @@
+import { PaymentStatus, RegistrationStatus } from '@prisma/client';
+import { EventStatus } from './event-status.enum';
+
+/**
+ * Response DTO for event registration data
+ */
+export class RegistrationResponseDto {
+  id: string;
+  eventId: string;
+  userId: string;
+  status: RegistrationStatus;
+  paymentStatus: PaymentStatus | null;
+  amount: number | null; // Price this registration is charged (member or standard)
+  registeredAt: Date;
+  confirmedAt: Date | null;
+  cancelledAt: Date | null;
+  cancelReason: string | null;
+  subscriptionEndsAt: Date | null;
+
+  // Related data
+  event?: {
+    id: string;
+    title: string;
+    slug: string;
+    startDate: Date;
+    endDate: Date | null;
+    location: string | null;
+    isVirtual: boolean;
+    isFree: boolean;
+    price: number | null;
+    memberPrice: number | null;
+    isRecurring: boolean;
+    recurringInterval: string | null;
+    status: EventStatus;
+  };
+}
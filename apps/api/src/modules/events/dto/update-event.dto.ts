@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateEventDto } from './create-event.dto';
+
+/**
+ * DTO for updating event details
+ * Status changes go through the publish/unpublish/cancel endpoints instead
+ */
+export class UpdateEventDto extends PartialType(CreateEventDto) {}
@@ -0,0 +1,28 @@
+import { WaitlistStatus } from '@prisma/client';
+import { EventStatus } from './event-status.enum';
+
+/**
+ * Response DTO for waitlist entry data
+ */
+export class WaitlistEntryResponseDto {
+  id: string;
+  eventId: string;
+  userId: string;
+  position: number;
+  status: WaitlistStatus;
+  offeredAt: Date | null;
+  expiresAt: Date | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+
+  // Related data
+  event?: {
+    id: string;
+    title: string;
+    slug: string;
+    startDate: Date;
+    isFree: boolean;
+    price: number | null;
+    status: EventStatus;
+  };
+}
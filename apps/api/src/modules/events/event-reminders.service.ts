@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RegistrationStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { EventStatus } from './dto';
+
+const REMINDER_LEAD_HOURS = 24;
+
+/**
+ * Reminders for confirmed attendees of events starting soon
+ * Each registration is reminded once (reminderSentAt), so the job can run
+ * as often as needed without duplicates.
+ */
+@Injectable()
+export class EventRemindersService {
+  private readonly logger = new Logger(EventRemindersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Remind attendees of events starting within the next 24 hours
+   * Returns the number of reminders sent
+   */
+  async sendDueReminders(): Promise<number> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + REMINDER_LEAD_HOURS * 60 * 60 * 1000);
+
+    const due = await this.prisma.eventRegistration.findMany({
+      where: {
+        status: RegistrationStatus.CONFIRMED,
+        reminderSentAt: null,
+        event: {
+          status: EventStatus.PUBLISHED,
+          isActive: true,
+          startDate: { gt: now, lte: horizon },
+        },
+      },
+      include: {
+        event: true,
+        user: { select: { email: true } },
+      },
+    });
+
+    for (const registration of due) {
+      await this.prisma.$transaction(async (tx) => {
+        await this.notificationsService.notifyEventReminder(registration.id, tx);
+
+        await tx.eventRegistration.update({
+          where: { id: registration.id },
+          data: { reminderSentAt: now },
+        });
+      });
+
+      this.logger.log(
+        `Queued reminder to ${registration.user.email}: "${registration.event.title}" starts ${registration.event.startDate.toISOString()}`,
+      );
+    }
+
+    return due.length;
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { EventsService } from './events.service';
+import { RegistrationsService } from './registrations.service';
+import { SeatAllocationService, SeatDrift } from './seat-allocation.service';
+import { WaitlistService } from './waitlist.service';
+import { StripeService } from '../payments/stripe.service';
+import {
+  CreateEventDto,
+  UpdateEventDto,
+  CancelEventDto,
+  EventResponseDto,
+  RegistrationResponseDto,
+  WaitlistEntryResponseDto,
+} from './dto';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('events')
+export class EventsController {
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly registrationsService: RegistrationsService,
+    private readonly seatAllocation: SeatAllocationService,
+    private readonly waitlistService: WaitlistService,
+    private readonly stripeService: StripeService,
+  ) {}
+
+  /**
+   * List published events (public endpoint)
+   * GET /api/events?skip=0&take=10&category=cultural&from=2026-01-01&to=2026-12-31&isFree=true&isVirtual=false
+   */
+  @Get()
+  async getEvents(
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+    @Query('category') category?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('isFree') isFree?: string,
+    @Query('isVirtual') isVirtual?: string,
+  ): Promise<{ events: EventResponseDto[]; total: number }> {
+    return this.eventsService.findPublished({
+      skip: skip ? parseInt(skip, 10) : 0,
+      take: take ? parseInt(take, 10) : 10,
+      category,
+      from: this.parseDate('from', from),
+      to: this.parseDate('to', to),
+      isFree: isFree !== undefined ? isFree === 'true' : undefined,
+      isVirtual: isVirtual !== undefined ? isVirtual === 'true' : undefined,
+    });
+  }
+
+  /**
+   * Recompute seat counts from confirmed registrations and fix drift (admin only)
+   * POST /api/events/seats/reconcile?eventId=uuid
+   */
+  @Post('seats/reconcile')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async reconcileSeats(
+    @Query('eventId') eventId?: string,
+  ): Promise<{ checked: number; drifted: SeatDrift[] }> {
+    return this.seatAllocation.reconcile(eventId);
+  }
+
+  /**
+   * Get event by slug (public endpoint)
+   * GET /api/events/:slug
+   */
+  @Get(':slug')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getEventBySlug(
+    @Param('slug') slug: string,
+    @CurrentUser() user?: any,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.findBySlug(slug, user);
+  }
+
+  /**
+   * Create a new draft event (contributor+)
+   * POST /api/events
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async createEvent(
+    @CurrentUser() user: any,
+    @Body() dto: CreateEventDto,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.create(user.id, dto);
+  }
+
+  /**
+   * Update an event (creator or admin)
+   * PUT /api/events/:id
+   */
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async updateEvent(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdateEventDto,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.update(id, user, dto);
+  }
+
+  /**
+   * Publish a draft event (creator or admin)
+   * POST /api/events/:id/publish
+   */
+  @Post(':id/publish')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async publishEvent(@Param('id') id: string, @CurrentUser() user: any): Promise<EventResponseDto> {
+    return this.eventsService.publish(id, user);
+  }
+
+  /**
+   * Move a published event back to draft (creator or admin)
+   * POST /api/events/:id/unpublish
+   */
+  @Post(':id/unpublish')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async unpublishEvent(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.unpublish(id, user);
+  }
+
+  /**
+   * Cancel an event and its registrations (creator or admin)
+   * POST /api/events/:id/cancel
+   */
+  @Post(':id/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async cancelEvent(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: CancelEventDto,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.cancel(id, user, dto.reason);
+  }
+
+  /**
+   * List an event's content revisions, newest first (creator or admin)
+   * GET /api/events/:id/revisions
+   */
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getEventRevisions(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto[]> {
+    return this.eventsService.listRevisions(id, user);
+  }
+
+  /**
+   * Compare two revisions of an event (creator or admin)
+   * GET /api/events/:id/revisions/diff?from=1&to=3
+   */
+  @Get(':id/revisions/diff')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async diffEventRevisions(
+    @Param('id') id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+    @CurrentUser() user: any,
+  ): Promise<RevisionDiffResponseDto> {
+    return this.eventsService.diffRevisions(id, from, to, user);
+  }
+
+  /**
+   * Get one revision of an event with its content (creator or admin)
+   * GET /api/events/:id/revisions/:version
+   */
+  @Get(':id/revisions/:version')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getEventRevision(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto> {
+    return this.eventsService.getRevision(id, version, user);
+  }
+
+  /**
+   * Restore an old revision of an event's content as a new revision (creator or admin)
+   * POST /api/events/:id/revisions/:version/restore
+   */
+  @Post(':id/revisions/:version/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  @HttpCode(HttpStatus.OK)
+  async restoreEventRevision(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.restoreRevision(id, version, user);
+  }
+
+  /**
+   * Register current user for an event
+   * POST /api/events/:id/register
+   */
+  @Post(':id/register')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async register(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<RegistrationResponseDto> {
+    return this.registrationsService.register(id, user);
+  }
+
+  /**
+   * Cancel current user's registration for an event
+   * DELETE /api/events/:id/register
+   */
+  @Delete(':id/register')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async cancelRegistration(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<RegistrationResponseDto> {
+    // An unpaid checkout must not stay payable once its seat is released
+    const sessionId = await this.registrationsService.findPendingCheckoutSession(id, user.id);
+    if (sessionId) {
+      await this.stripeService.expireCheckoutSession(sessionId);
+    }
+
+    return this.registrationsService.cancel(id, user.id);
+  }
+
+  /**
+   * Join the waitlist of a full event
+   * POST /api/events/:id/waitlist
+   */
+  @Post(':id/waitlist')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async joinWaitlist(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<WaitlistEntryResponseDto> {
+    return this.waitlistService.join(id, user);
+  }
+
+  /**
+   * Leave the waitlist of an event
+   * DELETE /api/events/:id/waitlist
+   */
+  @Delete(':id/waitlist')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async leaveWaitlist(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    return this.waitlistService.leave(id, user.id);
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be a valid date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,38 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+import { EventRemindersService } from './event-reminders.service';
+import { RegistrationsController } from './registrations.controller';
+import { RegistrationsService } from './registrations.service';
+import { SeatAllocationService } from './seat-allocation.service';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    forwardRef(() => AuthModule),
+    forwardRef(() => UsersModule),
+    forwardRef(() => PaymentsModule),
+  ],
+  controllers: [EventsController, RegistrationsController, WaitlistController],
+  providers: [
+    EventsService,
+    RegistrationsService,
+    SeatAllocationService,
+    WaitlistService,
+    EventRemindersService,
+  ],
+  exports: [
+    EventsService,
+    RegistrationsService,
+    SeatAllocationService,
+    WaitlistService,
+    EventRemindersService,
+  ],
+})
+export class EventsModule {}
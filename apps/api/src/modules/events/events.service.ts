@@ -0,0 +1,750 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  Event,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  RegistrationStatus,
+  RevisionEntity,
+  UserRole,
+  WaitlistStatus,
+} from '@prisma/client';
+import { CreateEventDto, UpdateEventDto, EventResponseDto, EventStatus } from './dto';
+import { ACTIVE_WAITLIST_STATUSES } from './registration-state';
+import { generateUniqueSlug } from '../../common/utils/slug.util';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RevisionsService } from '../revisions/revisions.service';
+import { HtmlSanitizerService } from '../sanitizer/html-sanitizer.service';
+import { StripeService } from '../payments/stripe.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RevisionResponseDto, RevisionDiffResponseDto } from '../revisions/dto';
+
+/**
+ * Minimal shape of the authenticated user needed for permission checks
+ */
+interface EventActor {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Registration cancelled with its event, as read before the cancellation
+ */
+interface CancelledRegistration {
+  id: string;
+  status: RegistrationStatus;
+  stripeSessionId: string | null;
+  stripeSubId: string | null;
+}
+
+const eventInclude = {
+  category: true,
+  createdBy: { include: { profile: true } },
+} satisfies Prisma.EventInclude;
+
+@Injectable()
+export class EventsService {
+  private readonly logger = new Logger(EventsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+    private revisionsService: RevisionsService,
+    private htmlSanitizer: HtmlSanitizerService,
+    private stripeService: StripeService,
+    private refundsService: RefundsService,
+  ) {}
+
+  /**
+   * List published events (public)
+   * Supports filtering by category slug, start date range, free/paid and virtual
+   */
+  async findPublished(params: {
+    skip?: number;
+    take?: number;
+    category?: string;
+    from?: Date;
+    to?: Date;
+    isFree?: boolean;
+    isVirtual?: boolean;
+  }): Promise<{ events: EventResponseDto[]; total: number }> {
+    const { skip = 0, take = 10, category, from, to, isFree, isVirtual } = params;
+
+    const where: Prisma.EventWhereInput = {
+      status: EventStatus.PUBLISHED,
+      isActive: true,
+      ...(category && { category: { slug: category } }),
+      ...((from || to) && {
+        startDate: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        },
+      }),
+      ...(isFree !== undefined && { isFree }),
+      ...(isVirtual !== undefined && { isVirtual }),
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.event.findMany({
+        where,
+        skip,
+        take,
+        include: eventInclude,
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.event.count({ where }),
+    ]);
+
+    return {
+      events: events.map((e) => this.toResponseDto(e, false)),
+      total,
+    };
+  }
+
+  /**
+   * Get event by slug (public)
+   * Drafts are only visible to their creator or an admin.
+   * The virtual link is only revealed to confirmed registrants and event managers.
+   */
+  async findBySlug(slug: string, viewer?: EventActor): Promise<EventResponseDto> {
+    const event = await this.prisma.event.findUnique({
+      where: { slug },
+      include: eventInclude,
+    });
+
+    if (!event || !event.isActive) {
+      throw new NotFoundException('Event not found');
+    }
+
+    const canManage = viewer ? this.canManage(event, viewer) : false;
+
+    if (event.status === EventStatus.DRAFT && !canManage) {
+      throw new NotFoundException('Event not found');
+    }
+
+    let canSeeVirtualLink = canManage;
+
+    if (!canSeeVirtualLink && viewer && event.isVirtual) {
+      const registration = await this.prisma.eventRegistration.findUnique({
+        where: { eventId_userId: { eventId: event.id, userId: viewer.id } },
+        select: { status: true },
+      });
+      canSeeVirtualLink = registration?.status === RegistrationStatus.CONFIRMED;
+    }
+
+    return this.toResponseDto(event, canSeeVirtualLink);
+  }
+
+  /**
+   * Create a new event in DRAFT status (CONTRIBUTOR+)
+   */
+  async create(userId: string, dto: CreateEventDto): Promise<EventResponseDto> {
+    await this.assertCategoryExists(dto.categoryId);
+
+    const data = {
+      startDate: new Date(dto.startDate),
+      endDate: dto.endDate ? new Date(dto.endDate) : null,
+      registrationDeadline: dto.registrationDeadline ? new Date(dto.registrationDeadline) : null,
+      isFree: dto.isFree ?? true,
+      price: dto.price ?? null,
+      memberPrice: dto.memberPrice ?? null,
+      isRecurring: dto.isRecurring ?? false,
+      recurringInterval: dto.recurringInterval ?? null,
+      isVirtual: dto.isVirtual ?? false,
+      virtualLink: dto.virtualLink ?? null,
+    };
+
+    this.validateEventData(data);
+
+    let slug: string;
+    if (dto.slug) {
+      await this.assertSlugAvailable(dto.slug);
+      slug = dto.slug;
+    } else {
+      slug = await generateUniqueSlug(dto.title, (candidate) => this.slugExists(candidate));
+    }
+
+    const event = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.event.create({
+        data: {
+          ...data,
+          title: dto.title,
+          slug,
+          excerpt: dto.excerpt,
+          content: this.htmlSanitizer.sanitize(dto.content),
+          categoryId: dto.categoryId,
+          maxSeats: dto.maxSeats,
+          location: dto.location,
+          locationDetails: dto.locationDetails as any,
+          featuredImage: dto.featuredImage,
+          gallery: dto.gallery as any,
+          isMembersOnly: dto.isMembersOnly ?? false,
+          status: EventStatus.DRAFT,
+          createdById: userId,
+        },
+        include: eventInclude,
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.EVENT,
+          entityId: created.id,
+          saved: created,
+          authorId: userId,
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    this.logger.log(`User ${userId} created event ${event.id} (${event.slug})`);
+
+    return this.toResponseDto(event, true);
+  }
+
+  /**
+   * Update event details (creator or ADMIN)
+   */
+  async update(eventId: string, actor: EventActor, dto: UpdateEventDto): Promise<EventResponseDto> {
+    const event = await this.findManageable(eventId, actor);
+
+    if (event.status === EventStatus.CANCELLED || event.status === EventStatus.COMPLETED) {
+      throw new BadRequestException(`Cannot edit a ${event.status.toLowerCase()} event`);
+    }
+
+    if (dto.categoryId && dto.categoryId !== event.categoryId) {
+      await this.assertCategoryExists(dto.categoryId);
+    }
+
+    if (dto.slug && dto.slug !== event.slug) {
+      await this.assertSlugAvailable(dto.slug);
+    }
+
+    if (dto.maxSeats !== undefined && dto.maxSeats < event.currentSeats) {
+      throw new BadRequestException(
+        `maxSeats cannot be lower than the ${event.currentSeats} seats already taken`,
+      );
+    }
+
+    const pricingChanged =
+      (dto.isFree !== undefined && dto.isFree !== event.isFree) ||
+      (dto.price !== undefined && dto.price !== (event.price ? Number(event.price) : null)) ||
+      (dto.memberPrice !== undefined &&
+        dto.memberPrice !== (event.memberPrice ? Number(event.memberPrice) : null)) ||
+      (dto.isRecurring !== undefined && dto.isRecurring !== event.isRecurring) ||
+      (dto.recurringInterval !== undefined && dto.recurringInterval !== event.recurringInterval);
+
+    if (pricingChanged && (await this.countActiveRegistrations(eventId)) > 0) {
+      throw new BadRequestException('Cannot change pricing once people have registered');
+    }
+
+    const data = {
+      startDate: dto.startDate ? new Date(dto.startDate) : event.startDate,
+      endDate: dto.endDate !== undefined ? new Date(dto.endDate) : event.endDate,
+      registrationDeadline:
+        dto.registrationDeadline !== undefined
+          ? new Date(dto.registrationDeadline)
+          : event.registrationDeadline,
+      isFree: dto.isFree ?? event.isFree,
+      price: dto.price ?? (event.price ? Number(event.price) : null),
+      memberPrice: dto.memberPrice ?? (event.memberPrice ? Number(event.memberPrice) : null),
+      isRecurring: dto.isRecurring ?? event.isRecurring,
+      recurringInterval: dto.recurringInterval ?? event.recurringInterval,
+      isVirtual: dto.isVirtual ?? event.isVirtual,
+      virtualLink: dto.virtualLink ?? event.virtualLink,
+    };
+
+    this.validateEventData(data);
+
+    const updated = await this.save(event, actor.id, {
+      ...data,
+      ...(dto.title !== undefined && { title: dto.title }),
+      ...(dto.slug !== undefined && { slug: dto.slug }),
+      ...(dto.excerpt !== undefined && { excerpt: dto.excerpt }),
+      ...(dto.content !== undefined && { content: this.htmlSanitizer.sanitize(dto.content) }),
+      ...(dto.categoryId !== undefined && { categoryId: dto.categoryId }),
+      ...(dto.maxSeats !== undefined && { maxSeats: dto.maxSeats }),
+      ...(dto.location !== undefined && { location: dto.location }),
+      ...(dto.locationDetails !== undefined && { locationDetails: dto.locationDetails as any }),
+      ...(dto.featuredImage !== undefined && { featuredImage: dto.featuredImage }),
+      ...(dto.gallery !== undefined && { gallery: dto.gallery as any }),
+      ...(dto.isMembersOnly !== undefined && { isMembersOnly: dto.isMembersOnly }),
+      // The Stripe prices for subscriptions are recreated on the next checkout
+      ...(pricingChanged && { stripePriceId: null, stripeMemberPriceId: null }),
+    });
+
+    return this.toResponseDto(updated, true);
+  }
+
+  /**
+   * List an event's content revisions (creator or ADMIN)
+   */
+  async listRevisions(eventId: string, actor: EventActor): Promise<RevisionResponseDto[]> {
+    await this.findManageable(eventId, actor);
+    return this.revisionsService.findAll(RevisionEntity.EVENT, eventId);
+  }
+
+  /**
+   * Get one revision of an event with its content (creator or ADMIN)
+   */
+  async getRevision(
+    eventId: string,
+    version: number,
+    actor: EventActor,
+  ): Promise<RevisionResponseDto> {
+    await this.findManageable(eventId, actor);
+    return this.revisionsService.findOne(RevisionEntity.EVENT, eventId, version);
+  }
+
+  /**
+   * Compare two revisions of an event (creator or ADMIN)
+   */
+  async diffRevisions(
+    eventId: string,
+    from: number,
+    to: number,
+    actor: EventActor,
+  ): Promise<RevisionDiffResponseDto> {
+    await this.findManageable(eventId, actor);
+    return this.revisionsService.diff(RevisionEntity.EVENT, eventId, from, to);
+  }
+
+  /**
+   * Copy an old revision's content back onto the event as a new revision
+   * Only content is restored; scheduling, seats and pricing stay as they are.
+   */
+  async restoreRevision(
+    eventId: string,
+    version: number,
+    actor: EventActor,
+  ): Promise<EventResponseDto> {
+    const event = await this.findManageable(eventId, actor);
+
+    if (event.status === EventStatus.CANCELLED || event.status === EventStatus.COMPLETED) {
+      throw new BadRequestException(`Cannot edit a ${event.status.toLowerCase()} event`);
+    }
+
+    const { gallery, ...data } = await this.revisionsService.getRestoreData(
+      RevisionEntity.EVENT,
+      eventId,
+      version,
+    );
+
+    const updated = await this.save(
+      event,
+      actor.id,
+      {
+        ...data,
+        content: this.htmlSanitizer.sanitize(data.content),
+        gallery: gallery ?? Prisma.DbNull,
+      },
+      version,
+    );
+
+    this.logger.log(`User ${actor.id} restored event ${eventId} to revision ${version}`);
+
+    return this.toResponseDto(updated, true);
+  }
+
+  /**
+   * Publish a draft event (creator or ADMIN)
+   */
+  async publish(eventId: string, actor: EventActor): Promise<EventResponseDto> {
+    const event = await this.findManageable(eventId, actor);
+
+    if (event.status !== EventStatus.DRAFT) {
+      throw new BadRequestException('Only draft events can be published');
+    }
+
+    if (event.startDate < new Date()) {
+      throw new BadRequestException('Cannot publish an event that has already started');
+    }
+
+    const updated = await this.prisma.event.update({
+      where: { id: eventId },
+      data: {
+        status: EventStatus.PUBLISHED,
+        publishedAt: new Date(),
+      },
+      include: eventInclude,
+    });
+
+    this.logger.log(`Published event ${eventId}`);
+
+    // The event stays published if announcing fails. Announcements are deduped
+    // per user, so re-publishing after an unpublish doesn't repeat them.
+    try {
+      await this.notificationsService.announceEvent(eventId);
+    } catch (error) {
+      this.logger.error(`Failed to announce event ${eventId}: ${error.message}`);
+    }
+
+    return this.toResponseDto(updated, true);
+  }
+
+  /**
+   * Move a published event back to DRAFT (creator or ADMIN)
+   * Not allowed once people have registered - cancel the event instead
+   */
+  async unpublish(eventId: string, actor: EventActor): Promise<EventResponseDto> {
+    const event = await this.findManageable(eventId, actor);
+
+    if (event.status !== EventStatus.PUBLISHED) {
+      throw new BadRequestException('Only published events can be unpublished');
+    }
+
+    if ((await this.countActiveRegistrations(eventId)) > 0) {
+      throw new BadRequestException(
+        'Event has active registrations. Cancel the event instead of unpublishing it.',
+      );
+    }
+
+    const updated = await this.prisma.event.update({
+      where: { id: eventId },
+      data: {
+        status: EventStatus.DRAFT,
+        publishedAt: null,
+      },
+      include: eventInclude,
+    });
+
+    this.logger.log(`Unpublished event ${eventId}`);
+
+    return this.toResponseDto(updated, true);
+  }
+
+  /**
+   * Cancel an event and all of its active registrations (creator or ADMIN)
+   * Open checkouts are expired, subscriptions cancelled and one-off payments refunded.
+   */
+  async cancel(eventId: string, actor: EventActor, reason?: string): Promise<EventResponseDto> {
+    const event = await this.findManageable(eventId, actor);
+
+    if (event.status !== EventStatus.DRAFT && event.status !== EventStatus.PUBLISHED) {
+      throw new BadRequestException(`Event is already ${event.status.toLowerCase()}`);
+    }
+
+    const active = {
+      eventId,
+      status: { in: [RegistrationStatus.PENDING, RegistrationStatus.CONFIRMED] },
+    };
+
+    const { updated, registrations } = await this.prisma.$transaction(async (tx) => {
+      const registrations = await tx.eventRegistration.findMany({
+        where: active,
+        select: { id: true, status: true, stripeSessionId: true, stripeSubId: true },
+      });
+
+      const cancelled = await tx.eventRegistration.updateMany({
+        where: active,
+        data: {
+          status: RegistrationStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancelReason: reason || 'Event cancelled',
+        },
+      });
+
+      if (cancelled.count > 0) {
+        this.logger.log(`Cancelled ${cancelled.count} registrations for event ${eventId}`);
+      }
+
+      // Nobody can be offered a seat on a cancelled event
+      await tx.waitlistEntry.updateMany({
+        where: {
+          eventId,
+          status: { in: ACTIVE_WAITLIST_STATUSES },
+        },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+
+      const updated = await tx.event.update({
+        where: { id: eventId },
+        // Every seat holder and open offer was just cancelled
+        data: { status: EventStatus.CANCELLED, currentSeats: 0 },
+        include: eventInclude,
+      });
+
+      return { updated, registrations };
+    });
+
+    await this.settleCancelledRegistrations(eventId, actor.id, registrations, reason);
+
+    this.logger.log(`Cancelled event ${eventId}${reason ? ` - Reason: ${reason}` : ''}`);
+
+    return this.toResponseDto(updated, true);
+  }
+
+  /**
+   * Undo the payment side of a cancelled event's registrations
+   * Runs after the cancellation is committed, so Stripe calls that fail are
+   * logged instead of undoing it. A payment whose refund failed stays COMPLETED
+   * on a cancelled registration, where an admin can refund it by hand.
+   */
+  private async settleCancelledRegistrations(
+    eventId: string,
+    actorId: string,
+    registrations: CancelledRegistration[],
+    reason?: string,
+  ): Promise<void> {
+    const paidSessionIds: string[] = [];
+
+    for (const registration of registrations) {
+      try {
+        if (registration.stripeSubId) {
+          // The customer.subscription.deleted webhook then finds nothing left to cancel
+          await this.stripeService.cancelSubscriptionNow(registration.stripeSubId);
+        } else if (registration.status === RegistrationStatus.PENDING) {
+          // An open checkout could otherwise still be paid for the cancelled event
+          if (registration.stripeSessionId) {
+            await this.stripeService.expireCheckoutSession(registration.stripeSessionId);
+          }
+        } else if (registration.stripeSessionId) {
+          paidSessionIds.push(registration.stripeSessionId);
+        }
+      } catch {
+        this.logger.error(
+          `Registration ${registration.id} of cancelled event ${eventId} still has an open checkout or subscription`,
+        );
+      }
+    }
+
+    if (paidSessionIds.length === 0) {
+      return;
+    }
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        type: PaymentType.EVENT_ONETIME,
+        status: PaymentStatus.COMPLETED,
+        stripeSessionId: { in: paidSessionIds },
+      },
+      select: { id: true, stripeSessionId: true },
+    });
+
+    let refunded = 0;
+
+    for (const payment of payments) {
+      try {
+        await this.refundsService.refund(payment.id, actorId, {
+          reason: reason ? `Event cancelled: ${reason}` : 'Event cancelled',
+        });
+
+        await this.prisma.eventRegistration.updateMany({
+          where: { eventId, stripeSessionId: payment.stripeSessionId },
+          data: { paymentStatus: PaymentStatus.REFUNDED },
+        });
+        refunded++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to refund payment ${payment.id} for cancelled event ${eventId}: ${error.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Refunded ${refunded} of ${payments.length} payments for cancelled event ${eventId}`,
+    );
+  }
+
+  /**
+   * Update an event and record the save as a revision
+   */
+  private async save(
+    event: Event,
+    actorId: string,
+    data: Prisma.EventUncheckedUpdateInput,
+    restoredFromVersion?: number,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.event.update({
+        where: { id: event.id },
+        data,
+        include: eventInclude,
+      });
+
+      await this.revisionsService.record(
+        {
+          entityType: RevisionEntity.EVENT,
+          entityId: event.id,
+          saved: updated,
+          authorId: actorId,
+          previous: { entity: event, authorId: event.createdById },
+          restoredFromVersion,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Load an event and verify the actor may manage it
+   */
+  private async findManageable(eventId: string, actor: EventActor) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event || !event.isActive) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (!this.canManage(event, actor)) {
+      throw new ForbiddenException('You can only manage events you created');
+    }
+
+    return event;
+  }
+
+  /**
+   * Event creators and admins can manage an event
+   */
+  private canManage(event: { createdById: string }, actor: EventActor): boolean {
+    return actor.role === UserRole.ADMIN || event.createdById === actor.id;
+  }
+
+  private async countActiveRegistrations(eventId: string): Promise<number> {
+    return this.prisma.eventRegistration.count({
+      where: {
+        eventId,
+        status: { in: [RegistrationStatus.PENDING, RegistrationStatus.CONFIRMED] },
+      },
+    });
+  }
+
+  private async assertCategoryExists(categoryId: string): Promise<void> {
+    const category = await this.prisma.eventCategory.findUnique({
+      where: { id: categoryId },
+    });
+
+    if (!category || !category.isActive) {
+      throw new NotFoundException('Event category not found');
+    }
+  }
+
+  private async slugExists(slug: string): Promise<boolean> {
+    const existing = await this.prisma.event.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    return !!existing;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.slugExists(slug)) {
+      throw new ConflictException(`An event with slug '${slug}' already exists`);
+    }
+  }
+
+  /**
+   * Validate scheduling, pricing and location rules on the merged event data
+   */
+  private validateEventData(data: {
+    startDate: Date;
+    endDate: Date | null;
+    registrationDeadline: Date | null;
+    isFree: boolean;
+    price: number | null;
+    memberPrice: number | null;
+    isRecurring: boolean;
+    recurringInterval: string | null;
+    isVirtual: boolean;
+    virtualLink: string | null;
+  }): void {
+    if (data.endDate && data.endDate < data.startDate) {
+      throw new BadRequestException('endDate must be after startDate');
+    }
+
+    if (data.registrationDeadline && data.registrationDeadline > data.startDate) {
+      throw new BadRequestException('registrationDeadline must be before startDate');
+    }
+
+    if (!data.isFree && (data.price === null || data.price <= 0)) {
+      throw new BadRequestException('Paid events must have a price greater than 0');
+    }
+
+    if (data.memberPrice !== null) {
+      if (data.isFree) {
+        throw new BadRequestException('Free events cannot have a memberPrice');
+      }
+
+      if (data.price !== null && data.memberPrice > data.price) {
+        throw new BadRequestException('memberPrice cannot be higher than price');
+      }
+    }
+
+    if (data.isRecurring && !data.recurringInterval) {
+      throw new BadRequestException('Recurring events must specify recurringInterval');
+    }
+
+    if (data.isVirtual && !data.virtualLink) {
+      throw new BadRequestException('Virtual events must have a virtualLink');
+    }
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(event: any, includeVirtualLink: boolean): EventResponseDto {
+    return {
+      id: event.id,
+      title: event.title,
+      slug: event.slug,
+      excerpt: event.excerpt,
+      content: event.content,
+      categoryId: event.categoryId,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      registrationDeadline: event.registrationDeadline,
+      maxSeats: event.maxSeats,
+      currentSeats: event.currentSeats,
+      location: event.location,
+      locationDetails: event.locationDetails,
+      isVirtual: event.isVirtual,
+      virtualLink: includeVirtualLink ? event.virtualLink : null,
+      isFree: event.isFree,
+      price: event.price ? Number(event.price) : null,
+      memberPrice: event.memberPrice ? Number(event.memberPrice) : null,
+      isRecurring: event.isRecurring,
+      recurringInterval: event.recurringInterval,
+      featuredImage: event.featuredImage,
+      gallery: event.gallery,
+      isMembersOnly: event.isMembersOnly,
+      status: event.status as EventStatus,
+      publishedAt: event.publishedAt,
+      createdById: event.createdById,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+      category: event.category
+        ? {
+            id: event.category.id,
+            name: event.category.name,
+            slug: event.category.slug,
+            color: event.category.color,
+            icon: event.category.icon,
+          }
+        : undefined,
+      createdBy: event.createdBy
+        ? {
+            id: event.createdBy.id,
+            profile: event.createdBy.profile
+              ? {
+                  firstName: event.createdBy.profile.firstName,
+                  lastName: event.createdBy.profile.lastName,
+                }
+              : undefined,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { Prisma, RegistrationStatus, UserRole, WaitlistStatus } from '@prisma/client';
+import { EventStatus } from './dto';
+import {
+  InvalidRegistrationTransitionException,
+  InvalidWaitlistTransitionException,
+  RegistrationClosedException,
+} from './registration.exceptions';
+
+/**
+ * Roles allowed to register for members-only events
+ */
+export const MEMBER_ROLES: UserRole[] = [UserRole.MEMBER, UserRole.CONTRIBUTOR, UserRole.ADMIN];
+
+/**
+ * Price a registrant is charged for an event (null for free events)
+ * MEMBER_ROLES get memberPrice when one is set; household members covered by a
+ * family membership hold the MEMBER role, so they get it too
+ */
+export function getRegistrationPrice(
+  event: { isFree: boolean; price: Prisma.Decimal | null; memberPrice: Prisma.Decimal | null },
+  role: UserRole,
+): Prisma.Decimal | null {
+  if (event.isFree) {
+    return null;
+  }
+
+  if (event.memberPrice !== null && MEMBER_ROLES.includes(role)) {
+    return event.memberPrice;
+  }
+
+  return event.price;
+}
+
+/**
+ * Registration state machine (prompts/05_STATE_MACHINE.md section 2)
+ *
+ * PENDING   -> CONFIRMED (payment success), CANCELLED (user/admin/timeout)
+ * CONFIRMED -> CANCELLED (user/admin), COMPLETED (event ended)
+ * CANCELLED -> PENDING, CONFIRMED (re-registration reuses the row,
+ *              since there is one registration per event per user)
+ * COMPLETED -> terminal
+ */
+export const REGISTRATION_TRANSITIONS: Record<RegistrationStatus, RegistrationStatus[]> = {
+  [RegistrationStatus.PENDING]: [RegistrationStatus.CONFIRMED, RegistrationStatus.CANCELLED],
+  [RegistrationStatus.CONFIRMED]: [RegistrationStatus.CANCELLED, RegistrationStatus.COMPLETED],
+  [RegistrationStatus.CANCELLED]: [RegistrationStatus.PENDING, RegistrationStatus.CONFIRMED],
+  [RegistrationStatus.COMPLETED]: [],
+};
+
+export function canTransitionRegistration(
+  from: RegistrationStatus,
+  to: RegistrationStatus,
+): boolean {
+  return REGISTRATION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw if the transition is not allowed by the state machine
+ */
+export function assertRegistrationTransition(
+  from: RegistrationStatus,
+  to: RegistrationStatus,
+): void {
+  if (!canTransitionRegistration(from, to)) {
+    throw new InvalidRegistrationTransitionException(from, to);
+  }
+}
+
+/**
+ * Waitlist state machine (prompts/05_STATE_MACHINE.md section 3)
+ *
+ * WAITING  -> OFFERED (seat freed, first in line), EXPIRED (event cancelled)
+ * OFFERED  -> ACCEPTED, DECLINED, EXPIRED (acceptance window passed)
+ * EXPIRED, DECLINED, ACCEPTED -> WAITING (re-joining reuses the row, one entry per event
+ *   per user; an accepted seat that was cancelled can be queued for again)
+ */
+export const WAITLIST_TRANSITIONS: Record<WaitlistStatus, WaitlistStatus[]> = {
+  [WaitlistStatus.WAITING]: [WaitlistStatus.OFFERED, WaitlistStatus.EXPIRED],
+  [WaitlistStatus.OFFERED]: [
+    WaitlistStatus.ACCEPTED,
+    WaitlistStatus.DECLINED,
+    WaitlistStatus.EXPIRED,
+  ],
+  [WaitlistStatus.ACCEPTED]: [WaitlistStatus.WAITING],
+  [WaitlistStatus.EXPIRED]: [WaitlistStatus.WAITING],
+  [WaitlistStatus.DECLINED]: [WaitlistStatus.WAITING],
+};
+
+/**
+ * Entries that are still in the queue and hold a position
+ */
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [
+  WaitlistStatus.WAITING,
+  WaitlistStatus.OFFERED,
+];
+
+/**
+ * Throw if the transition is not allowed by the waitlist state machine
+ */
+export function assertWaitlistTransition(from: WaitlistStatus, to: WaitlistStatus): void {
+  if (!WAITLIST_TRANSITIONS[from].includes(to)) {
+    throw new InvalidWaitlistTransitionException(from, to);
+  }
+}
+
+type RegistrationWindow = {
+  status: string;
+  startDate: Date;
+  endDate: Date | null;
+  registrationDeadline: Date | null;
+  isRecurring: boolean;
+};
+
+/**
+ * Registration (and joining the waitlist) is only open for published events
+ * before the deadline and start date. Recurring events (classes) keep taking
+ * subscribers after the first session, until their end date.
+ */
+export function assertRegistrationOpen(event: RegistrationWindow): void {
+  if (event.status !== EventStatus.PUBLISHED) {
+    throw new RegistrationClosedException(
+      `Event is ${event.status.toLowerCase()} and not open for registration`,
+    );
+  }
+
+  const now = new Date();
+
+  if (event.registrationDeadline && now > event.registrationDeadline) {
+    throw new RegistrationClosedException('Registration deadline has passed');
+  }
+
+  if (event.isRecurring) {
+    if (event.endDate && now > event.endDate) {
+      throw new RegistrationClosedException('Event series has ended');
+    }
+  } else if (now > event.startDate) {
+    throw new RegistrationClosedException('Event has already started');
+  }
+}
+
+export function isRegistrationOpen(event: RegistrationWindow): boolean {
+  try {
+    assertRegistrationOpen(event);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,66 @@
+import { ConflictException, ForbiddenException, GoneException } from '@nestjs/common';
+import { RegistrationStatus, WaitlistStatus } from '@prisma/client';
+
+/**
+ * Typed registration errors
+ * Each carries a machine-readable `code` (see prompts/03_API_SPECIFICATION.md section 6)
+ * so the frontend can react without parsing messages.
+ */
+
+export class EventFullException extends ConflictException {
+  constructor(message = 'Event has no available seats') {
+    super({ statusCode: 409, error: 'Conflict', code: 'EVENT_FULL', message });
+  }
+}
+
+export class RegistrationClosedException extends ConflictException {
+  constructor(message = 'Registration is closed for this event') {
+    super({ statusCode: 409, error: 'Conflict', code: 'EVENT_CLOSED', message });
+  }
+}
+
+export class AlreadyRegisteredException extends ConflictException {
+  constructor(message = 'You are already registered for this event') {
+    super({ statusCode: 409, error: 'Conflict', code: 'ALREADY_REGISTERED', message });
+  }
+}
+
+export class MembersOnlyEventException extends ForbiddenException {
+  constructor(message = 'This event is open to members only') {
+    super({ statusCode: 403, error: 'Forbidden', code: 'MEMBERS_ONLY', message });
+  }
+}
+
+export class InvalidRegistrationTransitionException extends ConflictException {
+  constructor(from: RegistrationStatus, to: RegistrationStatus) {
+    super({
+      statusCode: 409,
+      error: 'Conflict',
+      code: 'INVALID_TRANSITION',
+      message: `Cannot move registration from ${from} to ${to}`,
+    });
+  }
+}
+
+export class AlreadyWaitlistedException extends ConflictException {
+  constructor(message = 'You are already on the waitlist for this event') {
+    super({ statusCode: 409, error: 'Conflict', code: 'ALREADY_WAITLISTED', message });
+  }
+}
+
+export class WaitlistOfferExpiredException extends GoneException {
+  constructor(message = 'Waitlist offer has expired') {
+    super({ statusCode: 410, error: 'Gone', code: 'WAITLIST_EXPIRED', message });
+  }
+}
+
+export class InvalidWaitlistTransitionException extends ConflictException {
+  constructor(from: WaitlistStatus, to: WaitlistStatus) {
+    super({
+      statusCode: 409,
+      error: 'Conflict',
+      code: 'INVALID_TRANSITION',
+      message: `Cannot move waitlist entry from ${from} to ${to}`,
+    });
+  }
+}
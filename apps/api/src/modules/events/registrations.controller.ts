@@ -0,0 +1,29 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { RegistrationsService } from './registrations.service';
+import { RegistrationResponseDto } from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RegistrationStatus } from '@prisma/client';
+
+@Controller('registrations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RegistrationsController {
+  constructor(private readonly registrationsService: RegistrationsService) {}
+
+  /**
+   * Get current user's event registrations
+   * GET /api/registrations/me?status=CONFIRMED&upcoming=true
+   */
+  @Get('me')
+  async getMyRegistrations(
+    @CurrentUser() user: any,
+    @Query('status') status?: RegistrationStatus,
+    @Query('upcoming') upcoming?: string,
+  ): Promise<RegistrationResponseDto[]> {
+    return this.registrationsService.findMyRegistrations(user.id, {
+      status,
+      upcoming: upcoming === 'true',
+    });
+  }
+}
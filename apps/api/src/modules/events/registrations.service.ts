@@ -0,0 +1,689 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  Event,
+  EventRegistration,
+  PaymentStatus,
+  Prisma,
+  RegistrationStatus,
+  UserRole,
+} from '@prisma/client';
+import { EventStatus, RegistrationResponseDto } from './dto';
+import {
+  MEMBER_ROLES,
+  getRegistrationPrice,
+  assertRegistrationOpen,
+  assertRegistrationTransition,
+} from './registration-state';
+import { SeatAllocationService } from './seat-allocation.service';
+import { WaitlistService } from './waitlist.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  AlreadyRegisteredException,
+  InvalidRegistrationTransitionException,
+  MembersOnlyEventException,
+} from './registration.exceptions';
+
+/**
+ * Minimal shape of the authenticated user needed to register
+ */
+interface Registrant {
+  id: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class RegistrationsService {
+  private readonly logger = new Logger(RegistrationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private seatAllocation: SeatAllocationService,
+    private waitlist: WaitlistService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Register the user for an event
+   * Free events are CONFIRMED immediately, paid events start as PENDING (awaiting payment)
+   * and hold their seat until the checkout is paid or expires.
+   * A previously cancelled registration is re-activated instead of creating a new row.
+   */
+  async register(eventId: string, user: Registrant): Promise<RegistrationResponseDto> {
+    try {
+      const registration = await this.prisma.$transaction((tx) =>
+        this.createRegistration(tx, eventId, user),
+      );
+
+      this.logger.log(
+        `User ${user.id} registered for event ${eventId} with status ${registration.status}`,
+      );
+
+      return this.toResponseDto(registration);
+    } catch (error) {
+      // Two concurrent requests from the same user both passed the existence
+      // check; the unique (eventId, userId) index rejects the second one
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AlreadyRegisteredException();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel the user's registration for an event
+   */
+  async cancel(eventId: string, userId: string, reason?: string): Promise<RegistrationResponseDto> {
+    const registration = await this.prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+    });
+
+    if (!registration) {
+      throw new NotFoundException('Registration not found');
+    }
+
+    assertRegistrationTransition(registration.status, RegistrationStatus.CANCELLED);
+
+    if (registration.stripeSubId && registration.status === RegistrationStatus.CONFIRMED) {
+      throw new BadRequestException(
+        'Cancel the subscription instead; access continues until the end of the paid period',
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.releaseRegistration(tx, registration, {
+        cancelledAt: new Date(),
+        cancelReason: reason || 'Cancelled by user',
+      });
+
+      return tx.eventRegistration.findUniqueOrThrow({
+        where: { id: registration.id },
+        include: { event: true },
+      });
+    });
+
+    this.logger.log(`User ${userId} cancelled registration for event ${eventId}`);
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Accept a waitlist offer and turn it into a registration
+   * Free events are CONFIRMED on the seat held for the offer; paid events
+   * start as PENDING on that seat, like a normal registration.
+   */
+  async acceptWaitlistOffer(entryId: string, user: Registrant): Promise<RegistrationResponseDto> {
+    // Let an overdue offer expire (and pass its seat on) before it is claimed
+    await this.waitlist.expireOffers({ id: entryId });
+
+    const registration = await this.prisma.$transaction(async (tx) => {
+      const entry = await this.waitlist.claimOffer(tx, entryId, user.id);
+
+      const event = await tx.event.findUniqueOrThrow({
+        where: { id: entry.eventId },
+      });
+
+      assertRegistrationOpen(event);
+
+      const existing = await tx.eventRegistration.findUnique({
+        where: { eventId_userId: { eventId: event.id, userId: user.id } },
+      });
+
+      if (existing && existing.status !== RegistrationStatus.CANCELLED) {
+        throw new AlreadyRegisteredException();
+      }
+
+      const status = event.isFree ? RegistrationStatus.CONFIRMED : RegistrationStatus.PENDING;
+
+      if (existing) {
+        assertRegistrationTransition(existing.status, status);
+      }
+
+      // The seat held for the offer becomes this registration's seat
+      return this.saveRegistration(tx, event, user, existing, status);
+    });
+
+    this.logger.log(
+      `User ${user.id} accepted waitlist offer ${entryId} with status ${registration.status}`,
+    );
+
+    return this.toResponseDto(registration);
+  }
+
+  /**
+   * Get (or create) the PENDING registration a paid-event checkout pays for
+   * Retrying checkout reuses the existing PENDING registration and its held seat.
+   */
+  async prepareCheckout(eventId: string, user: Registrant): Promise<RegistrationResponseDto> {
+    const existing = await this.prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId: user.id } },
+      include: { event: true },
+    });
+
+    if (existing?.status === RegistrationStatus.PENDING) {
+      return this.toResponseDto(existing);
+    }
+
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { isFree: true },
+    });
+
+    if (event?.isFree) {
+      throw new BadRequestException('This event is free, register without checkout');
+    }
+
+    return this.register(eventId, user);
+  }
+
+  /**
+   * Remember which checkout session pays for a PENDING registration
+   */
+  async attachCheckoutSession(registrationId: string, stripeSessionId: string): Promise<void> {
+    await this.prisma.eventRegistration.update({
+      where: { id: registrationId },
+      data: { stripeSessionId },
+    });
+  }
+
+  /**
+   * Checkout session of the user's PENDING registration for an event, if one was created
+   */
+  async findPendingCheckoutSession(eventId: string, userId: string): Promise<string | null> {
+    const registration = await this.prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+      select: { status: true, stripeSessionId: true },
+    });
+
+    return registration?.status === RegistrationStatus.PENDING
+      ? registration.stripeSessionId
+      : null;
+  }
+
+  /**
+   * Forget a checkout session that was expired to be replaced, so its
+   * checkout.session.expired event doesn't release the registration
+   */
+  async detachCheckoutSession(registrationId: string, stripeSessionId: string): Promise<void> {
+    await this.prisma.eventRegistration.updateMany({
+      where: { id: registrationId, stripeSessionId },
+      data: { stripeSessionId: null },
+    });
+  }
+
+  /**
+   * Confirm a PENDING registration after its checkout was paid (Stripe webhook)
+   * The seat was already taken when the registration was created.
+   * Returns false when the registration is no longer pending, so the payment has to be refunded.
+   */
+  async confirmPayment(registrationId: string, stripeSessionId: string): Promise<boolean> {
+    const confirmed = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.eventRegistration.updateMany({
+        where: { id: registrationId, status: RegistrationStatus.PENDING },
+        data: {
+          status: RegistrationStatus.CONFIRMED,
+          paymentStatus: PaymentStatus.COMPLETED,
+          stripeSessionId,
+          confirmedAt: new Date(),
+        },
+      });
+
+      if (result.count === 1) {
+        await this.notificationsService.notifyRegistrationConfirmed(registrationId, tx);
+      }
+
+      return result.count === 1;
+    });
+
+    if (!confirmed) {
+      // Cancelled (or session expired, or paid through another session) before the payment landed
+      this.logger.warn(
+        `Payment for session ${stripeSessionId} received but registration ${registrationId} is no longer pending`,
+      );
+      return false;
+    }
+
+    this.logger.log(`Confirmed registration ${registrationId} after payment`);
+
+    return true;
+  }
+
+  /**
+   * Cancel a PENDING registration whose checkout expired or failed (Stripe webhook)
+   * Ignored when the registration has since moved on to a newer checkout session.
+   */
+  async releaseUnpaid(registrationId: string, stripeSessionId: string): Promise<void> {
+    const released = await this.prisma.$transaction(async (tx) => {
+      const registration = await tx.eventRegistration.findUnique({
+        where: { id: registrationId },
+      });
+
+      if (
+        !registration ||
+        registration.status !== RegistrationStatus.PENDING ||
+        registration.stripeSessionId !== stripeSessionId
+      ) {
+        return false;
+      }
+
+      await this.releaseRegistration(tx, registration, {
+        paymentStatus: PaymentStatus.FAILED,
+        cancelledAt: new Date(),
+        cancelReason: 'Payment not completed',
+      });
+
+      return true;
+    });
+
+    if (released) {
+      this.logger.log(`Released seat of unpaid registration ${registrationId}`);
+    }
+  }
+
+  /**
+   * Cancel the PENDING registration of a checkout whose Stripe session couldn't be created
+   * Kept when an earlier session of a retried checkout can still pay for it.
+   */
+  async abandonCheckout(registrationId: string): Promise<void> {
+    const released = await this.prisma.$transaction(async (tx) => {
+      const registration = await tx.eventRegistration.findUnique({
+        where: { id: registrationId },
+      });
+
+      if (
+        !registration ||
+        registration.status !== RegistrationStatus.PENDING ||
+        registration.stripeSessionId
+      ) {
+        return false;
+      }
+
+      await this.releaseRegistration(tx, registration, {
+        paymentStatus: PaymentStatus.FAILED,
+        cancelledAt: new Date(),
+        cancelReason: 'Checkout could not be created',
+      });
+
+      return true;
+    });
+
+    if (released) {
+      this.logger.log(`Released seat of registration ${registrationId} after checkout failed`);
+    }
+  }
+
+  /**
+   * Link the Stripe subscription created by a completed subscription checkout
+   * The registration is confirmed once its first invoice is paid.
+   */
+  async attachSubscription(registrationId: string, stripeSubId: string): Promise<void> {
+    await this.prisma.eventRegistration.update({
+      where: { id: registrationId },
+      data: { stripeSubId },
+    });
+  }
+
+  /**
+   * Record a paid subscription invoice (Stripe webhook)
+   * The first invoice confirms the PENDING registration; renewals clear a previous failure.
+   */
+  async confirmSubscriptionPayment(registrationId: string, stripeSubId: string): Promise<void> {
+    const registration = await this.prisma.eventRegistration.findUnique({
+      where: { id: registrationId },
+    });
+
+    if (!registration || registration.status === RegistrationStatus.CANCELLED) {
+      this.logger.warn(
+        `Invoice paid for subscription ${stripeSubId} but registration ${registrationId} is not active`,
+      );
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.eventRegistration.update({
+        where: { id: registrationId },
+        data: {
+          status: RegistrationStatus.CONFIRMED,
+          paymentStatus: PaymentStatus.COMPLETED,
+          stripeSubId,
+          ...(registration.status === RegistrationStatus.PENDING && { confirmedAt: new Date() }),
+        },
+      });
+
+      // Only the first invoice confirms; renewals get just a receipt
+      if (registration.status === RegistrationStatus.PENDING) {
+        await this.notificationsService.notifyRegistrationConfirmed(registrationId, tx);
+      }
+    });
+
+    this.logger.log(`Subscription ${stripeSubId} paid for registration ${registrationId}`);
+  }
+
+  /**
+   * Flag a failed renewal; access continues while Stripe retries (Stripe webhook)
+   */
+  async markSubscriptionPaymentFailed(stripeSubId: string): Promise<void> {
+    await this.prisma.eventRegistration.updateMany({
+      where: { stripeSubId, status: RegistrationStatus.CONFIRMED },
+      data: { paymentStatus: PaymentStatus.FAILED },
+    });
+  }
+
+  /**
+   * Find the user's active subscription registration for an event
+   */
+  async findActiveSubscription(eventId: string, userId: string) {
+    const registration = await this.prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+    });
+
+    if (
+      !registration ||
+      !registration.stripeSubId ||
+      registration.status !== RegistrationStatus.CONFIRMED
+    ) {
+      throw new NotFoundException('Active subscription not found');
+    }
+
+    if (registration.subscriptionEndsAt) {
+      throw new BadRequestException('Subscription is already cancelled');
+    }
+
+    return { id: registration.id, stripeSubId: registration.stripeSubId };
+  }
+
+  /**
+   * Record that a cancelled subscription stays active until `endsAt`
+   */
+  async markSubscriptionEnding(
+    registrationId: string,
+    endsAt: Date,
+  ): Promise<RegistrationResponseDto> {
+    const updated = await this.prisma.eventRegistration.update({
+      where: { id: registrationId },
+      data: { subscriptionEndsAt: endsAt },
+      include: { event: true },
+    });
+
+    this.logger.log(
+      `Subscription for registration ${registrationId} ends at ${endsAt.toISOString()}`,
+    );
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Cancel the registration of a subscription that has ended and free its seat (Stripe webhook)
+   */
+  async endSubscription(stripeSubId: string): Promise<void> {
+    const ended = await this.prisma.$transaction(async (tx) => {
+      const registration = await tx.eventRegistration.findFirst({
+        where: {
+          stripeSubId,
+          status: { in: [RegistrationStatus.PENDING, RegistrationStatus.CONFIRMED] },
+        },
+      });
+
+      if (!registration) {
+        return null;
+      }
+
+      await this.releaseRegistration(tx, registration, {
+        cancelledAt: new Date(),
+        cancelReason: 'Subscription ended',
+      });
+
+      return registration.id;
+    });
+
+    if (ended) {
+      this.logger.log(`Subscription ${stripeSubId} ended, cancelled registration ${ended}`);
+    }
+  }
+
+  /**
+   * Cancel the registration a refunded payment paid for and pass its seat on
+   * Runs inside the refund's transaction; returns false if it was no longer active
+   */
+  async cancelRefunded(tx: Prisma.TransactionClient, registrationId: string): Promise<boolean> {
+    const registration = await tx.eventRegistration.findUnique({
+      where: { id: registrationId },
+    });
+
+    if (
+      !registration ||
+      (registration.status !== RegistrationStatus.PENDING &&
+        registration.status !== RegistrationStatus.CONFIRMED)
+    ) {
+      return false;
+    }
+
+    await this.releaseRegistration(tx, registration, {
+      paymentStatus: PaymentStatus.REFUNDED,
+      cancelledAt: new Date(),
+      cancelReason: 'Payment refunded',
+    });
+
+    this.logger.log(`Cancelled refunded registration ${registrationId}`);
+
+    return true;
+  }
+
+  /**
+   * Cancel PENDING registrations that never got paid and free their seats (scheduled job)
+   * Returns the number of registrations cancelled
+   */
+  async cancelStalePending(olderThan: Date): Promise<number> {
+    const stale = await this.prisma.eventRegistration.findMany({
+      where: {
+        status: RegistrationStatus.PENDING,
+        registeredAt: { lt: olderThan },
+      },
+      select: { id: true, eventId: true, status: true },
+    });
+
+    let cancelled = 0;
+
+    for (const registration of stale) {
+      try {
+        await this.prisma.$transaction((tx) =>
+          this.releaseRegistration(tx, registration, {
+            paymentStatus: PaymentStatus.FAILED,
+            cancelledAt: new Date(),
+            cancelReason: 'Payment timeout - auto cancelled',
+          }),
+        );
+        cancelled++;
+      } catch (error) {
+        // Paid or cancelled since we looked
+        if (!(error instanceof InvalidRegistrationTransitionException)) {
+          throw error;
+        }
+      }
+    }
+
+    if (cancelled > 0) {
+      this.logger.log(`Cancelled ${cancelled} stale pending registrations`);
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Get the current user's registrations
+   */
+  async findMyRegistrations(
+    userId: string,
+    params: { status?: RegistrationStatus; upcoming?: boolean } = {},
+  ): Promise<RegistrationResponseDto[]> {
+    const registrations = await this.prisma.eventRegistration.findMany({
+      where: {
+        userId,
+        ...(params.status && { status: params.status }),
+        ...(params.upcoming && { event: { startDate: { gte: new Date() } } }),
+      },
+      include: { event: true },
+      orderBy: { event: { startDate: 'asc' } },
+    });
+
+    return registrations.map((r) => this.toResponseDto(r));
+  }
+
+  /**
+   * Validate the event and write the registration inside the caller's transaction
+   */
+  private async createRegistration(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+    user: Registrant,
+  ) {
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event || !event.isActive || event.status === EventStatus.DRAFT) {
+      throw new NotFoundException('Event not found');
+    }
+
+    assertRegistrationOpen(event);
+
+    if (event.isMembersOnly && !MEMBER_ROLES.includes(user.role)) {
+      throw new MembersOnlyEventException();
+    }
+
+    const existing = await tx.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId: user.id } },
+    });
+
+    if (existing && existing.status !== RegistrationStatus.CANCELLED) {
+      throw new AlreadyRegisteredException();
+    }
+
+    const status = event.isFree ? RegistrationStatus.CONFIRMED : RegistrationStatus.PENDING;
+
+    if (existing) {
+      assertRegistrationTransition(existing.status, status);
+    }
+
+    // PENDING registrations hold their seat while the checkout is open
+    await this.seatAllocation.reserveSeat(tx, eventId);
+
+    const registration = await this.saveRegistration(tx, event, user, existing, status);
+
+    // A seat was free after all, so they no longer need their place in the queue
+    await this.waitlist.removeIfQueued(tx, eventId, user.id);
+
+    return registration;
+  }
+
+  /**
+   * Cancel an active registration and pass its seat on (waitlist first)
+   * Conditional on the status we read so a concurrent cancel can't release the seat twice
+   */
+  private async releaseRegistration(
+    tx: Prisma.TransactionClient,
+    registration: { id: string; eventId: string; status: RegistrationStatus },
+    data: Prisma.EventRegistrationUpdateManyMutationInput,
+  ): Promise<void> {
+    const result = await tx.eventRegistration.updateMany({
+      where: { id: registration.id, status: registration.status },
+      data: { ...data, status: RegistrationStatus.CANCELLED },
+    });
+
+    if (result.count === 0) {
+      throw new InvalidRegistrationTransitionException(
+        registration.status,
+        RegistrationStatus.CANCELLED,
+      );
+    }
+
+    await this.waitlist.reassignSeat(tx, registration.eventId);
+  }
+
+  /**
+   * Create the registration, or re-activate the user's cancelled one
+   * The price is fixed here, so a later role change doesn't alter an open checkout
+   */
+  private async saveRegistration(
+    tx: Prisma.TransactionClient,
+    event: Event,
+    user: Registrant,
+    existing: EventRegistration | null,
+    status: RegistrationStatus,
+  ) {
+    const now = new Date();
+    const data = {
+      status,
+      amount: getRegistrationPrice(event, user.role),
+      paymentStatus: event.isFree ? null : PaymentStatus.PENDING,
+      registeredAt: now,
+      confirmedAt: event.isFree ? now : null,
+      cancelledAt: null,
+      cancelReason: null,
+      // Payment references from a previous (cancelled) registration don't carry over
+      stripeSessionId: null,
+      stripeSubId: null,
+      subscriptionEndsAt: null,
+    };
+
+    const registration = existing
+      ? await tx.eventRegistration.update({
+          where: { id: existing.id },
+          data,
+          include: { event: true },
+        })
+      : await tx.eventRegistration.create({
+          data: {
+            ...data,
+            eventId: event.id,
+            userId: user.id,
+          },
+          include: { event: true },
+        });
+
+    // Paid registrations are confirmed (and emailed) once the payment lands
+    if (status === RegistrationStatus.CONFIRMED) {
+      await this.notificationsService.notifyRegistrationConfirmed(registration.id, tx);
+    }
+
+    return registration;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(registration: any): RegistrationResponseDto {
+    return {
+      id: registration.id,
+      eventId: registration.eventId,
+      userId: registration.userId,
+      status: registration.status,
+      paymentStatus: registration.paymentStatus,
+      amount: registration.amount ? Number(registration.amount) : null,
+      registeredAt: registration.registeredAt,
+      confirmedAt: registration.confirmedAt,
+      cancelledAt: registration.cancelledAt,
+      cancelReason: registration.cancelReason,
+      subscriptionEndsAt: registration.subscriptionEndsAt,
+      event: registration.event
+        ? {
+            id: registration.event.id,
+            title: registration.event.title,
+            slug: registration.event.slug,
+            startDate: registration.event.startDate,
+            endDate: registration.event.endDate,
+            location: registration.event.location,
+            isVirtual: registration.event.isVirtual,
+            isFree: registration.event.isFree,
+            price: registration.event.price ? Number(registration.event.price) : null,
+            memberPrice: registration.event.memberPrice
+              ? Number(registration.event.memberPrice)
+              : null,
+            isRecurring: registration.event.isRecurring,
+            recurringInterval: registration.event.recurringInterval,
+            status: registration.event.status,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, RegistrationStatus, WaitlistStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EventFullException } from './registration.exceptions';
+
+/**
+ * Seat drift found by reconciliation
+ */
+export interface SeatDrift {
+  eventId: string;
+  title: string;
+  recordedSeats: number;
+  actualSeats: number;
+}
+
+/**
+ * Owns Event.currentSeats
+ *
+ * Seats are taken with a single conditional UPDATE
+ * (currentSeats < maxSeats), so two concurrent registrations can never
+ * both claim the last seat. Must be called inside the same transaction
+ * that writes the registration so a failed write also returns the seat.
+ */
+@Injectable()
+export class SeatAllocationService {
+  private readonly logger = new Logger(SeatAllocationService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Atomically take one seat, or throw EventFullException
+   */
+  async reserveSeat(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+    const result = await tx.event.updateMany({
+      where: {
+        id: eventId,
+        currentSeats: { lt: tx.event.fields.maxSeats },
+      },
+      data: {
+        currentSeats: { increment: 1 },
+      },
+    });
+
+    if (result.count === 0) {
+      throw new EventFullException();
+    }
+  }
+
+  /**
+   * Give one seat back (never drops below zero)
+   */
+  async releaseSeat(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+    await tx.event.updateMany({
+      where: {
+        id: eventId,
+        currentSeats: { gt: 0 },
+      },
+      data: {
+        currentSeats: { decrement: 1 },
+      },
+    });
+  }
+
+  /**
+   * Recompute currentSeats from CONFIRMED and PENDING (awaiting payment)
+   * registrations plus seats held for open waitlist offers, and fix any drift
+   * Returns the events whose stored count was wrong
+   */
+  async reconcile(eventId?: string): Promise<{ checked: number; drifted: SeatDrift[] }> {
+    const [events, counts, offers] = await Promise.all([
+      this.prisma.event.findMany({
+        where: eventId ? { id: eventId } : {},
+        select: { id: true, title: true, currentSeats: true },
+      }),
+      this.prisma.eventRegistration.groupBy({
+        by: ['eventId'],
+        where: {
+          status: { in: [RegistrationStatus.CONFIRMED, RegistrationStatus.PENDING] },
+          ...(eventId && { eventId }),
+        },
+        _count: { _all: true },
+      }),
+      this.prisma.waitlistEntry.groupBy({
+        by: ['eventId'],
+        where: {
+          status: WaitlistStatus.OFFERED,
+          ...(eventId && { eventId }),
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const actualByEvent = new Map(counts.map((c) => [c.eventId, c._count._all]));
+    for (const o of offers) {
+      actualByEvent.set(o.eventId, (actualByEvent.get(o.eventId) ?? 0) + o._count._all);
+    }
+    const drifted: SeatDrift[] = [];
+
+    for (const event of events) {
+      const actualSeats = actualByEvent.get(event.id) ?? 0;
+
+      if (actualSeats !== event.currentSeats) {
+        drifted.push({
+          eventId: event.id,
+          title: event.title,
+          recordedSeats: event.currentSeats,
+          actualSeats,
+        });
+
+        await this.prisma.event.update({
+          where: { id: event.id },
+          data: { currentSeats: actualSeats },
+        });
+
+        this.logger.warn(
+          `Seat drift on event ${event.id}: recorded ${event.currentSeats}, actual ${actualSeats} (fixed)`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Seat reconciliation checked ${events.length} events, ${drifted.length} drifted`,
+    );
+
+    return { checked: events.length, drifted };
+  }
+}
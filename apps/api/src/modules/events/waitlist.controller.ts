@@ -0,0 +1,51 @@
+import { Controller, Get, Post, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { WaitlistService } from './waitlist.service';
+import { RegistrationsService } from './registrations.service';
+import { RegistrationResponseDto, WaitlistEntryResponseDto } from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+
+@Controller('waitlist')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class WaitlistController {
+  constructor(
+    private readonly waitlistService: WaitlistService,
+    private readonly registrationsService: RegistrationsService,
+  ) {}
+
+  /**
+   * Get current user's active waitlist entries
+   * GET /api/waitlist/me
+   */
+  @Get('me')
+  async getMyEntries(@CurrentUser() user: any): Promise<WaitlistEntryResponseDto[]> {
+    return this.waitlistService.findMyEntries(user.id);
+  }
+
+  /**
+   * Accept a waitlist offer (must be within the acceptance window)
+   * POST /api/waitlist/:entryId/accept
+   */
+  @Post(':entryId/accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptOffer(
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: any,
+  ): Promise<RegistrationResponseDto> {
+    return this.registrationsService.acceptWaitlistOffer(entryId, user);
+  }
+
+  /**
+   * Decline a waitlist offer, passing the seat to the next person
+   * POST /api/waitlist/:entryId/decline
+   */
+  @Post(':entryId/decline')
+  @HttpCode(HttpStatus.OK)
+  async declineOffer(
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: any,
+  ): Promise<WaitlistEntryResponseDto> {
+    return this.waitlistService.decline(entryId, user.id);
+  }
+}
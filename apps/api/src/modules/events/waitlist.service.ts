@@ -0,0 +1,428 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, RegistrationStatus, UserRole, WaitlistStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EventStatus, WaitlistEntryResponseDto } from './dto';
+import { SeatAllocationService } from './seat-allocation.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  MEMBER_ROLES,
+  assertRegistrationOpen,
+  assertWaitlistTransition,
+  isRegistrationOpen,
+} from './registration-state';
+import {
+  AlreadyRegisteredException,
+  AlreadyWaitlistedException,
+  InvalidWaitlistTransitionException,
+  MembersOnlyEventException,
+  WaitlistOfferExpiredException,
+} from './registration.exceptions';
+
+const DEFAULT_OFFER_HOURS = 48;
+
+/**
+ * Waitlist queue for full events
+ *
+ * A seat freed by a cancellation is handed to the first WAITING entry
+ * instead of going back to the event, so the offered user cannot be beaten
+ * to it by a fresh registration. The seat stays counted in
+ * Event.currentSeats until the offer is accepted, declined or expires.
+ *
+ * Queue changes lock the event row (SELECT ... FOR UPDATE) so positions
+ * stay gap-free when people join and leave concurrently.
+ */
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private seatAllocation: SeatAllocationService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Join the waitlist of a full event
+   */
+  async join(
+    eventId: string,
+    user: { id: string; role: UserRole },
+  ): Promise<WaitlistEntryResponseDto> {
+    const entry = await this.prisma.$transaction(async (tx) => {
+      await this.lockQueue(tx, eventId);
+
+      const event = await tx.event.findUnique({
+        where: { id: eventId },
+      });
+
+      if (!event || !event.isActive || event.status === EventStatus.DRAFT) {
+        throw new NotFoundException('Event not found');
+      }
+
+      assertRegistrationOpen(event);
+
+      if (event.isMembersOnly && !MEMBER_ROLES.includes(user.role)) {
+        throw new MembersOnlyEventException();
+      }
+
+      const registration = await tx.eventRegistration.findUnique({
+        where: { eventId_userId: { eventId, userId: user.id } },
+      });
+
+      if (registration && registration.status !== RegistrationStatus.CANCELLED) {
+        throw new AlreadyRegisteredException();
+      }
+
+      if (event.currentSeats < event.maxSeats) {
+        throw new BadRequestException('Event has available seats, register instead');
+      }
+
+      const existing = await tx.waitlistEntry.findUnique({
+        where: { eventId_userId: { eventId, userId: user.id } },
+      });
+
+      if (existing && ACTIVE_WAITLIST_STATUSES.includes(existing.status)) {
+        throw new AlreadyWaitlistedException();
+      }
+
+      const { _max } = await tx.waitlistEntry.aggregate({
+        where: { eventId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+        _max: { position: true },
+      });
+      const position = (_max.position ?? 0) + 1;
+
+      if (existing) {
+        assertWaitlistTransition(existing.status, WaitlistStatus.WAITING);
+
+        return tx.waitlistEntry.update({
+          where: { id: existing.id },
+          data: {
+            position,
+            status: WaitlistStatus.WAITING,
+            offeredAt: null,
+            expiresAt: null,
+            respondedAt: null,
+          },
+          include: { event: true },
+        });
+      }
+
+      const { email } = await tx.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: { email: true },
+      });
+
+      return tx.waitlistEntry.create({
+        data: {
+          eventId,
+          userId: user.id,
+          email,
+          position,
+        },
+        include: { event: true },
+      });
+    });
+
+    this.logger.log(
+      `User ${user.id} joined waitlist for event ${eventId} at position ${entry.position}`,
+    );
+
+    return this.toResponseDto(entry);
+  }
+
+  /**
+   * Leave the waitlist; an open offer is passed on to the next person
+   */
+  async leave(eventId: string, userId: string): Promise<{ message: string }> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.lockQueue(tx, eventId);
+
+      const entry = await tx.waitlistEntry.findUnique({
+        where: { eventId_userId: { eventId, userId } },
+      });
+
+      if (!entry || !ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+        throw new NotFoundException('Waitlist entry not found');
+      }
+
+      await this.withdraw(tx, entry);
+    });
+
+    this.logger.log(`User ${userId} left waitlist for event ${eventId}`);
+
+    return { message: 'Removed from waitlist' };
+  }
+
+  /**
+   * Get the current user's waitlist entries that are still in the queue
+   */
+  async findMyEntries(userId: string): Promise<WaitlistEntryResponseDto[]> {
+    const entries = await this.prisma.waitlistEntry.findMany({
+      where: { userId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+      include: { event: true },
+      orderBy: { event: { startDate: 'asc' } },
+    });
+
+    return entries.map((e) => this.toResponseDto(e));
+  }
+
+  /**
+   * Decline an open offer; the held seat moves to the next person
+   */
+  async decline(entryId: string, userId: string): Promise<WaitlistEntryResponseDto> {
+    const entry = await this.findOwnEntry(entryId, userId);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.lockQueue(tx, entry.eventId);
+      await this.resolveOffer(tx, entry.id, WaitlistStatus.DECLINED);
+
+      return tx.waitlistEntry.findUniqueOrThrow({
+        where: { id: entry.id },
+        include: { event: true },
+      });
+    });
+
+    this.logger.log(`User ${userId} declined waitlist offer ${entryId}`);
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Mark an open offer ACCEPTED inside the caller's transaction
+   * The seat held for the offer now belongs to the caller's registration.
+   */
+  async claimOffer(tx: Prisma.TransactionClient, entryId: string, userId: string) {
+    const entry = await tx.waitlistEntry.findUnique({
+      where: { id: entryId },
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new NotFoundException('Waitlist entry not found');
+    }
+
+    await this.lockQueue(tx, entry.eventId);
+    await this.resolveOffer(tx, entry.id, WaitlistStatus.ACCEPTED);
+
+    return entry;
+  }
+
+  /**
+   * Expire offers past their acceptance window and cascade each seat to the next person
+   * `where` narrows the sweep (e.g. to one entry); returns the number of offers expired
+   */
+  async expireOffers(where: Prisma.WaitlistEntryWhereInput = {}): Promise<number> {
+    const overdue = await this.prisma.waitlistEntry.findMany({
+      where: {
+        ...where,
+        status: WaitlistStatus.OFFERED,
+        expiresAt: { lt: new Date() },
+      },
+      select: { id: true, eventId: true, userId: true },
+    });
+
+    let expired = 0;
+
+    for (const entry of overdue) {
+      try {
+        await this.prisma.$transaction(async (tx) => {
+          await this.lockQueue(tx, entry.eventId);
+          await this.resolveOffer(tx, entry.id, WaitlistStatus.EXPIRED);
+        });
+        expired++;
+        this.logger.log(`Waitlist offer ${entry.id} for user ${entry.userId} expired`);
+      } catch (error) {
+        // Accepted or declined while we were sweeping
+        if (!(error instanceof InvalidWaitlistTransitionException)) {
+          throw error;
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Give a freed seat to the next WAITING entry, or back to the event if nobody is waiting
+   * Must run inside the transaction that freed the seat.
+   */
+  async reassignSeat(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+    await this.lockQueue(tx, eventId);
+
+    const event = await tx.event.findUniqueOrThrow({
+      where: { id: eventId },
+    });
+
+    const next = isRegistrationOpen(event)
+      ? await tx.waitlistEntry.findFirst({
+          where: { eventId, status: WaitlistStatus.WAITING },
+          orderBy: { position: 'asc' },
+        })
+      : null;
+
+    if (!next) {
+      await this.seatAllocation.releaseSeat(tx, eventId);
+      return;
+    }
+
+    const offeredAt = new Date();
+    const expiresAt = new Date(offeredAt.getTime() + this.getOfferWindowHours() * 60 * 60 * 1000);
+
+    await tx.waitlistEntry.update({
+      where: { id: next.id },
+      data: {
+        status: WaitlistStatus.OFFERED,
+        offeredAt,
+        expiresAt,
+      },
+    });
+
+    await this.notificationsService.notifyWaitlistOffer(next.id, tx);
+
+    this.logger.log(
+      `Offered seat on event ${eventId} to user ${next.userId} until ${expiresAt.toISOString()}`,
+    );
+  }
+
+  /**
+   * Drop the user's queue entry after they got a seat through normal registration
+   */
+  async removeIfQueued(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+    userId: string,
+  ): Promise<void> {
+    const entry = await tx.waitlistEntry.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+    });
+
+    if (entry && ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      await this.lockQueue(tx, eventId);
+      await this.withdraw(tx, entry);
+    }
+  }
+
+  /**
+   * Move an OFFERED entry to a terminal status and compact the queue
+   * A declined or expired offer passes its seat on; an accepted one keeps it.
+   */
+  private async resolveOffer(
+    tx: Prisma.TransactionClient,
+    entryId: string,
+    status: WaitlistStatus,
+  ): Promise<void> {
+    const entry = await tx.waitlistEntry.findUniqueOrThrow({
+      where: { id: entryId },
+    });
+
+    if (
+      status === WaitlistStatus.ACCEPTED &&
+      (entry.status === WaitlistStatus.EXPIRED || (entry.expiresAt && entry.expiresAt < new Date()))
+    ) {
+      throw new WaitlistOfferExpiredException();
+    }
+
+    assertWaitlistTransition(entry.status, status);
+
+    await tx.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status, respondedAt: status === WaitlistStatus.EXPIRED ? null : new Date() },
+    });
+
+    await this.compact(tx, entry.eventId, entry.position);
+
+    if (status !== WaitlistStatus.ACCEPTED) {
+      await this.reassignSeat(tx, entry.eventId);
+    }
+  }
+
+  /**
+   * Remove an active entry from the queue
+   */
+  private async withdraw(
+    tx: Prisma.TransactionClient,
+    entry: { id: string; eventId: string; position: number; status: WaitlistStatus },
+  ): Promise<void> {
+    await tx.waitlistEntry.delete({
+      where: { id: entry.id },
+    });
+
+    await this.compact(tx, entry.eventId, entry.position);
+
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await this.reassignSeat(tx, entry.eventId);
+    }
+  }
+
+  /**
+   * Close the gap left by an entry at `position`
+   */
+  private async compact(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+    position: number,
+  ): Promise<void> {
+    await tx.waitlistEntry.updateMany({
+      where: {
+        eventId,
+        status: { in: ACTIVE_WAITLIST_STATUSES },
+        position: { gt: position },
+      },
+      data: { position: { decrement: 1 } },
+    });
+  }
+
+  /**
+   * Serialize queue changes for one event
+   */
+  private async lockQueue(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM events WHERE id = ${eventId} FOR UPDATE`;
+  }
+
+  private async findOwnEntry(entryId: string, userId: string) {
+    const entry = await this.prisma.waitlistEntry.findUnique({
+      where: { id: entryId },
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new NotFoundException('Waitlist entry not found');
+    }
+
+    return entry;
+  }
+
+  private getOfferWindowHours(): number {
+    const hours = Number(this.configService.get('WAITLIST_OFFER_HOURS'));
+    return hours > 0 ? hours : DEFAULT_OFFER_HOURS;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(entry: any): WaitlistEntryResponseDto {
+    return {
+      id: entry.id,
+      eventId: entry.eventId,
+      userId: entry.userId,
+      position: entry.position,
+      status: entry.status,
+      offeredAt: entry.offeredAt,
+      expiresAt: entry.expiresAt,
+      respondedAt: entry.respondedAt,
+      createdAt: entry.createdAt,
+      event: entry.event
+        ? {
+            id: entry.event.id,
+            title: entry.event.title,
+            slug: entry.event.slug,
+            startDate: entry.event.startDate,
+            isFree: entry.event.isFree,
+            price: entry.event.price ? Number(entry.event.price) : null,
+            status: entry.event.status,
+          }
+        : undefined,
+    };
+  }
+}
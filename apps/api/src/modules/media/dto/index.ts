@@ -0,0 +1,3 @@
+export * from './media-entity-type.enum';
+export * from './upload-media.dto';
+export * from './media-response.dto';
@@ -0,0 +1,10 @@
+/**
+ * What an uploaded file belongs to
+ * Stored as a plain string column on Media (see prisma/schema.prisma)
+ */
+export enum MediaEntityType {
+  EVENT = 'event',
+  ARTICLE = 'article',
+  PAGE = 'page',
+  PROFILE = 'profile',
+}
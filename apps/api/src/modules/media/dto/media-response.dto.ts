@@ -0,0 +1,24 @@
+import { MediaEntityType } from './media-entity-type.enum';
+
+/**
+ * Response DTO for an uploaded file
+ */
+export class MediaResponseDto {
+  id: string;
+  fileName: string;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  url: string;
+  bucket: string;
+
+  // Images only
+  width: number | null;
+  height: number | null;
+  thumbnailUrl: string | null;
+
+  entityType: MediaEntityType | null;
+  entityId: string | null;
+  uploadedById: string;
+  createdAt: Date;
+}
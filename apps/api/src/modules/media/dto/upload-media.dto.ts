@@ -0,0 +1,17 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { MediaEntityType } from './media-entity-type.enum';
+
+/**
+ * Form fields sent with an upload (multipart/form-data, next to "file")
+ * Without entityType the file isn't attached to anything, e.g. an image for
+ * rich text content.
+ */
+export class UploadMediaDto {
+  @IsEnum(MediaEntityType)
+  @IsOptional()
+  entityType?: MediaEntityType;
+
+  @IsUUID()
+  @IsOptional()
+  entityId?: string; // Defaults to the uploader's own profile for "profile"
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { MediaService, MAX_UPLOAD_BYTES, UploadedMediaFile } from './media.service';
+import { MediaEntityType, UploadMediaDto, MediaResponseDto } from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('media')
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  /**
+   * Upload an image or PDF, optionally for an event, article, page or profile (authenticated)
+   * POST /api/media (multipart/form-data: file, entityType?, entityId?)
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } }))
+  async uploadMedia(
+    @CurrentUser() user: any,
+    @UploadedFile() file: UploadedMediaFile | undefined,
+    @Body() dto: UploadMediaDto,
+  ): Promise<MediaResponseDto> {
+    return this.mediaService.upload(user, file, dto);
+  }
+
+  /**
+   * List own uploads, or all uploads for admins (contributor+)
+   * GET /api/media?entityType=event&entityId=...&skip=0&take=20
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CONTRIBUTOR)
+  async getMedia(
+    @CurrentUser() user: any,
+    @Query('entityType', new ParseEnumPipe(MediaEntityType, { optional: true }))
+    entityType?: MediaEntityType,
+    @Query('entityId', new ParseUUIDPipe({ optional: true })) entityId?: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ): Promise<{ media: MediaResponseDto[]; total: number }> {
+    return this.mediaService.findAll(user, {
+      entityType,
+      entityId,
+      skip: skip ? parseInt(skip, 10) : 0,
+      take: take ? parseInt(take, 10) : 20,
+    });
+  }
+
+  /**
+   * Delete an upload and its files (uploader or admin)
+   * DELETE /api/media/:id
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async deleteMedia(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    return this.mediaService.remove(id, user);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+import { STORAGE_ADAPTER } from './storage-adapter';
+import { createStorageAdapter } from './storage';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { SupabaseService } from '../auth/supabase.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    forwardRef(() => AuthModule),
+    forwardRef(() => UsersModule),
+  ],
+  controllers: [MediaController],
+  providers: [
+    MediaService,
+    {
+      provide: STORAGE_ADAPTER,
+      inject: [ConfigService, SupabaseService],
+      useFactory: createStorageAdapter,
+    },
+  ],
+  exports: [MediaService, STORAGE_ADAPTER],
+})
+export class MediaModule {}
@@ -0,0 +1,369 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Media, Prisma, UserRole } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { PrismaService } from '../../prisma/prisma.service';
+import { detectFileType } from '../../common/utils/file-type.util';
+import { STORAGE_ADAPTER, StorageAdapter } from './storage-adapter';
+import { MediaEntityType, UploadMediaDto, MediaResponseDto } from './dto';
+
+// Largest accepted upload; bigger requests are rejected by multer with a 413
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Images are decoded to make thumbnails, so cap their pixel count as well
+// (a small PNG can declare a huge canvas)
+const MAX_IMAGE_PIXELS = 50_000_000;
+
+// Longest side of a thumbnail; smaller images aren't enlarged
+const THUMBNAIL_SIZE = 480;
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Minimal shape of the authenticated user needed for permission checks
+ */
+interface MediaActor {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * The parts of a multer file used here (multipart field "file")
+ */
+export interface UploadedMediaFile {
+  originalname: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Uploads of images and PDFs to the configured storage adapter
+ *
+ * The file type comes from the file's bytes, not the client's Content-Type,
+ * and the stored name is generated. Images get a WebP thumbnail. Uploads can
+ * be attached to an event, article, page or profile by anyone allowed to edit
+ * it; a profile upload becomes that profile's avatar.
+ */
+@Injectable()
+export class MediaService {
+  private readonly logger = new Logger(MediaService.name);
+  private readonly bucket: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    @Inject(STORAGE_ADAPTER) private storage: StorageAdapter,
+  ) {
+    this.bucket = this.configService.get<string>('STORAGE_BUCKET') || 'public';
+  }
+
+  /**
+   * Store an uploaded file and record it
+   */
+  async upload(
+    actor: MediaActor,
+    file: UploadedMediaFile | undefined,
+    dto: UploadMediaDto,
+  ): Promise<MediaResponseDto> {
+    if (!file || file.size === 0) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const type = detectFileType(file.buffer);
+    if (!type) {
+      throw new BadRequestException('Unsupported file type; upload a JPEG, PNG, GIF, WebP or PDF');
+    }
+
+    const isImage = IMAGE_MIME_TYPES.includes(type.mimeType);
+    if (dto.entityType === MediaEntityType.PROFILE && !isImage) {
+      throw new BadRequestException('Profile photos must be images');
+    }
+
+    const entityId = await this.resolveEntity(actor, dto);
+    const image = isImage ? await this.processImage(file.buffer) : null;
+
+    const now = new Date();
+    const basePath = [
+      dto.entityType ?? 'uploads',
+      now.getUTCFullYear(),
+      String(now.getUTCMonth() + 1).padStart(2, '0'),
+      randomUUID(),
+    ].join('/');
+    const fileName = `${basePath}.${type.extension}`;
+    const uploaded: string[] = [];
+
+    try {
+      await this.storage.upload(this.bucket, fileName, file.buffer, type.mimeType);
+      uploaded.push(fileName);
+
+      if (image) {
+        await this.storage.upload(
+          this.bucket,
+          this.thumbnailPath(fileName),
+          image.thumbnail,
+          'image/webp',
+        );
+        uploaded.push(this.thumbnailPath(fileName));
+      }
+
+      const media = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.media.create({
+          data: {
+            fileName,
+            originalName: file.originalname.slice(0, 255),
+            fileSize: file.size,
+            mimeType: type.mimeType,
+            url: this.storage.getPublicUrl(this.bucket, fileName),
+            bucket: this.bucket,
+            width: image?.width,
+            height: image?.height,
+            thumbnailUrl: image
+              ? this.storage.getPublicUrl(this.bucket, this.thumbnailPath(fileName))
+              : null,
+            entityType: dto.entityType ?? null,
+            entityId,
+            uploadedById: actor.id,
+          },
+        });
+
+        if (dto.entityType === MediaEntityType.PROFILE) {
+          await tx.profile.update({
+            where: { id: entityId! },
+            data: { avatarUrl: created.url },
+          });
+        }
+
+        return created;
+      });
+
+      this.logger.log(
+        `User ${actor.id} uploaded ${fileName} (${type.mimeType}, ${file.size} bytes)` +
+          (entityId ? ` for ${dto.entityType} ${entityId}` : ''),
+      );
+
+      return this.toResponseDto(media);
+    } catch (error) {
+      // Don't leave files behind that no Media row points to
+      if (uploaded.length > 0) {
+        await this.storage
+          .remove(this.bucket, uploaded)
+          .catch((removeError) =>
+            this.logger.warn(`Failed to clean up ${uploaded.join(', ')}: ${removeError.message}`),
+          );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List uploads: own uploads, or everything for admins (CONTRIBUTOR+)
+   */
+  async findAll(
+    actor: MediaActor,
+    params: { entityType?: MediaEntityType; entityId?: string; skip?: number; take?: number },
+  ): Promise<{ media: MediaResponseDto[]; total: number }> {
+    const { entityType, entityId, skip = 0, take = 20 } = params;
+
+    const where: Prisma.MediaWhereInput = {
+      ...(actor.role !== UserRole.ADMIN && { uploadedById: actor.id }),
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+    };
+
+    const [media, total] = await Promise.all([
+      this.prisma.media.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.media.count({ where }),
+    ]);
+
+    return { media: media.map((m) => this.toResponseDto(m)), total };
+  }
+
+  /**
+   * Delete an upload and its files (uploader or ADMIN)
+   * A profile whose avatar is this file is left without one.
+   */
+  async remove(mediaId: string, actor: MediaActor): Promise<{ message: string }> {
+    const media = await this.prisma.media.findUnique({
+      where: { id: mediaId },
+    });
+
+    if (!media) {
+      throw new NotFoundException('Media not found');
+    }
+
+    if (actor.role !== UserRole.ADMIN && media.uploadedById !== actor.id) {
+      throw new ForbiddenException('You can only delete files you uploaded');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.media.delete({ where: { id: mediaId } });
+
+      if (media.entityType === MediaEntityType.PROFILE && media.entityId) {
+        await tx.profile.updateMany({
+          where: { id: media.entityId, avatarUrl: media.url },
+          data: { avatarUrl: null },
+        });
+      }
+    });
+
+    // The row is gone either way; a file that fails to delete is only orphaned
+    const paths = [
+      media.fileName,
+      ...(media.thumbnailUrl ? [this.thumbnailPath(media.fileName)] : []),
+    ];
+    try {
+      await this.storage.remove(media.bucket, paths);
+    } catch (error) {
+      this.logger.warn(`Failed to delete ${paths.join(', ')} from storage: ${error.message}`);
+    }
+
+    this.logger.log(`User ${actor.id} deleted media ${mediaId} (${media.fileName})`);
+
+    return { message: 'Media deleted' };
+  }
+
+  /**
+   * Check the actor may attach a file to the entity, and return its ID
+   * Events and articles: their creator/author or an admin. Pages: admins.
+   * Profiles: the profile's owner or an admin. Unattached: contributors.
+   */
+  private async resolveEntity(actor: MediaActor, dto: UploadMediaDto): Promise<string | null> {
+    const isAdmin = actor.role === UserRole.ADMIN;
+    const isContributor = isAdmin || actor.role === UserRole.CONTRIBUTOR;
+
+    if (!dto.entityType) {
+      if (dto.entityId) {
+        throw new BadRequestException('entityType is required with entityId');
+      }
+      if (!isContributor) {
+        throw new ForbiddenException('Only contributors can upload content media');
+      }
+      return null;
+    }
+
+    if (dto.entityType === MediaEntityType.PROFILE) {
+      const profile = await this.prisma.profile.findUnique({
+        where: dto.entityId ? { id: dto.entityId } : { userId: actor.id },
+      });
+      if (!profile) {
+        throw new NotFoundException('Profile not found');
+      }
+      if (!isAdmin && profile.userId !== actor.id) {
+        throw new ForbiddenException('You can only upload photos for your own profile');
+      }
+      return profile.id;
+    }
+
+    if (!dto.entityId) {
+      throw new BadRequestException(`entityId is required for ${dto.entityType} media`);
+    }
+    if (!isContributor) {
+      throw new ForbiddenException(`Only contributors can upload ${dto.entityType} media`);
+    }
+
+    switch (dto.entityType) {
+      case MediaEntityType.EVENT: {
+        const event = await this.prisma.event.findUnique({ where: { id: dto.entityId } });
+        if (!event || !event.isActive) {
+          throw new NotFoundException('Event not found');
+        }
+        if (!isAdmin && event.createdById !== actor.id) {
+          throw new ForbiddenException('You can only add media to events you created');
+        }
+        break;
+      }
+
+      case MediaEntityType.ARTICLE: {
+        const article = await this.prisma.article.findUnique({ where: { id: dto.entityId } });
+        if (!article || !article.isActive) {
+          throw new NotFoundException('Article not found');
+        }
+        if (!isAdmin && article.authorId !== actor.id) {
+          throw new ForbiddenException('You can only add media to your own articles');
+        }
+        break;
+      }
+
+      case MediaEntityType.PAGE: {
+        if (!isAdmin) {
+          throw new ForbiddenException('Only admins can add media to pages');
+        }
+        const page = await this.prisma.staticPage.findUnique({ where: { id: dto.entityId } });
+        if (!page) {
+          throw new NotFoundException('Page not found');
+        }
+        break;
+      }
+    }
+
+    return dto.entityId;
+  }
+
+  /**
+   * Read an image's dimensions and render its thumbnail
+   * EXIF orientation is applied, so both match how the image is displayed.
+   */
+  private async processImage(
+    buffer: Buffer,
+  ): Promise<{ width: number; height: number; thumbnail: Buffer }> {
+    try {
+      const image = sharp(buffer, { limitInputPixels: MAX_IMAGE_PIXELS });
+      const metadata = await image.metadata();
+      const thumbnail = await image
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+      return {
+        width: metadata.autoOrient.width,
+        height: metadata.autoOrient.height,
+        thumbnail,
+      };
+    } catch {
+      throw new BadRequestException('File is not a valid image');
+    }
+  }
+
+  /**
+   * "events/2026/01/<uuid>.jpg" -> "events/2026/01/<uuid>-thumb.webp"
+   */
+  private thumbnailPath(fileName: string): string {
+    return fileName.replace(/\.[^./]+$/, '-thumb.webp');
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(media: Media): MediaResponseDto {
+    return {
+      id: media.id,
+      fileName: media.fileName,
+      originalName: media.originalName,
+      fileSize: media.fileSize,
+      mimeType: media.mimeType,
+      url: media.url,
+      bucket: media.bucket,
+      width: media.width,
+      height: media.height,
+      thumbnailUrl: media.thumbnailUrl,
+      entityType: media.entityType as MediaEntityType | null,
+      entityId: media.entityId,
+      uploadedById: media.uploadedById,
+      createdAt: media.createdAt,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Injection token for the configured StorageAdapter
+ */
+export const STORAGE_ADAPTER = Symbol('STORAGE_ADAPTER');
+
+/**
+ * Stores uploaded files and serves them from public URLs
+ *
+ * Paths are generated by MediaService ("<entity>/<yyyy>/<mm>/<uuid>.<ext>")
+ * and never overwrite an existing file. upload() and remove() throw on any
+ * failure.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  upload(bucket: string, path: string, body: Buffer, contentType: string): Promise<void>;
+  remove(bucket: string, paths: string[]): Promise<void>;
+  getPublicUrl(bucket: string, path: string): string;
+}
@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config';
+import { StorageAdapter } from '../storage-adapter';
+import { SupabaseService } from '../../auth/supabase.service';
+import { LocalStorage } from './local.storage';
+import { SupabaseStorage } from './supabase.storage';
+
+export { LocalStorage, SupabaseStorage };
+
+/**
+ * Build the adapter named by STORAGE_DRIVER (local by default)
+ */
+export function createStorageAdapter(
+  configService: ConfigService,
+  supabaseService: SupabaseService,
+): StorageAdapter {
+  const name = configService.get<string>('STORAGE_DRIVER') || 'local';
+
+  switch (name) {
+    case 'local': {
+      const apiUrl = (configService.get<string>('API_URL') || 'http://localhost:3001').replace(
+        /\/+$/,
+        '',
+      );
+      return new LocalStorage(
+        configService.get<string>('STORAGE_LOCAL_DIR') || './tmp/uploads',
+        `${apiUrl}/uploads`,
+      );
+    }
+
+    case 'supabase':
+      return new SupabaseStorage(supabaseService.getClient());
+
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected local or supabase)`);
+  }
+}
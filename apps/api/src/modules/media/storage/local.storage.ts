@@ -0,0 +1,43 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { StorageAdapter } from '../storage-adapter';
+
+/**
+ * Keeps files on the local disk (development and tests)
+ * Files live under <directory>/<bucket>/<path>; main.ts serves that directory
+ * at /uploads, so the URLs work without Supabase.
+ */
+export class LocalStorage implements StorageAdapter {
+  readonly name = 'local';
+  private readonly directory: string;
+
+  constructor(
+    directory: string,
+    private readonly baseUrl: string, // Where <directory> is served, e.g. http://localhost:3001/uploads
+  ) {
+    this.directory = resolve(directory);
+  }
+
+  async upload(bucket: string, path: string, body: Buffer): Promise<void> {
+    const file = this.resolvePath(bucket, path);
+
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, body, { flag: 'wx' });
+  }
+
+  async remove(bucket: string, paths: string[]): Promise<void> {
+    await Promise.all(paths.map((path) => rm(this.resolvePath(bucket, path), { force: true })));
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return `${this.baseUrl}/${bucket}/${path}`;
+  }
+
+  private resolvePath(bucket: string, path: string): string {
+    const file = resolve(this.directory, bucket, path);
+    if (!file.startsWith(this.directory + sep)) {
+      throw new Error(`Storage path "${bucket}/${path}" is outside ${this.directory}`);
+    }
+    return file;
+  }
+}
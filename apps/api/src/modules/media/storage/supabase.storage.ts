@@ -0,0 +1,35 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { StorageAdapter } from '../storage-adapter';
+
+/**
+ * Stores files in Supabase Storage
+ * The bucket must exist and be public; uploads use the service key, so no
+ * storage policies are needed.
+ */
+export class SupabaseStorage implements StorageAdapter {
+  readonly name = 'supabase';
+
+  constructor(private readonly client: SupabaseClient) {}
+
+  async upload(bucket: string, path: string, body: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, body, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Supabase Storage upload failed: ${error.message}`);
+    }
+  }
+
+  async remove(bucket: string, paths: string[]): Promise<void> {
+    const { error } = await this.client.storage.from(bucket).remove(paths);
+
+    if (error) {
+      throw new Error(`Supabase Storage remove failed: ${error.message}`);
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return this.client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  Length,
+  MaxLength,
+  Matches,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO for admin to create a membership type
+ */
+export class CreateMembershipTypeDto {
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'slug may only contain lowercase letters, numbers and hyphens',
+  })
+  slug?: string; // Auto-generated from name if not provided
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  benefits?: string[];
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  durationMonths?: number | null; // null = lifetime
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxHouseholdMembers?: number; // Linked household accounts covered (0 = individual)
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  sortOrder?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,35 @@
+import { HouseholdMemberStatus, HouseholdRelationship } from '@prisma/client';
+
+/**
+ * Response DTO for a household link (invitation or linked account)
+ */
+export class HouseholdMemberResponseDto {
+  id: string;
+  primaryUserId: string;
+  userId: string | null;
+  email: string;
+  relationship: HouseholdRelationship;
+  status: HouseholdMemberStatus;
+  invitedAt: Date;
+  acceptedAt: Date | null;
+  removedAt: Date | null;
+
+  // Related data
+  primaryUser?: {
+    id: string;
+    email: string;
+    profile?: {
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
+
+/**
+ * Response DTO for the current user's household
+ */
+export class HouseholdResponseDto {
+  maxMembers: number; // Allowed by the current membership (0 = individual)
+  members: HouseholdMemberResponseDto[]; // Invited and linked accounts, when paying
+  coveredBy: HouseholdMemberResponseDto | null; // Link to another member's household
+}
@@ -4,3 +4,10 @@ export * from './membership-response.dto';
 export * from './approve-membership.dto';
 export * from './update-membership-status.dto';
 export * from './assign-honorary-membership.dto';
+export * from './upgrade-quote-response.dto';
+export * from './create-membership-type.dto';
+export * from './update-membership-type.dto';
+export * from './membership-type-response.dto';
+export * from './invite-household-member.dto';
+export * from './household-response.dto';
+export * from './record-offline-payment.dto';
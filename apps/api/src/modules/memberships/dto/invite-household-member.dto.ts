@@ -0,0 +1,13 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { HouseholdRelationship } from '@prisma/client';
+
+/**
+ * DTO for a family member inviting someone to their household
+ */
+export class InviteHouseholdMemberDto {
+  @IsEmail()
+  email: string; // The invitee accepts with the account registered to this email
+
+  @IsEnum(HouseholdRelationship)
+  relationship: HouseholdRelationship;
+}
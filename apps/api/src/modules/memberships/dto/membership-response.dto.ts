@@ -1,4 +1,5 @@
 import { MembershipStatus } from '@prisma/client';
+import { UpgradeQuoteResponseDto } from './upgrade-quote-response.dto';
 
 /**
  * Response DTO for membership data
@@ -8,6 +9,7 @@ export class MembershipResponseDto {
   id: string;
   userId: string;
   membershipTypeId: string;
+  membershipTypePriceId: string | null; // Price version it was sold at
   status: MembershipStatus;
   startDate: Date | null;
   expiryDate: Date | null;
@@ -15,10 +17,16 @@ export class MembershipResponseDto {
   approvedById: string | null;
   approvedAt: Date | null;
   approvalNote: string | null;
+  lastPaymentId: string | null; // Payment that activated it (Stripe or offline)
   upgradedFromId: string | null;
   upgradedToId: string | null;
   creditAppliedFromId: string | null;
   creditAmount: number | null;
+  prorationCredit: number | null;
+  upgradeQuote: UpgradeQuoteResponseDto | null; // Stored quote; quotedAt is an ISO string
+  renewedFromId: string | null;
+  renewalReminderDays: number | null;
+  graceEndsAt: Date | null; // Member role is kept until then
   createdAt: Date;
   updatedAt: Date;
 
@@ -0,0 +1,29 @@
+/**
+ * Response DTO for membership type data (admin view)
+ */
+export class MembershipTypeResponseDto {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  price: number;
+  benefits: any;
+  durationMonths: number | null;
+  maxHouseholdMembers: number;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for one version of a membership type's price
+ */
+export class MembershipTypePriceResponseDto {
+  id: string;
+  membershipTypeId: string;
+  price: number;
+  effectiveFrom: Date;
+  effectiveTo: Date | null; // null = current price
+  changedById: string | null;
+}
@@ -0,0 +1,49 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PaymentMethod } from '@prisma/client';
+
+// Methods an admin can record; STRIPE payments only come from Checkout
+export const OFFLINE_PAYMENT_METHODS: PaymentMethod[] = [
+  PaymentMethod.CASH,
+  PaymentMethod.CHECK,
+  PaymentMethod.ZELLE,
+  PaymentMethod.BANK_TRANSFER,
+];
+
+/**
+ * DTO for admin to record a cash, check, Zelle or bank transfer payment
+ * for a pending membership
+ */
+export class RecordOfflinePaymentDto {
+  @IsIn(OFFLINE_PAYMENT_METHODS, {
+    message: `method must be one of: ${OFFLINE_PAYMENT_METHODS.join(', ')}`,
+  })
+  method: PaymentMethod;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  // Required for everything but cash (check number, Zelle confirmation, transfer reference)
+  @ValidateIf((o) => o.method !== PaymentMethod.CASH || o.referenceNumber !== undefined)
+  @IsString()
+  @Length(1, 100)
+  referenceNumber?: string;
+
+  @IsDateString()
+  receivedAt: string; // When the money was received; cannot be in the future
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string; // Stored as the membership's approval note
+}
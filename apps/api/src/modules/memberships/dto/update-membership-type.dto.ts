@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateMembershipTypeDto } from './create-membership-type.dto';
+
+/**
+ * DTO for admin to update a membership type
+ * A price change starts a new price version; existing memberships keep theirs
+ */
+export class UpdateMembershipTypeDto extends PartialType(CreateMembershipTypeDto) {}
@@ -0,0 +1,16 @@
+/**
+ * Response DTO for the price of upgrading an active membership
+ * The unused part of the current term is credited at the price it was sold at
+ */
+export class UpgradeQuoteResponseDto {
+  currentMembershipId: string;
+  currentMembershipTypeId: string;
+  newMembershipTypeId: string;
+  currentPrice: number;
+  newPrice: number;
+  remainingDays: number | null; // null when the current membership is lifetime
+  totalDays: number | null;
+  proratedCredit: number;
+  amountDue: number;
+  quotedAt: Date;
+}
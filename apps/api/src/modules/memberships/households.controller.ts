@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { HouseholdsService } from './households.service';
+import { InviteHouseholdMemberDto, HouseholdResponseDto, HouseholdMemberResponseDto } from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+
+@Controller('households')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class HouseholdsController {
+  constructor(private readonly householdsService: HouseholdsService) {}
+
+  /**
+   * Get current user's household (members they pay for, or the household covering them)
+   * GET /api/households/me
+   */
+  @Get('me')
+  async getMyHousehold(@CurrentUser() user: any): Promise<HouseholdResponseDto> {
+    return this.householdsService.getMyHousehold(user.id);
+  }
+
+  /**
+   * Invite an account to current user's household by email
+   * POST /api/households/me/members
+   */
+  @Post('me/members')
+  async invite(
+    @CurrentUser() user: any,
+    @Body() dto: InviteHouseholdMemberDto,
+  ): Promise<HouseholdMemberResponseDto> {
+    return this.householdsService.invite(user.id, dto);
+  }
+
+  /**
+   * Remove an invitation or linked account from current user's household
+   * DELETE /api/households/me/members/:id
+   */
+  @Delete('me/members/:id')
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    return this.householdsService.removeMember(id, user.id);
+  }
+
+  /**
+   * Leave the household covering current user
+   * POST /api/households/me/leave
+   */
+  @Post('me/leave')
+  @HttpCode(HttpStatus.OK)
+  async leave(@CurrentUser() user: any): Promise<{ message: string }> {
+    return this.householdsService.leave(user.id);
+  }
+
+  /**
+   * Get household invitations sent to current user's email
+   * GET /api/households/invitations
+   */
+  @Get('invitations')
+  async findMyInvitations(@CurrentUser() user: any): Promise<HouseholdMemberResponseDto[]> {
+    return this.householdsService.findMyInvitations(user.id);
+  }
+
+  /**
+   * Accept a household invitation
+   * POST /api/households/invitations/:id/accept
+   */
+  @Post('invitations/:id/accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptInvitation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<HouseholdMemberResponseDto> {
+    return this.householdsService.acceptInvitation(id, user.id);
+  }
+
+  /**
+   * Decline a household invitation
+   * POST /api/households/invitations/:id/decline
+   */
+  @Post('invitations/:id/decline')
+  @HttpCode(HttpStatus.OK)
+  async declineInvitation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<HouseholdMemberResponseDto> {
+    return this.householdsService.declineInvitation(id, user.id);
+  }
+}
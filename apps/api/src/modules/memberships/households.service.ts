@@ -0,0 +1,408 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { HouseholdMemberStatus, MembershipStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { InviteHouseholdMemberDto, HouseholdResponseDto, HouseholdMemberResponseDto } from './dto';
+
+// Invitations and links that count against the household limit
+const OPEN_HOUSEHOLD_STATUSES: HouseholdMemberStatus[] = [
+  HouseholdMemberStatus.INVITED,
+  HouseholdMemberStatus.ACTIVE,
+];
+
+// A membership whose type covers household members
+const COVERING_MEMBERSHIP: Prisma.MembershipWhereInput = {
+  status: MembershipStatus.ACTIVE,
+  membershipType: { maxHouseholdMembers: { gt: 0 } },
+};
+
+const householdMemberInclude = {
+  primaryUser: { include: { profile: true } },
+} satisfies Prisma.HouseholdMemberInclude;
+
+/**
+ * Household (family) memberships
+ *
+ * The paying member invites household accounts by email; an accepted link
+ * makes that account a MEMBER for as long as the primary holds an ACTIVE
+ * membership whose type has maxHouseholdMembers > 0. Coverage is checked
+ * against the primary's current membership rather than a specific row, so
+ * renewals and upgrades carry the household over.
+ */
+@Injectable()
+export class HouseholdsService {
+  private readonly logger = new Logger(HouseholdsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get the current user's household: the accounts they pay for, and the
+   * household that covers them (if any)
+   */
+  async getMyHousehold(userId: string): Promise<HouseholdResponseDto> {
+    const [maxMembers, members, coveredBy] = await Promise.all([
+      this.getMaxMembers(userId),
+      this.prisma.householdMember.findMany({
+        where: { primaryUserId: userId, status: { in: OPEN_HOUSEHOLD_STATUSES } },
+        orderBy: { invitedAt: 'asc' },
+      }),
+      this.prisma.householdMember.findFirst({
+        where: { userId, status: HouseholdMemberStatus.ACTIVE },
+        include: householdMemberInclude,
+      }),
+    ]);
+
+    return {
+      maxMembers,
+      members: members.map((m) => this.toResponseDto(m)),
+      coveredBy: coveredBy ? this.toResponseDto(coveredBy) : null,
+    };
+  }
+
+  /**
+   * Get open invitations sent to the current user's email
+   */
+  async findMyInvitations(userId: string): Promise<HouseholdMemberResponseDto[]> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    const invitations = await this.prisma.householdMember.findMany({
+      where: { email: this.normalizeEmail(user.email), status: HouseholdMemberStatus.INVITED },
+      include: householdMemberInclude,
+      orderBy: { invitedAt: 'desc' },
+    });
+
+    return invitations.map((i) => this.toResponseDto(i));
+  }
+
+  /**
+   * Invite an account to the current user's household
+   * Requires a household membership with room left; a declined or removed
+   * email can be invited again
+   */
+  async invite(userId: string, dto: InviteHouseholdMemberDto): Promise<HouseholdMemberResponseDto> {
+    const email = this.normalizeEmail(dto.email);
+
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (this.normalizeEmail(user.email) === email) {
+      throw new BadRequestException('You cannot invite yourself to your household');
+    }
+
+    const maxMembers = await this.getMaxMembers(userId);
+
+    if (maxMembers === 0) {
+      throw new BadRequestException(
+        'Your membership does not cover household members. Upgrade to a family membership first.',
+      );
+    }
+
+    if (await this.findActiveLink(userId)) {
+      throw new BadRequestException(
+        'You are covered by another household and cannot invite members',
+      );
+    }
+
+    const existing = await this.prisma.householdMember.findUnique({
+      where: { primaryUserId_email: { primaryUserId: userId, email } },
+    });
+
+    if (existing && OPEN_HOUSEHOLD_STATUSES.includes(existing.status)) {
+      throw new ConflictException(`${email} is already part of your household`);
+    }
+
+    const openCount = await this.prisma.householdMember.count({
+      where: { primaryUserId: userId, status: { in: OPEN_HOUSEHOLD_STATUSES } },
+    });
+
+    if (openCount >= maxMembers) {
+      throw new BadRequestException(`Your membership covers up to ${maxMembers} household members`);
+    }
+
+    const data = {
+      relationship: dto.relationship,
+      status: HouseholdMemberStatus.INVITED,
+      userId: null,
+      invitedAt: new Date(),
+      acceptedAt: null,
+      removedAt: null,
+    };
+
+    const invitation = existing
+      ? await this.prisma.householdMember.update({ where: { id: existing.id }, data })
+      : await this.prisma.householdMember.create({
+          data: { ...data, primaryUserId: userId, email },
+        });
+
+    this.logger.log(`Household invitation to ${email} from user ${userId} (${dto.relationship})`);
+
+    return this.toResponseDto(invitation);
+  }
+
+  /**
+   * Accept a household invitation sent to the current user's email
+   * The account becomes a MEMBER while the primary's membership covers it
+   */
+  async acceptInvitation(
+    invitationId: string,
+    userId: string,
+  ): Promise<HouseholdMemberResponseDto> {
+    const invitation = await this.findMyInvitation(invitationId, userId);
+
+    if (await this.findActiveLink(userId)) {
+      throw new BadRequestException('You already belong to a household. Leave it first.');
+    }
+
+    const ownMembers = await this.prisma.householdMember.count({
+      where: { primaryUserId: userId, status: { in: OPEN_HOUSEHOLD_STATUSES } },
+    });
+
+    if (ownMembers > 0) {
+      throw new BadRequestException(
+        'Remove the members of your own household before joining another one',
+      );
+    }
+
+    const accepted = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.householdMember.update({
+        where: { id: invitation.id },
+        data: {
+          status: HouseholdMemberStatus.ACTIVE,
+          userId,
+          acceptedAt: new Date(),
+        },
+        include: householdMemberInclude,
+      });
+
+      await this.syncRoles(tx, [userId]);
+
+      return updated;
+    });
+
+    this.logger.log(`User ${userId} joined the household of user ${invitation.primaryUserId}`);
+
+    return this.toResponseDto(accepted);
+  }
+
+  /**
+   * Decline a household invitation sent to the current user's email
+   */
+  async declineInvitation(
+    invitationId: string,
+    userId: string,
+  ): Promise<HouseholdMemberResponseDto> {
+    const invitation = await this.findMyInvitation(invitationId, userId);
+
+    const declined = await this.prisma.householdMember.update({
+      where: { id: invitation.id },
+      data: { status: HouseholdMemberStatus.DECLINED },
+      include: householdMemberInclude,
+    });
+
+    return this.toResponseDto(declined);
+  }
+
+  /**
+   * Remove an invitation or linked account from the current user's household
+   */
+  async removeMember(memberId: string, userId: string): Promise<{ message: string }> {
+    const member = await this.prisma.householdMember.findFirst({
+      where: { id: memberId, primaryUserId: userId, status: { in: OPEN_HOUSEHOLD_STATUSES } },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Household member not found');
+    }
+
+    await this.unlink(member);
+
+    this.logger.log(`User ${userId} removed ${member.email} from their household`);
+
+    return { message: 'Household member removed' };
+  }
+
+  /**
+   * Leave the household that covers the current user
+   */
+  async leave(userId: string): Promise<{ message: string }> {
+    const link = await this.findActiveLink(userId);
+
+    if (!link) {
+      throw new NotFoundException('You are not part of a household');
+    }
+
+    await this.unlink(link);
+
+    this.logger.log(`User ${userId} left the household of user ${link.primaryUserId}`);
+
+    return { message: 'You have left the household' };
+  }
+
+  /**
+   * Users entitled to MEMBER benefits: their own ACTIVE membership, or an
+   * ACTIVE household link to a primary with a covering membership
+   */
+  coveredUserWhere(): Prisma.UserWhereInput {
+    return {
+      OR: [
+        { memberships: { some: { status: MembershipStatus.ACTIVE } } },
+        {
+          householdLinks: {
+            some: {
+              status: HouseholdMemberStatus.ACTIVE,
+              primaryUser: { memberships: { some: COVERING_MEMBERSHIP } },
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Re-evaluate the roles of accounts linked to these primaries after their
+   * membership changed (activated, expired, cancelled, upgraded)
+   * Must run inside the transaction that changed the membership
+   */
+  async syncHouseholdRoles(tx: Prisma.TransactionClient, primaryUserIds: string[]): Promise<void> {
+    const links = await tx.householdMember.findMany({
+      where: {
+        primaryUserId: { in: primaryUserIds },
+        status: HouseholdMemberStatus.ACTIVE,
+        userId: { not: null },
+      },
+      select: { userId: true },
+    });
+
+    if (links.length > 0) {
+      await this.syncRoles(
+        tx,
+        links.map((l) => l.userId!),
+      );
+    }
+  }
+
+  /**
+   * Promote covered GUESTs to MEMBER and demote uncovered MEMBERs to GUEST
+   * CONTRIBUTOR and ADMIN roles are never changed
+   */
+  private async syncRoles(tx: Prisma.TransactionClient, userIds: string[]): Promise<void> {
+    const covered = this.coveredUserWhere();
+
+    const promoted = await tx.user.updateMany({
+      where: { id: { in: userIds }, role: UserRole.GUEST, ...covered },
+      data: { role: UserRole.MEMBER },
+    });
+
+    const demoted = await tx.user.updateMany({
+      where: { id: { in: userIds }, role: UserRole.MEMBER, NOT: covered },
+      data: { role: UserRole.GUEST },
+    });
+
+    if (promoted.count > 0 || demoted.count > 0) {
+      this.logger.log(
+        `Household role sync: promoted ${promoted.count}, demoted ${demoted.count} users`,
+      );
+    }
+  }
+
+  /**
+   * End a household link and take away the benefits it gave
+   */
+  private async unlink(member: { id: string; userId: string | null }): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.householdMember.update({
+        where: { id: member.id },
+        data: { status: HouseholdMemberStatus.REMOVED, removedAt: new Date() },
+      });
+
+      if (member.userId) {
+        await this.syncRoles(tx, [member.userId]);
+      }
+    });
+  }
+
+  /**
+   * Household size allowed by the user's current covering membership
+   */
+  private async getMaxMembers(userId: string): Promise<number> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId, ...COVERING_MEMBERSHIP },
+      select: { membershipType: { select: { maxHouseholdMembers: true } } },
+    });
+
+    return Math.max(0, ...memberships.map((m) => m.membershipType.maxHouseholdMembers));
+  }
+
+  private async findActiveLink(userId: string) {
+    return this.prisma.householdMember.findFirst({
+      where: { userId, status: HouseholdMemberStatus.ACTIVE },
+    });
+  }
+
+  /**
+   * An open invitation addressed to the user's email (404 for anyone else's)
+   */
+  private async findMyInvitation(invitationId: string, userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    const invitation = await this.prisma.householdMember.findUnique({
+      where: { id: invitationId },
+    });
+
+    if (
+      !invitation ||
+      invitation.status !== HouseholdMemberStatus.INVITED ||
+      invitation.email !== this.normalizeEmail(user.email)
+    ) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(member: any): HouseholdMemberResponseDto {
+    return {
+      id: member.id,
+      primaryUserId: member.primaryUserId,
+      userId: member.userId,
+      email: member.email,
+      relationship: member.relationship,
+      status: member.status,
+      invitedAt: member.invitedAt,
+      acceptedAt: member.acceptedAt,
+      removedAt: member.removedAt,
+      primaryUser: member.primaryUser
+        ? {
+            id: member.primaryUser.id,
+            email: member.primaryUser.email,
+            profile: member.primaryUser.profile
+              ? {
+                  firstName: member.primaryUser.profile.firstName,
+                  lastName: member.primaryUser.profile.lastName,
+                }
+              : undefined,
+          }
+        : undefined,
+    };
+  }
+}
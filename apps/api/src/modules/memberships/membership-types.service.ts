@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { MembershipStatus, MembershipTypePrice, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { generateUniqueSlug } from '../../common/utils/slug.util';
+import {
+  CreateMembershipTypeDto,
+  UpdateMembershipTypeDto,
+  MembershipTypeResponseDto,
+  MembershipTypePriceResponseDto,
+} from './dto';
+
+/**
+ * Admin management of membership types
+ *
+ * MembershipType.price is always the current price; every change closes the
+ * current MembershipTypePrice row and opens a new one, so memberships (and
+ * through them, their payments) keep pointing at the price they were sold at.
+ */
+@Injectable()
+export class MembershipTypesService {
+  private readonly logger = new Logger(MembershipTypesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get all membership types, including inactive ones (admin only)
+   */
+  async findAll(): Promise<MembershipTypeResponseDto[]> {
+    const types = await this.prisma.membershipType.findMany({
+      orderBy: { sortOrder: 'asc' },
+    });
+
+    return types.map((t) => this.toResponseDto(t));
+  }
+
+  /**
+   * Create a membership type and its first price version (admin only)
+   */
+  async create(adminId: string, dto: CreateMembershipTypeDto): Promise<MembershipTypeResponseDto> {
+    await this.assertNameAvailable(dto.name);
+
+    let slug: string;
+    if (dto.slug) {
+      await this.assertSlugAvailable(dto.slug);
+      slug = dto.slug;
+    } else {
+      slug = await generateUniqueSlug(dto.name, (candidate) => this.slugExists(candidate));
+    }
+
+    const type = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.membershipType.create({
+        data: {
+          name: dto.name,
+          slug,
+          description: dto.description,
+          price: dto.price,
+          benefits: dto.benefits,
+          durationMonths: dto.durationMonths ?? null,
+          maxHouseholdMembers: dto.maxHouseholdMembers ?? 0,
+          sortOrder: dto.sortOrder ?? 0,
+          isActive: dto.isActive ?? true,
+        },
+      });
+
+      await tx.membershipTypePrice.create({
+        data: {
+          membershipTypeId: created.id,
+          price: dto.price,
+          changedById: adminId,
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Admin ${adminId} created membership type ${type.id} (${type.slug})`);
+
+    return this.toResponseDto(type);
+  }
+
+  /**
+   * Update a membership type (admin only)
+   * A new price is versioned; deactivation is blocked while memberships are pending
+   */
+  async update(
+    id: string,
+    adminId: string,
+    dto: UpdateMembershipTypeDto,
+  ): Promise<MembershipTypeResponseDto> {
+    const type = await this.findType(id);
+
+    if (dto.name !== undefined && dto.name !== type.name) {
+      await this.assertNameAvailable(dto.name);
+    }
+
+    if (dto.slug && dto.slug !== type.slug) {
+      await this.assertSlugAvailable(dto.slug);
+    }
+
+    if (dto.isActive === false && type.isActive) {
+      await this.assertNoPendingMemberships(id);
+    }
+
+    const priceChanged = dto.price !== undefined && dto.price !== Number(type.price);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (priceChanged) {
+        await this.startPriceVersion(tx, id, dto.price!, adminId);
+      }
+
+      return tx.membershipType.update({
+        where: { id },
+        data: {
+          ...(dto.name !== undefined && { name: dto.name }),
+          ...(dto.slug !== undefined && { slug: dto.slug }),
+          ...(dto.description !== undefined && { description: dto.description }),
+          ...(priceChanged && { price: dto.price }),
+          ...(dto.benefits !== undefined && { benefits: dto.benefits }),
+          ...(dto.durationMonths !== undefined && { durationMonths: dto.durationMonths }),
+          ...(dto.maxHouseholdMembers !== undefined && {
+            maxHouseholdMembers: dto.maxHouseholdMembers,
+          }),
+          ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+          ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+        },
+      });
+    });
+
+    if (priceChanged) {
+      this.logger.log(
+        `Admin ${adminId} changed price of membership type ${id} from $${type.price} to $${dto.price}`,
+      );
+    }
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Deactivate a membership type (admin only)
+   * Types are never hard-deleted: memberships and payments keep referring to them
+   */
+  async deactivate(id: string): Promise<{ message: string }> {
+    const type = await this.findType(id);
+
+    if (!type.isActive) {
+      throw new BadRequestException('Membership type is already inactive');
+    }
+
+    await this.assertNoPendingMemberships(id);
+
+    await this.prisma.membershipType.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Deactivated membership type ${id} (${type.slug})`);
+
+    return { message: 'Membership type deactivated' };
+  }
+
+  /**
+   * Get the price history of a membership type, newest first (admin only)
+   */
+  async getPriceHistory(id: string): Promise<MembershipTypePriceResponseDto[]> {
+    await this.findType(id);
+
+    const prices = await this.prisma.membershipTypePrice.findMany({
+      where: { membershipTypeId: id },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    return prices.map((p) => this.toPriceResponseDto(p));
+  }
+
+  /**
+   * Current price version of a type, for new memberships to be sold at
+   * Every type has one: types get a price row when created, and the price
+   * versioning migration backfilled the existing ones.
+   */
+  async getCurrentPrice(
+    membershipTypeId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<MembershipTypePrice> {
+    return tx.membershipTypePrice.findFirstOrThrow({
+      where: { membershipTypeId, effectiveTo: null },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  private async startPriceVersion(
+    tx: Prisma.TransactionClient,
+    membershipTypeId: string,
+    price: number,
+    adminId: string,
+  ): Promise<void> {
+    const now = new Date();
+
+    await tx.membershipTypePrice.updateMany({
+      where: { membershipTypeId, effectiveTo: null },
+      data: { effectiveTo: now },
+    });
+
+    await tx.membershipTypePrice.create({
+      data: {
+        membershipTypeId,
+        price,
+        effectiveFrom: now,
+        changedById: adminId,
+      },
+    });
+  }
+
+  private async findType(id: string) {
+    const type = await this.prisma.membershipType.findUnique({ where: { id } });
+
+    if (!type) {
+      throw new NotFoundException('Membership type not found');
+    }
+
+    return type;
+  }
+
+  private async assertNoPendingMemberships(membershipTypeId: string): Promise<void> {
+    const pending = await this.prisma.membership.count({
+      where: { membershipTypeId, status: MembershipStatus.PENDING },
+    });
+
+    if (pending > 0) {
+      throw new BadRequestException(
+        `Cannot deactivate a membership type with ${pending} pending membership(s)`,
+      );
+    }
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.membershipType.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(`A membership type named '${name}' already exists`);
+    }
+  }
+
+  private async slugExists(slug: string): Promise<boolean> {
+    const existing = await this.prisma.membershipType.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+    return !!existing;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    if (await this.slugExists(slug)) {
+      throw new ConflictException(`A membership type with slug '${slug}' already exists`);
+    }
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(type: any): MembershipTypeResponseDto {
+    return {
+      id: type.id,
+      name: type.name,
+      slug: type.slug,
+      description: type.description,
+      price: Number(type.price),
+      benefits: type.benefits,
+      durationMonths: type.durationMonths,
+      maxHouseholdMembers: type.maxHouseholdMembers,
+      isActive: type.isActive,
+      sortOrder: type.sortOrder,
+      createdAt: type.createdAt,
+      updatedAt: type.updatedAt,
+    };
+  }
+
+  private toPriceResponseDto(price: MembershipTypePrice): MembershipTypePriceResponseDto {
+    return {
+      id: price.id,
+      membershipTypeId: price.membershipTypeId,
+      price: Number(price.price),
+      effectiveFrom: price.effectiveFrom,
+      effectiveTo: price.effectiveTo,
+      changedById: price.changedById,
+    };
+  }
+}
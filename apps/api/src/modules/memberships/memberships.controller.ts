@@ -10,14 +10,22 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { MembershipsService } from './memberships.service';
+import { MembershipTypesService } from './membership-types.service';
 import {
   CreateMembershipDto,
   MembershipResponseDto,
   ApproveMembershipDto,
+  RecordOfflinePaymentDto,
   UpdateMembershipStatusDto,
   AssignHonoraryMembershipDto,
+  UpgradeQuoteResponseDto,
+  CreateMembershipTypeDto,
+  UpdateMembershipTypeDto,
+  MembershipTypeResponseDto,
+  MembershipTypePriceResponseDto,
 } from './dto';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
@@ -27,7 +35,10 @@ import { UserRole, MembershipStatus } from '@prisma/client';
 
 @Controller('memberships')
 export class MembershipsController {
-  constructor(private readonly membershipsService: MembershipsService) {}
+  constructor(
+    private readonly membershipsService: MembershipsService,
+    private readonly membershipTypesService: MembershipTypesService,
+  ) {}
 
   /**
    * Get all available membership types (public endpoint)
@@ -38,6 +49,84 @@ export class MembershipsController {
     return this.membershipsService.getMembershipTypes();
   }
 
+  /**
+   * Get all membership types, including inactive ones (admin only)
+   * GET /api/memberships/types/all
+   */
+  @Get('types/all')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getAllMembershipTypes(): Promise<MembershipTypeResponseDto[]> {
+    return this.membershipTypesService.findAll();
+  }
+
+  /**
+   * Create a membership type (admin only)
+   * POST /api/memberships/types
+   */
+  @Post('types')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async createMembershipType(
+    @CurrentUser() user: any,
+    @Body() dto: CreateMembershipTypeDto,
+  ): Promise<MembershipTypeResponseDto> {
+    return this.membershipTypesService.create(user.id, dto);
+  }
+
+  /**
+   * Update a membership type; a price change starts a new price version (admin only)
+   * PUT /api/memberships/types/:id
+   */
+  @Put('types/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async updateMembershipType(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Body() dto: UpdateMembershipTypeDto,
+  ): Promise<MembershipTypeResponseDto> {
+    return this.membershipTypesService.update(id, user.id, dto);
+  }
+
+  /**
+   * Deactivate a membership type (admin only)
+   * DELETE /api/memberships/types/:id
+   */
+  @Delete('types/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async deleteMembershipType(@Param('id') id: string): Promise<{ message: string }> {
+    return this.membershipTypesService.deactivate(id);
+  }
+
+  /**
+   * Get price history of a membership type (admin only)
+   * GET /api/memberships/types/:id/prices
+   */
+  @Get('types/:id/prices')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getMembershipTypePrices(
+    @Param('id') id: string,
+  ): Promise<MembershipTypePriceResponseDto[]> {
+    return this.membershipTypesService.getPriceHistory(id);
+  }
+
+  /**
+   * Get the prorated price of upgrading to another membership type
+   * GET /api/memberships/upgrade-quote?typeId=...
+   */
+  @Get('upgrade-quote')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async getUpgradeQuote(
+    @CurrentUser() user: any,
+    @Query('typeId', ParseUUIDPipe) typeId: string,
+  ): Promise<UpgradeQuoteResponseDto> {
+    return this.membershipsService.getUpgradeQuote(user.id, typeId);
+  }
+
   /**
    * Apply for a new membership
    * POST /api/memberships
@@ -71,6 +160,16 @@ export class MembershipsController {
     return this.membershipsService.getMembershipHistory(user.id);
   }
 
+  /**
+   * Renew current user's membership (new term starts at current expiry date)
+   * POST /api/memberships/me/renew
+   */
+  @Post('me/renew')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async renewMyMembership(@CurrentUser() user: any): Promise<MembershipResponseDto> {
+    return this.membershipsService.renew(user.id);
+  }
+
   /**
    * Cancel current user's membership
    * DELETE /api/memberships/me
@@ -131,6 +230,21 @@ export class MembershipsController {
     return this.membershipsService.approve(id, user.id, dto);
   }
 
+  /**
+   * Record a cash, check, Zelle or bank transfer payment and activate a pending membership (admin only)
+   * POST /api/memberships/:id/offline-payment
+   */
+  @Post(':id/offline-payment')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async recordOfflinePayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: RecordOfflinePaymentDto,
+  ): Promise<MembershipResponseDto> {
+    return this.membershipsService.recordOfflinePayment(id, user.id, dto);
+  }
+
   /**
    * Reject a pending membership (admin only)
    * POST /api/memberships/:id/reject
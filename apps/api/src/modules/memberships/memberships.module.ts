@@ -1,6 +1,9 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MembershipsController } from './memberships.controller';
 import { MembershipsService } from './memberships.service';
+import { MembershipTypesService } from './membership-types.service';
+import { HouseholdsController } from './households.controller';
+import { HouseholdsService } from './households.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { UsersModule } from '../users/users.module';
@@ -11,8 +14,8 @@ import { UsersModule } from '../users/users.module';
     forwardRef(() => AuthModule),
     forwardRef(() => UsersModule),
   ],
-  controllers: [MembershipsController],
-  providers: [MembershipsService],
-  exports: [MembershipsService],
+  controllers: [MembershipsController, HouseholdsController],
+  providers: [MembershipsService, MembershipTypesService, HouseholdsService],
+  exports: [MembershipsService, MembershipTypesService, HouseholdsService],
 })
 export class MembershipsModule {}
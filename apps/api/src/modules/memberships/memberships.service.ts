@@ -5,20 +5,51 @@ import {
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
+import { MembershipTypesService } from './membership-types.service';
+import { HouseholdsService } from './households.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+import { NotificationsService } from '../notifications/notifications.service';
 import {
   CreateMembershipDto,
   UpdateMembershipDto,
   ApproveMembershipDto,
+  RecordOfflinePaymentDto,
   MembershipResponseDto,
+  UpgradeQuoteResponseDto,
 } from './dto';
-import { MembershipStatus } from '@prisma/client';
+import {
+  Membership,
+  MembershipStatus,
+  MembershipType,
+  MembershipTypePrice,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after expiryDate that a member keeps MEMBER role
+const DEFAULT_GRACE_DAYS = 14;
+
+// Renewal reminders go out this many days before expiry
+const RENEWAL_REMINDER_DAYS = [30, 7, 1];
 
 @Injectable()
 export class MembershipsService {
   private readonly logger = new Logger(MembershipsService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private membershipTypesService: MembershipTypesService,
+    private householdsService: HouseholdsService,
+    private auditService: AuditService,
+    private notificationsService: NotificationsService,
+  ) {}
 
   /**
    * Get all available membership types (public)
@@ -35,6 +66,7 @@ export class MembershipsService {
         price: true,
         benefits: true,
         durationMonths: true,
+        maxHouseholdMembers: true,
         sortOrder: true,
       },
     });
@@ -70,6 +102,7 @@ export class MembershipsService {
           gte: oneYearAgo, // Expired within last 365 days
         },
         creditUsedIn: null, // Credit hasn't been used yet
+        renewedTo: null, // A renewed term was paid forward, not lost
       },
       include: {
         membershipType: true,
@@ -162,31 +195,21 @@ export class MembershipsService {
     }
 
     // Check if user has an ACTIVE membership (this will be an upgrade)
-    const activeMembership = await this.prisma.membership.findFirst({
-      where: {
-        userId,
-        status: MembershipStatus.ACTIVE,
-      },
-      include: {
-        membershipType: true,
-      },
-    });
+    const activeMembership = await this.findCurrentMembership(userId);
 
     // Validate membership type exists
     const newMembershipType = await this.prisma.membershipType.findUnique({
       where: { id: dto.membershipTypeId },
     });
 
-    if (!newMembershipType) {
+    if (!newMembershipType || !newMembershipType.isActive) {
       throw new NotFoundException('Membership type not found');
     }
 
-    // If upgrading, check if it's actually an upgrade (not downgrade or same)
-    if (activeMembership && activeMembership.membershipTypeId === dto.membershipTypeId) {
-      throw new BadRequestException(
-        'You already have this membership type. Please select a different type to upgrade.',
-      );
-    }
+    // If upgrading, price the change (rejects same type / lifetime to term)
+    const upgradeQuote = activeMembership
+      ? this.calculateUpgradeQuote(activeMembership, newMembershipType)
+      : null;
 
     // Check for available credit from recently expired memberships
     const creditInfo = await this.getAvailableCredit(userId);
@@ -197,11 +220,15 @@ export class MembershipsService {
       );
     }
 
+    // Sold at today's price, even if the type is repriced before payment
+    const price = await this.membershipTypesService.getCurrentPrice(dto.membershipTypeId);
+
     // Create new membership with PENDING status (awaiting payment)
     const newMembership = await this.prisma.membership.create({
       data: {
         userId,
         membershipTypeId: dto.membershipTypeId,
+        membershipTypePriceId: price.id,
         status: MembershipStatus.PENDING,
         startDate: null,
         expiryDate: null,
@@ -210,6 +237,11 @@ export class MembershipsService {
         // Apply credit if available
         creditAppliedFromId: creditInfo.hasCredit ? creditInfo.expiredMembership?.id : null,
         creditAmount: creditInfo.hasCredit ? creditInfo.creditAmount : null,
+        // Credit the unused part of the membership being upgraded
+        prorationCredit: upgradeQuote?.proratedCredit ?? null,
+        upgradeQuote: upgradeQuote
+          ? { ...upgradeQuote, quotedAt: upgradeQuote.quotedAt.toISOString() }
+          : undefined,
       },
       include: {
         membershipType: true,
@@ -232,6 +264,109 @@ export class MembershipsService {
     return this.toResponseDto(newMembership);
   }
 
+  /**
+   * Quote the price of upgrading the current user's membership to another type
+   */
+  async getUpgradeQuote(
+    userId: string,
+    membershipTypeId: string,
+  ): Promise<UpgradeQuoteResponseDto> {
+    const current = await this.findCurrentMembership(userId);
+
+    if (!current) {
+      throw new NotFoundException('No active membership found');
+    }
+
+    const newType = await this.prisma.membershipType.findUnique({
+      where: { id: membershipTypeId },
+    });
+
+    if (!newType || !newType.isActive) {
+      throw new NotFoundException('Membership type not found');
+    }
+
+    return this.calculateUpgradeQuote(current, newType);
+  }
+
+  /**
+   * Renew the current user's membership
+   * Creates a PENDING membership of the same type whose term starts at the
+   * current expiryDate rather than today, so renewing early or during the
+   * grace period neither loses nor gains days
+   */
+  async renew(userId: string): Promise<MembershipResponseDto> {
+    const pendingMembership = await this.prisma.membership.findFirst({
+      where: {
+        userId,
+        status: MembershipStatus.PENDING,
+      },
+    });
+
+    if (pendingMembership) {
+      throw new BadRequestException(
+        'You already have a pending membership. Please complete payment or cancel it before renewing.',
+      );
+    }
+
+    // Renew the term that ends last (a paid renewal is itself renewed)
+    const current = await this.findCurrentMembership(userId);
+
+    if (!current) {
+      throw new NotFoundException('No active membership found');
+    }
+
+    if (!current.expiryDate) {
+      throw new BadRequestException('Lifetime memberships do not need renewal');
+    }
+
+    if (current.expiryDate < this.getGraceCutoff()) {
+      throw new BadRequestException(
+        'Your membership has expired. Please apply for a new membership.',
+      );
+    }
+
+    if (!current.membershipType.isActive) {
+      throw new BadRequestException(
+        'This membership type is no longer offered. Please apply for a different membership.',
+      );
+    }
+
+    const renewal = await this.prisma.$transaction(async (tx) => {
+      // A cancelled renewal attempt must let go of the term it was renewing
+      if (current.renewedTo) {
+        await tx.membership.update({
+          where: { id: current.renewedTo.id },
+          data: { renewedFromId: null },
+        });
+      }
+
+      const price = await this.membershipTypesService.getCurrentPrice(
+        current.membershipTypeId,
+        tx,
+      );
+
+      return tx.membership.create({
+        data: {
+          userId,
+          membershipTypeId: current.membershipTypeId,
+          membershipTypePriceId: price.id,
+          status: MembershipStatus.PENDING,
+          startDate: null,
+          expiryDate: null,
+          renewedFromId: current.id,
+        },
+        include: {
+          membershipType: true,
+          user: { include: { profile: true } },
+        },
+      });
+    });
+
+    this.logger.log(`User ${userId} started renewal ${renewal.id} of membership ${current.id}`);
+
+    return this.toResponseDto(renewal);
+  }
+
   /**
    * Get current user's active or pending membership
    */
@@ -342,7 +477,7 @@ export class MembershipsService {
   ): Promise<MembershipResponseDto> {
     const membership = await this.prisma.membership.findUnique({
       where: { id: membershipId },
-      include: { membershipType: true },
+      include: { membershipType: true, renewedFrom: true },
     });
 
     if (!membership) {
@@ -357,47 +492,177 @@ export class MembershipsService {
 
     // Approve and activate membership, promote user role
     const updatedMembership = await this.prisma.$transaction(async (tx) => {
-      // Activate membership
-      const activated = await tx.membership.update({
-        where: { id: membershipId },
-        data: {
-          status: MembershipStatus.ACTIVE,
-          startDate: new Date(),
-          expiryDate: membership.membershipType.durationMonths
-            ? this.calculateExpiryDate(membership.membershipType.durationMonths)
-            : null, // Lifetime membership if durationMonths is null
-          approvedById: adminId,
-          approvedAt: new Date(),
-          approvalNote: dto.approvalNote,
-        },
-        include: {
-          membershipType: true,
-          user: { include: { profile: true } },
-          approvedBy: { include: { profile: true } },
+      const activated = await this.activate(tx, membership, adminId, dto.approvalNote);
+
+      await this.auditService.record(
+        {
+          action: AuditAction.APPROVE,
+          entityType: 'Membership',
+          entityId: membershipId,
+          before: membership,
+          after: activated,
+          actorId: adminId,
         },
-      });
+        tx,
+      );
 
-      // Promote user to MEMBER role if they're currently GUEST
-      await tx.user.updateMany({
-        where: {
-          id: membership.userId,
-          role: 'GUEST',
-        },
+      return activated;
+    });
+
+    this.logger.log(
+      `Approved membership ${membershipId} and promoted user to MEMBER role`,
+    );
+
+    return this.toResponseDto(updatedMembership);
+  }
+
+  /**
+   * Record a cash, check, Zelle or bank transfer payment for a pending
+   * membership and activate it (admin only)
+   * Creates a COMPLETED Payment tied to the membership, like a Stripe checkout
+   */
+  async recordOfflinePayment(
+    membershipId: string,
+    adminId: string,
+    dto: RecordOfflinePaymentDto,
+  ): Promise<MembershipResponseDto> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { id: membershipId },
+      include: { membershipType: true, membershipTypePrice: true, renewedFrom: true },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Membership not found');
+    }
+
+    if (membership.status !== MembershipStatus.PENDING) {
+      throw new BadRequestException('Offline payments can only be recorded for pending memberships');
+    }
+
+    const receivedAt = new Date(dto.receivedAt);
+
+    if (receivedAt.getTime() > Date.now()) {
+      throw new BadRequestException('receivedAt cannot be in the future');
+    }
+
+    // Same amount a Stripe checkout would charge for this membership
+    const amountDue = this.roundCurrency(
+      Math.max(
+        0,
+        Number(membership.membershipTypePrice?.price ?? membership.membershipType.price) -
+          Number(membership.creditAmount ?? 0) -
+          Number(membership.prorationCredit ?? 0),
+      ),
+    );
+
+    if (dto.amount !== amountDue) {
+      this.logger.warn(
+        `Offline payment of $${dto.amount} for membership ${membershipId} differs from the $${amountDue} due`,
+      );
+    }
+
+    const updatedMembership = await this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
         data: {
-          role: 'MEMBER',
+          userId: membership.userId,
+          type: PaymentType.MEMBERSHIP,
+          amount: dto.amount,
+          method: dto.method,
+          status: PaymentStatus.COMPLETED,
+          referenceNumber: dto.referenceNumber,
+          receivedAt,
+          recordedById: adminId,
+          metadata: {
+            membershipId,
+            membershipTypeId: membership.membershipTypeId,
+            amountDue,
+            ...(dto.note && { adminNote: dto.note }),
+          },
         },
       });
 
-      return activated;
+      await this.auditService.record(
+        {
+          action: AuditAction.OFFLINE_PAYMENT,
+          entityType: 'Payment',
+          entityId: payment.id,
+          after: payment,
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      await this.notificationsService.notifyPaymentReceipt(payment.id, tx);
+
+      return this.activate(
+        tx,
+        membership,
+        adminId,
+        dto.note ?? this.describeOfflinePayment(dto),
+        payment.id,
+      );
     });
 
     this.logger.log(
-      `Approved membership ${membershipId} and promoted user to MEMBER role`,
+      `Admin ${adminId} recorded ${dto.method} payment of $${dto.amount} and activated membership ${membershipId}`,
     );
 
     return this.toResponseDto(updatedMembership);
   }
 
+  /**
+   * Activate a membership paid through Stripe checkout (payment webhook)
+   * Safe to run again for the same payment: a membership it already
+   * activated is left alone. Returns false when the membership is no longer
+   * pending (e.g. an offline payment activated it first), so the payment has
+   * to be refunded.
+   */
+  async activatePaid(
+    membershipId: string,
+    paymentId: string,
+    stripeCustomerId?: string,
+  ): Promise<boolean> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { id: membershipId },
+      include: {
+        membershipType: true,
+        creditAppliedFrom: { include: { membershipType: true } },
+        renewedFrom: true,
+      },
+    });
+
+    if (!membership) {
+      this.logger.warn(`Paid membership ${membershipId} not found`);
+      return false;
+    }
+
+    if (membership.lastPaymentId === paymentId) {
+      this.logger.log(`Membership ${membershipId} was already activated by this payment`);
+      return true;
+    }
+
+    if (membership.status !== MembershipStatus.PENDING) {
+      this.logger.warn(
+        `Payment ${paymentId} received but membership ${membershipId} is ${membership.status}`,
+      );
+      return false;
+    }
+
+    if (membership.creditAmount && membership.creditAppliedFrom) {
+      this.logger.log(
+        `Credit of $${membership.creditAmount} from expired ${membership.creditAppliedFrom.membershipType.name} membership was applied`,
+      );
+    }
+
+    await this.prisma.$transaction((tx) =>
+      this.activate(tx, membership, null, undefined, paymentId, stripeCustomerId),
+    );
+
+    this.logger.log(`Activated membership ${membershipId} and promoted user to MEMBER role`);
+
+    return true;
+  }
+
   /**
    * Reject a pending membership (admin only)
    */
@@ -420,19 +685,37 @@ export class MembershipsService {
       );
     }
 
-    const updatedMembership = await this.prisma.membership.update({
-      where: { id: membershipId },
-      data: {
-        status: MembershipStatus.CANCELLED,
-        approvedById: adminId,
-        approvedAt: new Date(),
-        approvalNote: reason,
-      },
-      include: {
-        membershipType: true,
-        user: { include: { profile: true } },
-        approvedBy: { include: { profile: true } },
-      },
+    const updatedMembership = await this.prisma.$transaction(async (tx) => {
+      const rejected = await tx.membership.update({
+        where: { id: membershipId },
+        data: {
+          status: MembershipStatus.CANCELLED,
+          approvedById: adminId,
+          approvedAt: new Date(),
+          approvalNote: reason,
+        },
+        include: {
+          membershipType: true,
+          user: { include: { profile: true } },
+          approvedBy: { include: { profile: true } },
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.REJECT,
+          entityType: 'Membership',
+          entityId: membershipId,
+          before: membership,
+          after: rejected,
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      await this.notificationsService.notifyMembershipRejected(membershipId, tx);
+
+      return rejected;
     });
 
     return this.toResponseDto(updatedMembership);
@@ -455,17 +738,34 @@ export class MembershipsService {
       throw new NotFoundException('Membership not found');
     }
 
-    const updatedMembership = await this.prisma.membership.update({
-      where: { id: membershipId },
-      data: {
-        status,
-        ...(note && { approvalNote: note }), // Add note if provided
-      },
-      include: {
-        membershipType: true,
-        user: { include: { profile: true } },
-        approvedBy: { include: { profile: true } },
-      },
+    const updatedMembership = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.membership.update({
+        where: { id: membershipId },
+        data: {
+          status,
+          ...(note && { approvalNote: note }), // Add note if provided
+        },
+        include: {
+          membershipType: true,
+          user: { include: { profile: true } },
+          approvedBy: { include: { profile: true } },
+        },
+      });
+
+      await this.householdsService.syncHouseholdRoles(tx, [membership.userId]);
+
+      await this.auditService.record(
+        {
+          action: AuditAction.STATUS_CHANGE,
+          entityType: 'Membership',
+          entityId: membershipId,
+          before: membership,
+          after: updated,
+        },
+        tx,
+      );
+
+      return updated;
     });
 
     this.logger.log(
@@ -514,10 +814,13 @@ export class MembershipsService {
 
     // Create honorary membership with ACTIVE status, no payment needed
     const honoraryMembership = await this.prisma.$transaction(async (tx) => {
+      const price = await this.membershipTypesService.getCurrentPrice(honoraryType.id, tx);
+
       const membership = await tx.membership.create({
         data: {
           userId,
           membershipTypeId: honoraryType.id,
+          membershipTypePriceId: price.id,
           status: 'ACTIVE',
           startDate: new Date(),
           expiryDate: null, // Lifetime
@@ -543,6 +846,27 @@ export class MembershipsService {
         },
       });
 
+      await this.auditService.record(
+        {
+          action: AuditAction.ASSIGN_HONORARY,
+          entityType: 'Membership',
+          entityId: membership.id,
+          after: {
+            userId,
+            membershipTypeId: membership.membershipTypeId,
+            status: membership.status,
+            startDate: membership.startDate,
+            expiryDate: membership.expiryDate,
+            approvalNote: membership.approvalNote,
+            previousRole: user.role,
+          },
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      await this.notificationsService.notifyMembershipActivated(membership.id, tx);
+
       return membership;
     });
 
@@ -573,16 +897,23 @@ export class MembershipsService {
       throw new BadRequestException('Membership is already cancelled');
     }
 
-    const updatedMembership = await this.prisma.membership.update({
-      where: { id: membershipId },
-      data: {
-        status: MembershipStatus.CANCELLED,
-      },
-      include: {
-        membershipType: true,
-        user: { include: { profile: true } },
-        approvedBy: { include: { profile: true } },
-      },
+    const updatedMembership = await this.prisma.$transaction(async (tx) => {
+      const cancelled = await tx.membership.update({
+        where: { id: membershipId },
+        data: {
+          status: MembershipStatus.CANCELLED,
+        },
+        include: {
+          membershipType: true,
+          user: { include: { profile: true } },
+          approvedBy: { include: { profile: true } },
+        },
+      });
+
+      // Household members lose the coverage this membership gave them
+      await this.householdsService.syncHouseholdRoles(tx, [userId]);
+
+      return cancelled;
     });
 
     return this.toResponseDto(updatedMembership);
@@ -590,16 +921,24 @@ export class MembershipsService {
 
   /**
    * Check and update expired memberships (cron job)
-   * Also demotes user role to GUEST when membership expires
+   * Members keep their role through the grace period after expiryDate; a term
+   * already continued by a paid renewal expires right away
+   * Also demotes user role to GUEST when the last active membership expires,
+   * unless a household membership still covers them, and demotes the household
+   * members of a lapsed family membership
    */
   async updateExpiredMemberships(): Promise<number> {
     // Find all memberships that have expired
     const expiredMemberships = await this.prisma.membership.findMany({
       where: {
         status: MembershipStatus.ACTIVE,
-        expiryDate: {
-          lt: new Date(),
-        },
+        OR: [
+          { expiryDate: { lt: this.getGraceCutoff() } },
+          {
+            expiryDate: { lt: new Date() },
+            renewedTo: { status: MembershipStatus.ACTIVE },
+          },
+        ],
       },
       select: {
         id: true,
@@ -632,11 +971,17 @@ export class MembershipsService {
             in: expiredMemberships.map((m) => m.userId),
           },
           role: 'MEMBER', // Only demote if they're currently MEMBER
+          NOT: this.householdsService.coveredUserWhere(), // e.g. a renewal
         },
         data: {
           role: 'GUEST',
         },
       });
+
+      await this.householdsService.syncHouseholdRoles(
+        tx,
+        expiredMemberships.map((m) => m.userId),
+      );
     });
 
     this.logger.log(
@@ -646,15 +991,260 @@ export class MembershipsService {
     return expiredMemberships.length;
   }
 
+  /**
+   * Remind members to renew 30, 7 and 1 days before expiry (cron job)
+   * Each reminder is sent once (renewalReminderDays); a late run sends only
+   * the most recent one that is due
+   * Returns the number of reminders sent
+   */
+  async sendRenewalReminders(): Promise<number> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + Math.max(...RENEWAL_REMINDER_DAYS) * DAY_MS);
+
+    const expiring = await this.prisma.membership.findMany({
+      where: {
+        status: MembershipStatus.ACTIVE,
+        expiryDate: { gt: now, lte: horizon },
+        // Already renewed and paid: nothing to remind about
+        OR: [
+          { renewedTo: { is: null } },
+          { renewedTo: { status: { not: MembershipStatus.ACTIVE } } },
+        ],
+      },
+      include: {
+        membershipType: true,
+        user: { select: { email: true } },
+      },
+    });
+
+    let sent = 0;
+
+    for (const membership of expiring) {
+      const daysLeft = Math.ceil((membership.expiryDate!.getTime() - now.getTime()) / DAY_MS);
+      const due = Math.min(...RENEWAL_REMINDER_DAYS.filter((days) => daysLeft <= days));
+
+      if (membership.renewalReminderDays !== null && membership.renewalReminderDays <= due) {
+        continue;
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await this.notificationsService.notifyMembershipExpiring(membership.id, due, tx);
+
+        await tx.membership.update({
+          where: { id: membership.id },
+          data: { renewalReminderDays: due },
+        });
+      });
+
+      this.logger.log(
+        `Queued renewal reminder to ${membership.user.email}: ${membership.membershipType.name} membership expires ${membership.expiryDate!.toISOString()} (${due}-day notice)`,
+      );
+
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Activate a pending membership approved by an admin (or paid through
+   * Stripe, with no admin), retire the membership it upgrades and promote the
+   * user (and their household)
+   * A renewal continues the previous term instead of starting today
+   */
+  private async activate(
+    tx: Prisma.TransactionClient,
+    membership: Membership & {
+      membershipType: MembershipType;
+      renewedFrom: Membership | null;
+    },
+    adminId: string | null,
+    note: string | undefined,
+    paymentId?: string,
+    stripeCustomerId?: string,
+  ) {
+    const startDate = membership.renewedFrom?.expiryDate ?? new Date();
+
+    // Conditional on PENDING, so concurrent approvals and payments activate it only once
+    const { count } = await tx.membership.updateMany({
+      where: { id: membership.id, status: MembershipStatus.PENDING },
+      data: {
+        status: MembershipStatus.ACTIVE,
+        startDate,
+        expiryDate: membership.membershipType.durationMonths
+          ? this.calculateExpiryDate(membership.membershipType.durationMonths, startDate)
+          : null, // Lifetime membership if durationMonths is null
+        ...(adminId && {
+          approvedById: adminId,
+          approvedAt: new Date(),
+          approvalNote: note,
+        }),
+        ...(paymentId && { lastPaymentId: paymentId }),
+        ...(stripeCustomerId && { stripeCustomerId }),
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Membership is no longer pending');
+    }
+
+    if (membership.upgradedFromId) {
+      await tx.membership.update({
+        where: { id: membership.upgradedFromId },
+        data: {
+          status: MembershipStatus.UPGRADED,
+          upgradedToId: membership.id,
+        },
+      });
+    }
+
+    const activated = await tx.membership.findUniqueOrThrow({
+      where: { id: membership.id },
+      include: {
+        membershipType: true,
+        user: { include: { profile: true } },
+        approvedBy: { include: { profile: true } },
+      },
+    });
+
+    // Promote user to MEMBER role if they're currently GUEST
+    await tx.user.updateMany({
+      where: {
+        id: membership.userId,
+        role: 'GUEST',
+      },
+      data: {
+        role: 'MEMBER',
+      },
+    });
+
+    // A family membership (re)covers the household
+    await this.householdsService.syncHouseholdRoles(tx, [membership.userId]);
+
+    await this.notificationsService.notifyMembershipActivated(activated.id, tx);
+
+    return activated;
+  }
+
+  /**
+   * Default approval note for an offline payment, e.g. "Paid via CHECK #1234"
+   */
+  private describeOfflinePayment(dto: RecordOfflinePaymentDto): string {
+    return `Paid via ${dto.method}${dto.referenceNumber ? ` #${dto.referenceNumber}` : ''}`;
+  }
+
+  /**
+   * The user's ACTIVE membership that ends last (lifetime first)
+   */
+  private async findCurrentMembership(userId: string) {
+    return this.prisma.membership.findFirst({
+      where: {
+        userId,
+        status: MembershipStatus.ACTIVE,
+      },
+      include: {
+        membershipType: true,
+        membershipTypePrice: true,
+        renewedTo: true,
+      },
+      orderBy: { expiryDate: { sort: 'desc', nulls: 'first' } },
+    });
+  }
+
+  /**
+   * Price an upgrade: the new type's price minus the unused value of the
+   * current term, prorated by remaining days at the price it was sold at.
+   * A lifetime membership is never used up, so its full price counts, but it
+   * can only move to another lifetime type.
+   */
+  private calculateUpgradeQuote(
+    current: {
+      id: string;
+      membershipTypeId: string;
+      startDate: Date | null;
+      expiryDate: Date | null;
+      createdAt: Date;
+      membershipType: MembershipType;
+      membershipTypePrice: MembershipTypePrice | null;
+    },
+    newType: MembershipType,
+  ): UpgradeQuoteResponseDto {
+    if (current.membershipTypeId === newType.id) {
+      throw new BadRequestException(
+        'You already have this membership type. Please select a different type to upgrade.',
+      );
+    }
+
+    const now = new Date();
+    const currentPrice = Number(
+      current.membershipTypePrice?.price ?? current.membershipType.price,
+    );
+    const newPrice = Number(newType.price);
+    let remainingDays: number | null = null;
+    let totalDays: number | null = null;
+    let proratedCredit: number;
+
+    if (!current.expiryDate) {
+      if (newType.durationMonths) {
+        throw new BadRequestException(
+          'A lifetime membership can only be upgraded to another lifetime membership',
+        );
+      }
+      proratedCredit = currentPrice;
+    } else {
+      const start = current.startDate ?? current.createdAt;
+      const from = Math.max(now.getTime(), start.getTime());
+
+      totalDays = Math.max(
+        1,
+        Math.round((current.expiryDate.getTime() - start.getTime()) / DAY_MS),
+      );
+      remainingDays = Math.min(
+        totalDays,
+        Math.max(0, Math.ceil((current.expiryDate.getTime() - from) / DAY_MS)),
+      );
+      proratedCredit = this.roundCurrency((currentPrice * remainingDays) / totalDays);
+    }
+
+    return {
+      currentMembershipId: current.id,
+      currentMembershipTypeId: current.membershipTypeId,
+      newMembershipTypeId: newType.id,
+      currentPrice,
+      newPrice,
+      remainingDays,
+      totalDays,
+      proratedCredit,
+      amountDue: this.roundCurrency(Math.max(0, newPrice - proratedCredit)),
+      quotedAt: now,
+    };
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
   /**
    * Calculate expiry date based on duration
    */
-  private calculateExpiryDate(durationMonths: number): Date {
-    const expiryDate = new Date();
+  private calculateExpiryDate(durationMonths: number, from: Date = new Date()): Date {
+    const expiryDate = new Date(from);
     expiryDate.setMonth(expiryDate.getMonth() + durationMonths);
     return expiryDate;
   }
 
+  /**
+   * Memberships that expired before this date are past their grace period
+   */
+  private getGraceCutoff(): Date {
+    return new Date(Date.now() - this.getGraceDays() * DAY_MS);
+  }
+
+  private getGraceDays(): number {
+    const days = Number(this.configService.get('MEMBERSHIP_GRACE_DAYS'));
+    return days >= 0 ? days : DEFAULT_GRACE_DAYS;
+  }
+
   /**
    * Convert Prisma model to response DTO
    */
@@ -663,6 +1253,7 @@ export class MembershipsService {
       id: membership.id,
       userId: membership.userId,
       membershipTypeId: membership.membershipTypeId,
+      membershipTypePriceId: membership.membershipTypePriceId,
       status: membership.status,
       startDate: membership.startDate,
       expiryDate: membership.expiryDate,
@@ -670,10 +1261,18 @@ export class MembershipsService {
       approvedById: membership.approvedById,
       approvedAt: membership.approvedAt,
       approvalNote: membership.approvalNote,
+      lastPaymentId: membership.lastPaymentId,
       upgradedFromId: membership.upgradedFromId,
       upgradedToId: membership.upgradedToId,
       creditAppliedFromId: membership.creditAppliedFromId,
       creditAmount: membership.creditAmount ? Number(membership.creditAmount) : null,
+      prorationCredit: membership.prorationCredit ? Number(membership.prorationCredit) : null,
+      upgradeQuote: membership.upgradeQuote ?? null,
+      renewedFromId: membership.renewedFromId,
+      renewalReminderDays: membership.renewalReminderDays,
+      graceEndsAt: membership.expiryDate
+        ? new Date(membership.expiryDate.getTime() + this.getGraceDays() * DAY_MS)
+        : null,
       createdAt: membership.createdAt,
       updatedAt: membership.updatedAt,
       membershipType: membership.membershipType,
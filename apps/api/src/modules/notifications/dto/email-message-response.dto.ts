@@ -0,0 +1,21 @@
+import { EmailStatus } from '@prisma/client';
+
+/**
+ * Response DTO for an outbox email
+ */
+export class EmailMessageResponseDto {
+  id: string;
+  template: string;
+  to: string;
+  subject: string;
+  userId: string | null;
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  providerMessageId: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+  html?: string; // Only when fetching a single email
+  text?: string;
+}
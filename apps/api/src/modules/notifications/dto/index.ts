@@ -0,0 +1 @@
+export * from './email-message-response.dto';
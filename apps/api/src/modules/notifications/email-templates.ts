@@ -0,0 +1,331 @@
+/**
+ * Email templates
+ */
+export const EmailTemplate = {
+  MEMBERSHIP_ACTIVATED: 'MEMBERSHIP_ACTIVATED',
+  MEMBERSHIP_REJECTED: 'MEMBERSHIP_REJECTED',
+  MEMBERSHIP_EXPIRING: 'MEMBERSHIP_EXPIRING',
+  PAYMENT_RECEIPT: 'PAYMENT_RECEIPT',
+  REGISTRATION_CONFIRMED: 'REGISTRATION_CONFIRMED',
+  WAITLIST_OFFER: 'WAITLIST_OFFER',
+  EVENT_REMINDER: 'EVENT_REMINDER',
+  EVENT_ANNOUNCEMENT: 'EVENT_ANNOUNCEMENT',
+} as const;
+
+export type EmailTemplate = (typeof EmailTemplate)[keyof typeof EmailTemplate];
+
+/**
+ * Non-transactional email topics a user can opt out of
+ * Values are the matching NotificationPreference fields.
+ */
+export const EmailTopic = {
+  EVENT_ANNOUNCEMENTS: 'eventAnnouncements',
+  NEWSLETTER: 'newsletter',
+  REMINDERS: 'reminders',
+} as const;
+
+export type EmailTopic = (typeof EmailTopic)[keyof typeof EmailTopic];
+
+/**
+ * Topic of each non-transactional template; templates not listed are
+ * transactional and ignore preferences
+ */
+export const TEMPLATE_TOPICS: Partial<Record<EmailTemplate, EmailTopic>> = {
+  MEMBERSHIP_EXPIRING: EmailTopic.REMINDERS,
+  EVENT_REMINDER: EmailTopic.REMINDERS,
+  EVENT_ANNOUNCEMENT: EmailTopic.EVENT_ANNOUNCEMENTS,
+};
+
+export const EMAIL_TOPIC_NAMES: Record<EmailTopic, string> = {
+  eventAnnouncements: 'new event announcements',
+  newsletter: 'the newsletter',
+  reminders: 'reminders',
+};
+
+/**
+ * Data each template is rendered with
+ */
+export interface EmailTemplateData {
+  MEMBERSHIP_ACTIVATED: {
+    membershipType: string;
+    startDate: Date;
+    expiryDate: Date | null; // Null for lifetime memberships
+  };
+  MEMBERSHIP_REJECTED: {
+    membershipType: string;
+    reason: string | null;
+  };
+  MEMBERSHIP_EXPIRING: {
+    membershipType: string;
+    expiryDate: Date;
+    daysLeft: number;
+  };
+  PAYMENT_RECEIPT: {
+    description: string;
+    amount: number;
+    currency: string;
+    method: string;
+    paidAt: Date;
+  };
+  REGISTRATION_CONFIRMED: {
+    eventTitle: string;
+    eventSlug: string;
+    startDate: Date;
+    location: string | null;
+    amount: number | null; // Null for free events
+  };
+  WAITLIST_OFFER: {
+    eventTitle: string;
+    eventSlug: string;
+    startDate: Date;
+    expiresAt: Date;
+  };
+  EVENT_REMINDER: {
+    eventTitle: string;
+    eventSlug: string;
+    startDate: Date;
+    location: string | null;
+    virtualLink: string | null;
+  };
+  EVENT_ANNOUNCEMENT: {
+    eventTitle: string;
+    eventSlug: string;
+    excerpt: string | null;
+    category: string;
+    startDate: Date;
+    location: string | null;
+    isMembersOnly: boolean;
+  };
+}
+
+/**
+ * Recipient and site details shared by every template
+ */
+export interface EmailContext {
+  recipientName: string | null;
+  organizationName: string;
+  appUrl: string; // Website base URL for links, without a trailing slash
+  unsubscribeUrl: string | null; // Set for non-transactional emails
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * What a template says; the layout turns it into HTML and plain text
+ */
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  details?: [string, string][]; // Label/value rows, e.g. ["Amount", "$50.00"]
+  action?: { label: string; url: string };
+}
+
+const TEMPLATES: {
+  [T in EmailTemplate]: (data: EmailTemplateData[T], context: EmailContext) => EmailContent;
+} = {
+  MEMBERSHIP_ACTIVATED: (data, { organizationName, appUrl }) => ({
+    subject: `Your ${data.membershipType} membership is active`,
+    paragraphs: [
+      `Welcome! Your ${data.membershipType} membership with ${organizationName} is now active.`,
+      data.expiryDate
+        ? `It runs until ${formatDate(data.expiryDate)}. We'll remind you before it expires.`
+        : 'It is a lifetime membership, so there is nothing to renew.',
+    ],
+    details: [
+      ['Membership', data.membershipType],
+      ['Start date', formatDate(data.startDate)],
+      ['Expires', data.expiryDate ? formatDate(data.expiryDate) : 'Never'],
+    ],
+    action: { label: 'View your membership', url: `${appUrl}/membership` },
+  }),
+
+  MEMBERSHIP_REJECTED: (data, { organizationName }) => ({
+    subject: `Your ${data.membershipType} membership application`,
+    paragraphs: [
+      `We could not approve your ${data.membershipType} membership application with ${organizationName}.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      'If you think this is a mistake, please reply to this email.',
+    ],
+  }),
+
+  MEMBERSHIP_EXPIRING: (data, { appUrl }) => ({
+    subject:
+      data.daysLeft <= 1
+        ? `Your ${data.membershipType} membership expires tomorrow`
+        : `Your ${data.membershipType} membership expires in ${data.daysLeft} days`,
+    paragraphs: [
+      `Your ${data.membershipType} membership expires on ${formatDate(data.expiryDate)}.`,
+      'Renew now to keep your member benefits; the new term starts when the current one ends.',
+    ],
+    action: { label: 'Renew your membership', url: `${appUrl}/membership` },
+  }),
+
+  PAYMENT_RECEIPT: (data, { organizationName, appUrl }) => ({
+    subject: `Receipt for your payment to ${organizationName}`,
+    paragraphs: [
+      `Thank you! We received your payment of ${formatMoney(data.amount, data.currency)}.`,
+      'A PDF receipt is available from your payment history.',
+    ],
+    details: [
+      ['For', data.description],
+      ['Amount', formatMoney(data.amount, data.currency)],
+      ['Paid with', data.method],
+      ['Date', formatDate(data.paidAt)],
+    ],
+    action: { label: 'View your payments', url: `${appUrl}/payments` },
+  }),
+
+  REGISTRATION_CONFIRMED: (data, { appUrl }) => ({
+    subject: `You're registered: ${data.eventTitle}`,
+    paragraphs: [`Your registration for ${data.eventTitle} is confirmed. See you there!`],
+    details: [
+      ['Event', data.eventTitle],
+      ['When', formatDateTime(data.startDate)],
+      ...(data.location ? [['Where', data.location] as [string, string]] : []),
+      ...(data.amount !== null
+        ? [['Paid', formatMoney(data.amount, 'USD')] as [string, string]]
+        : []),
+    ],
+    action: { label: 'View event', url: `${appUrl}/events/${data.eventSlug}` },
+  }),
+
+  WAITLIST_OFFER: (data, { appUrl }) => ({
+    subject: `A seat opened up: ${data.eventTitle}`,
+    paragraphs: [
+      `Good news! A seat for ${data.eventTitle} (${formatDateTime(data.startDate)}) is being held for you.`,
+      `Accept it before ${formatDateTime(data.expiresAt)}, or it goes to the next person on the waitlist.`,
+    ],
+    action: { label: 'Accept your seat', url: `${appUrl}/events/${data.eventSlug}` },
+  }),
+
+  EVENT_REMINDER: (data, { appUrl }) => ({
+    subject: `Reminder: ${data.eventTitle} starts ${formatDateTime(data.startDate)}`,
+    paragraphs: [`This is a reminder that ${data.eventTitle} starts soon.`],
+    details: [
+      ['When', formatDateTime(data.startDate)],
+      ...(data.location ? [['Where', data.location] as [string, string]] : []),
+      ...(data.virtualLink ? [['Join online', data.virtualLink] as [string, string]] : []),
+    ],
+    action: { label: 'View event', url: `${appUrl}/events/${data.eventSlug}` },
+  }),
+
+  EVENT_ANNOUNCEMENT: (data, { appUrl }) => ({
+    subject: `New event: ${data.eventTitle}`,
+    paragraphs: [
+      `${data.eventTitle} is open for registration${data.isMembersOnly ? ' (members only)' : ''}.`,
+      ...(data.excerpt ? [data.excerpt] : []),
+    ],
+    details: [
+      ['Category', data.category],
+      ['When', formatDateTime(data.startDate)],
+      ...(data.location ? [['Where', data.location] as [string, string]] : []),
+    ],
+    action: { label: 'View event', url: `${appUrl}/events/${data.eventSlug}` },
+  }),
+};
+
+/**
+ * Render a template into subject, HTML and plain-text bodies
+ * All data is escaped; templates never emit raw HTML.
+ */
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  context: EmailContext,
+): RenderedEmail {
+  const content = TEMPLATES[template](data, context);
+  const greeting = context.recipientName ? `Hi ${context.recipientName},` : 'Hello,';
+  const details = content.details ?? [];
+  const topic = TEMPLATE_TOPICS[template];
+  const unsubscribe =
+    topic && context.unsubscribeUrl
+      ? { label: `Unsubscribe from ${EMAIL_TOPIC_NAMES[topic]}`, url: context.unsubscribeUrl }
+      : null;
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(details.length ? [details.map(([label, value]) => `${label}: ${value}`).join('\n')] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    `-- \n${context.organizationName}`,
+    ...(unsubscribe ? [`${unsubscribe.label}: ${unsubscribe.url}`] : []),
+  ].join('\n\n');
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="margin:0;padding:24px;background:#f4f4f5;font-family:Helvetica,Arial,sans-serif;color:#18181b">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...content.paragraphs.map((p) => `<p style="line-height:1.5">${escapeHtml(p)}</p>`),
+    ...(details.length
+      ? [
+          '<table style="border-collapse:collapse;margin:16px 0">',
+          ...details.map(
+            ([label, value]) =>
+              `<tr><td style="padding:4px 16px 4px 0;color:#71717a">${escapeHtml(label)}</td>` +
+              `<td style="padding:4px 0">${escapeHtml(value)}</td></tr>`,
+          ),
+          '</table>',
+        ]
+      : []),
+    ...(content.action
+      ? [
+          `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" ` +
+            'style="background:#1d4ed8;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none">' +
+            `${escapeHtml(content.action.label)}</a></p>`,
+        ]
+      : []),
+    `<p style="color:#71717a;font-size:13px">${escapeHtml(context.organizationName)}</p>`,
+    ...(unsubscribe
+      ? [
+          `<p style="color:#71717a;font-size:12px"><a href="${escapeHtml(unsubscribe.url)}" ` +
+            `style="color:#71717a">${escapeHtml(unsubscribe.label)}</a></p>`,
+        ]
+      : []),
+    '</div></body></html>',
+  ].join('\n');
+
+  return { subject: content.subject, html, text };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Emails show times in the organization's time zone (same as the job schedules)
+const EMAIL_TIMEZONE = 'America/New_York';
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    timeZone: EMAIL_TIMEZONE,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function formatDateTime(date: Date): string {
+  return new Date(date).toLocaleString('en-US', {
+    timeZone: EMAIL_TIMEZONE,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
@@ -0,0 +1,18 @@
+import { MimeMessage } from '../../common/utils/mime.util';
+
+/**
+ * Injection token for the configured EmailTransport
+ */
+export const EMAIL_TRANSPORT = Symbol('EMAIL_TRANSPORT');
+
+/**
+ * Delivers one email
+ *
+ * send() resolves once the message is accepted (by the SMTP server, the
+ * provider's API, or the local file system) and throws on any failure; the
+ * outbox retries it later.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: MimeMessage): Promise<{ messageId: string | null }>;
+}
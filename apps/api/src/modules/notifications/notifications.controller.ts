@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { EmailStatus, UserRole } from '@prisma/client';
+import { NotificationsService } from './notifications.service';
+import { EmailMessageResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * List outbox emails, newest first (admin only)
+   * GET /api/notifications/outbox?status=FAILED&template=PAYMENT_RECEIPT&to=jane@example.com&take=50
+   */
+  @Get('outbox')
+  async getOutbox(
+    @Query('status', new ParseEnumPipe(EmailStatus, { optional: true }))
+    status?: EmailStatus,
+    @Query('template') template?: string,
+    @Query('to') to?: string,
+    @Query('take') take?: string,
+  ): Promise<EmailMessageResponseDto[]> {
+    return this.notificationsService.findAll({
+      status,
+      template,
+      to,
+      take: take ? parseInt(take, 10) : 50,
+    });
+  }
+
+  /**
+   * Get an outbox email with its HTML and text bodies (admin only)
+   * GET /api/notifications/outbox/:id
+   */
+  @Get('outbox/:id')
+  async getOutboxEmail(@Param('id', ParseUUIDPipe) id: string): Promise<EmailMessageResponseDto> {
+    return this.notificationsService.findOne(id);
+  }
+
+  /**
+   * Send a FAILED email again (admin only)
+   * POST /api/notifications/outbox/:id/retry
+   */
+  @Post('outbox/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  async retryOutboxEmail(@Param('id', ParseUUIDPipe) id: string): Promise<EmailMessageResponseDto> {
+    return this.notificationsService.retry(id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Global, Module, forwardRef } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { UnsubscribeController } from './unsubscribe.controller';
+import { EMAIL_TRANSPORT } from './email-transport';
+import { createEmailTransport } from './transports';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+
+/**
+ * Global so any service can queue emails without importing it
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, forwardRef(() => AuthModule), forwardRef(() => UsersModule)],
+  controllers: [NotificationsController, UnsubscribeController],
+  providers: [
+    NotificationsService,
+    { provide: EMAIL_TRANSPORT, inject: [ConfigService], useFactory: createEmailTransport },
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,735 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmailMessage, EmailStatus, PaymentMethod, PaymentType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EMAIL_TRANSPORT, EmailTransport } from './email-transport';
+import {
+  EMAIL_TOPIC_NAMES,
+  EmailTemplate,
+  EmailTemplateData,
+  EmailTopic,
+  TEMPLATE_TOPICS,
+  renderEmail,
+} from './email-templates';
+import { signUnsubscribeToken, verifyUnsubscribeToken } from './unsubscribe-token';
+import { MEMBER_ROLES } from '../events/registration-state';
+import { EmailMessageResponseDto } from './dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wait before each retry of a failed send; the email is FAILED once they run out
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 720].map((minutes) => minutes * 60 * 1000);
+
+// A SENDING email older than this belongs to a crashed run and is sent again
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+// Emails sent per run of the send-emails job; the rest wait for the next run
+const SEND_BATCH_SIZE = 50;
+
+// What an email is rendered and addressed with, when it goes to an account
+const RECIPIENT_SELECT = {
+  email: true,
+  deletedAt: true,
+  profile: { select: { firstName: true } },
+  notificationPreference: true,
+} satisfies Prisma.UserSelect;
+
+type Recipient = Prisma.UserGetPayload<{ select: typeof RECIPIENT_SELECT }>;
+
+/**
+ * An email to queue: the template's data plus who gets it
+ */
+interface OutboxEmail<T extends EmailTemplate> {
+  template: T;
+  data: EmailTemplateData[T];
+  dedupeKey: string; // One email per key, so retries and redelivered webhooks don't repeat it
+  userId?: string; // Recipient account: supplies the address and greeting
+  to?: string; // Address override, e.g. the denormalized waitlist email
+}
+
+/**
+ * Transactional email with a persisted outbox
+ *
+ * Emails are rendered and written to email_outbox inside the transaction of
+ * the change they report, so a rolled-back approval never emails anyone and
+ * a committed one always does. The send-emails job delivers them through the
+ * configured transport (EMAIL_TRANSPORT) and retries failures with backoff.
+ * Each email has a dedupe key, so webhook redeliveries and job re-runs queue
+ * it only once.
+ *
+ * Templates with a topic (TEMPLATE_TOPICS) are non-transactional: they honor
+ * the recipient's notification preferences and carry a signed one-click
+ * unsubscribe link (UNSUBSCRIBE_SECRET).
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    @Inject(EMAIL_TRANSPORT) private transport: EmailTransport,
+  ) {}
+
+  /**
+   * Queue a membership activation email
+   */
+  async notifyMembershipActivated(
+    membershipId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const membership = await (tx ?? this.prisma).membership.findUniqueOrThrow({
+      where: { id: membershipId },
+      include: { membershipType: true },
+    });
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.MEMBERSHIP_ACTIVATED,
+        userId: membership.userId,
+        dedupeKey: `membership-activated:${membership.id}`,
+        data: {
+          membershipType: membership.membershipType.name,
+          startDate: membership.startDate ?? new Date(),
+          expiryDate: membership.expiryDate,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a membership rejection email (the reason is the approval note)
+   */
+  async notifyMembershipRejected(
+    membershipId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const membership = await (tx ?? this.prisma).membership.findUniqueOrThrow({
+      where: { id: membershipId },
+      include: { membershipType: true },
+    });
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.MEMBERSHIP_REJECTED,
+        userId: membership.userId,
+        dedupeKey: `membership-rejected:${membership.id}`,
+        data: {
+          membershipType: membership.membershipType.name,
+          reason: membership.approvalNote,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a renewal reminder; one per membership and notice (30, 7 or 1 days)
+   */
+  async notifyMembershipExpiring(
+    membershipId: string,
+    noticeDays: number,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const membership = await (tx ?? this.prisma).membership.findUniqueOrThrow({
+      where: { id: membershipId },
+      include: { membershipType: true },
+    });
+
+    if (!membership.expiryDate) {
+      return false;
+    }
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.MEMBERSHIP_EXPIRING,
+        userId: membership.userId,
+        dedupeKey: `membership-expiring:${membership.id}:${noticeDays}`,
+        data: {
+          membershipType: membership.membershipType.name,
+          expiryDate: membership.expiryDate,
+          daysLeft: Math.max(1, Math.ceil((membership.expiryDate.getTime() - Date.now()) / DAY_MS)),
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a receipt for a completed payment
+   */
+  async notifyPaymentReceipt(paymentId: string, tx?: Prisma.TransactionClient): Promise<boolean> {
+    const db = tx ?? this.prisma;
+    const payment = await db.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+    const metadata = (payment.metadata ?? {}) as Record<string, any>;
+
+    let description: string;
+    if (payment.type === PaymentType.MEMBERSHIP) {
+      const membershipType = metadata.membershipId
+        ? (
+            await db.membership.findUnique({
+              where: { id: metadata.membershipId },
+              select: { membershipType: { select: { name: true } } },
+            })
+          )?.membershipType
+        : null;
+      description = membershipType ? `${membershipType.name} Membership` : 'Membership';
+    } else {
+      const event = metadata.eventId
+        ? await db.event.findUnique({
+            where: { id: metadata.eventId },
+            select: { title: true },
+          })
+        : null;
+      description =
+        payment.type === PaymentType.EVENT_SUBSCRIPTION
+          ? `${event?.title ?? 'Event'} (subscription)`
+          : `${event?.title ?? 'Event'} registration`;
+    }
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.PAYMENT_RECEIPT,
+        userId: payment.userId,
+        dedupeKey: `payment-receipt:${payment.id}`,
+        data: {
+          description,
+          amount: Number(payment.amount),
+          currency: payment.currency,
+          method: this.formatMethod(payment.method, payment.referenceNumber),
+          paidAt: payment.receivedAt ?? payment.createdAt,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a registration confirmation; a re-registration after a cancellation
+   * is confirmed again
+   */
+  async notifyRegistrationConfirmed(
+    registrationId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const registration = await (tx ?? this.prisma).eventRegistration.findUniqueOrThrow({
+      where: { id: registrationId },
+      include: { event: true },
+    });
+    const confirmedAt = registration.confirmedAt ?? registration.registeredAt;
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.REGISTRATION_CONFIRMED,
+        userId: registration.userId,
+        dedupeKey: `registration-confirmed:${registration.id}:${confirmedAt.getTime()}`,
+        data: {
+          eventTitle: registration.event.title,
+          eventSlug: registration.event.slug,
+          startDate: registration.event.startDate,
+          location: registration.event.isVirtual ? 'Online' : registration.event.location,
+          amount: registration.amount !== null ? Number(registration.amount) : null,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a waitlist seat offer, sent to the address on the waitlist entry
+   */
+  async notifyWaitlistOffer(entryId: string, tx?: Prisma.TransactionClient): Promise<boolean> {
+    const entry = await (tx ?? this.prisma).waitlistEntry.findUniqueOrThrow({
+      where: { id: entryId },
+      include: { event: true },
+    });
+
+    if (!entry.offeredAt || !entry.expiresAt) {
+      return false;
+    }
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.WAITLIST_OFFER,
+        userId: entry.userId,
+        to: entry.email,
+        dedupeKey: `waitlist-offer:${entry.id}:${entry.offeredAt.getTime()}`,
+        data: {
+          eventTitle: entry.event.title,
+          eventSlug: entry.event.slug,
+          startDate: entry.event.startDate,
+          expiresAt: entry.expiresAt,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Queue a pre-event reminder; a rescheduled event is reminded again
+   */
+  async notifyEventReminder(
+    registrationId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const registration = await (tx ?? this.prisma).eventRegistration.findUniqueOrThrow({
+      where: { id: registrationId },
+      include: { event: true },
+    });
+    const { event } = registration;
+
+    return this.enqueue(
+      {
+        template: EmailTemplate.EVENT_REMINDER,
+        userId: registration.userId,
+        dedupeKey: `event-reminder:${registration.id}:${event.startDate.getTime()}`,
+        data: {
+          eventTitle: event.title,
+          eventSlug: event.slug,
+          startDate: event.startDate,
+          location: event.isVirtual ? 'Online' : event.location,
+          virtualLink: event.isVirtual ? event.virtualLink : null,
+        },
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Announce a newly published event to users who want announcements in its
+   * category; members-only events go to members only. Returns the number of
+   * emails queued, so publishing again doesn't announce twice.
+   */
+  async announceEvent(eventId: string): Promise<number> {
+    const event = await this.prisma.event.findUniqueOrThrow({
+      where: { id: eventId },
+      include: { category: true },
+    });
+
+    const recipients = await this.prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        ...(event.isMembersOnly && { role: { in: MEMBER_ROLES } }),
+        // No preference row means the defaults: everything on, every category
+        OR: [
+          { notificationPreference: { is: null } },
+          {
+            notificationPreference: {
+              is: {
+                eventAnnouncements: true,
+                OR: [
+                  { eventCategoryIds: { isEmpty: true } },
+                  { eventCategoryIds: { has: event.categoryId } },
+                ],
+              },
+            },
+          },
+        ],
+      },
+      select: { id: true, ...RECIPIENT_SELECT },
+    });
+
+    const data = {
+      eventTitle: event.title,
+      eventSlug: event.slug,
+      excerpt: event.excerpt,
+      category: event.category.name,
+      startDate: event.startDate,
+      location: event.isVirtual ? 'Online' : event.location,
+      isMembersOnly: event.isMembersOnly,
+    };
+
+    // One insert for every recipient, rather than a round trip each
+    const rows = recipients
+      .map((recipient) =>
+        this.toOutboxRow(
+          {
+            template: EmailTemplate.EVENT_ANNOUNCEMENT,
+            userId: recipient.id,
+            dedupeKey: `event-announcement:${event.id}:${recipient.id}`,
+            data,
+          },
+          recipient,
+        ),
+      )
+      .filter((row): row is Prisma.EmailMessageCreateManyInput => row !== null);
+
+    const { count } = await this.prisma.emailMessage.createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+
+    this.logger.log(`Queued ${count} announcement(s) for event ${event.id}`);
+    return count;
+  }
+
+  /**
+   * Apply a signed unsubscribe link: turn off its topic, or every topic for
+   * scope "all". Works without login; the token is the proof.
+   */
+  async unsubscribe(token: string): Promise<{ message: string }> {
+    const secret = this.configService.get<string>('UNSUBSCRIBE_SECRET');
+    const verified = secret ? verifyUnsubscribeToken(secret, token) : null;
+    if (!verified) {
+      throw new BadRequestException('Invalid unsubscribe link');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: verified.userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new BadRequestException('Invalid unsubscribe link');
+    }
+
+    const data =
+      verified.scope === 'all'
+        ? { eventAnnouncements: false, newsletter: false, reminders: false }
+        : { [verified.scope]: false };
+
+    await this.prisma.notificationPreference.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data,
+    });
+
+    this.logger.log(`User ${user.id} unsubscribed from ${verified.scope}`);
+
+    return {
+      message: `You have been unsubscribed from ${
+        verified.scope === 'all' ? 'all non-essential emails' : EMAIL_TOPIC_NAMES[verified.scope]
+      }`,
+    };
+  }
+
+  /**
+   * Render an email and add it to the outbox, inside the caller's transaction
+   * when there is one. Returns false when nothing was queued: a duplicate
+   * dedupe key, a recipient without a usable address, or one who opted out
+   * of the template's topic.
+   */
+  async enqueue<T extends EmailTemplate>(
+    email: OutboxEmail<T>,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const db = tx ?? this.prisma;
+
+    const user = email.userId
+      ? await db.user.findUnique({
+          where: { id: email.userId },
+          select: RECIPIENT_SELECT,
+        })
+      : null;
+
+    const row = this.toOutboxRow(email, user);
+    if (!row) {
+      return false;
+    }
+
+    const { count } = await db.emailMessage.createMany({
+      data: [row],
+      skipDuplicates: true,
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Send due outbox emails (send-emails job)
+   * A failed send is retried after RETRY_DELAYS_MS, then marked FAILED.
+   */
+  async processOutbox(): Promise<{ sent: number; retrying: number; failed: number }> {
+    const due = await this.prisma.emailMessage.findMany({
+      where: {
+        OR: [
+          { status: EmailStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+          this.staleSending(),
+        ],
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: SEND_BATCH_SIZE,
+      select: { id: true, status: true },
+    });
+
+    const result = { sent: 0, retrying: 0, failed: 0 };
+
+    for (const { id, status } of due) {
+      // Another run may have taken it since we read it
+      const claimed = await this.claim(
+        id,
+        status === EmailStatus.PENDING ? { status: EmailStatus.PENDING } : this.staleSending(),
+      );
+
+      if (claimed) {
+        result[await this.send(claimed)]++;
+      }
+    }
+
+    if (due.length > 0) {
+      this.logger.log(
+        `Outbox run: ${result.sent} sent, ${result.retrying} to retry, ${result.failed} failed (${this.transport.name})`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * List outbox emails, newest first (admin only)
+   */
+  async findAll(params: {
+    status?: EmailStatus;
+    template?: string;
+    to?: string;
+    take?: number;
+  }): Promise<EmailMessageResponseDto[]> {
+    const emails = await this.prisma.emailMessage.findMany({
+      where: {
+        ...(params.status && { status: params.status }),
+        ...(params.template && { template: params.template.toUpperCase() }),
+        ...(params.to && { to: { equals: params.to, mode: 'insensitive' } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(params.take ?? 50, 200),
+      omit: { html: true, text: true, payload: true },
+    });
+
+    return emails.map((e) => this.toResponseDto(e));
+  }
+
+  /**
+   * Get an outbox email with its bodies (admin only)
+   */
+  async findOne(id: string): Promise<EmailMessageResponseDto> {
+    return this.toResponseDto(await this.findEmail(id), true);
+  }
+
+  /**
+   * Queue a FAILED email again with a fresh set of attempts (admin only)
+   */
+  async retry(id: string): Promise<EmailMessageResponseDto> {
+    const email = await this.findEmail(id);
+
+    const { count } = await this.prisma.emailMessage.updateMany({
+      where: { id, status: EmailStatus.FAILED },
+      data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(
+        `Only failed emails can be retried (status is ${email.status})`,
+      );
+    }
+
+    this.logger.log(`Email ${id} to ${email.to} queued for retry`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Render an email into an outbox row, or return null when it shouldn't be
+   * sent: the recipient was deleted, opted out of its topic or has no address
+   */
+  private toOutboxRow<T extends EmailTemplate>(
+    email: OutboxEmail<T>,
+    user: Recipient | null,
+  ): Prisma.EmailMessageCreateManyInput | null {
+    // Soft-deleted accounts get no more email
+    if (user?.deletedAt) {
+      this.logger.log(`Skipping ${email.template} email to deleted user ${email.userId}`);
+      return null;
+    }
+
+    const topic = TEMPLATE_TOPICS[email.template];
+    if (topic && user?.notificationPreference && !user.notificationPreference[topic]) {
+      this.logger.log(`Skipping ${email.template} email to user ${email.userId}: opted out`);
+      return null;
+    }
+
+    const to = email.to ?? user?.email;
+    if (!to) {
+      this.logger.warn(`Skipping ${email.template} email (${email.dedupeKey}): no recipient`);
+      return null;
+    }
+
+    const unsubscribeUrl =
+      topic && email.userId ? this.getUnsubscribeUrl(email.userId, topic) : null;
+
+    const rendered = renderEmail(email.template, email.data, {
+      recipientName: user?.profile?.firstName ?? null,
+      organizationName: this.getOrganizationName(),
+      appUrl: this.getAppUrl(),
+      unsubscribeUrl,
+    });
+
+    return {
+      template: email.template,
+      to,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      payload: JSON.parse(JSON.stringify(email.data)),
+      // RFC 8058 one-click unsubscribe for mail clients
+      headers: unsubscribeUrl
+        ? {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+        : undefined,
+      dedupeKey: email.dedupeKey,
+      userId: email.userId,
+    };
+  }
+
+  /**
+   * Take an email for sending if it matches `where`; counts the attempt
+   */
+  private async claim(
+    id: string,
+    where: Prisma.EmailMessageWhereInput,
+  ): Promise<EmailMessage | null> {
+    const { count } = await this.prisma.emailMessage.updateMany({
+      where: { id, ...where },
+      data: { status: EmailStatus.SENDING, attempts: { increment: 1 } },
+    });
+
+    return count === 1 ? this.prisma.emailMessage.findUnique({ where: { id } }) : null;
+  }
+
+  private staleSending(): Prisma.EmailMessageWhereInput {
+    return {
+      status: EmailStatus.SENDING,
+      updatedAt: { lt: new Date(Date.now() - SENDING_LEASE_MS) },
+    };
+  }
+
+  /**
+   * Hand a claimed email to the transport and record the outcome
+   */
+  private async send(email: EmailMessage): Promise<'sent' | 'retrying' | 'failed'> {
+    try {
+      const { messageId } = await this.transport.send({
+        from: this.getFrom(),
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: (email.headers as Record<string, string> | null) ?? undefined,
+      });
+
+      await this.prisma.emailMessage.update({
+        where: { id: email.id },
+        data: {
+          status: EmailStatus.SENT,
+          sentAt: new Date(),
+          providerMessageId: messageId,
+          lastError: null,
+        },
+      });
+
+      return 'sent';
+    } catch (error) {
+      const delay = RETRY_DELAYS_MS[email.attempts - 1];
+
+      this.logger.error(
+        `Email ${email.id} (${email.template}) to ${email.to} failed (attempt ${email.attempts}${delay ? '' : ', giving up'}): ${error.message}`,
+      );
+
+      await this.prisma.emailMessage.update({
+        where: { id: email.id },
+        data: {
+          status: delay ? EmailStatus.PENDING : EmailStatus.FAILED,
+          lastError: error.message,
+          ...(delay && { nextAttemptAt: new Date(Date.now() + delay) }),
+        },
+      });
+
+      return delay ? 'retrying' : 'failed';
+    }
+  }
+
+  private async findEmail(id: string) {
+    const email = await this.prisma.emailMessage.findUnique({ where: { id } });
+
+    if (!email) {
+      throw new NotFoundException('Email not found');
+    }
+
+    return email;
+  }
+
+  private formatMethod(method: PaymentMethod, reference: string | null): string {
+    switch (method) {
+      case PaymentMethod.STRIPE:
+        return 'Card';
+      case PaymentMethod.CHECK:
+        return reference ? `Check #${reference}` : 'Check';
+      case PaymentMethod.CASH:
+        return 'Cash';
+      case PaymentMethod.ZELLE:
+        return 'Zelle';
+      case PaymentMethod.BANK_TRANSFER:
+        return 'Bank transfer';
+    }
+  }
+
+  private getFrom(): string {
+    return (
+      this.configService.get<string>('EMAIL_FROM') ||
+      `${this.getOrganizationName()} <no-reply@example.org>`
+    );
+  }
+
+  private getOrganizationName(): string {
+    return this.configService.get<string>('RECEIPT_ORG_NAME') || 'OSA Community';
+  }
+
+  private getAppUrl(): string {
+    return (this.configService.get<string>('APP_URL') || 'http://localhost:3000').replace(
+      /\/+$/,
+      '',
+    );
+  }
+
+  /**
+   * One-click unsubscribe link for a topic; null (no link) without UNSUBSCRIBE_SECRET
+   */
+  private getUnsubscribeUrl(userId: string, topic: EmailTopic): string | null {
+    const secret = this.configService.get<string>('UNSUBSCRIBE_SECRET');
+    if (!secret) {
+      this.logger.warn('UNSUBSCRIBE_SECRET is not set; sending without an unsubscribe link');
+      return null;
+    }
+
+    const apiUrl = (this.configService.get<string>('API_URL') || 'http://localhost:3001').replace(
+      /\/+$/,
+      '',
+    );
+    const token = signUnsubscribeToken(secret, userId, topic);
+    return `${apiUrl}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(email: any, includeBody = false): EmailMessageResponseDto {
+    return {
+      id: email.id,
+      template: email.template,
+      to: email.to,
+      subject: email.subject,
+      userId: email.userId,
+      status: email.status,
+      attempts: email.attempts,
+      nextAttemptAt: email.nextAttemptAt,
+      lastError: email.lastError,
+      providerMessageId: email.providerMessageId,
+      sentAt: email.sentAt,
+      createdAt: email.createdAt,
+      ...(includeBody && { html: email.html, text: email.text }),
+    };
+  }
+}
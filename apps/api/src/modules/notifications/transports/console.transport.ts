@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import { MimeMessage } from '../../../common/utils/mime.util';
+import { EmailTransport } from '../email-transport';
+
+/**
+ * Logs emails instead of sending them (local development default)
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleTransport.name);
+
+  async send(message: MimeMessage): Promise<{ messageId: string | null }> {
+    this.logger.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return { messageId: null };
+  }
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { buildMimeMessage, extractAddress, MimeMessage } from '../../../common/utils/mime.util';
+import { EmailTransport } from '../email-transport';
+
+/**
+ * Writes each email as an .eml file (local development and tests)
+ * Files are named <timestamp>-<recipient>.eml, so they sort by send time and
+ * open in any mail client.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async send(message: MimeMessage): Promise<{ messageId: string | null }> {
+    const { messageId, raw } = buildMimeMessage(message);
+    const recipient = extractAddress(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(join(this.directory, `${Date.now()}-${recipient}.eml`), raw, 'utf8');
+
+    return { messageId };
+  }
+}
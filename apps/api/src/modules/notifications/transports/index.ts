@@ -0,0 +1,50 @@
+import { ConfigService } from '@nestjs/config';
+import { EmailTransport } from '../email-transport';
+import { ConsoleTransport } from './console.transport';
+import { FileTransport } from './file.transport';
+import { ResendTransport } from './resend.transport';
+import { SmtpTransport } from './smtp.transport';
+
+export { ConsoleTransport, FileTransport, ResendTransport, SmtpTransport };
+
+/**
+ * Build the transport named by EMAIL_TRANSPORT (console by default)
+ * Misconfiguration fails at startup rather than on the first email.
+ */
+export function createEmailTransport(configService: ConfigService): EmailTransport {
+  const name = configService.get<string>('EMAIL_TRANSPORT') || 'console';
+
+  switch (name) {
+    case 'console':
+      return new ConsoleTransport();
+
+    case 'file':
+      return new FileTransport(configService.get<string>('EMAIL_OUTBOX_DIR') || './tmp/emails');
+
+    case 'resend': {
+      const apiKey = configService.get<string>('RESEND_API_KEY');
+      if (!apiKey) {
+        throw new Error('EMAIL_TRANSPORT=resend requires RESEND_API_KEY');
+      }
+      return new ResendTransport(apiKey);
+    }
+
+    case 'smtp': {
+      const host = configService.get<string>('SMTP_HOST');
+      if (!host) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      const secure = configService.get<string>('SMTP_SECURE') === 'true';
+      return new SmtpTransport({
+        host,
+        port: Number(configService.get<string>('SMTP_PORT')) || (secure ? 465 : 587),
+        secure,
+        user: configService.get<string>('SMTP_USER'),
+        password: configService.get<string>('SMTP_PASSWORD'),
+      });
+    }
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected console, file, smtp or resend)`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MimeMessage } from '../../../common/utils/mime.util';
+import { EmailTransport } from '../email-transport';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * Sends through the Resend HTTP API
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(message: MimeMessage): Promise<{ messageId: string | null }> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(
+        `Resend responded ${response.status}: ${body.message ?? response.statusText}`,
+      );
+    }
+
+    return { messageId: body.id ?? null };
+  }
+}
@@ -0,0 +1,191 @@
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+import { buildMimeMessage, extractAddress, MimeMessage } from '../../../common/utils/mime.util';
+import { EmailTransport } from '../email-transport';
+
+// Per-connection inactivity limit; a hung server fails the attempt instead of the job
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS when the server offers it
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends through an SMTP relay, one connection per message
+ * Supports implicit TLS, STARTTLS and AUTH PLAIN, which covers the usual
+ * providers (SES, Postmark, Mailgun, Gmail relay); volume is low enough that
+ * connection pooling isn't needed.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: MimeMessage): Promise<{ messageId: string | null }> {
+    const { messageId, raw } = buildMimeMessage(message);
+    const connection = await SmtpConnection.open(this.options);
+
+    try {
+      await connection.reply(220);
+      let capabilities = await connection.ehlo();
+
+      if (!this.options.secure && capabilities.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.options.host);
+        capabilities = await connection.ehlo();
+      }
+
+      if (this.options.user) {
+        const credentials = `\0${this.options.user}\0${this.options.password ?? ''}`;
+        await connection.command(`AUTH PLAIN ${Buffer.from(credentials).toString('base64')}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, 250);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, 250, 251);
+      await connection.command('DATA', 354);
+      // Lines starting with "." are doubled so they can't end the DATA section early
+      await connection.command(`${raw.replace(/^\./gm, '..')}.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId };
+  }
+}
+
+/**
+ * One SMTP session: writes commands and reads (multi-line) replies
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private error: Error | null = null;
+  private wake: (() => void) | null = null;
+
+  private constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port });
+
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error('SMTP connection timed out')),
+      );
+      socket.once('error', reject);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket));
+      });
+    });
+  }
+
+  /**
+   * Send EHLO and return the advertised extensions (uppercase keywords)
+   */
+  async ehlo(): Promise<string[]> {
+    const lines = await this.command(`EHLO ${hostname()}`, 250);
+    return lines.slice(1).map((line) => line.split(' ')[0].toUpperCase());
+  }
+
+  /**
+   * Send a command and wait for a reply with one of the expected codes
+   */
+  async command(line: string, ...expected: number[]): Promise<string[]> {
+    this.socket.write(`${line}\r\n`);
+
+    // Only the verb goes into errors; AUTH lines carry credentials
+    return this.reply(...expected).catch((error) => {
+      throw new Error(`SMTP ${line.split(/[\s:]/)[0]}: ${error.message}`);
+    });
+  }
+
+  /**
+   * Read the next reply; throws unless its code is one of `expected`
+   */
+  async reply(...expected: number[]): Promise<string[]> {
+    for (;;) {
+      const end = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+
+      if (end !== -1) {
+        const lines = this.lines.splice(0, end + 1);
+        const code = parseInt(lines[end].slice(0, 3), 10);
+        const text = lines.map((line) => line.slice(4));
+
+        if (!expected.includes(code)) {
+          throw new Error(`${code} ${text.join(' ')}`);
+        }
+
+        return text;
+      }
+
+      if (this.error) {
+        throw this.error;
+      }
+
+      await new Promise<void>((resolve) => (this.wake = resolve));
+    }
+  }
+
+  /**
+   * Switch the session to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.setTimeout(0);
+
+    const secure = await new Promise<Socket>((resolve, reject) => {
+      const tlsSocket = connectTls({ socket: this.socket, servername: host });
+      tlsSocket.once('error', reject);
+      tlsSocket.once('secureConnect', () => {
+        tlsSocket.off('error', reject);
+        resolve(tlsSocket);
+      });
+    });
+
+    secure.setTimeout(SMTP_TIMEOUT_MS, () =>
+      secure.destroy(new Error('SMTP connection timed out')),
+    );
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    socket.setEncoding('utf8');
+
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const complete = this.buffer.split('\r\n');
+      this.buffer = complete.pop() ?? '';
+      this.lines.push(...complete);
+      this.notify();
+    });
+    socket.on('error', (error) => {
+      this.error = error;
+      this.notify();
+    });
+    socket.on('close', () => {
+      this.error ??= new Error('SMTP connection closed');
+      this.notify();
+    });
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
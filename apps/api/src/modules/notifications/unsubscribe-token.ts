@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EmailTopic } from './email-templates';
+
+/**
+ * What an unsubscribe link opts out of: one topic, or every non-transactional email
+ */
+export type UnsubscribeScope = EmailTopic | 'all';
+
+const SCOPES: UnsubscribeScope[] = ['eventAnnouncements', 'newsletter', 'reminders', 'all'];
+
+/**
+ * Sign an unsubscribe token: base64url("<userId>:<scope>").base64url(HMAC-SHA256)
+ * Tokens don't expire; an unsubscribe link in an old email keeps working.
+ */
+export function signUnsubscribeToken(
+  secret: string,
+  userId: string,
+  scope: UnsubscribeScope,
+): string {
+  const payload = Buffer.from(`${userId}:${scope}`, 'utf8').toString('base64url');
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/**
+ * Check a token's signature; returns null for a forged or malformed token
+ */
+export function verifyUnsubscribeToken(
+  secret: string,
+  token: string,
+): { userId: string; scope: UnsubscribeScope } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(secret, payload));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  const [userId, scope] = Buffer.from(payload, 'base64url').toString('utf8').split(':');
+  if (!userId || !SCOPES.includes(scope as UnsubscribeScope)) {
+    return null;
+  }
+
+  return { userId, scope: scope as UnsubscribeScope };
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
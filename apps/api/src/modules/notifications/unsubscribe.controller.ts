@@ -0,0 +1,39 @@
+import { Controller, Get, Post, Query, Header, HttpCode, HttpStatus } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+
+/**
+ * Unsubscribe links from non-transactional emails
+ * Public: the signed token identifies the user, so no login is needed.
+ */
+@Controller('notifications/unsubscribe')
+export class UnsubscribeController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * Unsubscribe from an email link, answering with a confirmation page
+   * GET /api/notifications/unsubscribe?token=...
+   */
+  @Get()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  async unsubscribeFromLink(@Query('token') token = ''): Promise<string> {
+    const { message } = await this.notificationsService.unsubscribe(token);
+    return [
+      '<!DOCTYPE html>',
+      '<html><head><meta charset="utf-8"><title>Unsubscribed</title></head>',
+      '<body style="font-family:Arial,Helvetica,sans-serif;color:#18181b;max-width:560px;margin:48px auto">',
+      `<p>${message}.</p>`,
+      '<p style="color:#71717a">You can change your email preferences at any time in your account settings.</p>',
+      '</body></html>',
+    ].join('\n');
+  }
+
+  /**
+   * One-click unsubscribe (RFC 8058), posted by mail clients
+   * POST /api/notifications/unsubscribe?token=...
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  async unsubscribeOneClick(@Query('token') token = ''): Promise<{ message: string }> {
+    return this.notificationsService.unsubscribe(token);
+  }
+}
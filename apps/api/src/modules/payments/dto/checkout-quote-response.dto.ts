@@ -0,0 +1,20 @@
+import { PromoDiscountType } from '@prisma/client';
+
+/**
+ * Response DTO for the price a checkout will charge
+ * amountDue = basePrice - creditAmount - prorationCredit - discountAmount
+ */
+export class CheckoutQuoteResponseDto {
+  basePrice: number;
+  creditAmount: number; // Credit from a recently expired membership
+  prorationCredit: number; // Unused value of the membership being upgraded
+  discountAmount: number;
+  amountDue: number;
+  promoCode: {
+    id: string;
+    code: string;
+    description: string | null;
+    discountType: PromoDiscountType;
+    discountValue: number;
+  } | null;
+}
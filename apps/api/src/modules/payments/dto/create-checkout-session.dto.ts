@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsUUID, Matches } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsUUID, Matches, MaxLength } from 'class-validator';
 
 /**
  * DTO for creating a Stripe checkout session for membership payment
@@ -21,4 +21,9 @@ export class CreateCheckoutSessionDto {
     message: 'cancelUrl must be a valid URL starting with http:// or https://',
   })
   cancelUrl: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  promoCode?: string; // Case-insensitive
 }
@@ -0,0 +1,29 @@
+import { IsString, IsNotEmpty, IsOptional, IsUUID, Matches, MaxLength } from 'class-validator';
+
+/**
+ * DTO for creating a Stripe checkout session for a paid event registration
+ */
+export class CreateEventCheckoutSessionDto {
+  @IsUUID()
+  @IsNotEmpty()
+  eventId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^https?:\/\/.+/, {
+    message: 'successUrl must be a valid URL starting with http:// or https://',
+  })
+  successUrl: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^https?:\/\/.+/, {
+    message: 'cancelUrl must be a valid URL starting with http:// or https://',
+  })
+  cancelUrl: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  promoCode?: string; // Case-insensitive
+}
@@ -0,0 +1,74 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PromoCodeScope, PromoDiscountType } from '@prisma/client';
+
+/**
+ * DTO for admin to create a promo code
+ */
+export class CreatePromoCodeDto {
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'code must be 3-32 letters, numbers, hyphens or underscores',
+  })
+  code: string; // Stored uppercase
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @IsEnum(PromoDiscountType)
+  discountType: PromoDiscountType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  discountValue: number; // Percent (at most 100) or dollars
+
+  @IsEnum(PromoCodeScope)
+  @IsOptional()
+  scope?: PromoCodeScope;
+
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  membershipTypeIds?: string[]; // Empty = any membership type
+
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  eventIds?: string[]; // Empty = any event
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptions?: number | null; // null = unlimited
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptionsPerUser?: number;
+
+  @IsDateString()
+  @IsOptional()
+  validFrom?: string | null;
+
+  @IsDateString()
+  @IsOptional()
+  validUntil?: string | null;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
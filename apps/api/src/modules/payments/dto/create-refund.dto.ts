@@ -0,0 +1,19 @@
+import { IsBoolean, IsNumber, IsOptional, IsString, Length, Min } from 'class-validator';
+
+/**
+ * DTO for admin to refund a payment
+ */
+export class CreateRefundDto {
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number; // Defaults to the amount not refunded yet (full refund)
+
+  @IsString()
+  @Length(1, 500)
+  reason: string;
+
+  @IsOptional()
+  @IsBoolean()
+  revokeAccess?: boolean; // Also cancel the membership/registration on a partial refund
+}
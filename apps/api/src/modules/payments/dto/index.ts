@@ -1,2 +1,10 @@
 export * from './create-checkout-session.dto';
+export * from './create-event-checkout-session.dto';
 export * from './update-payment.dto';
+export * from './create-refund.dto';
+export * from './refund-response.dto';
+export * from './webhook-event-response.dto';
+export * from './create-promo-code.dto';
+export * from './update-promo-code.dto';
+export * from './promo-code-response.dto';
+export * from './checkout-quote-response.dto';
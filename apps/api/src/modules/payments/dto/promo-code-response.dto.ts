@@ -0,0 +1,36 @@
+import { PromoCodeScope, PromoDiscountType } from '@prisma/client';
+
+/**
+ * Response DTO for a promo code (admin view)
+ */
+export class PromoCodeResponseDto {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  scope: PromoCodeScope;
+  membershipTypeIds: string[];
+  eventIds: string[];
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  isActive: boolean;
+  redemptionCount: number; // Completed payments that used it
+  createdById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for one use of a promo code
+ */
+export class PromoCodeRedemptionResponseDto {
+  id: string;
+  promoCodeId: string;
+  userId: string;
+  paymentId: string;
+  discountAmount: number;
+  createdAt: Date;
+}
@@ -0,0 +1,24 @@
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+
+/**
+ * Response DTO for a refund
+ */
+export class RefundResponseDto {
+  id: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: string | null;
+  stripeRefundId: string;
+  refundedById: string | null;
+  createdAt: Date;
+
+  // Related data
+  payment?: {
+    id: string;
+    amount: number;
+    refundedAmount: number;
+    status: PaymentStatus;
+  };
+}
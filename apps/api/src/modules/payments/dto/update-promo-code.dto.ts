@@ -0,0 +1,8 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreatePromoCodeDto } from './create-promo-code.dto';
+
+/**
+ * DTO for admin to update a promo code
+ * The code itself cannot change once it may have been handed out
+ */
+export class UpdatePromoCodeDto extends PartialType(OmitType(CreatePromoCodeDto, ['code'])) {}
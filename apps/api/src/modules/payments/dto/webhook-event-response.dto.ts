@@ -0,0 +1,17 @@
+import { WebhookEventStatus } from '@prisma/client';
+
+/**
+ * Response DTO for a stored Stripe webhook event
+ */
+export class WebhookEventResponseDto {
+  id: string; // Stripe event ID
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  stripeCreatedAt: Date;
+  receivedAt: Date;
+  processedAt: Date | null;
+  replayedById: string | null;
+  payload?: any; // Only when fetching a single event
+}
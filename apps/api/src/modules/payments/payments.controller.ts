@@ -11,17 +11,39 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  ParseIntPipe,
+  StreamableFile,
+  Query,
   BadRequestException,
+  NotFoundException,
   Logger,
 } from '@nestjs/common';
 import { Request } from 'express';
+import Stripe from 'stripe';
 import { StripeService } from './stripe.service';
-import { CreateCheckoutSessionDto, UpdatePaymentDto } from './dto';
+import { RefundsService } from './refunds.service';
+import { WebhookEventsService } from './webhook-events.service';
+import { PromoCodesService } from './promo-codes.service';
+import { ReceiptsService, PdfFile } from './receipts.service';
+import { RegistrationsService } from '../events/registrations.service';
+import { getRegistrationPrice } from '../events/registration-state';
+import { RegistrationResponseDto } from '../events/dto';
+import {
+  CreateCheckoutSessionDto,
+  CreateEventCheckoutSessionDto,
+  UpdatePaymentDto,
+  CreateRefundDto,
+  RefundResponseDto,
+  WebhookEventResponseDto,
+  CheckoutQuoteResponseDto,
+} from './dto';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
-import { UserRole } from '@prisma/client';
+import { Prisma, RegistrationStatus, UserRole, WebhookEventStatus } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 
 @Controller('payments')
@@ -30,6 +52,11 @@ export class PaymentsController {
 
   constructor(
     private readonly stripeService: StripeService,
+    private readonly refundsService: RefundsService,
+    private readonly webhookEventsService: WebhookEventsService,
+    private readonly promoCodesService: PromoCodesService,
+    private readonly receiptsService: ReceiptsService,
+    private readonly registrationsService: RegistrationsService,
     private readonly prisma: PrismaService,
   ) {}
 
@@ -43,65 +70,197 @@ export class PaymentsController {
     @CurrentUser() user: any,
     @Body() dto: CreateCheckoutSessionDto,
   ) {
-    // Get membership details
-    const membership = await this.prisma.membership.findUnique({
-      where: { id: dto.membershipId },
-      include: {
-        membershipType: true,
-        user: {
-          include: { profile: true },
-        },
-      },
-    });
+    const membership = await this.findPendingMembership(dto.membershipId, user.id);
 
-    if (!membership) {
-      throw new BadRequestException('Membership not found');
-    }
+    // Calculate the final amount to charge (apply credits and promo code if any)
+    const quote = await this.quoteMembership(membership, user.id, dto.promoCode);
+    const { basePrice, creditAmount, prorationCredit, amountDue: finalAmount } = quote;
 
-    if (membership.userId !== user.id) {
-      throw new BadRequestException('You can only pay for your own membership');
+    if (creditAmount > 0) {
+      this.logger.log(
+        `Applying $${creditAmount} credit to membership ${membership.id}. Original: $${basePrice}, Final: $${finalAmount}`,
+      );
     }
 
-    if (membership.status !== 'PENDING') {
-      throw new BadRequestException('Membership is not in PENDING status');
+    if (prorationCredit > 0) {
+      this.logger.log(
+        `Applying $${prorationCredit} upgrade proration to membership ${membership.id}. Original: $${basePrice}, Final: $${finalAmount}`,
+      );
     }
 
-    // Calculate the final amount to charge (apply credit if available)
-    const basePrice = Number(membership.membershipType.price);
-    const creditAmount = membership.creditAmount ? Number(membership.creditAmount) : 0;
-    const finalAmount = Math.max(0, basePrice - creditAmount);
-
-    if (creditAmount > 0) {
+    if (quote.promoCode) {
       this.logger.log(
-        `Applying $${creditAmount} credit to membership ${membership.id}. Original: $${basePrice}, Final: $${finalAmount}`,
+        `Applying promo code ${quote.promoCode.code} ($${quote.discountAmount} off) to membership ${membership.id}. Final: $${finalAmount}`,
       );
     }
 
+    const promo = await this.reservePromo(user.id, membership.id, quote);
+
     // Create checkout session
-    const session = await this.stripeService.createMembershipCheckoutSession({
-      userId: user.id,
-      membershipId: membership.id,
-      membershipTypeId: membership.membershipTypeId,
-      membershipTypeName: membership.membershipType.name,
-      amount: finalAmount,
-      currency: 'usd',
-      customerEmail: user.email,
-      successUrl: dto.successUrl,
-      cancelUrl: dto.cancelUrl,
-    });
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await this.stripeService.createMembershipCheckoutSession({
+        userId: user.id,
+        membershipId: membership.id,
+        membershipTypeId: membership.membershipTypeId,
+        membershipTypeName: membership.membershipType.name,
+        amount: finalAmount,
+        currency: 'usd',
+        customerEmail: user.email,
+        successUrl: dto.successUrl,
+        cancelUrl: dto.cancelUrl,
+        promo,
+      });
+    } catch (error) {
+      await this.releasePromo(promo);
+      throw error;
+    }
+
+    await this.attachPromo(promo, session);
+
+    return {
+      sessionId: session.id,
+      url: session.url,
+    };
+  }
+
+  /**
+   * Price a membership or one-time event checkout, with an optional promo code
+   * GET /api/payments/checkout-quote?membershipId=...&promoCode=EARLYBIRD
+   * GET /api/payments/checkout-quote?eventId=...&promoCode=EARLYBIRD
+   */
+  @Get('checkout-quote')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async getCheckoutQuote(
+    @CurrentUser() user: any,
+    @Query('membershipId', new ParseUUIDPipe({ optional: true })) membershipId?: string,
+    @Query('eventId', new ParseUUIDPipe({ optional: true })) eventId?: string,
+    @Query('promoCode') promoCode?: string,
+  ): Promise<CheckoutQuoteResponseDto> {
+    if (!membershipId === !eventId) {
+      throw new BadRequestException('Provide either membershipId or eventId');
+    }
+
+    if (membershipId) {
+      const membership = await this.findPendingMembership(membershipId, user.id);
+      return this.quoteMembership(membership, user.id, promoCode);
+    }
+
+    return this.quoteEvent(eventId!, user, promoCode);
+  }
+
+  /**
+   * Create a Stripe checkout session for a paid event (subscription for recurring events)
+   * Registers the user as PENDING (holding a seat) until the session is paid or expires
+   * POST /api/payments/event-checkout-session
+   */
+  @Post('event-checkout-session')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  async createEventCheckoutSession(
+    @CurrentUser() user: any,
+    @Body() dto: CreateEventCheckoutSessionDto,
+  ) {
+    // Check the promo code before registering, so a rejected code holds no seat
+    const quote = dto.promoCode ? await this.quoteEvent(dto.eventId, user, dto.promoCode) : null;
+    const promo = quote ? await this.reservePromo(user.id, dto.eventId, quote) : undefined;
+
+    let registration: RegistrationResponseDto | undefined;
+    let session: Stripe.Checkout.Session;
+    try {
+      registration = await this.registrationsService.prepareCheckout(dto.eventId, user);
+      const event = registration.event!;
+
+      // A retry replaces the earlier session, so only one of them can ever be paid
+      const previousSessionId = await this.registrationsService.findPendingCheckoutSession(
+        event.id,
+        user.id,
+      );
+      if (previousSessionId) {
+        await this.stripeService.expireCheckoutSession(previousSessionId);
+        await this.registrationsService.detachCheckoutSession(registration.id, previousSessionId);
+      }
+
+      // Charge the price fixed at registration (member price for members and their household)
+      const listAmount = registration.amount ?? event.price ?? 0;
+      const memberRate = event.memberPrice !== null && listAmount === event.memberPrice;
+      const amount = quote?.amountDue ?? listAmount;
+
+      // Recurring events (classes) are paid by subscription, everything else once
+      session = event.isRecurring
+        ? await this.stripeService.createEventSubscriptionSession({
+            userId: user.id,
+            registrationId: registration.id,
+            eventId: event.id,
+            stripePriceId: await this.stripeService.ensureEventPrice({
+              id: event.id,
+              title: event.title,
+              price: listAmount,
+              recurringInterval: event.recurringInterval,
+              memberRate,
+            }),
+            customerEmail: user.email,
+            successUrl: dto.successUrl,
+            cancelUrl: dto.cancelUrl,
+          })
+        : await this.stripeService.createEventCheckoutSession({
+            userId: user.id,
+            registrationId: registration.id,
+            eventId: event.id,
+            eventTitle: event.title,
+            amount,
+            currency: 'usd',
+            customerEmail: user.email,
+            successUrl: dto.successUrl,
+            cancelUrl: dto.cancelUrl,
+            promo,
+          });
+    } catch (error) {
+      // Don't hold a seat (or a promo code use) for a checkout that doesn't exist
+      if (registration) {
+        await this.registrationsService.abandonCheckout(registration.id);
+      }
+      await this.releasePromo(promo);
+      throw error;
+    }
+
+    await this.registrationsService.attachCheckoutSession(registration.id, session.id);
+    await this.attachPromo(promo, session);
 
     return {
       sessionId: session.id,
       url: session.url,
+      registrationId: registration.id,
     };
   }
 
+  /**
+   * Cancel current user's event subscription; access continues until the end of the paid period
+   * POST /api/payments/event-subscriptions/:eventId/cancel
+   */
+  @Post('event-subscriptions/:eventId/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async cancelEventSubscription(
+    @CurrentUser() user: any,
+    @Param('eventId') eventId: string,
+  ): Promise<RegistrationResponseDto> {
+    const registration = await this.registrationsService.findActiveSubscription(eventId, user.id);
+
+    const endsAt = await this.stripeService.cancelSubscriptionAtPeriodEnd(
+      registration.stripeSubId,
+    );
+
+    return this.registrationsService.markSubscriptionEnding(registration.id, endsAt);
+  }
+
   /**
    * Stripe webhook endpoint for handling payment events
    * POST /api/payments/webhook
    *
    * IMPORTANT: This endpoint must be accessible without authentication
    * and must use raw body parsing for signature verification
+   *
+   * Events are stored and deduplicated by Stripe event ID; see WebhookEventsService
    */
   @Post('webhook')
   @HttpCode(HttpStatus.OK)
@@ -122,31 +281,55 @@ export class PaymentsController {
     // Verify webhook signature and construct event
     const event = this.stripeService.verifyWebhookSignature(rawBody, signature);
 
-    this.logger.log(`Received Stripe webhook: ${event.type}`);
-
-    // Handle the event
-    switch (event.type) {
-      case 'checkout.session.completed':
-        const session = event.data.object;
-        if (session.payment_status === 'paid') {
-          await this.stripeService.handlePaymentSuccess(session);
-        }
-        break;
+    this.logger.log(`Received Stripe webhook: ${event.type} ${event.id}`);
 
-      case 'checkout.session.async_payment_succeeded':
-        await this.stripeService.handlePaymentSuccess(event.data.object);
-        break;
+    return this.webhookEventsService.receive(event);
+  }
 
-      case 'checkout.session.async_payment_failed':
-      case 'checkout.session.expired':
-        await this.stripeService.handlePaymentFailure(event.data.object);
-        break;
+  /**
+   * List stored Stripe webhook events (admin only)
+   * GET /api/payments/webhook-events?status=DEAD_LETTER&type=charge.refunded&take=50
+   */
+  @Get('webhook-events')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getWebhookEvents(
+    @Query('status', new ParseEnumPipe(WebhookEventStatus, { optional: true }))
+    status?: WebhookEventStatus,
+    @Query('type') type?: string,
+    @Query('take') take?: string,
+  ): Promise<WebhookEventResponseDto[]> {
+    return this.webhookEventsService.findAll({
+      status,
+      type,
+      take: take ? parseInt(take, 10) : 50,
+    });
+  }
 
-      default:
-        this.logger.log(`Unhandled event type: ${event.type}`);
-    }
+  /**
+   * Get a stored Stripe webhook event with its payload (admin only)
+   * GET /api/payments/webhook-events/:id
+   */
+  @Get('webhook-events/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getWebhookEvent(@Param('id') id: string): Promise<WebhookEventResponseDto> {
+    return this.webhookEventsService.findOne(id);
+  }
 
-    return { received: true };
+  /**
+   * Process a stored Stripe webhook event again, e.g. after fixing a bug (admin only)
+   * POST /api/payments/webhook-events/:id/replay
+   */
+  @Post('webhook-events/:id/replay')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async replayWebhookEvent(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<WebhookEventResponseDto> {
+    return this.webhookEventsService.replay(id, user.id);
   }
 
   /**
@@ -159,6 +342,46 @@ export class PaymentsController {
     return this.stripeService.getUserPayments(user.id);
   }
 
+  /**
+   * Download the current user's statement of payments for a calendar year
+   * GET /api/payments/me/statements/:year.pdf
+   */
+  @Get('me/statements/:year.pdf')
+  @UseGuards(JwtAuthGuard)
+  async getMyStatement(
+    @CurrentUser() user: any,
+    @Param('year', ParseIntPipe) year: number,
+  ): Promise<StreamableFile> {
+    return this.toPdfResponse(await this.receiptsService.getYearlyStatement(user.id, year));
+  }
+
+  /**
+   * Download a user's statement of payments for a calendar year (admin only)
+   * GET /api/payments/users/:userId/statements/:year.pdf
+   */
+  @Get('users/:userId/statements/:year.pdf')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getUserStatement(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('year', ParseIntPipe) year: number,
+  ): Promise<StreamableFile> {
+    return this.toPdfResponse(await this.receiptsService.getYearlyStatement(userId, year));
+  }
+
+  /**
+   * Download the receipt of a payment (its owner or an admin)
+   * GET /api/payments/:id/receipt.pdf
+   */
+  @Get(':id/receipt.pdf')
+  @UseGuards(JwtAuthGuard)
+  async getReceipt(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ): Promise<StreamableFile> {
+    return this.toPdfResponse(await this.receiptsService.getReceipt(id, user));
+  }
+
   /**
    * Update payment amount (admin only)
    * PUT /api/payments/:id
@@ -172,4 +395,184 @@ export class PaymentsController {
   ) {
     return this.stripeService.updatePaymentAmount(id, dto.amount, dto.note);
   }
+
+  /**
+   * Refund a payment in full or in part (admin only)
+   * A full refund also cancels the membership or registration it paid for
+   * POST /api/payments/:id/refund
+   */
+  @Post(':id/refund')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async refundPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: CreateRefundDto,
+  ): Promise<RefundResponseDto> {
+    return this.refundsService.refund(id, user.id, dto);
+  }
+
+  /**
+   * Get the refunds of a payment (admin only)
+   * GET /api/payments/:id/refunds
+   */
+  @Get(':id/refunds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getPaymentRefunds(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RefundResponseDto[]> {
+    return this.refundsService.findForPayment(id);
+  }
+
+  /**
+   * Send a generated PDF as a download
+   */
+  private toPdfResponse({ filename, pdf }: PdfFile): StreamableFile {
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${filename}"`,
+      length: pdf.length,
+    });
+  }
+
+  /**
+   * A PENDING membership of the current user, awaiting payment
+   */
+  private async findPendingMembership(membershipId: string, userId: string) {
+    const membership = await this.prisma.membership.findUnique({
+      where: { id: membershipId },
+      include: {
+        membershipType: true,
+        membershipTypePrice: true,
+      },
+    });
+
+    if (!membership) {
+      throw new BadRequestException('Membership not found');
+    }
+
+    if (membership.userId !== userId) {
+      throw new BadRequestException('You can only pay for your own membership');
+    }
+
+    if (membership.status !== 'PENDING') {
+      throw new BadRequestException('Membership is not in PENDING status');
+    }
+
+    return membership;
+  }
+
+  /**
+   * Charge the price the membership was sold at (not the type's current
+   * price), less credits, then less the promo code
+   */
+  private async quoteMembership(
+    membership: Prisma.MembershipGetPayload<{
+      include: { membershipType: true; membershipTypePrice: true };
+    }>,
+    userId: string,
+    promoCode?: string,
+  ): Promise<CheckoutQuoteResponseDto> {
+    return this.promoCodesService.quote({
+      userId,
+      target: { membershipTypeId: membership.membershipTypeId },
+      checkoutFor: membership.id,
+      basePrice: Number(membership.membershipTypePrice?.price ?? membership.membershipType.price),
+      creditAmount: membership.creditAmount ? Number(membership.creditAmount) : 0,
+      prorationCredit: membership.prorationCredit ? Number(membership.prorationCredit) : 0,
+      promoCode,
+    });
+  }
+
+  /**
+   * Price an event checkout for the current user: the price of their pending
+   * registration, or the price they would register at, less the promo code
+   * Subscriptions are billed at the event's Stripe price, so they cannot be discounted
+   */
+  private async quoteEvent(
+    eventId: string,
+    user: { id: string; role: UserRole },
+    promoCode?: string,
+  ): Promise<CheckoutQuoteResponseDto> {
+    const event = await this.prisma.event.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.isFree) {
+      throw new BadRequestException('This event is free, register without checkout');
+    }
+
+    if (event.isRecurring && promoCode) {
+      throw new BadRequestException('Promo codes cannot be used for recurring event subscriptions');
+    }
+
+    const registration = await this.prisma.eventRegistration.findUnique({
+      where: { eventId_userId: { eventId, userId: user.id } },
+      select: { status: true, amount: true },
+    });
+    const price =
+      registration?.status === RegistrationStatus.PENDING && registration.amount !== null
+        ? registration.amount
+        : getRegistrationPrice(event, user.role);
+
+    return this.promoCodesService.quote({
+      userId: user.id,
+      target: { eventId },
+      checkoutFor: eventId,
+      basePrice: Number(price ?? 0),
+      promoCode,
+    });
+  }
+
+  /**
+   * Reserve a use of the quote's promo code for the checkout about to be created
+   * `checkoutFor` is the membership or event paid for; a retried checkout replaces its reservation
+   */
+  private async reservePromo(userId: string, checkoutFor: string, quote: CheckoutQuoteResponseDto) {
+    if (!quote.promoCode) {
+      return undefined;
+    }
+
+    const reservationId = await this.promoCodesService.reserve({
+      userId,
+      checkoutFor,
+      promoCodeId: quote.promoCode.id,
+      discountAmount: quote.discountAmount,
+    });
+
+    return {
+      id: quote.promoCode.id,
+      code: quote.promoCode.code,
+      discountAmount: quote.discountAmount,
+      reservationId,
+    };
+  }
+
+  /**
+   * Hold the reservation for as long as its checkout session can be paid
+   */
+  private async attachPromo(
+    promo: { reservationId: string } | undefined,
+    session: Stripe.Checkout.Session,
+  ): Promise<void> {
+    if (promo) {
+      await this.promoCodesService.attachSession(
+        promo.reservationId,
+        session.id,
+        new Date(session.expires_at * 1000),
+      );
+    }
+  }
+
+  /**
+   * Give the reserved use back when the checkout could not be created
+   */
+  private async releasePromo(promo: { reservationId: string } | undefined): Promise<void> {
+    if (promo) {
+      await this.promoCodesService.release(promo.reservationId);
+    }
+  }
 }
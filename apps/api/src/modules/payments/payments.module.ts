@@ -2,9 +2,16 @@ import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { PaymentsController } from './payments.controller';
 import { StripeService } from './stripe.service';
+import { RefundsService } from './refunds.service';
+import { WebhookEventsService } from './webhook-events.service';
+import { PromoCodesController } from './promo-codes.controller';
+import { PromoCodesService } from './promo-codes.service';
+import { ReceiptsService } from './receipts.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { UsersModule } from '../users/users.module';
+import { EventsModule } from '../events/events.module';
+import { MembershipsModule } from '../memberships/memberships.module';
 
 @Module({
   imports: [
@@ -12,9 +19,17 @@ import { UsersModule } from '../users/users.module';
     PrismaModule,
     forwardRef(() => AuthModule),
     forwardRef(() => UsersModule),
+    forwardRef(() => EventsModule),
+    forwardRef(() => MembershipsModule),
   ],
-  controllers: [PaymentsController],
-  providers: [StripeService],
-  exports: [StripeService],
+  controllers: [PaymentsController, PromoCodesController],
+  providers: [
+    StripeService,
+    RefundsService,
+    WebhookEventsService,
+    PromoCodesService,
+    ReceiptsService,
+  ],
+  exports: [StripeService, RefundsService],
 })
 export class PaymentsModule {}
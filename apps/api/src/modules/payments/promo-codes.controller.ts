@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PromoCodesService } from './promo-codes.service';
+import {
+  CreatePromoCodeDto,
+  UpdatePromoCodeDto,
+  PromoCodeResponseDto,
+  PromoCodeRedemptionResponseDto,
+} from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('promo-codes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class PromoCodesController {
+  constructor(private readonly promoCodesService: PromoCodesService) {}
+
+  /**
+   * Get all promo codes with redemption counts (admin only)
+   * GET /api/promo-codes
+   */
+  @Get()
+  async findAll(): Promise<PromoCodeResponseDto[]> {
+    return this.promoCodesService.findAll();
+  }
+
+  /**
+   * Create a promo code (admin only)
+   * POST /api/promo-codes
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: any,
+    @Body() dto: CreatePromoCodeDto,
+  ): Promise<PromoCodeResponseDto> {
+    return this.promoCodesService.create(user.id, dto);
+  }
+
+  /**
+   * Update a promo code (admin only)
+   * PUT /api/promo-codes/:id
+   */
+  @Put(':id')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePromoCodeDto,
+  ): Promise<PromoCodeResponseDto> {
+    return this.promoCodesService.update(id, dto);
+  }
+
+  /**
+   * Deactivate a promo code (admin only)
+   * DELETE /api/promo-codes/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deactivate(@Param('id', ParseUUIDPipe) id: string): Promise<{ message: string }> {
+    return this.promoCodesService.deactivate(id);
+  }
+
+  /**
+   * Get the redemptions of a promo code (admin only)
+   * GET /api/promo-codes/:id/redemptions
+   */
+  @Get(':id/redemptions')
+  async findRedemptions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<PromoCodeRedemptionResponseDto[]> {
+    return this.promoCodesService.findRedemptions(id);
+  }
+}
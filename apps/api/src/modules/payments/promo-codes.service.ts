@@ -0,0 +1,560 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  PromoCode,
+  PromoCodeScope,
+  PromoDiscountType,
+  PromoRedemptionStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+import {
+  CreatePromoCodeDto,
+  UpdatePromoCodeDto,
+  PromoCodeResponseDto,
+  PromoCodeRedemptionResponseDto,
+  CheckoutQuoteResponseDto,
+} from './dto';
+
+// Stripe will not charge a card less than this
+const MIN_CARD_CHARGE = 0.5;
+
+// Stripe's longest checkout session lifetime; holds a reservation until its
+// session is attached (and so a session that was never created stops counting)
+const RESERVATION_HOURS = 24;
+
+// Redemptions only count once confirmed; the admin's redemption count ignores reservations
+const CONFIRMED_REDEMPTIONS = {
+  redemptions: { where: { status: PromoRedemptionStatus.CONFIRMED } },
+};
+
+/**
+ * What a checkout is paying for
+ */
+export type PromoTarget = { membershipTypeId: string } | { eventId: string };
+
+/**
+ * Promo codes for membership and event checkouts
+ *
+ * A code is checked when a quote is created and reserved when its checkout
+ * session is, under a lock on the code so two checkouts can't both take its
+ * last use. The reservation is confirmed by the payment, or released when the
+ * checkout expires or fails, so abandoned checkouts don't use the code up.
+ */
+@Injectable()
+export class PromoCodesService {
+  private readonly logger = new Logger(PromoCodesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Get all promo codes with their redemption counts (admin only)
+   */
+  async findAll(): Promise<PromoCodeResponseDto[]> {
+    const codes = await this.prisma.promoCode.findMany({
+      include: { _count: { select: CONFIRMED_REDEMPTIONS } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return codes.map((c) => this.toResponseDto(c));
+  }
+
+  /**
+   * Create a promo code (admin only)
+   */
+  async create(adminId: string, dto: CreatePromoCodeDto): Promise<PromoCodeResponseDto> {
+    const code = this.normalizeCode(dto.code);
+
+    const existing = await this.prisma.promoCode.findUnique({
+      where: { code },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Promo code ${code} already exists`);
+    }
+
+    this.validateRules(dto);
+
+    const created = await this.prisma.promoCode.create({
+      data: {
+        code,
+        description: dto.description,
+        discountType: dto.discountType,
+        discountValue: dto.discountValue,
+        scope: dto.scope ?? PromoCodeScope.ALL,
+        membershipTypeIds: dto.membershipTypeIds ?? [],
+        eventIds: dto.eventIds ?? [],
+        maxRedemptions: dto.maxRedemptions ?? null,
+        maxRedemptionsPerUser: dto.maxRedemptionsPerUser ?? 1,
+        validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+        validUntil: dto.validUntil ? new Date(dto.validUntil) : null,
+        isActive: dto.isActive ?? true,
+        createdById: adminId,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.CREATE,
+      entityType: 'PromoCode',
+      entityId: created.id,
+      after: created,
+      actorId: adminId,
+    });
+
+    this.logger.log(`Admin ${adminId} created promo code ${code}`);
+
+    return this.toResponseDto(created);
+  }
+
+  /**
+   * Update a promo code (admin only)
+   * Changes apply to checkouts created from now on
+   */
+  async update(id: string, dto: UpdatePromoCodeDto): Promise<PromoCodeResponseDto> {
+    const promoCode = await this.findPromoCode(id);
+
+    // Check the rules as they will be after the update
+    this.validateRules({
+      discountType: dto.discountType ?? promoCode.discountType,
+      discountValue: dto.discountValue ?? Number(promoCode.discountValue),
+      scope: dto.scope ?? promoCode.scope,
+      membershipTypeIds: dto.membershipTypeIds ?? promoCode.membershipTypeIds,
+      eventIds: dto.eventIds ?? promoCode.eventIds,
+      validFrom: dto.validFrom !== undefined ? dto.validFrom : promoCode.validFrom?.toISOString(),
+      validUntil:
+        dto.validUntil !== undefined ? dto.validUntil : promoCode.validUntil?.toISOString(),
+    });
+
+    const updated = await this.prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...(dto.description !== undefined && { description: dto.description }),
+        ...(dto.discountType !== undefined && { discountType: dto.discountType }),
+        ...(dto.discountValue !== undefined && { discountValue: dto.discountValue }),
+        ...(dto.scope !== undefined && { scope: dto.scope }),
+        ...(dto.membershipTypeIds !== undefined && { membershipTypeIds: dto.membershipTypeIds }),
+        ...(dto.eventIds !== undefined && { eventIds: dto.eventIds }),
+        ...(dto.maxRedemptions !== undefined && { maxRedemptions: dto.maxRedemptions }),
+        ...(dto.maxRedemptionsPerUser !== undefined && {
+          maxRedemptionsPerUser: dto.maxRedemptionsPerUser,
+        }),
+        ...(dto.validFrom !== undefined && {
+          validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+        }),
+        ...(dto.validUntil !== undefined && {
+          validUntil: dto.validUntil ? new Date(dto.validUntil) : null,
+        }),
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      },
+      include: { _count: { select: CONFIRMED_REDEMPTIONS } },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.UPDATE,
+      entityType: 'PromoCode',
+      entityId: id,
+      before: promoCode,
+      after: updated,
+    });
+
+    return this.toResponseDto(updated);
+  }
+
+  /**
+   * Deactivate a promo code (admin only)
+   * Codes are kept: redemptions and payment metadata refer to them
+   */
+  async deactivate(id: string): Promise<{ message: string }> {
+    const promoCode = await this.findPromoCode(id);
+
+    if (!promoCode.isActive) {
+      throw new BadRequestException('Promo code is already inactive');
+    }
+
+    await this.prisma.promoCode.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.DEACTIVATE,
+      entityType: 'PromoCode',
+      entityId: id,
+      before: { isActive: true },
+      after: { isActive: false },
+    });
+
+    this.logger.log(`Deactivated promo code ${promoCode.code}`);
+
+    return { message: 'Promo code deactivated' };
+  }
+
+  /**
+   * Get the redemptions of a promo code, newest first (admin only)
+   */
+  async findRedemptions(id: string): Promise<PromoCodeRedemptionResponseDto[]> {
+    await this.findPromoCode(id);
+
+    const redemptions = await this.prisma.promoCodeRedemption.findMany({
+      where: { promoCodeId: id, status: PromoRedemptionStatus.CONFIRMED },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return redemptions.map((r) => ({
+      id: r.id,
+      promoCodeId: r.promoCodeId,
+      userId: r.userId,
+      paymentId: r.paymentId!,
+      discountAmount: Number(r.discountAmount),
+      createdAt: r.createdAt,
+    }));
+  }
+
+  /**
+   * Price a checkout, applying a promo code after any credits
+   * Throws BadRequestException when the code cannot be used for this checkout
+   */
+  async quote(params: {
+    userId: string;
+    target: PromoTarget;
+    checkoutFor: string;
+    basePrice: number;
+    creditAmount?: number;
+    prorationCredit?: number;
+    promoCode?: string;
+  }): Promise<CheckoutQuoteResponseDto> {
+    const creditAmount = params.creditAmount ?? 0;
+    const prorationCredit = params.prorationCredit ?? 0;
+    const beforeDiscount = Math.max(0, params.basePrice - creditAmount - prorationCredit);
+
+    let promoCode: PromoCode | null = null;
+    let discountAmount = 0;
+
+    if (params.promoCode) {
+      promoCode = await this.findUsableCode(
+        params.promoCode,
+        params.userId,
+        params.target,
+        params.checkoutFor,
+      );
+      discountAmount = this.calculateDiscount(promoCode, beforeDiscount);
+
+      if (beforeDiscount - discountAmount < MIN_CARD_CHARGE) {
+        throw new BadRequestException(
+          `This promo code would bring the price below the $${MIN_CARD_CHARGE.toFixed(2)} card payment minimum`,
+        );
+      }
+    }
+
+    return {
+      basePrice: params.basePrice,
+      creditAmount,
+      prorationCredit,
+      discountAmount,
+      amountDue: this.roundCurrency(beforeDiscount - discountAmount),
+      promoCode: promoCode
+        ? {
+            id: promoCode.id,
+            code: promoCode.code,
+            description: promoCode.description,
+            discountType: promoCode.discountType,
+            discountValue: Number(promoCode.discountValue),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Reserve a use of a quoted promo code for a checkout about to be created
+   * The code's row is locked while its uses are counted, so concurrent
+   * checkouts can't take more uses than it has. Returns the reservation ID.
+   */
+  async reserve(params: {
+    userId: string;
+    checkoutFor: string;
+    promoCodeId: string;
+    discountAmount: number;
+  }): Promise<string> {
+    const { userId, checkoutFor, promoCodeId } = params;
+
+    const reservation = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM promo_codes WHERE id = ${promoCodeId} FOR UPDATE`;
+
+      // A retried checkout replaces the reservation of the earlier one
+      await tx.promoCodeRedemption.updateMany({
+        where: { promoCodeId, userId, checkoutFor, status: PromoRedemptionStatus.RESERVED },
+        data: { status: PromoRedemptionStatus.RELEASED },
+      });
+
+      const promoCode = await tx.promoCode.findUniqueOrThrow({ where: { id: promoCodeId } });
+      await this.assertUsesLeft(tx, promoCode, userId);
+
+      return tx.promoCodeRedemption.create({
+        data: {
+          promoCodeId,
+          userId,
+          checkoutFor,
+          discountAmount: params.discountAmount,
+          expiresAt: new Date(Date.now() + RESERVATION_HOURS * 60 * 60 * 1000),
+        },
+      });
+    });
+
+    this.logger.log(`Reserved promo code ${promoCodeId} for checkout of ${checkoutFor}`);
+
+    return reservation.id;
+  }
+
+  /**
+   * Link a reservation to its checkout session; it counts until the session expires
+   */
+  async attachSession(reservationId: string, stripeSessionId: string, expiresAt: Date) {
+    await this.prisma.promoCodeRedemption.update({
+      where: { id: reservationId },
+      data: { stripeSessionId, expiresAt },
+    });
+  }
+
+  /**
+   * Give a reserved use back: the checkout was never created, expired or failed
+   * Confirmed redemptions are kept.
+   */
+  async release(reservationId: string): Promise<void> {
+    const released = await this.prisma.promoCodeRedemption.updateMany({
+      where: { id: reservationId, status: PromoRedemptionStatus.RESERVED },
+      data: { status: PromoRedemptionStatus.RELEASED },
+    });
+
+    if (released.count > 0) {
+      this.logger.log(`Released promo code reservation ${reservationId}`);
+    }
+  }
+
+  /**
+   * Confirm the redemption of a paid checkout (Stripe webhook)
+   * A payment always confirms its reservation, even one released since: the
+   * discount was charged. Checkouts without a reservation get a new row, and a
+   * redelivered event finds the existing one.
+   */
+  async confirmRedemption(
+    payment: { id: string; userId: string },
+    promo: {
+      promoCodeId: string;
+      reservationId?: string;
+      checkoutFor: string;
+      discountAmount: number;
+    },
+  ): Promise<void> {
+    const confirmed = {
+      status: PromoRedemptionStatus.CONFIRMED,
+      paymentId: payment.id,
+    };
+
+    if (promo.reservationId) {
+      await this.prisma.promoCodeRedemption.update({
+        where: { id: promo.reservationId },
+        data: confirmed,
+      });
+    } else {
+      await this.prisma.promoCodeRedemption.upsert({
+        where: { paymentId: payment.id },
+        create: {
+          ...confirmed,
+          promoCodeId: promo.promoCodeId,
+          userId: payment.userId,
+          checkoutFor: promo.checkoutFor,
+          discountAmount: promo.discountAmount,
+          expiresAt: new Date(),
+        },
+        update: {},
+      });
+    }
+
+    this.logger.log(
+      `Confirmed promo code ${promo.promoCodeId} redemption for payment ${payment.id}`,
+    );
+  }
+
+  /**
+   * An active, in-window code that applies to the target and that the user
+   * has not used up (their reservation for this same checkout aside)
+   */
+  private async findUsableCode(
+    code: string,
+    userId: string,
+    target: PromoTarget,
+    checkoutFor: string,
+  ): Promise<PromoCode> {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+
+    if (!promoCode || !promoCode.isActive) {
+      throw new BadRequestException('Invalid promo code');
+    }
+
+    const now = new Date();
+
+    if (promoCode.validFrom && promoCode.validFrom > now) {
+      throw new BadRequestException('This promo code is not valid yet');
+    }
+
+    if (promoCode.validUntil && promoCode.validUntil <= now) {
+      throw new BadRequestException('This promo code has expired');
+    }
+
+    if ('membershipTypeId' in target) {
+      if (
+        promoCode.scope === PromoCodeScope.EVENTS ||
+        (promoCode.membershipTypeIds.length > 0 &&
+          !promoCode.membershipTypeIds.includes(target.membershipTypeId))
+      ) {
+        throw new BadRequestException('This promo code does not apply to this membership');
+      }
+    } else if (
+      promoCode.scope === PromoCodeScope.MEMBERSHIPS ||
+      (promoCode.eventIds.length > 0 && !promoCode.eventIds.includes(target.eventId))
+    ) {
+      throw new BadRequestException('This promo code does not apply to this event');
+    }
+
+    await this.assertUsesLeft(this.prisma, promoCode, userId, checkoutFor);
+
+    return promoCode;
+  }
+
+  /**
+   * Throw when the code's total or per-user limit is used up by confirmed
+   * redemptions and open reservations
+   * A retried checkout's own reservation can be left out with `checkoutFor`,
+   * since reserving again replaces it.
+   */
+  private async assertUsesLeft(
+    client: Prisma.TransactionClient,
+    promoCode: PromoCode,
+    userId: string,
+    checkoutFor?: string,
+  ): Promise<void> {
+    const where: Prisma.PromoCodeRedemptionWhereInput = {
+      promoCodeId: promoCode.id,
+      OR: [
+        { status: PromoRedemptionStatus.CONFIRMED },
+        { status: PromoRedemptionStatus.RESERVED, expiresAt: { gt: new Date() } },
+      ],
+      ...(checkoutFor && {
+        NOT: { userId, checkoutFor, status: PromoRedemptionStatus.RESERVED },
+      }),
+    };
+
+    const [total, byUser] = await Promise.all([
+      client.promoCodeRedemption.count({ where }),
+      client.promoCodeRedemption.count({ where: { ...where, userId } }),
+    ]);
+
+    if (promoCode.maxRedemptions !== null && total >= promoCode.maxRedemptions) {
+      throw new BadRequestException('This promo code has been fully redeemed');
+    }
+
+    if (byUser >= promoCode.maxRedemptionsPerUser) {
+      throw new BadRequestException('You have already used this promo code');
+    }
+  }
+
+  private calculateDiscount(promoCode: PromoCode, amount: number): number {
+    const value = Number(promoCode.discountValue);
+
+    const discount =
+      promoCode.discountType === PromoDiscountType.PERCENT ? (amount * value) / 100 : value;
+
+    return this.roundCurrency(Math.min(amount, discount));
+  }
+
+  /**
+   * Reject rule combinations that could never apply to a checkout
+   */
+  private validateRules(rules: {
+    discountType: PromoDiscountType;
+    discountValue: number;
+    scope?: PromoCodeScope;
+    membershipTypeIds?: string[];
+    eventIds?: string[];
+    validFrom?: string | null;
+    validUntil?: string | null;
+  }): void {
+    if (rules.discountType === PromoDiscountType.PERCENT && rules.discountValue > 100) {
+      throw new BadRequestException('A percent discount cannot exceed 100');
+    }
+
+    if (rules.scope === PromoCodeScope.EVENTS && rules.membershipTypeIds?.length) {
+      throw new BadRequestException('An event-only promo code cannot list membership types');
+    }
+
+    if (rules.scope === PromoCodeScope.MEMBERSHIPS && rules.eventIds?.length) {
+      throw new BadRequestException('A membership-only promo code cannot list events');
+    }
+
+    if (
+      rules.validFrom &&
+      rules.validUntil &&
+      new Date(rules.validUntil) <= new Date(rules.validFrom)
+    ) {
+      throw new BadRequestException('validUntil must be after validFrom');
+    }
+  }
+
+  private async findPromoCode(id: string) {
+    const promoCode = await this.prisma.promoCode.findUnique({ where: { id } });
+
+    if (!promoCode) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    return promoCode;
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(
+    promoCode: PromoCode & { _count?: { redemptions: number } },
+  ): PromoCodeResponseDto {
+    return {
+      id: promoCode.id,
+      code: promoCode.code,
+      description: promoCode.description,
+      discountType: promoCode.discountType,
+      discountValue: Number(promoCode.discountValue),
+      scope: promoCode.scope,
+      membershipTypeIds: promoCode.membershipTypeIds,
+      eventIds: promoCode.eventIds,
+      maxRedemptions: promoCode.maxRedemptions,
+      maxRedemptionsPerUser: promoCode.maxRedemptionsPerUser,
+      validFrom: promoCode.validFrom,
+      validUntil: promoCode.validUntil,
+      isActive: promoCode.isActive,
+      redemptionCount: promoCode._count?.redemptions ?? 0,
+      createdById: promoCode.createdById,
+      createdAt: promoCode.createdAt,
+      updatedAt: promoCode.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,438 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  RefundStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PdfDocument } from '../../common/utils/pdf.util';
+
+// Payments a receipt can be issued for (a fully refunded one shows its refunds)
+const RECEIPT_STATUSES: PaymentStatus[] = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+// Refunds printed on receipts and statements (money returned or on its way)
+const PRINTED_REFUND_STATUSES: RefundStatus[] = [RefundStatus.PENDING, RefundStatus.SUCCEEDED];
+
+const paymentInclude = {
+  user: { include: { profile: true } },
+  refunds: {
+    where: { status: { in: PRINTED_REFUND_STATUSES } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.PaymentInclude;
+
+type ReceiptPayment = Prisma.PaymentGetPayload<{ include: typeof paymentInclude }>;
+
+/**
+ * What a payment was for, and the credits that reduced it
+ */
+interface PaymentDetails {
+  description: string;
+  listPrice: number | null;
+  creditAmount: number;
+  prorationCredit: number;
+}
+
+/**
+ * A generated PDF and the file name to download it as
+ */
+export interface PdfFile {
+  filename: string;
+  pdf: Buffer;
+}
+
+/**
+ * PDF receipts and yearly statements of payments
+ *
+ * Receipt numbers come from a database sequence and are assigned the first
+ * time a payment's receipt is issued, so they increase in issue order and a
+ * re-downloaded receipt keeps its number. Dates are printed in UTC, and a
+ * calendar year runs by the date the money was received (Stripe payments:
+ * when they were recorded).
+ */
+@Injectable()
+export class ReceiptsService {
+  private readonly logger = new Logger(ReceiptsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Receipt for one payment (its owner or an admin)
+   */
+  async getReceipt(paymentId: string, user: { id: string; role: UserRole }): Promise<PdfFile> {
+    const found = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+
+    // Other users' payments are not revealed
+    if (!found || (found.userId !== user.id && user.role !== UserRole.ADMIN)) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    if (!RECEIPT_STATUSES.includes(found.status)) {
+      throw new BadRequestException('Receipts are only available for completed payments');
+    }
+
+    const receiptNumber = found.receiptNumber ?? (await this.assignReceiptNumber(paymentId));
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: paymentInclude,
+    });
+    const details = (await this.loadDetails([payment])).get(payment.id)!;
+
+    const doc = new PdfDocument(`Receipt ${this.formatReceiptNumber(receiptNumber)}`);
+    const right = PdfDocument.CONTENT_WIDTH;
+
+    this.writeHeader(doc);
+    doc.line('PAYMENT RECEIPT', { size: 14, bold: true }).space(6);
+
+    for (const [label, value] of [
+      ['Receipt number', this.formatReceiptNumber(receiptNumber)],
+      ['Date paid', this.formatDate(this.paidAt(payment))],
+      ['Received from', this.formatPayer(payment)],
+      ['Payment method', this.formatMethod(payment)],
+      ['Description', details.description],
+    ]) {
+      doc.line([
+        { text: label, bold: true },
+        { text: value, x: 130 },
+      ]);
+    }
+
+    doc.space(6).rule();
+
+    const amount = (label: string, value: number, bold = false) =>
+      doc.line([
+        { text: label, bold },
+        { text: this.formatMoney(value, payment.currency), x: right, align: 'right', bold },
+      ]);
+
+    const metadata = (payment.metadata ?? {}) as Record<string, any>;
+
+    if (details.listPrice !== null) {
+      amount('Price', details.listPrice);
+    }
+    if (details.creditAmount > 0) {
+      amount('Credit from expired membership', -details.creditAmount);
+    }
+    if (details.prorationCredit > 0) {
+      amount('Credit for unused membership (upgrade)', -details.prorationCredit);
+    }
+    if (metadata.promoCode && Number(metadata.discountAmount) > 0) {
+      amount(`Promo code ${metadata.promoCode}`, -Number(metadata.discountAmount));
+    }
+    amount('Amount paid', Number(payment.amount), true);
+
+    if (payment.refunds.length > 0) {
+      doc.space(6);
+
+      for (const refund of payment.refunds) {
+        const pending = refund.status === RefundStatus.PENDING ? ' (pending)' : '';
+        amount(`Refunded ${this.formatDate(refund.createdAt)}${pending}`, -Number(refund.amount));
+      }
+
+      amount('Net amount paid', Number(payment.amount) - Number(payment.refundedAmount), true);
+    }
+
+    doc.rule().space(6);
+    this.writeFooter(doc);
+
+    this.logger.log(
+      `Issued receipt ${this.formatReceiptNumber(receiptNumber)} for payment ${paymentId}`,
+    );
+
+    return {
+      filename: `receipt-${this.formatReceiptNumber(receiptNumber)}.pdf`,
+      pdf: doc.toBuffer(),
+    };
+  }
+
+  /**
+   * Statement of a user's completed payments in a calendar year
+   */
+  async getYearlyStatement(userId: string, year: number): Promise<PdfFile> {
+    if (year < 2000 || year > new Date().getUTCFullYear()) {
+      throw new BadRequestException('Statements are available for the current and past years');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { profile: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const from = new Date(Date.UTC(year, 0, 1));
+    const to = new Date(Date.UTC(year + 1, 0, 1));
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        userId,
+        status: { in: RECEIPT_STATUSES },
+        OR: [
+          { receivedAt: { gte: from, lt: to } },
+          { receivedAt: null, createdAt: { gte: from, lt: to } },
+        ],
+      },
+      include: paymentInclude,
+    });
+
+    payments.sort((a, b) => this.paidAt(a).getTime() - this.paidAt(b).getTime());
+
+    const details = await this.loadDetails(payments);
+    const currency = payments[0]?.currency ?? 'USD';
+    const right = PdfDocument.CONTENT_WIDTH;
+
+    const doc = new PdfDocument(`Payment statement ${year}`);
+
+    this.writeHeader(doc);
+    doc.line(`ANNUAL PAYMENT STATEMENT ${year}`, { size: 14, bold: true }).space(6);
+    doc.line([
+      { text: 'Prepared for', bold: true },
+      { text: this.formatPayer({ user }), x: 130 },
+    ]);
+    doc.line([
+      { text: 'Issued', bold: true },
+      { text: this.formatDate(new Date()), x: 130 },
+    ]);
+    doc.space(6).rule();
+
+    if (payments.length === 0) {
+      doc.line(`No completed payments in ${year}.`);
+    } else {
+      doc.line(
+        [
+          { text: 'Date' },
+          { text: 'Description', x: 80 },
+          { text: 'Method', x: 280 },
+          { text: 'Paid', x: 430, align: 'right' },
+          { text: 'Refunded', x: right, align: 'right' },
+        ],
+        { bold: true },
+      );
+
+      for (const payment of payments) {
+        doc.line([
+          { text: this.formatDate(this.paidAt(payment), 'short') },
+          { text: this.truncate(details.get(payment.id)!.description, 190), x: 80 },
+          { text: this.truncate(this.formatMethod(payment), 90), x: 280 },
+          {
+            text: this.formatMoney(Number(payment.amount), payment.currency),
+            x: 430,
+            align: 'right',
+          },
+          {
+            text:
+              Number(payment.refundedAmount) > 0
+                ? this.formatMoney(Number(payment.refundedAmount), payment.currency)
+                : '',
+            x: right,
+            align: 'right',
+          },
+        ]);
+      }
+
+      const totalPaid = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+      const totalRefunded = payments.reduce((sum, p) => sum + Number(p.refundedAmount), 0);
+
+      doc.rule();
+      for (const [label, value, bold] of [
+        ['Total paid', totalPaid, false],
+        ['Total refunded', -totalRefunded, false],
+        ['Net total', totalPaid - totalRefunded, true],
+      ] as const) {
+        doc.line([
+          { text: label, bold },
+          { text: this.formatMoney(value, currency), x: right, align: 'right', bold },
+        ]);
+      }
+    }
+
+    doc.rule().space(6);
+    this.writeFooter(doc);
+
+    return { filename: `statement-${year}.pdf`, pdf: doc.toBuffer() };
+  }
+
+  /**
+   * Take the next receipt number for a payment that has none yet
+   * (a concurrent request that got there first keeps its number)
+   */
+  private async assignReceiptNumber(paymentId: string): Promise<number> {
+    await this.prisma.$executeRaw`
+      UPDATE payments SET "receiptNumber" = nextval('payment_receipt_number_seq')
+      WHERE id = ${paymentId} AND "receiptNumber" IS NULL`;
+
+    const { receiptNumber } = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { receiptNumber: true },
+    });
+
+    return receiptNumber!;
+  }
+
+  /**
+   * Describe each payment from its metadata: the membership (with the credits
+   * applied to it) or the event it paid for
+   */
+  private async loadDetails(payments: Payment[]): Promise<Map<string, PaymentDetails>> {
+    const metadataOf = (p: Payment) => (p.metadata ?? {}) as Record<string, any>;
+    const membershipIds = payments.map((p) => metadataOf(p).membershipId).filter(Boolean);
+    const eventIds = payments.map((p) => metadataOf(p).eventId).filter(Boolean);
+
+    const [memberships, events] = await Promise.all([
+      this.prisma.membership.findMany({
+        where: { id: { in: membershipIds } },
+        include: { membershipType: true, membershipTypePrice: true },
+      }),
+      this.prisma.event.findMany({
+        where: { id: { in: eventIds } },
+        select: { id: true, title: true },
+      }),
+    ]);
+
+    const details = new Map<string, PaymentDetails>();
+
+    for (const payment of payments) {
+      const metadata = metadataOf(payment);
+      const membership = memberships.find((m) => m.id === metadata.membershipId);
+      const event = events.find((e) => e.id === metadata.eventId);
+
+      if (payment.type === PaymentType.MEMBERSHIP) {
+        details.set(payment.id, {
+          description: membership ? `${membership.membershipType.name} Membership` : 'Membership',
+          listPrice: membership
+            ? Number(membership.membershipTypePrice?.price ?? membership.membershipType.price)
+            : null,
+          creditAmount: Number(membership?.creditAmount ?? 0),
+          prorationCredit: Number(membership?.prorationCredit ?? 0),
+        });
+      } else {
+        const title = event?.title ?? 'Event';
+        details.set(payment.id, {
+          description:
+            payment.type === PaymentType.EVENT_SUBSCRIPTION
+              ? `${title} (subscription)`
+              : `${title} registration`,
+          listPrice: null,
+          creditAmount: 0,
+          prorationCredit: 0,
+        });
+      }
+    }
+
+    return details;
+  }
+
+  private writeHeader(doc: PdfDocument): void {
+    const org = this.getOrganization();
+
+    doc.line(org.name, { size: 16, bold: true });
+
+    for (const line of [...org.address, org.email].filter(Boolean)) {
+      doc.line(line!, { size: 9 });
+    }
+
+    if (org.taxId) {
+      doc.line(`Tax ID (EIN): ${org.taxId}`, { size: 9 });
+    }
+
+    doc.space(14);
+  }
+
+  private writeFooter(doc: PdfDocument): void {
+    const org = this.getOrganization();
+
+    doc.paragraph(
+      `Thank you for supporting ${org.name}. Please keep this document for your records; ` +
+        'for employer matching or tax purposes, the amounts shown are the amounts received.',
+      { size: 9 },
+    );
+  }
+
+  private getOrganization() {
+    return {
+      name: this.configService.get<string>('RECEIPT_ORG_NAME') || 'OSA Community',
+      // Address lines are separated by "|" in the environment variable
+      address: (this.configService.get<string>('RECEIPT_ORG_ADDRESS') || '')
+        .split('|')
+        .map((line) => line.trim())
+        .filter(Boolean),
+      email: this.configService.get<string>('RECEIPT_ORG_EMAIL'),
+      taxId: this.configService.get<string>('RECEIPT_ORG_TAX_ID'),
+    };
+  }
+
+  /**
+   * When the money was received; Stripe payments are recorded as they are paid
+   */
+  private paidAt(payment: { receivedAt: Date | null; createdAt: Date }): Date {
+    return payment.receivedAt ?? payment.createdAt;
+  }
+
+  private formatPayer(payment: Pick<ReceiptPayment, 'user'>): string {
+    const { user } = payment;
+    const name = user.profile ? `${user.profile.firstName} ${user.profile.lastName}` : null;
+    return name ? `${name} (${user.email})` : user.email;
+  }
+
+  private formatMethod(payment: Payment): string {
+    const reference = payment.referenceNumber;
+
+    switch (payment.method) {
+      case PaymentMethod.STRIPE:
+        return 'Card (Stripe)';
+      case PaymentMethod.CHECK:
+        return reference ? `Check #${reference}` : 'Check';
+      case PaymentMethod.CASH:
+        return 'Cash';
+      case PaymentMethod.ZELLE:
+        return reference ? `Zelle (${reference})` : 'Zelle';
+      case PaymentMethod.BANK_TRANSFER:
+        return reference ? `Bank transfer (${reference})` : 'Bank transfer';
+    }
+  }
+
+  private formatReceiptNumber(receiptNumber: number): string {
+    return `R-${String(receiptNumber).padStart(6, '0')}`;
+  }
+
+  private formatMoney(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(
+      Math.round(amount * 100) / 100,
+    );
+  }
+
+  private formatDate(date: Date, style: 'long' | 'short' = 'long'): string {
+    return date.toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: style === 'long' ? 'long' : 'short',
+      day: 'numeric',
+    });
+  }
+
+  /**
+   * Shorten text to fit a column, ending it with "..."
+   */
+  private truncate(text: string, width: number, size = 10): string {
+    if (PdfDocument.textWidth(text, size) <= width) {
+      return text;
+    }
+
+    let shortened = text;
+    while (shortened.length > 0 && PdfDocument.textWidth(`${shortened}...`, size) > width) {
+      shortened = shortened.slice(0, -1);
+    }
+
+    return `${shortened.trimEnd()}...`;
+  }
+}
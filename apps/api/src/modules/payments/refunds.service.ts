@@ -0,0 +1,421 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  MembershipStatus,
+  Payment,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  RefundStatus,
+  UserRole,
+} from '@prisma/client';
+import Stripe from 'stripe';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StripeService } from './stripe.service';
+import { RegistrationsService } from '../events/registrations.service';
+import { HouseholdsService } from '../memberships/households.service';
+import { CreateRefundDto, RefundResponseDto } from './dto';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+
+const STRIPE_REFUND_STATUSES: Record<string, RefundStatus> = {
+  pending: RefundStatus.PENDING,
+  requires_action: RefundStatus.PENDING,
+  succeeded: RefundStatus.SUCCEEDED,
+  failed: RefundStatus.FAILED,
+  canceled: RefundStatus.CANCELED,
+};
+
+// Refunds that count against the payment (money returned or on its way)
+const OUTSTANDING_REFUND_STATUSES: RefundStatus[] = [RefundStatus.PENDING, RefundStatus.SUCCEEDED];
+
+/**
+ * Refunds of membership and event payments
+ *
+ * Every Stripe refund is a Refund row keyed by its Stripe ID, whether an admin
+ * issued it here or it was made in the Stripe dashboard (charge.refunded), so
+ * both paths converge on the same rows. Payment.refundedAmount is recomputed
+ * from those rows; a full refund (or an admin's explicit revokeAccess) cancels
+ * what the payment bought in the same transaction.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private stripeService: StripeService,
+    private registrationsService: RegistrationsService,
+    private householdsService: HouseholdsService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Refund a payment in full or in part (admin only)
+   * A null adminId is a refund the system issued, e.g. for a seat released before its payment
+   */
+  async refund(
+    paymentId: string,
+    adminId: string | null,
+    dto: CreateRefundDto,
+  ): Promise<RefundResponseDto> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    if (payment.status === PaymentStatus.REFUNDED) {
+      throw new BadRequestException('Payment is already fully refunded');
+    }
+
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException('Only completed payments can be refunded');
+    }
+
+    // Cash, check and transfers are paid back by hand, not through Stripe
+    if (!payment.stripePaymentId) {
+      throw new BadRequestException('Offline payments cannot be refunded through Stripe');
+    }
+
+    const refundable = this.roundCurrency(Number(payment.amount) - Number(payment.refundedAmount));
+    const amount = dto.amount ?? refundable;
+
+    if (amount > refundable) {
+      throw new BadRequestException(
+        `At most $${refundable.toFixed(2)} of this payment can still be refunded`,
+      );
+    }
+
+    const stripeRefund = await this.stripeService.createRefund({
+      paymentIntentId: await this.stripeService.getPaymentIntentId({
+        type: payment.type,
+        stripePaymentId: payment.stripePaymentId,
+      }),
+      amount,
+      reason: dto.reason,
+      paymentId: payment.id,
+      // A repeated request (double click, retry) returns the same refund
+      idempotencyKey: `refund-${payment.id}-${Number(payment.refundedAmount)}-${amount}`,
+    });
+
+    const { refund, subscriptionToCancel } = await this.prisma.$transaction(async (tx) => {
+      const recorded = await this.recordRefund(tx, payment.id, stripeRefund, {
+        reason: dto.reason,
+        refundedById: adminId ?? undefined,
+      });
+
+      const subscriptionToCancel = await this.settle(tx, payment.id, dto.revokeAccess ?? false);
+
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: { id: recorded.id },
+        include: { payment: true },
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.REFUND,
+          entityType: 'Payment',
+          entityId: payment.id,
+          before: { status: payment.status, refundedAmount: payment.refundedAmount },
+          after: { status: refund.payment.status, refundedAmount: refund.payment.refundedAmount },
+          actorId: adminId,
+        },
+        tx,
+      );
+
+      return { refund, subscriptionToCancel };
+    });
+
+    if (subscriptionToCancel) {
+      await this.stripeService.cancelSubscriptionNow(subscriptionToCancel);
+    }
+
+    this.logger.log(
+      `${adminId ? `Admin ${adminId}` : 'System'} refunded $${amount} of payment ${paymentId} - Reason: ${dto.reason}`,
+    );
+
+    return this.toResponseDto(refund);
+  }
+
+  /**
+   * Get the refunds of a payment, newest first (admin only)
+   */
+  async findForPayment(paymentId: string): Promise<RefundResponseDto[]> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { id: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const refunds = await this.prisma.refund.findMany({
+      where: { paymentId },
+      include: { payment: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map((r) => this.toResponseDto(r));
+  }
+
+  /**
+   * Sync the refunds of a charge (charge.refunded webhook)
+   * Picks up refunds made in the Stripe dashboard as well as our own
+   */
+  async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    if (!charge.payment_intent) {
+      this.logger.log(`Ignoring refunded charge ${charge.id} (no payment intent)`);
+      return;
+    }
+
+    const paymentIntentId =
+      typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent.id;
+
+    const payment = await this.prisma.payment.findFirst({
+      where: { stripePaymentId: { in: await this.stripeService.getPaymentKeys(paymentIntentId) } },
+    });
+
+    if (!payment) {
+      // The refund can arrive before the payment it refunds; fail so Stripe redelivers it
+      throw new NotFoundException(`Refunded charge ${charge.id} does not match a recorded payment`);
+    }
+
+    const stripeRefunds = await this.stripeService.listChargeRefunds(charge.id);
+
+    const subscriptionToCancel = await this.prisma.$transaction(async (tx) => {
+      for (const stripeRefund of stripeRefunds) {
+        await this.recordRefund(tx, payment.id, stripeRefund);
+      }
+
+      return this.settle(tx, payment.id, false);
+    });
+
+    if (subscriptionToCancel) {
+      await this.stripeService.cancelSubscriptionNow(subscriptionToCancel);
+    }
+
+    this.logger.log(`Synced ${stripeRefunds.length} refunds of charge ${charge.id}`);
+  }
+
+  /**
+   * Track a refund settling or failing (refund.updated webhook)
+   * A failed refund no longer counts against the payment; access already revoked stays revoked
+   */
+  async handleRefundUpdated(stripeRefund: Stripe.Refund): Promise<void> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { stripeRefundId: stripeRefund.id },
+    });
+
+    if (!refund) {
+      // Not recorded yet; charge.refunded will pick it up
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.recordRefund(tx, refund.paymentId, stripeRefund);
+      await this.settle(tx, refund.paymentId, false);
+    });
+
+    const status = this.toRefundStatus(stripeRefund.status);
+    if (status === RefundStatus.FAILED || status === RefundStatus.CANCELED) {
+      this.logger.warn(`Refund ${stripeRefund.id} of payment ${refund.paymentId} ${status}`);
+    }
+  }
+
+  /**
+   * Create or update the Refund row for a Stripe refund
+   */
+  private async recordRefund(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    stripeRefund: Stripe.Refund,
+    issued: { reason?: string; refundedById?: string } = {},
+  ) {
+    const status = this.toRefundStatus(stripeRefund.status);
+
+    return tx.refund.upsert({
+      where: { stripeRefundId: stripeRefund.id },
+      create: {
+        paymentId,
+        amount: stripeRefund.amount / 100, // Convert from cents
+        currency: stripeRefund.currency.toUpperCase(),
+        status,
+        reason: issued.reason ?? stripeRefund.metadata?.reason ?? null,
+        stripeRefundId: stripeRefund.id,
+        refundedById: issued.refundedById,
+      },
+      update: {
+        status,
+        // The webhook can land before the admin's request records its own row
+        ...(issued.reason && { reason: issued.reason }),
+        ...(issued.refundedById && { refundedById: issued.refundedById }),
+      },
+    });
+  }
+
+  /**
+   * Recompute the refunded amount and status of a payment, and revoke what it
+   * bought once it is fully refunded (or when asked to)
+   * Returns a Stripe subscription to cancel after the transaction commits
+   */
+  private async settle(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    revokeAccess: boolean,
+  ): Promise<string | null> {
+    const payment = await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+
+    const { _sum } = await tx.refund.aggregate({
+      where: { paymentId, status: { in: OUTSTANDING_REFUND_STATUSES } },
+      _sum: { amount: true },
+    });
+
+    const refundedAmount = Number(_sum.amount ?? 0);
+    const fullyRefunded = refundedAmount >= Number(payment.amount);
+
+    await tx.payment.update({
+      where: { id: paymentId },
+      data: {
+        refundedAmount,
+        status: fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.COMPLETED,
+      },
+    });
+
+    if (!fullyRefunded && !revokeAccess) {
+      return null;
+    }
+
+    return this.revokeAccess(tx, payment);
+  }
+
+  /**
+   * Cancel what a refunded payment bought
+   * Safe to repeat: only memberships and registrations that are still active are touched
+   */
+  private async revokeAccess(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+  ): Promise<string | null> {
+    const metadata = (payment.metadata ?? {}) as Record<string, string | undefined>;
+
+    switch (payment.type) {
+      case PaymentType.MEMBERSHIP:
+        await this.revokeMembership(tx, payment.id, payment.userId, metadata.membershipId);
+        return null;
+
+      case PaymentType.EVENT_ONETIME:
+        if (metadata.registrationId) {
+          await this.registrationsService.cancelRefunded(tx, metadata.registrationId);
+        }
+        return null;
+
+      case PaymentType.EVENT_SUBSCRIPTION:
+        // Stop future invoices too; the deleted-subscription webhook finds nothing left to cancel
+        if (
+          metadata.registrationId &&
+          (await this.registrationsService.cancelRefunded(tx, metadata.registrationId))
+        ) {
+          return metadata.subscriptionId ?? null;
+        }
+        return null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Cancel a refunded membership and revert the user's role
+   * A refunded upgrade gives the user their previous membership back
+   */
+  private async revokeMembership(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    userId: string,
+    membershipId?: string,
+  ): Promise<void> {
+    const membership = await tx.membership.findFirst({
+      where: {
+        userId,
+        status: { in: [MembershipStatus.ACTIVE, MembershipStatus.PENDING] },
+        OR: [{ lastPaymentId: paymentId }, ...(membershipId ? [{ id: membershipId }] : [])],
+      },
+    });
+
+    if (!membership) {
+      return;
+    }
+
+    await tx.membership.update({
+      where: { id: membership.id },
+      data: { status: MembershipStatus.CANCELLED },
+    });
+
+    if (membership.upgradedFromId) {
+      const previous = await tx.membership.findUnique({
+        where: { id: membership.upgradedFromId },
+      });
+
+      if (previous?.status === MembershipStatus.UPGRADED) {
+        const stillValid = !previous.expiryDate || previous.expiryDate > new Date();
+
+        await tx.membership.update({
+          where: { id: previous.id },
+          data: {
+            status: stillValid ? MembershipStatus.ACTIVE : MembershipStatus.EXPIRED,
+            upgradedToId: null,
+          },
+        });
+      }
+    }
+
+    await tx.user.updateMany({
+      where: {
+        id: userId,
+        role: UserRole.MEMBER,
+        NOT: this.householdsService.coveredUserWhere(),
+      },
+      data: { role: UserRole.GUEST },
+    });
+
+    await this.householdsService.syncHouseholdRoles(tx, [userId]);
+
+    this.logger.log(`Cancelled refunded membership ${membership.id} of user ${userId}`);
+  }
+
+  private toRefundStatus(status: string | null): RefundStatus {
+    return STRIPE_REFUND_STATUSES[status ?? ''] ?? RefundStatus.PENDING;
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(refund: any): RefundResponseDto {
+    return {
+      id: refund.id,
+      paymentId: refund.paymentId,
+      amount: Number(refund.amount),
+      currency: refund.currency,
+      status: refund.status,
+      reason: refund.reason,
+      stripeRefundId: refund.stripeRefundId,
+      refundedById: refund.refundedById,
+      createdAt: refund.createdAt,
+      payment: refund.payment
+        ? {
+            id: refund.payment.id,
+            amount: Number(refund.payment.amount),
+            refundedAmount: Number(refund.payment.refundedAmount),
+            status: refund.payment.status,
+          }
+        : undefined,
+    };
+  }
+}
@@ -2,7 +2,31 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Stripe from 'stripe';
 import { PrismaService } from '../../prisma/prisma.service';
-import { PaymentType, PaymentStatus } from '@prisma/client';
+import { Payment, PaymentType, PaymentStatus } from '@prisma/client';
+import { RegistrationsService } from '../events/registrations.service';
+import { MembershipsService } from '../memberships/memberships.service';
+import { PromoCodesService } from './promo-codes.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Stripe's minimum; keeps seats held by unpaid registrations short-lived
+const EVENT_CHECKOUT_EXPIRY_MINUTES = 30;
+
+/**
+ * Promo code applied to a checkout, carried in session metadata to the webhook
+ */
+interface CheckoutPromo {
+  id: string;
+  code: string;
+  discountAmount: number;
+  reservationId: string;
+}
+
+const RECURRING_INTERVALS: Record<string, Stripe.PriceCreateParams.Recurring.Interval> = {
+  weekly: 'week',
+  monthly: 'month',
+};
 
 @Injectable()
 export class StripeService {
@@ -12,6 +36,11 @@ export class StripeService {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private registrationsService: RegistrationsService,
+    private membershipsService: MembershipsService,
+    private promoCodesService: PromoCodesService,
+    private auditService: AuditService,
+    private notificationsService: NotificationsService,
   ) {
     const secretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
     if (!secretKey) {
@@ -60,6 +89,7 @@ export class StripeService {
     customerEmail: string;
     successUrl: string;
     cancelUrl: string;
+    promo?: CheckoutPromo;
   }): Promise<Stripe.Checkout.Session> {
     try {
       const session = await this.stripe.checkout.sessions.create({
@@ -86,6 +116,7 @@ export class StripeService {
           membershipId: params.membershipId,
           membershipTypeId: params.membershipTypeId,
           paymentType: PaymentType.MEMBERSHIP,
+          ...this.promoMetadata(params.promo),
         },
       });
 
@@ -97,12 +128,355 @@ export class StripeService {
     }
   }
 
+  /**
+   * Create a checkout session for a paid event registration
+   * The session expires quickly so an abandoned checkout gives its seat back.
+   */
+  async createEventCheckoutSession(params: {
+    userId: string;
+    registrationId: string;
+    eventId: string;
+    eventTitle: string;
+    amount: number;
+    currency: string;
+    customerEmail: string;
+    successUrl: string;
+    cancelUrl: string;
+    promo?: CheckoutPromo;
+  }): Promise<Stripe.Checkout.Session> {
+    try {
+      const session = await this.stripe.checkout.sessions.create({
+        customer_email: params.customerEmail,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: params.currency,
+              product_data: {
+                name: params.eventTitle,
+                description: `OSA event registration: ${params.eventTitle}`,
+              },
+              unit_amount: Math.round(params.amount * 100), // Convert to cents
+            },
+            quantity: 1,
+          },
+        ],
+        mode: 'payment',
+        expires_at: Math.floor(Date.now() / 1000) + EVENT_CHECKOUT_EXPIRY_MINUTES * 60,
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        metadata: {
+          userId: params.userId,
+          registrationId: params.registrationId,
+          eventId: params.eventId,
+          paymentType: PaymentType.EVENT_ONETIME,
+          ...this.promoMetadata(params.promo),
+        },
+      });
+
+      this.logger.log(`Created checkout session ${session.id} for registration ${params.registrationId}`);
+      return session;
+    } catch (error) {
+      this.logger.error(`Failed to create checkout session: ${error.message}`);
+      throw new BadRequestException('Failed to create checkout session');
+    }
+  }
+
+  /**
+   * Get the recurring Stripe price for an event, creating it on first use
+   * Events with a memberPrice keep a second Stripe price for the member rate
+   */
+  async ensureEventPrice(event: {
+    id: string;
+    title: string;
+    price: number;
+    recurringInterval: string | null;
+    memberRate?: boolean;
+  }): Promise<string> {
+    const field = event.memberRate ? 'stripeMemberPriceId' : 'stripePriceId';
+
+    const stored = await this.prisma.event.findUnique({
+      where: { id: event.id },
+      select: { stripePriceId: true, stripeMemberPriceId: true },
+    });
+
+    if (stored?.[field]) {
+      return stored[field]!;
+    }
+
+    const interval = RECURRING_INTERVALS[event.recurringInterval ?? ''];
+    if (!interval) {
+      throw new BadRequestException('Event has no valid recurring interval');
+    }
+
+    try {
+      const price = await this.stripe.prices.create({
+        currency: 'usd',
+        unit_amount: Math.round(event.price * 100), // Convert to cents
+        recurring: { interval },
+        product_data: {
+          name: event.memberRate ? `${event.title} (member)` : event.title,
+        },
+        metadata: {
+          eventId: event.id,
+        },
+      });
+
+      await this.prisma.event.update({
+        where: { id: event.id },
+        data: { [field]: price.id },
+      });
+
+      this.logger.log(`Created Stripe price ${price.id} for event ${event.id}`);
+      return price.id;
+    } catch (error) {
+      this.logger.error(`Failed to create Stripe price: ${error.message}`);
+      throw new BadRequestException('Failed to create subscription price');
+    }
+  }
+
+  /**
+   * Create a subscription checkout session for a recurring event
+   * Metadata is copied onto the subscription so invoice webhooks can find the registration.
+   */
+  async createEventSubscriptionSession(params: {
+    userId: string;
+    registrationId: string;
+    eventId: string;
+    stripePriceId: string;
+    customerEmail: string;
+    successUrl: string;
+    cancelUrl: string;
+  }): Promise<Stripe.Checkout.Session> {
+    const metadata = {
+      userId: params.userId,
+      registrationId: params.registrationId,
+      eventId: params.eventId,
+      paymentType: PaymentType.EVENT_SUBSCRIPTION,
+    };
+
+    try {
+      const session = await this.stripe.checkout.sessions.create({
+        customer_email: params.customerEmail,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price: params.stripePriceId,
+            quantity: 1,
+          },
+        ],
+        mode: 'subscription',
+        expires_at: Math.floor(Date.now() / 1000) + EVENT_CHECKOUT_EXPIRY_MINUTES * 60,
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        metadata,
+        subscription_data: { metadata },
+      });
+
+      this.logger.log(
+        `Created subscription checkout session ${session.id} for registration ${params.registrationId}`,
+      );
+      return session;
+    } catch (error) {
+      this.logger.error(`Failed to create checkout session: ${error.message}`);
+      throw new BadRequestException('Failed to create checkout session');
+    }
+  }
+
+  /**
+   * Expire an open checkout session so it can no longer be paid
+   * (the registration it would pay for was cancelled, or a retried checkout replaces it)
+   * Throws when the session was already completed; its payment is on its way.
+   */
+  async expireCheckoutSession(sessionId: string): Promise<void> {
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await this.stripe.checkout.sessions.retrieve(sessionId);
+      if (session.status === 'open') {
+        await this.stripe.checkout.sessions.expire(sessionId);
+        return;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to expire checkout session ${sessionId}: ${error.message}`);
+      throw new BadRequestException('Failed to expire checkout session');
+    }
+
+    if (session.status === 'complete') {
+      throw new BadRequestException('This checkout was already paid');
+    }
+  }
+
+  /**
+   * Cancel a subscription at the end of the current billing period
+   * Returns when access ends; the registration is cancelled by the
+   * customer.subscription.deleted webhook at that time.
+   */
+  async cancelSubscriptionAtPeriodEnd(stripeSubId: string): Promise<Date> {
+    try {
+      const subscription = await this.stripe.subscriptions.update(stripeSubId, {
+        cancel_at_period_end: true,
+      });
+
+      const endsAt = subscription.cancel_at ?? subscription.items.data[0]?.current_period_end;
+
+      this.logger.log(`Subscription ${stripeSubId} set to cancel at period end`);
+      return endsAt ? new Date(endsAt * 1000) : new Date();
+    } catch (error) {
+      this.logger.error(`Failed to cancel subscription: ${error.message}`);
+      throw new BadRequestException('Failed to cancel subscription');
+    }
+  }
+
+  /**
+   * Cancel a subscription immediately (refunded subscriptions, cancelled events)
+   * The registration is cancelled by the customer.subscription.deleted webhook.
+   */
+  async cancelSubscriptionNow(stripeSubId: string): Promise<void> {
+    try {
+      await this.stripe.subscriptions.cancel(stripeSubId);
+    } catch (error) {
+      this.logger.error(`Failed to cancel subscription: ${error.message}`);
+      throw new BadRequestException('Failed to cancel subscription');
+    }
+  }
+
+  /**
+   * Refund (part of) a payment
+   * Stripe only accepts fixed reasons, so the admin's reason travels in metadata;
+   * the idempotency key turns a repeated request into the same refund.
+   */
+  async createRefund(params: {
+    paymentIntentId: string;
+    amount: number;
+    reason: string;
+    paymentId: string;
+    idempotencyKey: string;
+  }): Promise<Stripe.Refund> {
+    try {
+      const refund = await this.stripe.refunds.create(
+        {
+          payment_intent: params.paymentIntentId,
+          amount: Math.round(params.amount * 100), // Convert to cents
+          reason: 'requested_by_customer',
+          metadata: {
+            paymentId: params.paymentId,
+            reason: params.reason,
+          },
+        },
+        { idempotencyKey: params.idempotencyKey },
+      );
+
+      this.logger.log(`Created refund ${refund.id} for payment ${params.paymentId}`);
+      return refund;
+    } catch (error) {
+      this.logger.error(`Failed to create refund: ${error.message}`);
+      throw new BadRequestException(`Failed to create refund: ${error.message}`);
+    }
+  }
+
+  /**
+   * All refunds of a charge (charge.refunded webhook)
+   */
+  async listChargeRefunds(chargeId: string): Promise<Stripe.Refund[]> {
+    const refunds = await this.stripe.refunds.list({ charge: chargeId, limit: 100 });
+    return refunds.data;
+  }
+
+  /**
+   * PaymentIntent that paid a Payment row
+   * One-time payments store it directly; subscription payments store the invoice ID.
+   */
+  async getPaymentIntentId(payment: {
+    type: PaymentType;
+    stripePaymentId: string;
+  }): Promise<string> {
+    if (payment.type !== PaymentType.EVENT_SUBSCRIPTION) {
+      return payment.stripePaymentId;
+    }
+
+    const invoicePayments = await this.stripe.invoicePayments.list({
+      invoice: payment.stripePaymentId,
+    });
+    const paid = invoicePayments.data.find(
+      (p) => p.status === 'paid' && p.payment.type === 'payment_intent',
+    );
+
+    if (!paid?.payment.payment_intent) {
+      throw new BadRequestException('No card payment found for this invoice');
+    }
+
+    return this.getId(paid.payment.payment_intent);
+  }
+
+  /**
+   * Stripe IDs a Payment row paid by this PaymentIntent can be keyed by
+   * (the PaymentIntent itself, or the invoices it paid)
+   */
+  async getPaymentKeys(paymentIntentId: string): Promise<string[]> {
+    const invoicePayments = await this.stripe.invoicePayments.list({
+      payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+    });
+
+    return [paymentIntentId, ...invoicePayments.data.map((p) => this.getId(p.invoice))];
+  }
+
+  /**
+   * Balance transactions (charges, refunds, fees, payouts) created in a period,
+   * with the charge or refund behind each one expanded
+   */
+  async listBalanceTransactions(from: Date, to: Date): Promise<Stripe.BalanceTransaction[]> {
+    const transactions: Stripe.BalanceTransaction[] = [];
+
+    for await (const transaction of this.stripe.balanceTransactions.list({
+      created: { gte: Math.floor(from.getTime() / 1000), lt: Math.floor(to.getTime() / 1000) },
+      expand: ['data.source'],
+      limit: 100,
+    })) {
+      transactions.push(transaction);
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Record a paid subscription invoice and keep the registration active
+   * One Payment row per invoice, keyed by the invoice ID.
+   */
+  async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    await this.recordInvoice(invoice, PaymentStatus.COMPLETED);
+  }
+
+  /**
+   * Record a failed subscription invoice; Stripe keeps retrying per its dunning settings
+   */
+  async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    await this.recordInvoice(invoice, PaymentStatus.FAILED);
+  }
+
+  /**
+   * A subscription ended (cancelled at period end, or unpaid after retries)
+   */
+  async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+    if (subscription.metadata?.paymentType !== PaymentType.EVENT_SUBSCRIPTION) {
+      this.logger.log(`Ignoring deleted subscription ${subscription.id} (not an event subscription)`);
+      return;
+    }
+
+    await this.registrationsService.endSubscription(subscription.id);
+  }
+
   /**
    * Handle successful payment from Stripe webhook
+   * Safe to run again for the same session: the payment is keyed by its
+   * PaymentIntent and a membership is only activated by its first payment
+   * Returns the payment when the registration or membership it paid for is no
+   * longer pending (cancelled, or paid another way meanwhile), to be refunded
    */
-  async handlePaymentSuccess(session: Stripe.Checkout.Session): Promise<void> {
+  async handlePaymentSuccess(session: Stripe.Checkout.Session): Promise<Payment | null> {
     const metadata = session.metadata || {};
-    const { userId, membershipId, membershipTypeId, paymentType } = metadata;
+    const { userId, membershipId, membershipTypeId, registrationId, eventId, paymentType } =
+      metadata;
+    const { promoCodeId, promoCode, discountAmount, promoReservationId } = metadata;
 
     if (!userId || !paymentType) {
       throw new BadRequestException('Missing required metadata in session');
@@ -114,10 +488,22 @@ export class StripeService {
 
     this.logger.log(`Processing successful payment for session ${session.id}`);
 
+    // Subscription payments are recorded per invoice (invoice.paid)
+    if (paymentType === PaymentType.EVENT_SUBSCRIPTION) {
+      if (registrationId && session.subscription) {
+        await this.registrationsService.attachSubscription(
+          registrationId,
+          this.getId(session.subscription),
+        );
+      }
+      return null;
+    }
+
     try {
-      // Create payment record
-      const payment = await this.prisma.payment.create({
-        data: {
+      // Create payment record (a redelivered event finds the existing one)
+      const payment = await this.prisma.payment.upsert({
+        where: { stripePaymentId: session.payment_intent as string },
+        create: {
           userId,
           type: paymentType as PaymentType,
           amount: session.amount_total / 100, // Convert from cents
@@ -128,84 +514,45 @@ export class StripeService {
           metadata: {
             membershipId,
             membershipTypeId,
+            registrationId,
+            eventId,
             customerEmail: session.customer_email,
+            ...(promoCodeId && { promoCodeId, promoCode, discountAmount: Number(discountAmount) }),
           },
         },
+        update: {},
       });
 
-      this.logger.log(`Created payment record ${payment.id} for user ${userId}`);
+      this.logger.log(`Recorded payment ${payment.id} for user ${userId}`);
 
-      // Update membership status and link payment
-      if (paymentType === PaymentType.MEMBERSHIP && membershipId) {
-        const membership = await this.prisma.membership.findUnique({
-          where: { id: membershipId },
-          include: {
-            membershipType: true,
-            creditAppliedFrom: {
-              include: {
-                membershipType: true,
-              },
-            },
-          },
+      if (promoCodeId) {
+        await this.promoCodesService.confirmRedemption(payment, {
+          promoCodeId,
+          reservationId: promoReservationId,
+          checkoutFor: (membershipId || eventId)!,
+          discountAmount: Number(discountAmount),
         });
+      }
 
-        if (membership) {
-          // Log credit usage if applicable
-          if (membership.creditAmount && membership.creditAppliedFrom) {
-            this.logger.log(
-              `Credit of $${membership.creditAmount} from expired ${membership.creditAppliedFrom.membershipType.name} membership was applied`,
-            );
-          }
-
-          // Calculate expiry date
-          const startDate = new Date();
-          let expiryDate: Date | null = null;
-          if (membership.membershipType.durationMonths) {
-            expiryDate = new Date(startDate);
-            expiryDate.setMonth(expiryDate.getMonth() + membership.membershipType.durationMonths);
-          }
-
-          // Use transaction to update membership and user role atomically
-          await this.prisma.$transaction(async (tx) => {
-            // If this is an upgrade (has upgradedFromId), mark the old membership as UPGRADED
-            if (membership.upgradedFromId) {
-              await tx.membership.update({
-                where: { id: membership.upgradedFromId },
-                data: {
-                  status: 'UPGRADED',
-                  upgradedToId: membershipId,
-                },
-              });
-              this.logger.log(`Marked old membership ${membership.upgradedFromId} as UPGRADED`);
-            }
-
-            // Activate new membership
-            await tx.membership.update({
-              where: { id: membershipId },
-              data: {
-                status: 'ACTIVE',
-                startDate,
-                expiryDate,
-                lastPaymentId: payment.id,
-                stripeCustomerId: session.customer as string,
-              },
-            });
+      await this.notificationsService.notifyPaymentReceipt(payment.id);
 
-            // Promote user to MEMBER role if they're currently GUEST
-            await tx.user.updateMany({
-              where: {
-                id: userId,
-                role: 'GUEST',
-              },
-              data: {
-                role: 'MEMBER',
-              },
-            });
-          });
+      // Confirm the event registration that holds the seat
+      let unfulfilled = false;
+      if (paymentType === PaymentType.EVENT_ONETIME && registrationId) {
+        unfulfilled = !(await this.registrationsService.confirmPayment(registrationId, session.id));
+      }
 
-          this.logger.log(`Activated membership ${membershipId} and promoted user to MEMBER role`);
-        }
+      // Activate the membership (renewal, upgrade and household included)
+      if (paymentType === PaymentType.MEMBERSHIP && membershipId) {
+        unfulfilled = !(await this.membershipsService.activatePaid(
+          membershipId,
+          payment.id,
+          session.customer ? this.getId(session.customer) : undefined,
+        ));
       }
+
+      // A replay finds the payment already refunded
+      return unfulfilled && payment.status === PaymentStatus.COMPLETED ? payment : null;
     } catch (error) {
       this.logger.error(`Failed to process payment success: ${error.message}`);
       throw error;
@@ -217,7 +564,7 @@ export class StripeService {
    */
   async handlePaymentFailure(session: Stripe.Checkout.Session): Promise<void> {
     const metadata = session.metadata || {};
-    const { userId, membershipId, paymentType } = metadata;
+    const { userId, membershipId, registrationId, eventId, paymentType } = metadata;
 
     if (!userId || !paymentType) {
       throw new BadRequestException('Missing required metadata in session');
@@ -230,24 +577,43 @@ export class StripeService {
     this.logger.warn(`Processing failed payment for session ${session.id}`);
 
     try {
-      // Create payment record with FAILED status
-      await this.prisma.payment.create({
-        data: {
+      // Create payment record with FAILED status (once per session)
+      const stripePaymentId = (session.payment_intent as string) || session.id;
+      await this.prisma.payment.upsert({
+        where: { stripePaymentId },
+        create: {
           userId,
           type: paymentType as PaymentType,
           amount: session.amount_total / 100,
           currency: session.currency.toUpperCase(),
-          stripePaymentId: session.payment_intent as string || session.id,
+          stripePaymentId,
           stripeSessionId: session.id,
           status: PaymentStatus.FAILED,
           metadata: {
             membershipId,
+            registrationId,
+            eventId,
             customerEmail: session.customer_email,
           },
         },
+        update: {},
       });
 
       this.logger.log(`Created failed payment record for user ${userId}`);
+
+      // The promo code can be used by another checkout again
+      if (metadata.promoReservationId) {
+        await this.promoCodesService.release(metadata.promoReservationId);
+      }
+
+      // Give the seat held by the unpaid registration back
+      if (
+        (paymentType === PaymentType.EVENT_ONETIME ||
+          paymentType === PaymentType.EVENT_SUBSCRIPTION) &&
+        registrationId
+      ) {
+        await this.registrationsService.releaseUnpaid(registrationId, session.id);
+      }
     } catch (error) {
       this.logger.error(`Failed to process payment failure: ${error.message}`);
       throw error;
@@ -313,17 +679,32 @@ export class StripeService {
       throw new BadRequestException('Payment not found');
     }
 
-    const updatedPayment = await this.prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        amount,
-        metadata: {
-          ...(payment.metadata as any),
-          ...(note && { adminNote: note }),
-          adminUpdated: true,
-          adminUpdatedAt: new Date().toISOString(),
+    const updatedPayment = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          amount,
+          metadata: {
+            ...(payment.metadata as any),
+            ...(note && { adminNote: note }),
+            adminUpdated: true,
+            adminUpdatedAt: new Date().toISOString(),
+          },
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.AMOUNT_OVERRIDE,
+          entityType: 'Payment',
+          entityId: paymentId,
+          before: { amount: payment.amount, metadata: payment.metadata },
+          after: updated,
         },
-      },
+        tx,
+      );
+
+      return updated;
     });
 
     this.logger.log(
@@ -332,4 +713,103 @@ export class StripeService {
 
     return updatedPayment;
   }
+
+  private promoMetadata(promo?: CheckoutPromo): Record<string, string> {
+    return promo
+      ? {
+          promoCodeId: promo.id,
+          promoCode: promo.code,
+          discountAmount: promo.discountAmount.toFixed(2),
+          promoReservationId: promo.reservationId,
+        }
+      : {};
+  }
+
+  /**
+   * Record the Payment row for a subscription invoice and update the registration
+   * A failed attempt that is later retried successfully updates the same row.
+   * Replayed or out-of-order events never undo a payment or a refund.
+   */
+  private async recordInvoice(invoice: Stripe.Invoice, status: PaymentStatus): Promise<void> {
+    const details = invoice.parent?.subscription_details;
+    const metadata = details?.metadata || {};
+    const { userId, registrationId, eventId, paymentType } = metadata;
+
+    if (!details || paymentType !== PaymentType.EVENT_SUBSCRIPTION || !userId || !registrationId) {
+      this.logger.log(`Ignoring invoice ${invoice.id} (not an event subscription)`);
+      return;
+    }
+
+    const stripeSubId = this.getId(details.subscription);
+    const amount =
+      (status === PaymentStatus.COMPLETED ? invoice.amount_paid : invoice.amount_due) / 100;
+
+    const existing = await this.prisma.payment.findUnique({
+      where: { stripePaymentId: invoice.id },
+    });
+
+    // A refund is final, and a failed attempt can't come after the invoice was paid
+    if (
+      existing?.status === PaymentStatus.REFUNDED ||
+      (existing?.status === PaymentStatus.COMPLETED && status === PaymentStatus.FAILED)
+    ) {
+      this.logger.log(`Ignoring ${status} invoice ${invoice.id}, payment is ${existing.status}`);
+      return;
+    }
+
+    const changed = existing?.status !== status;
+    let paymentId: string;
+
+    if (existing) {
+      paymentId = existing.id;
+
+      if (changed) {
+        // Conditional on the status we read, so a concurrent event can't be overwritten
+        const { count } = await this.prisma.payment.updateMany({
+          where: { id: existing.id, status: existing.status },
+          data: { status, amount },
+        });
+
+        if (count === 0) {
+          throw new BadRequestException(`Payment for invoice ${invoice.id} changed meanwhile`);
+        }
+      }
+    } else {
+      const payment = await this.prisma.payment.create({
+        data: {
+          userId,
+          type: PaymentType.EVENT_SUBSCRIPTION,
+          amount,
+          currency: invoice.currency.toUpperCase(),
+          stripePaymentId: invoice.id,
+          status,
+          metadata: {
+            registrationId,
+            eventId,
+            subscriptionId: stripeSubId,
+            periodStart: new Date(invoice.period_start * 1000).toISOString(),
+            periodEnd: new Date(invoice.period_end * 1000).toISOString(),
+            customerEmail: invoice.customer_email,
+          },
+        },
+      });
+      paymentId = payment.id;
+    }
+
+    this.logger.log(`Recorded ${status} payment for invoice ${invoice.id}`);
+
+    if (status === PaymentStatus.COMPLETED) {
+      // A replay confirms again (in case that failed before) but sends no second receipt
+      if (changed) {
+        await this.notificationsService.notifyPaymentReceipt(paymentId);
+      }
+      await this.registrationsService.confirmSubscriptionPayment(registrationId, stripeSubId);
+    } else {
+      await this.registrationsService.markSubscriptionPaymentFailed(stripeSubId);
+    }
+  }
+
+  private getId(value: string | { id: string }): string {
+    return typeof value === 'string' ? value : value.id;
+  }
 }
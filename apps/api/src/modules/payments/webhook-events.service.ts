@@ -0,0 +1,280 @@
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { Prisma, WebhookEventStatus } from '@prisma/client';
+import Stripe from 'stripe';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StripeService } from './stripe.service';
+import { RefundsService } from './refunds.service';
+import { WebhookEventResponseDto } from './dto';
+
+// Deliveries that may fail before an event is dead-lettered (Stripe retries for ~3 days)
+const MAX_WEBHOOK_ATTEMPTS = 5;
+
+// A PROCESSING event older than this belongs to a crashed instance and can be taken over
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Persisted, replay-safe Stripe webhook processing
+ *
+ * Every verified event is stored by its Stripe event ID before it is handled.
+ * Stripe delivers at least once, so a delivery only runs the handler after
+ * claiming the event (RECEIVED/FAILED -> PROCESSING); redeliveries of handled
+ * events are acknowledged without running again. A failing event is left
+ * FAILED for Stripe's retry, and dead-lettered with its error after
+ * MAX_WEBHOOK_ATTEMPTS so an admin can replay it once the bug is fixed.
+ * Handlers are themselves idempotent and state-guarded, so a replay or an
+ * out-of-order delivery never applies the same change twice.
+ */
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private stripeService: StripeService,
+    private refundsService: RefundsService,
+  ) {}
+
+  /**
+   * Store and process a verified Stripe event (webhook endpoint)
+   * Throws while the event can still be retried, so Stripe redelivers it
+   */
+  async receive(event: Stripe.Event): Promise<{ received: boolean; duplicate?: boolean }> {
+    await this.prisma.stripeWebhookEvent.createMany({
+      data: [
+        {
+          id: event.id,
+          type: event.type,
+          payload: event as unknown as Prisma.InputJsonValue,
+          stripeCreatedAt: new Date(event.created * 1000),
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    const claimed = await this.claim(event.id, {
+      OR: [
+        { status: { in: [WebhookEventStatus.RECEIVED, WebhookEventStatus.FAILED] } },
+        this.staleProcessing(),
+      ],
+    });
+
+    if (!claimed) {
+      this.logger.log(`Skipping duplicate delivery of ${event.type} ${event.id}`);
+      return { received: true, duplicate: true };
+    }
+
+    const processed = await this.process(event, true);
+
+    if (processed.status === WebhookEventStatus.FAILED) {
+      throw new Error(`Webhook ${event.id} failed, Stripe will retry: ${processed.lastError}`);
+    }
+
+    return { received: true };
+  }
+
+  /**
+   * List stored events, newest first (admin only)
+   */
+  async findAll(params: {
+    status?: WebhookEventStatus;
+    type?: string;
+    take?: number;
+  }): Promise<WebhookEventResponseDto[]> {
+    const events = await this.prisma.stripeWebhookEvent.findMany({
+      where: {
+        ...(params.status && { status: params.status }),
+        ...(params.type && { type: params.type }),
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: params.take ?? 50,
+      omit: { payload: true },
+    });
+
+    return events.map((e) => this.toResponseDto(e));
+  }
+
+  /**
+   * Get a stored event with its payload (admin only)
+   */
+  async findOne(id: string): Promise<WebhookEventResponseDto> {
+    const event = await this.findEvent(id);
+    return this.toResponseDto(event, true);
+  }
+
+  /**
+   * Process a stored event again, whatever its status (admin only)
+   * Used after fixing the bug that dead-lettered it
+   */
+  async replay(id: string, adminId: string): Promise<WebhookEventResponseDto> {
+    const stored = await this.findEvent(id);
+
+    const claimed = await this.claim(
+      id,
+      { OR: [{ status: { not: WebhookEventStatus.PROCESSING } }, this.staleProcessing()] },
+      adminId,
+    );
+
+    if (!claimed) {
+      throw new ConflictException('Event is being processed');
+    }
+
+    this.logger.log(`Admin ${adminId} replaying ${stored.type} ${stored.id}`);
+
+    const processed = await this.process(stored.payload as unknown as Stripe.Event, false);
+
+    return this.toResponseDto(processed);
+  }
+
+  /**
+   * Take the event for processing if it matches `where`; counts the attempt
+   */
+  private async claim(
+    id: string,
+    where: Prisma.StripeWebhookEventWhereInput,
+    replayedById?: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.stripeWebhookEvent.updateMany({
+      where: { id, ...where },
+      data: {
+        status: WebhookEventStatus.PROCESSING,
+        attempts: { increment: 1 },
+        ...(replayedById && { replayedById }),
+      },
+    });
+
+    return count === 1;
+  }
+
+  private staleProcessing(): Prisma.StripeWebhookEventWhereInput {
+    return {
+      status: WebhookEventStatus.PROCESSING,
+      updatedAt: { lt: new Date(Date.now() - PROCESSING_LEASE_MS) },
+    };
+  }
+
+  /**
+   * Run the handler for a claimed event and record the outcome
+   * A failure is retryable only on Stripe deliveries; a failed replay is dead-lettered
+   */
+  private async process(event: Stripe.Event, retryable: boolean) {
+    try {
+      const handled = await this.dispatch(event);
+
+      return await this.prisma.stripeWebhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: handled ? WebhookEventStatus.PROCESSED : WebhookEventStatus.IGNORED,
+          lastError: null,
+          processedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const { attempts } = await this.prisma.stripeWebhookEvent.findUniqueOrThrow({
+        where: { id: event.id },
+        select: { attempts: true },
+      });
+
+      const status =
+        retryable && attempts < MAX_WEBHOOK_ATTEMPTS
+          ? WebhookEventStatus.FAILED
+          : WebhookEventStatus.DEAD_LETTER;
+
+      this.logger.error(
+        `Webhook ${event.type} ${event.id} failed (attempt ${attempts}, ${status}): ${error.message}`,
+      );
+
+      return this.prisma.stripeWebhookEvent.update({
+        where: { id: event.id },
+        data: { status, lastError: error.stack ?? error.message },
+      });
+    }
+  }
+
+  /**
+   * Route an event to its handler; returns false for event types we don't act on
+   */
+  private async dispatch(event: Stripe.Event): Promise<boolean> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed payment methods complete later via async_payment_succeeded
+        if (event.data.object.payment_status === 'paid') {
+          await this.handlePaymentSuccess(event.data.object);
+        }
+        return true;
+
+      case 'checkout.session.async_payment_succeeded':
+        await this.handlePaymentSuccess(event.data.object);
+        return true;
+
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        await this.stripeService.handlePaymentFailure(event.data.object);
+        return true;
+
+      case 'invoice.paid':
+        await this.stripeService.handleInvoicePaid(event.data.object);
+        return true;
+
+      case 'invoice.payment_failed':
+        await this.stripeService.handleInvoicePaymentFailed(event.data.object);
+        return true;
+
+      case 'customer.subscription.deleted':
+        await this.stripeService.handleSubscriptionDeleted(event.data.object);
+        return true;
+
+      case 'charge.refunded':
+        await this.refundsService.handleChargeRefunded(event.data.object);
+        return true;
+
+      case 'refund.updated':
+        await this.refundsService.handleRefundUpdated(event.data.object);
+        return true;
+
+      default:
+        this.logger.log(`Unhandled event type: ${event.type}`);
+        return false;
+    }
+  }
+
+  /**
+   * Record a paid checkout, and refund it when what it paid for was cancelled or paid meanwhile
+   */
+  private async handlePaymentSuccess(session: Stripe.Checkout.Session): Promise<void> {
+    const unfulfilled = await this.stripeService.handlePaymentSuccess(session);
+
+    if (unfulfilled) {
+      await this.refundsService.refund(unfulfilled.id, null, {
+        reason: 'No longer pending when the payment arrived',
+      });
+    }
+  }
+
+  private async findEvent(id: string) {
+    const event = await this.prisma.stripeWebhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(event: any, includePayload = false): WebhookEventResponseDto {
+    return {
+      id: event.id,
+      type: event.type,
+      status: event.status,
+      attempts: event.attempts,
+      lastError: event.lastError,
+      stripeCreatedAt: event.stripeCreatedAt,
+      receivedAt: event.receivedAt,
+      processedAt: event.processedAt,
+      replayedById: event.replayedById,
+      ...(includePayload && { payload: event.payload }),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Credits and discounts that reduced one payment
+ */
+export class CreditReportRowDto {
+  paymentId: string;
+  membershipId: string | null;
+  userEmail: string;
+  paidAt: Date;
+  description: string;
+  creditAmount: number; // From an expired membership
+  prorationCredit: number; // Unused value of an upgraded membership
+  promoCode: string | null;
+  promoDiscount: number;
+}
+
+/**
+ * Response DTO for the credits report
+ */
+export class CreditsReportResponseDto {
+  from: Date;
+  to: Date;
+  totals: {
+    creditAmount: number;
+    prorationCredit: number;
+    promoDiscount: number;
+    total: number;
+  };
+  payments: CreditReportRowDto[];
+}
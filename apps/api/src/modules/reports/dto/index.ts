@@ -0,0 +1,8 @@
+export * from './revenue-report-response.dto';
+export * from './refunds-report-response.dto';
+export * from './credits-report-response.dto';
+export * from './pending-memberships-report-response.dto';
+export * from './reconciliation-mismatch-response.dto';
+export * from './reconciliation-summary-response.dto';
+export * from './run-reconciliation.dto';
+export * from './resolve-mismatch.dto';
@@ -0,0 +1,22 @@
+/**
+ * A membership awaiting payment
+ */
+export class PendingMembershipReportRowDto {
+  membershipId: string;
+  userId: string;
+  userEmail: string;
+  name: string | null;
+  membershipType: string;
+  amountDue: number;
+  createdAt: Date;
+  daysPending: number;
+}
+
+/**
+ * Response DTO for the outstanding pending memberships report
+ */
+export class PendingMembershipsReportResponseDto {
+  count: number;
+  outstanding: number;
+  memberships: PendingMembershipReportRowDto[];
+}
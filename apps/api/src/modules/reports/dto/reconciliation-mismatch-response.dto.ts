@@ -0,0 +1,23 @@
+import { ReconciliationMismatchType } from '@prisma/client';
+
+/**
+ * Response DTO for a flagged reconciliation mismatch
+ */
+export class ReconciliationMismatchResponseDto {
+  id: string;
+  type: ReconciliationMismatchType;
+  reference: string;
+  paymentId: string | null;
+  refundId: string | null;
+  stripeReference: string | null;
+  localAmount: number | null;
+  stripeAmount: number | null;
+  currency: string;
+  details: string;
+  occurredAt: Date;
+  lastSeenAt: Date;
+  resolvedAt: Date | null;
+  resolvedById: string | null;
+  resolutionNote: string | null;
+  createdAt: Date;
+}
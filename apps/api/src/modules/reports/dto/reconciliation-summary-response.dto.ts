@@ -0,0 +1,13 @@
+/**
+ * Response DTO for a reconciliation run
+ */
+export class ReconciliationSummaryResponseDto {
+  from: Date;
+  to: Date;
+  source: 'stripe' | 'file'; // Stripe API, or STRIPE_BALANCE_TRANSACTIONS_FILE locally
+  transactionsChecked: number;
+  paymentsChecked: number;
+  refundsChecked: number;
+  flagged: number; // Mismatches found by this run
+  newMismatches: number; // Of those, not flagged by an earlier run
+}
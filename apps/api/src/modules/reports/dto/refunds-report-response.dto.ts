@@ -0,0 +1,29 @@
+import { PaymentMethod, PaymentType, RefundStatus } from '@prisma/client';
+
+/**
+ * One refund in the refunds report
+ */
+export class RefundReportRowDto {
+  id: string;
+  paymentId: string;
+  paymentType: PaymentType;
+  paymentMethod: PaymentMethod;
+  userEmail: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: string | null;
+  stripeRefundId: string;
+  createdAt: Date;
+}
+
+/**
+ * Response DTO for the refunds report (totals exclude failed and cancelled refunds)
+ */
+export class RefundsReportResponseDto {
+  from: Date;
+  to: Date;
+  count: number;
+  total: number;
+  refunds: RefundReportRowDto[];
+}
@@ -0,0 +1,11 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+/**
+ * DTO for admin to resolve a reconciliation mismatch
+ */
+export class ResolveMismatchDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string; // How it was settled, e.g. "Deposit recorded on 2026-03-02"
+}
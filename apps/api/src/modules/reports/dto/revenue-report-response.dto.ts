@@ -0,0 +1,24 @@
+/**
+ * Payments grouped under one key (a month, payment type, membership tier or method)
+ */
+export class RevenueBucketDto {
+  key: string;
+  label: string;
+  count: number;
+  gross: number;
+  refunded: number;
+  net: number;
+}
+
+/**
+ * Response DTO for the revenue report
+ */
+export class RevenueReportResponseDto {
+  from: Date;
+  to: Date;
+  totals: RevenueBucketDto;
+  byMonth: RevenueBucketDto[]; // key: YYYY-MM
+  byType: RevenueBucketDto[]; // key: PaymentType
+  byMembershipTier: RevenueBucketDto[]; // key: membership type ID
+  byMethod: RevenueBucketDto[]; // key: PaymentMethod
+}
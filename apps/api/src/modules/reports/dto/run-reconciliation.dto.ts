@@ -0,0 +1,14 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+/**
+ * DTO for admin to reconcile a period against Stripe
+ */
+export class RunReconciliationDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string; // Defaults to 7 days before `to`
+
+  @IsOptional()
+  @IsDateString()
+  to?: string; // Defaults to now
+}
@@ -0,0 +1,462 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  ReconciliationMismatchType,
+  RefundStatus,
+} from '@prisma/client';
+import { readFile } from 'fs/promises';
+import Stripe from 'stripe';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StripeService } from '../payments/stripe.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
+import {
+  ReconciliationMismatchResponseDto,
+  ReconciliationSummaryResponseDto,
+  RunReconciliationDto,
+} from './dto';
+
+// Period the daily job checks; overlapping runs catch late webhooks and refunds
+export const RECONCILIATION_WINDOW_DAYS = 7;
+
+// Balance transactions are fetched this far either side of the period, so a
+// payment recorded a little before or after its charge still finds it
+const MATCH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+const CHARGE_TYPES = ['charge', 'payment'];
+const REFUND_TYPES = ['refund', 'payment_refund'];
+
+/**
+ * A charge or refund balance transaction, reduced to what is compared
+ */
+interface SettledTransaction {
+  id: string;
+  kind: 'charge' | 'refund';
+  sourceId: string | null; // Charge or refund ID
+  paymentIntentId: string | null;
+  amount: number;
+  currency: string;
+  created: Date;
+}
+
+/**
+ * A mismatch found by a run, before it is stored
+ */
+type Finding = Omit<
+  Prisma.ReconciliationMismatchCreateInput,
+  'id' | 'lastSeenAt' | 'resolvedAt' | 'resolvedById' | 'resolutionNote' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Reconciles local payments and refunds against Stripe balance transactions
+ *
+ * Each run compares one period both ways: every Stripe charge and refund
+ * must match a local row with the same amount, and every completed Stripe
+ * payment and settled refund must appear in Stripe. Mismatches are kept,
+ * one per type and reference, until the treasurer resolves them; a later
+ * run that finds the same one refreshes it instead of flagging it again.
+ *
+ * Locally, STRIPE_BALANCE_TRANSACTIONS_FILE can point to a JSON export of
+ * balance transactions (with `source` expanded) to use instead of the API.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private stripeService: StripeService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Reconcile a period (defaults to the last RECONCILIATION_WINDOW_DAYS days)
+   */
+  async reconcile(dto: RunReconciliationDto = {}): Promise<ReconciliationSummaryResponseDto> {
+    const to = dto.to ? new Date(dto.to) : new Date();
+    const from = dto.from
+      ? new Date(dto.from)
+      : new Date(to.getTime() - RECONCILIATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const inPeriod = (date: Date) => date >= from && date < to;
+    const { source, transactions } = await this.fetchTransactions(
+      new Date(from.getTime() - MATCH_MARGIN_MS),
+      new Date(to.getTime() + MATCH_MARGIN_MS),
+    );
+
+    const charges = transactions.filter((t) => t.kind === 'charge');
+    const stripeRefunds = transactions.filter((t) => t.kind === 'refund');
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        method: PaymentMethod.STRIPE,
+        OR: [
+          { createdAt: { gte: from, lt: to } },
+          {
+            stripePaymentId: {
+              in: charges.map((c) => c.paymentIntentId).filter((id): id is string => !!id),
+            },
+          },
+        ],
+      },
+    });
+    const refunds = await this.prisma.refund.findMany({
+      where: {
+        OR: [
+          { createdAt: { gte: from, lt: to } },
+          {
+            stripeRefundId: {
+              in: stripeRefunds.map((r) => r.sourceId).filter((id): id is string => !!id),
+            },
+          },
+        ],
+      },
+    });
+
+    const findings: Finding[] = [];
+    const matchedPaymentIds = new Set<string>();
+    const matchedRefundIds = new Set<string>();
+
+    for (const charge of charges) {
+      const payment = await this.findPaymentForCharge(charge, payments, source);
+
+      if (payment) {
+        matchedPaymentIds.add(payment.id);
+      }
+      if (!inPeriod(charge.created)) {
+        continue;
+      }
+
+      if (!payment) {
+        findings.push({
+          type: ReconciliationMismatchType.MISSING_PAYMENT,
+          reference: charge.id,
+          stripeReference: charge.sourceId,
+          stripeAmount: charge.amount,
+          currency: charge.currency,
+          details: `Stripe charge ${charge.sourceId ?? charge.id} has no matching payment`,
+          occurredAt: charge.created,
+        });
+      } else if (
+        payment.status === PaymentStatus.PENDING ||
+        payment.status === PaymentStatus.FAILED
+      ) {
+        findings.push({
+          type: ReconciliationMismatchType.STATUS_MISMATCH,
+          reference: payment.id,
+          paymentId: payment.id,
+          stripeReference: charge.sourceId,
+          localAmount: payment.amount,
+          stripeAmount: charge.amount,
+          currency: charge.currency,
+          details: `Stripe charged ${charge.sourceId ?? charge.id}, but the payment is ${payment.status}`,
+          occurredAt: charge.created,
+        });
+      } else if (!this.sameAmount(payment.amount, charge.amount)) {
+        findings.push({
+          type: ReconciliationMismatchType.AMOUNT_MISMATCH,
+          reference: payment.id,
+          paymentId: payment.id,
+          stripeReference: charge.sourceId,
+          localAmount: payment.amount,
+          stripeAmount: charge.amount,
+          currency: charge.currency,
+          details: `Payment of ${payment.amount} was charged ${charge.amount} in Stripe`,
+          occurredAt: charge.created,
+        });
+      }
+    }
+
+    for (const stripeRefund of stripeRefunds) {
+      const refund = refunds.find((r) => r.stripeRefundId === stripeRefund.sourceId);
+
+      if (refund) {
+        matchedRefundIds.add(refund.id);
+      }
+      if (!inPeriod(stripeRefund.created)) {
+        continue;
+      }
+
+      if (!refund) {
+        findings.push({
+          type: ReconciliationMismatchType.MISSING_REFUND,
+          reference: stripeRefund.id,
+          stripeReference: stripeRefund.sourceId,
+          stripeAmount: stripeRefund.amount,
+          currency: stripeRefund.currency,
+          details: `Stripe refund ${stripeRefund.sourceId ?? stripeRefund.id} has no matching refund`,
+          occurredAt: stripeRefund.created,
+        });
+      } else if (!this.sameAmount(refund.amount, stripeRefund.amount)) {
+        findings.push({
+          type: ReconciliationMismatchType.REFUND_AMOUNT_MISMATCH,
+          reference: refund.id,
+          paymentId: refund.paymentId,
+          refundId: refund.id,
+          stripeReference: refund.stripeRefundId,
+          localAmount: refund.amount,
+          stripeAmount: stripeRefund.amount,
+          currency: stripeRefund.currency,
+          details: `Refund of ${refund.amount} was ${stripeRefund.amount} in Stripe`,
+          occurredAt: stripeRefund.created,
+        });
+      }
+    }
+
+    for (const payment of payments) {
+      const settled =
+        payment.status === PaymentStatus.COMPLETED || payment.status === PaymentStatus.REFUNDED;
+
+      if (settled && inPeriod(payment.createdAt) && !matchedPaymentIds.has(payment.id)) {
+        findings.push({
+          type: ReconciliationMismatchType.MISSING_IN_STRIPE,
+          reference: payment.id,
+          paymentId: payment.id,
+          stripeReference: payment.stripePaymentId,
+          localAmount: payment.amount,
+          currency: payment.currency,
+          details: `Payment ${payment.stripePaymentId ?? payment.id} has no Stripe charge`,
+          occurredAt: payment.createdAt,
+        });
+      }
+    }
+
+    for (const refund of refunds) {
+      if (
+        refund.status === RefundStatus.SUCCEEDED &&
+        inPeriod(refund.createdAt) &&
+        !matchedRefundIds.has(refund.id)
+      ) {
+        findings.push({
+          type: ReconciliationMismatchType.MISSING_IN_STRIPE,
+          reference: refund.id,
+          paymentId: refund.paymentId,
+          refundId: refund.id,
+          stripeReference: refund.stripeRefundId,
+          localAmount: refund.amount,
+          currency: refund.currency,
+          details: `Refund ${refund.stripeRefundId} has no Stripe balance transaction`,
+          occurredAt: refund.createdAt,
+        });
+      }
+    }
+
+    let newMismatches = 0;
+    const seenAt = new Date();
+
+    for (const finding of findings) {
+      const existing = await this.prisma.reconciliationMismatch.findUnique({
+        where: { type_reference: { type: finding.type, reference: finding.reference } },
+      });
+
+      // A resolved mismatch stays resolved; the treasurer has already accounted for it
+      if (existing) {
+        await this.prisma.reconciliationMismatch.update({
+          where: { id: existing.id },
+          data: { ...finding, lastSeenAt: seenAt },
+        });
+      } else {
+        await this.prisma.reconciliationMismatch.create({ data: finding });
+        newMismatches++;
+      }
+    }
+
+    if (findings.length > 0) {
+      this.logger.warn(
+        `Reconciliation ${from.toISOString()} - ${to.toISOString()} found ${findings.length} mismatches (${newMismatches} new)`,
+      );
+    }
+
+    return {
+      from,
+      to,
+      source,
+      transactionsChecked: transactions.filter((t) => inPeriod(t.created)).length,
+      paymentsChecked: payments.filter((p) => inPeriod(p.createdAt)).length,
+      refundsChecked: refunds.filter((r) => inPeriod(r.createdAt)).length,
+      flagged: findings.length,
+      newMismatches,
+    };
+  }
+
+  /**
+   * List flagged mismatches, newest first (open ones unless asked otherwise)
+   */
+  async findMismatches(params: {
+    resolved?: boolean;
+    type?: ReconciliationMismatchType;
+    take: number;
+  }): Promise<ReconciliationMismatchResponseDto[]> {
+    const mismatches = await this.prisma.reconciliationMismatch.findMany({
+      where: {
+        resolvedAt: params.resolved ? { not: null } : null,
+        ...(params.type && { type: params.type }),
+      },
+      orderBy: { occurredAt: 'desc' },
+      take: Math.min(params.take, 500),
+    });
+
+    return mismatches.map((m) => this.toResponseDto(m));
+  }
+
+  /**
+   * Mark a mismatch as accounted for
+   */
+  async resolve(
+    id: string,
+    adminId: string,
+    note: string,
+  ): Promise<ReconciliationMismatchResponseDto> {
+    const mismatch = await this.prisma.reconciliationMismatch.findUnique({ where: { id } });
+
+    if (!mismatch) {
+      throw new NotFoundException('Mismatch not found');
+    }
+
+    if (mismatch.resolvedAt) {
+      throw new BadRequestException('Mismatch is already resolved');
+    }
+
+    const resolved = await this.prisma.reconciliationMismatch.update({
+      where: { id },
+      data: { resolvedAt: new Date(), resolvedById: adminId, resolutionNote: note },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.RESOLVE,
+      entityType: 'ReconciliationMismatch',
+      entityId: id,
+      before: mismatch,
+      after: resolved,
+      actorId: adminId,
+    });
+
+    this.logger.log(`Admin ${adminId} resolved ${mismatch.type} mismatch ${id}`);
+
+    return this.toResponseDto(resolved);
+  }
+
+  /**
+   * Charge and refund balance transactions, from the file when one is configured
+   */
+  private async fetchTransactions(
+    from: Date,
+    to: Date,
+  ): Promise<{ source: 'stripe' | 'file'; transactions: SettledTransaction[] }> {
+    const file = this.configService.get<string>('STRIPE_BALANCE_TRANSACTIONS_FILE');
+    let raw: Stripe.BalanceTransaction[];
+
+    if (file) {
+      const parsed = JSON.parse(await readFile(file, 'utf8'));
+      // Either a bare array or a Stripe list object
+      raw = (Array.isArray(parsed) ? parsed : parsed.data) as Stripe.BalanceTransaction[];
+      raw = raw.filter(
+        (t) => t.created >= from.getTime() / 1000 && t.created < to.getTime() / 1000,
+      );
+    } else {
+      raw = await this.stripeService.listBalanceTransactions(from, to);
+    }
+
+    const transactions: SettledTransaction[] = [];
+
+    for (const transaction of raw) {
+      const kind = CHARGE_TYPES.includes(transaction.type)
+        ? 'charge'
+        : REFUND_TYPES.includes(transaction.type)
+          ? 'refund'
+          : null;
+
+      // Fees, payouts and adjustments have no local counterpart
+      if (!kind) {
+        continue;
+      }
+
+      const source =
+        transaction.source && typeof transaction.source !== 'string'
+          ? (transaction.source as Stripe.Charge | Stripe.Refund)
+          : null;
+      const paymentIntent = source?.payment_intent ?? null;
+
+      transactions.push({
+        id: transaction.id,
+        kind,
+        sourceId: source?.id ?? (transaction.source as string | null),
+        paymentIntentId:
+          typeof paymentIntent === 'string' ? paymentIntent : (paymentIntent?.id ?? null),
+        // Balance transactions are in the account's currency; the source has what was charged
+        amount: Math.abs(source?.amount ?? transaction.amount) / 100,
+        currency: (source?.currency ?? transaction.currency).toUpperCase(),
+        created: new Date(transaction.created * 1000),
+      });
+    }
+
+    return { source: file ? 'file' : 'stripe', transactions };
+  }
+
+  /**
+   * Local payment for a charge: keyed by its PaymentIntent, or (subscriptions)
+   * by the invoice it paid, which only the Stripe API can tell
+   */
+  private async findPaymentForCharge(
+    charge: SettledTransaction,
+    payments: Payment[],
+    source: 'stripe' | 'file',
+  ): Promise<Payment | null> {
+    if (!charge.paymentIntentId) {
+      return null;
+    }
+
+    const direct = payments.find((p) => p.stripePaymentId === charge.paymentIntentId);
+    if (direct || source === 'file') {
+      return direct ?? null;
+    }
+
+    const keys = await this.stripeService.getPaymentKeys(charge.paymentIntentId);
+    const payment = await this.prisma.payment.findFirst({
+      where: { stripePaymentId: { in: keys } },
+    });
+
+    if (payment && !payments.some((p) => p.id === payment.id)) {
+      payments.push(payment);
+    }
+
+    return payment;
+  }
+
+  private sameAmount(local: Prisma.Decimal, stripe: number): boolean {
+    return Math.abs(Number(local) - stripe) < 0.005;
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(mismatch: any): ReconciliationMismatchResponseDto {
+    return {
+      id: mismatch.id,
+      type: mismatch.type,
+      reference: mismatch.reference,
+      paymentId: mismatch.paymentId,
+      refundId: mismatch.refundId,
+      stripeReference: mismatch.stripeReference,
+      localAmount: mismatch.localAmount === null ? null : Number(mismatch.localAmount),
+      stripeAmount: mismatch.stripeAmount === null ? null : Number(mismatch.stripeAmount),
+      currency: mismatch.currency,
+      details: mismatch.details,
+      occurredAt: mismatch.occurredAt,
+      lastSeenAt: mismatch.lastSeenAt,
+      resolvedAt: mismatch.resolvedAt,
+      resolvedById: mismatch.resolvedById,
+      resolutionNote: mismatch.resolutionNote,
+      createdAt: mismatch.createdAt,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  StreamableFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { ReconciliationMismatchType, UserRole } from '@prisma/client';
+import {
+  ReportsService,
+  REPORT_NAMES,
+  ReportName,
+  EXPORT_FORMATS,
+  ExportFormat,
+} from './reports.service';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  RevenueReportResponseDto,
+  RefundsReportResponseDto,
+  CreditsReportResponseDto,
+  PendingMembershipsReportResponseDto,
+  ReconciliationMismatchResponseDto,
+  ReconciliationSummaryResponseDto,
+  RunReconciliationDto,
+  ResolveMismatchDto,
+} from './dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('reports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ReportsController {
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly reconciliationService: ReconciliationService,
+  ) {}
+
+  /**
+   * Revenue by month, type, membership tier and method (admin only)
+   * GET /api/reports/revenue?from=2026-01-01&to=2026-03-31
+   */
+  @Get('revenue')
+  async getRevenue(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<RevenueReportResponseDto> {
+    return this.reportsService.getRevenueReport(this.reportsService.parseRange(from, to));
+  }
+
+  /**
+   * Refunds issued in a period (admin only)
+   * GET /api/reports/refunds?from=2026-01-01&to=2026-03-31
+   */
+  @Get('refunds')
+  async getRefunds(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<RefundsReportResponseDto> {
+    return this.reportsService.getRefundsReport(this.reportsService.parseRange(from, to));
+  }
+
+  /**
+   * Membership credits, upgrade credits and promo discounts applied (admin only)
+   * GET /api/reports/credits?from=2026-01-01&to=2026-03-31
+   */
+  @Get('credits')
+  async getCredits(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<CreditsReportResponseDto> {
+    return this.reportsService.getCreditsReport(this.reportsService.parseRange(from, to));
+  }
+
+  /**
+   * Memberships awaiting payment, with the amount due (admin only)
+   * GET /api/reports/pending-memberships
+   */
+  @Get('pending-memberships')
+  async getPendingMemberships(): Promise<PendingMembershipsReportResponseDto> {
+    return this.reportsService.getPendingMembershipsReport();
+  }
+
+  /**
+   * List flagged reconciliation mismatches (admin only)
+   * GET /api/reports/reconciliation/mismatches?resolved=false&type=AMOUNT_MISMATCH&take=100
+   */
+  @Get('reconciliation/mismatches')
+  async getMismatches(
+    @Query('resolved') resolved?: string,
+    @Query('type', new ParseEnumPipe(ReconciliationMismatchType, { optional: true }))
+    type?: ReconciliationMismatchType,
+    @Query('take') take?: string,
+  ): Promise<ReconciliationMismatchResponseDto[]> {
+    return this.reconciliationService.findMismatches({
+      resolved: resolved === 'true',
+      type,
+      take: take ? parseInt(take, 10) : 100,
+    });
+  }
+
+  /**
+   * Reconcile a period against Stripe now (admin only)
+   * Defaults to the same 7 days the daily reconcile-payments job checks
+   * POST /api/reports/reconciliation/run
+   */
+  @Post('reconciliation/run')
+  @HttpCode(HttpStatus.OK)
+  async runReconciliation(
+    @Body() dto: RunReconciliationDto,
+  ): Promise<ReconciliationSummaryResponseDto> {
+    return this.reconciliationService.reconcile(dto);
+  }
+
+  /**
+   * Mark a mismatch as accounted for (admin only)
+   * POST /api/reports/reconciliation/mismatches/:id/resolve
+   */
+  @Post('reconciliation/mismatches/:id/resolve')
+  @HttpCode(HttpStatus.OK)
+  async resolveMismatch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+    @Body() dto: ResolveMismatchDto,
+  ): Promise<ReconciliationMismatchResponseDto> {
+    return this.reconciliationService.resolve(id, user.id, dto.note);
+  }
+
+  /**
+   * Download a report as CSV or XLSX (admin only)
+   * GET /api/reports/:report/export?format=xlsx&from=2026-01-01&to=2026-03-31
+   */
+  @Get(':report/export')
+  async exportReport(
+    @Param('report') report: string,
+    @Query('format') format = 'csv',
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<StreamableFile> {
+    if (!REPORT_NAMES.includes(report as ReportName)) {
+      throw new BadRequestException(`report must be one of: ${REPORT_NAMES.join(', ')}`);
+    }
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new BadRequestException(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const file = await this.reportsService.export(
+      report as ReportName,
+      format as ExportFormat,
+      this.reportsService.parseRange(from, to),
+    );
+
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+      length: file.content.length,
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+import { ReconciliationService } from './reconciliation.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+    forwardRef(() => AuthModule),
+    forwardRef(() => UsersModule),
+    PaymentsModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService, ReconciliationService],
+  exports: [ReconciliationService],
+})
+export class ReportsModule {}
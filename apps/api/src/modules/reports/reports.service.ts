@@ -0,0 +1,467 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  MembershipStatus,
+  Payment,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  RefundStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SpreadsheetTable, toCsv, toXlsx } from '../../common/utils/spreadsheet.util';
+import {
+  RevenueBucketDto,
+  RevenueReportResponseDto,
+  RefundsReportResponseDto,
+  CreditsReportResponseDto,
+  PendingMembershipsReportResponseDto,
+} from './dto';
+
+// Payments that brought money in (a fully refunded one still counts, with its refunds)
+const REVENUE_STATUSES: PaymentStatus[] = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+// Refunds that returned money or are on their way
+const COUNTED_REFUND_STATUSES: RefundStatus[] = [RefundStatus.PENDING, RefundStatus.SUCCEEDED];
+
+export const REPORT_NAMES = ['revenue', 'refunds', 'credits', 'pending-memberships'] as const;
+export type ReportName = (typeof REPORT_NAMES)[number];
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Period a report covers; `to` is exclusive
+ */
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * A report file and how to send it
+ */
+export interface ReportExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Financial reports for the treasurer
+ *
+ * Payments are dated by when the money was received (receivedAt for offline
+ * payments, createdAt for Stripe), in UTC, and counted with their refunds to
+ * date. The refunds report instead dates refunds by when they were issued.
+ */
+@Injectable()
+export class ReportsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Parse a from/to query (YYYY-MM-DD, both inclusive; defaults to the year to date)
+   */
+  parseRange(from?: string, to?: string): ReportRange {
+    const parse = (value: string, name: string): Date => {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(`${name} must be a date (YYYY-MM-DD)`);
+      }
+      return date;
+    };
+
+    const now = new Date();
+    const range = {
+      from: from ? parse(from, 'from') : new Date(Date.UTC(now.getUTCFullYear(), 0, 1)),
+      to: to ? parse(to, 'to') : now,
+    };
+
+    // A bare date includes that whole day
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      range.to = new Date(range.to.getTime() + 24 * 60 * 60 * 1000);
+    }
+
+    if (range.from >= range.to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    return range;
+  }
+
+  /**
+   * Revenue by month, payment type, membership tier and payment method
+   */
+  async getRevenueReport(range: ReportRange): Promise<RevenueReportResponseDto> {
+    const payments = await this.findPayments(range);
+
+    const tierIds = [
+      ...new Set(
+        payments
+          .filter((p) => p.type === PaymentType.MEMBERSHIP)
+          .map((p) => this.metadataOf(p).membershipTypeId)
+          .filter(Boolean),
+      ),
+    ];
+    const tiers = await this.prisma.membershipType.findMany({
+      where: { id: { in: tierIds } },
+      select: { id: true, name: true },
+    });
+
+    const group = (
+      items: Payment[],
+      keyOf: (p: Payment) => string | null,
+      labelOf: (key: string) => string = (key) => key,
+    ): RevenueBucketDto[] => {
+      const buckets = new Map<string, Payment[]>();
+
+      for (const payment of items) {
+        const key = keyOf(payment);
+        if (key !== null) {
+          buckets.set(key, [...(buckets.get(key) ?? []), payment]);
+        }
+      }
+
+      return [...buckets.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, bucket]) => this.toBucket(key, labelOf(key), bucket));
+    };
+
+    return {
+      ...range,
+      totals: this.toBucket('total', 'Total', payments),
+      byMonth: group(payments, (p) => this.paidAt(p).toISOString().slice(0, 7)),
+      byType: group(payments, (p) => p.type),
+      byMembershipTier: group(
+        payments,
+        (p) =>
+          p.type === PaymentType.MEMBERSHIP
+            ? (this.metadataOf(p).membershipTypeId ?? 'unknown')
+            : null,
+        (key) => tiers.find((t) => t.id === key)?.name ?? 'Unknown',
+      ),
+      byMethod: group(payments, (p) => p.method),
+    };
+  }
+
+  /**
+   * Refunds issued in the period
+   */
+  async getRefundsReport(range: ReportRange): Promise<RefundsReportResponseDto> {
+    const refunds = await this.prisma.refund.findMany({
+      where: { createdAt: { gte: range.from, lt: range.to } },
+      include: { payment: { include: { user: { select: { email: true } } } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const counted = refunds.filter((r) => COUNTED_REFUND_STATUSES.includes(r.status));
+
+    return {
+      ...range,
+      count: counted.length,
+      total: this.sum(counted.map((r) => Number(r.amount))),
+      refunds: refunds.map((r) => ({
+        id: r.id,
+        paymentId: r.paymentId,
+        paymentType: r.payment.type,
+        paymentMethod: r.payment.method,
+        userEmail: r.payment.user.email,
+        amount: Number(r.amount),
+        currency: r.currency,
+        status: r.status,
+        reason: r.reason,
+        stripeRefundId: r.stripeRefundId,
+        createdAt: r.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Membership credits, upgrade proration and promo discounts applied to payments
+   */
+  async getCreditsReport(range: ReportRange): Promise<CreditsReportResponseDto> {
+    const payments = await this.findPayments(range, {
+      user: { select: { email: true } },
+      promoCodeRedemption: { include: { promoCode: { select: { code: true } } } },
+    });
+
+    const memberships = await this.prisma.membership.findMany({
+      where: {
+        id: { in: payments.map((p) => this.metadataOf(p).membershipId).filter(Boolean) },
+      },
+      include: { membershipType: { select: { name: true } } },
+    });
+
+    const rows = payments
+      .map((payment) => {
+        const metadata = this.metadataOf(payment);
+        const membership = memberships.find((m) => m.id === metadata.membershipId);
+        const redemption = payment.promoCodeRedemption;
+
+        return {
+          paymentId: payment.id,
+          membershipId: membership?.id ?? null,
+          userEmail: payment.user.email,
+          paidAt: this.paidAt(payment),
+          description: membership
+            ? `${membership.membershipType.name} membership`
+            : payment.type === PaymentType.MEMBERSHIP
+              ? 'Membership'
+              : 'Event registration',
+          creditAmount: Number(membership?.creditAmount ?? 0),
+          prorationCredit: Number(membership?.prorationCredit ?? 0),
+          promoCode: redemption?.promoCode.code ?? null,
+          promoDiscount: Number(redemption?.discountAmount ?? 0),
+        };
+      })
+      .filter((row) => row.creditAmount > 0 || row.prorationCredit > 0 || row.promoDiscount > 0);
+
+    const totals = {
+      creditAmount: this.sum(rows.map((r) => r.creditAmount)),
+      prorationCredit: this.sum(rows.map((r) => r.prorationCredit)),
+      promoDiscount: this.sum(rows.map((r) => r.promoDiscount)),
+    };
+
+    return {
+      ...range,
+      totals: {
+        ...totals,
+        total: this.sum([totals.creditAmount, totals.prorationCredit, totals.promoDiscount]),
+      },
+      payments: rows,
+    };
+  }
+
+  /**
+   * Memberships still awaiting payment, oldest first
+   */
+  async getPendingMembershipsReport(): Promise<PendingMembershipsReportResponseDto> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { status: MembershipStatus.PENDING },
+      include: {
+        user: { include: { profile: true } },
+        membershipType: true,
+        membershipTypePrice: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const now = Date.now();
+    const rows = memberships.map((m) => ({
+      membershipId: m.id,
+      userId: m.userId,
+      userEmail: m.user.email,
+      name: m.user.profile ? `${m.user.profile.firstName} ${m.user.profile.lastName}` : null,
+      membershipType: m.membershipType.name,
+      // Same amount a checkout would charge
+      amountDue: this.round(
+        Math.max(
+          0,
+          Number(m.membershipTypePrice?.price ?? m.membershipType.price) -
+            Number(m.creditAmount ?? 0) -
+            Number(m.prorationCredit ?? 0),
+        ),
+      ),
+      createdAt: m.createdAt,
+      daysPending: Math.floor((now - m.createdAt.getTime()) / (24 * 60 * 60 * 1000)),
+    }));
+
+    return {
+      count: rows.length,
+      outstanding: this.sum(rows.map((r) => r.amountDue)),
+      memberships: rows,
+    };
+  }
+
+  /**
+   * A report as a CSV or XLSX file
+   */
+  async export(
+    report: ReportName,
+    format: ExportFormat,
+    range: ReportRange,
+  ): Promise<ReportExport> {
+    const table = await this.toTable(report, range);
+    const period =
+      report === 'pending-memberships'
+        ? new Date().toISOString().slice(0, 10)
+        : `${range.from.toISOString().slice(0, 10)}_${range.to.toISOString().slice(0, 10)}`;
+    const filename = `${report}-${period}.${format}`;
+
+    return format === 'csv'
+      ? { filename, contentType: 'text/csv; charset=utf-8', content: Buffer.from(toCsv(table)) }
+      : {
+          filename,
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          content: toXlsx(table),
+        };
+  }
+
+  /**
+   * Flatten a report into rows; amounts stay numbers so spreadsheets can sum them
+   */
+  private async toTable(report: ReportName, range: ReportRange): Promise<SpreadsheetTable> {
+    const date = (value: Date) => value.toISOString().slice(0, 10);
+
+    switch (report) {
+      case 'revenue': {
+        const revenue = await this.getRevenueReport(range);
+        const dimensions: [string, RevenueBucketDto[]][] = [
+          ['Month', revenue.byMonth],
+          ['Type', revenue.byType],
+          ['Membership tier', revenue.byMembershipTier],
+          ['Method', revenue.byMethod],
+          ['Total', [revenue.totals]],
+        ];
+
+        return {
+          name: 'Revenue',
+          headers: ['Group by', 'Key', 'Label', 'Payments', 'Gross', 'Refunded', 'Net'],
+          rows: dimensions.flatMap(([dimension, buckets]) =>
+            buckets.map((b) => [dimension, b.key, b.label, b.count, b.gross, b.refunded, b.net]),
+          ),
+        };
+      }
+
+      case 'refunds': {
+        const { refunds } = await this.getRefundsReport(range);
+
+        return {
+          name: 'Refunds',
+          headers: [
+            'Date',
+            'Refund ID',
+            'Payment ID',
+            'Payment type',
+            'Method',
+            'Email',
+            'Amount',
+            'Currency',
+            'Status',
+            'Reason',
+            'Stripe refund ID',
+          ],
+          rows: refunds.map((r) => [
+            date(r.createdAt),
+            r.id,
+            r.paymentId,
+            r.paymentType,
+            r.paymentMethod,
+            r.userEmail,
+            r.amount,
+            r.currency,
+            r.status,
+            r.reason,
+            r.stripeRefundId,
+          ]),
+        };
+      }
+
+      case 'credits': {
+        const { payments } = await this.getCreditsReport(range);
+
+        return {
+          name: 'Credits',
+          headers: [
+            'Date',
+            'Payment ID',
+            'Membership ID',
+            'Email',
+            'Description',
+            'Membership credit',
+            'Upgrade credit',
+            'Promo code',
+            'Promo discount',
+          ],
+          rows: payments.map((p) => [
+            date(p.paidAt),
+            p.paymentId,
+            p.membershipId,
+            p.userEmail,
+            p.description,
+            p.creditAmount,
+            p.prorationCredit,
+            p.promoCode,
+            p.promoDiscount,
+          ]),
+        };
+      }
+
+      case 'pending-memberships': {
+        const { memberships } = await this.getPendingMembershipsReport();
+
+        return {
+          name: 'Pending memberships',
+          headers: [
+            'Created',
+            'Membership ID',
+            'User ID',
+            'Email',
+            'Name',
+            'Membership type',
+            'Amount due',
+            'Days pending',
+          ],
+          rows: memberships.map((m) => [
+            date(m.createdAt),
+            m.membershipId,
+            m.userId,
+            m.userEmail,
+            m.name,
+            m.membershipType,
+            m.amountDue,
+            m.daysPending,
+          ]),
+        };
+      }
+    }
+  }
+
+  /**
+   * Completed (or since refunded) payments received in the period
+   */
+  private findPayments<T extends Prisma.PaymentInclude = {}>(range: ReportRange, include?: T) {
+    return this.prisma.payment.findMany({
+      where: {
+        status: { in: REVENUE_STATUSES },
+        OR: [
+          { receivedAt: { gte: range.from, lt: range.to } },
+          { receivedAt: null, createdAt: { gte: range.from, lt: range.to } },
+        ],
+      },
+      include: include as T,
+      orderBy: { createdAt: 'asc' },
+    }) as Prisma.PrismaPromise<Prisma.PaymentGetPayload<{ include: T }>[]>;
+  }
+
+  private toBucket(key: string, label: string, payments: Payment[]): RevenueBucketDto {
+    const gross = this.sum(payments.map((p) => Number(p.amount)));
+    const refunded = this.sum(payments.map((p) => Number(p.refundedAmount)));
+
+    return {
+      key,
+      label,
+      count: payments.length,
+      gross,
+      refunded,
+      net: this.round(gross - refunded),
+    };
+  }
+
+  /**
+   * When the money was received; Stripe payments are recorded as they are paid
+   */
+  private paidAt(payment: Payment): Date {
+    return payment.receivedAt ?? payment.createdAt;
+  }
+
+  private metadataOf(payment: Payment): Record<string, any> {
+    return (payment.metadata ?? {}) as Record<string, any>;
+  }
+
+  private sum(amounts: number[]): number {
+    return this.round(amounts.reduce((total, amount) => total + amount, 0));
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
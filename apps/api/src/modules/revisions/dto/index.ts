@@ -0,0 +1,2 @@
+export * from './revision-response.dto';
+export * from './revision-diff-response.dto';
@@ -0,0 +1,12 @@
+import { DiffChunk } from '../../../common/utils/diff.util';
+import { RevisionResponseDto } from './revision-response.dto';
+
+/**
+ * Differences between two revisions of the same content
+ */
+export class RevisionDiffResponseDto {
+  from: RevisionResponseDto;
+  to: RevisionResponseDto;
+  fields: { field: string; from: any; to: any }[]; // Changed title and metadata fields
+  content: DiffChunk[]; // Line diff of the HTML, one line per block element
+}
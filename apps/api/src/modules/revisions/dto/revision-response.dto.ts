@@ -0,0 +1,27 @@
+import { RevisionEntity } from '@prisma/client';
+
+/**
+ * Response DTO for a content revision
+ * content is omitted from revision lists
+ */
+export class RevisionResponseDto {
+  id: string;
+  entityType: RevisionEntity;
+  entityId: string;
+  version: number;
+  title: string;
+  content?: string;
+  metadata: Record<string, any>;
+  authorId: string | null;
+  restoredFromVersion: number | null;
+  createdAt: Date;
+
+  // Related data
+  author?: {
+    id: string;
+    profile?: {
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { RevisionsService } from './revisions.service';
+
+/**
+ * Global so articles, pages and events can record revisions without importing it
+ * Revision routes live on each content controller, which knows who may see them.
+ */
+@Global()
+@Module({
+  providers: [RevisionsService],
+  exports: [RevisionsService],
+})
+export class RevisionsModule {}
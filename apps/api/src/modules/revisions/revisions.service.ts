@@ -0,0 +1,237 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ContentRevision, Prisma, RevisionEntity } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { diffLines, splitHtmlLines } from '../../common/utils/diff.util';
+import { RevisionResponseDto, RevisionDiffResponseDto } from './dto';
+
+// Fields kept in ContentRevision.metadata, besides title and content; the
+// rest (slugs, scheduling, pricing, status) isn't content and isn't restored
+const METADATA_FIELDS: Record<RevisionEntity, string[]> = {
+  ARTICLE: ['excerpt', 'featuredImage', 'metaTitle', 'metaDescription'],
+  STATIC_PAGE: ['metaTitle', 'metaDescription'],
+  EVENT: ['excerpt', 'featuredImage', 'gallery'],
+};
+
+/**
+ * A save of an article, page or event
+ */
+export interface RevisionSave {
+  entityType: RevisionEntity;
+  entityId: string;
+  saved: Record<string, any>; // The entity after the save
+  authorId: string; // Who saved it
+  // The entity before the save, kept as version 1 when it has no history yet
+  // (content written before revisions existed)
+  previous?: { entity: Record<string, any>; authorId: string };
+  restoredFromVersion?: number;
+}
+
+type Snapshot = Pick<ContentRevision, 'title' | 'content'> & { metadata: Record<string, any> };
+
+const revisionInclude = {
+  author: { include: { profile: true } },
+} satisfies Prisma.ContentRevisionInclude;
+
+/**
+ * Revision history for articles, static pages and events
+ *
+ * The content services call record() inside the transaction of each save.
+ * A save that leaves the title, content and metadata unchanged (e.g. only
+ * maxSeats) adds no revision. Restoring copies an old revision onto the
+ * entity and records that as a new revision, so history only grows.
+ */
+@Injectable()
+export class RevisionsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record a save as the entity's next revision
+   */
+  async record(save: RevisionSave, tx: Prisma.TransactionClient): Promise<void> {
+    const { entityType, entityId } = save;
+
+    let latest = await tx.contentRevision.findFirst({
+      where: { entityType, entityId },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!latest && save.previous) {
+      latest = await tx.contentRevision.create({
+        data: {
+          entityType,
+          entityId,
+          version: 1,
+          ...this.snapshot(entityType, save.previous.entity),
+          authorId: save.previous.authorId,
+          createdAt: save.previous.entity.updatedAt,
+        },
+      });
+    }
+
+    const snapshot = this.snapshot(entityType, save.saved);
+
+    if (latest && !save.restoredFromVersion && this.changedFields(latest, snapshot).length === 0) {
+      return;
+    }
+
+    await tx.contentRevision.create({
+      data: {
+        entityType,
+        entityId,
+        version: (latest?.version ?? 0) + 1,
+        ...snapshot,
+        authorId: save.authorId,
+        restoredFromVersion: save.restoredFromVersion,
+      },
+    });
+  }
+
+  /**
+   * List an entity's revisions, newest first, without their content
+   */
+  async findAll(entityType: RevisionEntity, entityId: string): Promise<RevisionResponseDto[]> {
+    const revisions = await this.prisma.contentRevision.findMany({
+      where: { entityType, entityId },
+      omit: { content: true },
+      include: revisionInclude,
+      orderBy: { version: 'desc' },
+    });
+
+    return revisions.map((revision) => this.toResponseDto(revision));
+  }
+
+  /**
+   * Get one revision with its content
+   */
+  async findOne(
+    entityType: RevisionEntity,
+    entityId: string,
+    version: number,
+  ): Promise<RevisionResponseDto> {
+    return this.toResponseDto(await this.findRevision(entityType, entityId, version));
+  }
+
+  /**
+   * Compare two revisions of the same entity
+   */
+  async diff(
+    entityType: RevisionEntity,
+    entityId: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<RevisionDiffResponseDto> {
+    if (fromVersion === toVersion) {
+      throw new BadRequestException('Choose two different revisions to compare');
+    }
+
+    const [from, to] = await Promise.all([
+      this.findRevision(entityType, entityId, fromVersion),
+      this.findRevision(entityType, entityId, toVersion),
+    ]);
+
+    const toSnapshot = { ...to, metadata: to.metadata as Record<string, any> };
+
+    return {
+      from: this.toResponseDto({ ...from, content: undefined }),
+      to: this.toResponseDto({ ...to, content: undefined }),
+      fields: this.changedFields(from, toSnapshot)
+        .filter((field) => field !== 'content')
+        .map((field) => ({
+          field,
+          from: field === 'title' ? from.title : (from.metadata as Record<string, any>)?.[field],
+          to: field === 'title' ? to.title : toSnapshot.metadata[field],
+        })),
+      content: diffLines(splitHtmlLines(from.content), splitHtmlLines(to.content)),
+    };
+  }
+
+  /**
+   * Fields to write back onto the entity to restore a revision
+   */
+  async getRestoreData(
+    entityType: RevisionEntity,
+    entityId: string,
+    version: number,
+  ): Promise<Record<string, any>> {
+    const revision = await this.findRevision(entityType, entityId, version);
+    const metadata = revision.metadata as Record<string, any>;
+
+    return {
+      title: revision.title,
+      content: revision.content,
+      ...Object.fromEntries(
+        METADATA_FIELDS[entityType].map((field) => [field, metadata[field] ?? null]),
+      ),
+    };
+  }
+
+  private async findRevision(entityType: RevisionEntity, entityId: string, version: number) {
+    const revision = await this.prisma.contentRevision.findUnique({
+      where: { entityType_entityId_version: { entityType, entityId, version } },
+      include: revisionInclude,
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision ${version} not found`);
+    }
+
+    return revision;
+  }
+
+  private snapshot(entityType: RevisionEntity, entity: Record<string, any>): Snapshot {
+    return {
+      title: entity.title,
+      content: entity.content,
+      metadata: Object.fromEntries(
+        METADATA_FIELDS[entityType].map((field) => [field, entity[field] ?? null]),
+      ),
+    };
+  }
+
+  /**
+   * Title and metadata fields that differ, plus "content" when the HTML does
+   */
+  private changedFields(revision: ContentRevision, snapshot: Snapshot): string[] {
+    const metadata = (revision.metadata ?? {}) as Record<string, any>;
+    const fields = [...new Set([...Object.keys(metadata), ...Object.keys(snapshot.metadata)])];
+
+    return [
+      ...(revision.title !== snapshot.title ? ['title'] : []),
+      ...(revision.content !== snapshot.content ? ['content'] : []),
+      ...fields.filter(
+        (field) =>
+          JSON.stringify(metadata[field] ?? null) !==
+          JSON.stringify(snapshot.metadata[field] ?? null),
+      ),
+    ];
+  }
+
+  /**
+   * Convert Prisma model to response DTO
+   */
+  private toResponseDto(revision: any): RevisionResponseDto {
+    return {
+      id: revision.id,
+      entityType: revision.entityType,
+      entityId: revision.entityId,
+      version: revision.version,
+      title: revision.title,
+      ...(revision.content !== undefined && { content: revision.content }),
+      metadata: revision.metadata,
+      authorId: revision.authorId,
+      restoredFromVersion: revision.restoredFromVersion,
+      createdAt: revision.createdAt,
+      author: revision.author
+        ? {
+            id: revision.author.id,
+            profile: revision.author.profile
+              ? {
+                  firstName: revision.author.profile.firstName,
+                  lastName: revision.author.profile.lastName,
+                }
+              : undefined,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { sanitizeHtml } from '../../common/utils/sanitize-html.util';
+import { STORAGE_ADAPTER, StorageAdapter } from '../media/storage-adapter';
+
+/**
+ * Sanitizes TipTap HTML before articles, pages and events store it
+ *
+ * Content is rendered as-is on the public site, so every write path (create,
+ * update and revision restore) passes it through here. Embedded images must
+ * come from the public URL of our storage bucket (Supabase or the local
+ * adapter), or from one of the extra prefixes in CONTENT_IMAGE_SOURCES.
+ */
+@Injectable()
+export class HtmlSanitizerService {
+  private readonly imageSources: string[];
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(STORAGE_ADAPTER) storage: StorageAdapter,
+  ) {
+    const bucket = this.configService.get<string>('STORAGE_BUCKET') || 'public';
+    const extra = (this.configService.get<string>('CONTENT_IMAGE_SOURCES') || '')
+      .split(',')
+      .map((source) => source.trim())
+      .filter((source) => source.length > 0);
+
+    this.imageSources = [storage.getPublicUrl(bucket, ''), ...extra].map((source) =>
+      source.endsWith('/') ? source : `${source}/`,
+    );
+  }
+
+  /**
+   * Strip everything the editor doesn't produce from rich text HTML
+   */
+  sanitize(html: string): string {
+    return sanitizeHtml(html, { imageSources: this.imageSources });
+  }
+}
@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HtmlSanitizerService } from './html-sanitizer.service';
+import { MediaModule } from '../media/media.module';
+
+/**
+ * Global so articles, pages and events can sanitize content without importing it
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, MediaModule],
+  providers: [HtmlSanitizerService],
+  exports: [HtmlSanitizerService],
+})
+export class SanitizerModule {}
@@ -1,3 +1,5 @@
 export * from './create-profile.dto';
 export * from './update-profile.dto';
 export * from './user-response.dto';
+export * from './update-notification-preferences.dto';
+export * from './notification-preferences-response.dto';
@@ -0,0 +1,7 @@
+export class NotificationPreferencesResponseDto {
+  eventAnnouncements: boolean;
+  newsletter: boolean;
+  reminders: boolean;
+  eventCategoryIds: string[]; // Empty = all categories
+  updatedAt: Date | null; // null until the user first saves preferences
+}
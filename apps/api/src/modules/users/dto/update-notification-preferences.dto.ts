@@ -0,0 +1,21 @@
+import { IsArray, IsBoolean, IsOptional, IsUUID } from 'class-validator';
+
+export class UpdateNotificationPreferencesDto {
+  @IsBoolean()
+  @IsOptional()
+  eventAnnouncements?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  newsletter?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  reminders?: boolean;
+
+  // Event categories to hear about; empty means all categories
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  eventCategoryIds?: string[];
+}
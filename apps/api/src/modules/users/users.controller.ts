@@ -12,7 +12,13 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
-import { CreateProfileDto, UpdateProfileDto, UserResponseDto } from './dto';
+import {
+  CreateProfileDto,
+  UpdateProfileDto,
+  UserResponseDto,
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+} from './dto';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -57,6 +63,29 @@ export class UsersController {
     return this.usersService.updateProfile(user.id, dto);
   }
 
+  /**
+   * Get current user's email preferences
+   * GET /api/users/me/notification-preferences
+   */
+  @Get('me/notification-preferences')
+  async getMyNotificationPreferences(
+    @CurrentUser() user: any,
+  ): Promise<NotificationPreferencesResponseDto> {
+    return this.usersService.getNotificationPreferences(user.id);
+  }
+
+  /**
+   * Update current user's email preferences
+   * PUT /api/users/me/notification-preferences
+   */
+  @Put('me/notification-preferences')
+  async updateMyNotificationPreferences(
+    @CurrentUser() user: any,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesResponseDto> {
+    return this.usersService.updateNotificationPreferences(user.id, dto);
+  }
+
   /**
    * Export current user's data (GDPR)
    * GET /api/users/me/export
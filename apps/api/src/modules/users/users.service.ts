@@ -5,12 +5,23 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { CreateProfileDto, UpdateProfileDto, UserResponseDto } from './dto';
-import { UserRole, Prisma } from '@prisma/client';
+import {
+  CreateProfileDto,
+  UpdateProfileDto,
+  UserResponseDto,
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+} from './dto';
+import { UserRole, Prisma, NotificationPreference } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-actions';
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
 
   /**
    * Find user by ID (including soft-deleted)
@@ -199,6 +210,51 @@ export class UsersService {
     return this.findById(userId) as Promise<UserResponseDto>;
   }
 
+  /**
+   * Get the user's email preferences; defaults (everything on) until first saved
+   */
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferencesResponseDto> {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+
+    return this.toPreferencesDto(preference);
+  }
+
+  /**
+   * Update the user's email preferences; omitted fields keep their value
+   */
+  async updateNotificationPreferences(
+    userId: string,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesResponseDto> {
+    const eventCategoryIds = dto.eventCategoryIds && [...new Set(dto.eventCategoryIds)];
+
+    if (eventCategoryIds?.length) {
+      const found = await this.prisma.eventCategory.count({
+        where: { id: { in: eventCategoryIds }, isActive: true },
+      });
+      if (found !== eventCategoryIds.length) {
+        throw new BadRequestException('Unknown or inactive event category');
+      }
+    }
+
+    const data = {
+      ...(dto.eventAnnouncements !== undefined && { eventAnnouncements: dto.eventAnnouncements }),
+      ...(dto.newsletter !== undefined && { newsletter: dto.newsletter }),
+      ...(dto.reminders !== undefined && { reminders: dto.reminders }),
+      ...(eventCategoryIds && { eventCategoryIds }),
+    };
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return this.toPreferencesDto(preference);
+  }
+
   /**
    * Update user role (admin only)
    */
@@ -208,9 +264,22 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: { role },
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { role },
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.ROLE_CHANGE,
+          entityType: 'User',
+          entityId: userId,
+          before: { role: user.role },
+          after: { role },
+        },
+        tx,
+      );
     });
 
     return this.findById(userId) as Promise<UserResponseDto>;
@@ -244,6 +313,7 @@ export class UsersService {
         createdEvents: true,
         createdPages: true,
         uploadedMedia: true,
+        notificationPreference: true,
       },
     });
 
@@ -269,6 +339,7 @@ export class UsersService {
       createdEvents: user.createdEvents,
       createdPages: user.createdPages,
       uploadedMedia: user.uploadedMedia,
+      notificationPreference: user.notificationPreference,
     };
   }
 
@@ -286,11 +357,24 @@ export class UsersService {
     }
 
     // Soft delete by setting deletedAt
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: {
-        deletedAt: new Date(),
-      },
+    await this.prisma.$transaction(async (tx) => {
+      const deleted = await tx.user.update({
+        where: { id: userId },
+        data: {
+          deletedAt: new Date(),
+        },
+      });
+
+      await this.auditService.record(
+        {
+          action: AuditAction.SOFT_DELETE,
+          entityType: 'User',
+          entityId: userId,
+          before: { deletedAt: null },
+          after: { deletedAt: deleted.deletedAt },
+        },
+        tx,
+      );
     });
 
     return { message: 'User account soft deleted successfully' };
@@ -342,4 +426,19 @@ export class UsersService {
       total,
     };
   }
+
+  /**
+   * Convert a preference row (or its absence) to the response DTO
+   */
+  private toPreferencesDto(
+    preference: NotificationPreference | null,
+  ): NotificationPreferencesResponseDto {
+    return {
+      eventAnnouncements: preference?.eventAnnouncements ?? true,
+      newsletter: preference?.newsletter ?? true,
+      reminders: preference?.reminders ?? true,
+      eventCategoryIds: preference?.eventCategoryIds ?? [],
+      updatedAt: preference?.updatedAt ?? null,
+    };
+  }
 }
@@ -0,0 +1,340 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectNotFound,
+  expectBadRequest,
+  isValidUuid
+} from '../fixtures/api-helpers';
+import { createTestUser, deleteTestUser } from '../fixtures/supabase-helpers';
+import { generateTestEmail, createTestArticle } from '../fixtures/test-data';
+
+/**
+ * Articles API Tests
+ *
+ * Tests all 14 endpoints for news articles:
+ * - GET /articles (public listing of live articles)
+ * - GET /articles/manage (own articles, or all for ADMIN - CONTRIBUTOR+)
+ * - GET /articles/:slug (public detail)
+ * - POST /articles (create draft - CONTRIBUTOR+)
+ * - PUT /articles/:id (update - author or ADMIN)
+ * - DELETE /articles/:id (deactivate - author or ADMIN)
+ * - POST /articles/:id/submit (submit for review - author or ADMIN)
+ * - POST /articles/:id/publish (publish now or schedule - ADMIN only)
+ * - POST /articles/:id/reject (back to draft with a note - ADMIN only)
+ * - POST /articles/:id/archive (take down - ADMIN only)
+ * - GET /articles/:id/revisions (revision history - author or ADMIN)
+ * - GET /articles/:id/revisions/diff (compare two revisions - author or ADMIN)
+ * - GET /articles/:id/revisions/:version (one revision - author or ADMIN)
+ * - POST /articles/:id/revisions/:version/restore (restore as a new revision - author or ADMIN)
+ */
+
+const MISSING_ID = '00000000-0000-4000-8000-000000000000';
+
+test.describe('Articles API - GET /articles', () => {
+  test('should list published articles without auth', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/articles');
+    const data = await expectSuccess(response);
+
+    expect(Array.isArray(data.articles)).toBeTruthy();
+    expect(typeof data.total).toBe('number');
+
+    data.articles.forEach((article: any) => {
+      expect(isValidUuid(article.id)).toBeTruthy();
+      expect(article.status).toBe('PUBLISHED');
+      expect(new Date(article.publishedAt).getTime()).toBeLessThanOrEqual(Date.now());
+      expect(article).not.toHaveProperty('content'); // Only on the detail endpoint
+      expect(article).not.toHaveProperty('reviewNote');
+    });
+  });
+
+  test('should support pagination', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/articles?skip=0&take=2');
+    const data = await expectSuccess(response);
+
+    expect(data.articles.length).toBeLessThanOrEqual(2);
+  });
+});
+
+test.describe('Articles API - GET /articles/:slug', () => {
+  test('should return 404 for unknown slug', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/articles/this-article-does-not-exist');
+    await expectNotFound(response);
+  });
+});
+
+test.describe('Articles API - Article Management', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('articles-guest'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('POST /articles - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/articles', {
+      data: createTestArticle(),
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('POST /articles - should return 403 for GUEST users', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/articles', {
+      token: testToken,
+      data: createTestArticle(),
+    });
+    await expectForbidden(response);
+  });
+
+  test('GET /articles/manage - should return 403 for GUEST users', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/articles/manage', {
+      token: testToken
+    });
+    await expectForbidden(response);
+  });
+
+  test('POST /articles/:id/submit - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/articles/${MISSING_ID}/submit`);
+    await expectUnauthorized(response);
+  });
+
+  test('POST /articles/:id/publish - should return 403 for GUEST users', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/articles/${MISSING_ID}/publish`, {
+      token: testToken
+    });
+    await expectForbidden(response);
+  });
+
+  test('POST /articles/:id/reject - should return 403 for GUEST users', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/articles/${MISSING_ID}/reject`, {
+      token: testToken,
+      data: { reason: 'Needs sources' }
+    });
+    await expectForbidden(response);
+  });
+
+  test('DELETE /articles/:id - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/articles/${MISSING_ID}`);
+    await expectUnauthorized(response);
+  });
+
+  // Note: These tests require a user promoted to CONTRIBUTOR in the database
+  test.skip('should create a draft and submit it for review', async ({ request }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const createResponse = await makeRequest(request, 'POST', '/articles', {
+      token: contributorToken,
+      data: createTestArticle(),
+    });
+    const article = await expectSuccess(createResponse);
+    expect(article.status).toBe('DRAFT');
+
+    // Drafts are hidden from the public
+    const hiddenResponse = await makeRequest(request, 'GET', `/articles/${article.slug}`);
+    await expectNotFound(hiddenResponse);
+
+    const submitResponse = await makeRequest(request, 'POST', `/articles/${article.id}/submit`, {
+      token: contributorToken,
+    });
+    const submitted = await expectSuccess(submitResponse);
+    expect(submitted.status).toBe('IN_REVIEW');
+    expect(submitted.submittedAt).toBeTruthy();
+
+    // Contributors cannot approve their own articles
+    const publishResponse = await makeRequest(request, 'POST', `/articles/${article.id}/publish`, {
+      token: contributorToken,
+    });
+    await expectForbidden(publishResponse);
+  });
+
+  test.skip('GET /articles/manage - should list only own articles', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/articles/manage', {
+      token: process.env.CONTRIBUTOR_TOKEN!
+    });
+    const data = await expectSuccess(response);
+
+    const authorIds = new Set(data.articles.map((article: any) => article.authorId));
+    expect(authorIds.size).toBeLessThanOrEqual(1);
+  });
+});
+
+// Note: These tests require CONTRIBUTOR_TOKEN and ADMIN_TOKEN
+test.describe('Articles API - Review', () => {
+  async function submitArticle(request: any): Promise<any> {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+    const createResponse = await makeRequest(request, 'POST', '/articles', {
+      token: contributorToken,
+      data: createTestArticle(),
+    });
+    const article = await expectSuccess(createResponse);
+    await makeRequest(request, 'POST', `/articles/${article.id}/submit`, {
+      token: contributorToken,
+    });
+    return article;
+  }
+
+  test.skip('POST /articles/:id/publish - should publish an article in review', async ({
+    request,
+  }) => {
+    const article = await submitArticle(request);
+
+    const response = await makeRequest(request, 'POST', `/articles/${article.id}/publish`, {
+      token: process.env.ADMIN_TOKEN!
+    });
+    const published = await expectSuccess(response);
+    expect(published.status).toBe('PUBLISHED');
+
+    const publicResponse = await makeRequest(request, 'GET', `/articles/${article.slug}`);
+    const publicArticle = await expectSuccess(publicResponse);
+    expect(publicArticle.content).toBeTruthy();
+  });
+
+  test.skip('POST /articles/:id/publish - should hide a scheduled article', async ({
+    request,
+  }) => {
+    const article = await submitArticle(request);
+    const publishedAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    const response = await makeRequest(request, 'POST', `/articles/${article.id}/publish`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: { publishedAt }
+    });
+    const scheduled = await expectSuccess(response);
+    expect(scheduled.status).toBe('PUBLISHED');
+
+    const publicResponse = await makeRequest(request, 'GET', `/articles/${article.slug}`);
+    await expectNotFound(publicResponse);
+  });
+
+  test.skip('POST /articles/:id/reject - should send the article back with a note', async ({
+    request,
+  }) => {
+    const article = await submitArticle(request);
+
+    const response = await makeRequest(request, 'POST', `/articles/${article.id}/reject`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: { reason: 'Please add sources' }
+    });
+    const rejected = await expectSuccess(response);
+    expect(rejected.status).toBe('DRAFT');
+    expect(rejected.reviewNote).toBe('Please add sources');
+  });
+
+  test.skip('POST /articles/:id/reject - should return 400 without a reason', async ({
+    request,
+  }) => {
+    const article = await submitArticle(request);
+
+    const response = await makeRequest(request, 'POST', `/articles/${article.id}/reject`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: {}
+    });
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /articles/:id/archive - should return 400 for a draft', async ({ request }) => {
+    const article = await submitArticle(request);
+
+    const response = await makeRequest(request, 'POST', `/articles/${article.id}/archive`, {
+      token: process.env.ADMIN_TOKEN!
+    });
+    await expectBadRequest(response);
+  });
+});
+
+test.describe('Articles API - Revisions', () => {
+  test('GET /articles/:id/revisions - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', `/articles/${MISSING_ID}/revisions`);
+    await expectUnauthorized(response);
+  });
+
+  test('POST /articles/:id/revisions/:version/restore - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/articles/${MISSING_ID}/revisions/1/restore`
+    );
+    await expectUnauthorized(response);
+  });
+
+  // Note: These tests require CONTRIBUTOR_TOKEN
+  test.skip('should record a revision per save and restore an old one', async ({ request }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const createResponse = await makeRequest(request, 'POST', '/articles', {
+      token: contributorToken,
+      data: createTestArticle(),
+    });
+    const article = await expectSuccess(createResponse);
+
+    await makeRequest(request, 'PUT', `/articles/${article.id}`, {
+      token: contributorToken,
+      data: { content: '<p>Rewritten</p>' },
+    });
+
+    const listResponse = await makeRequest(request, 'GET', `/articles/${article.id}/revisions`, {
+      token: contributorToken,
+    });
+    const revisions = await expectSuccess(listResponse);
+    expect(revisions.map((revision: any) => revision.version)).toEqual([2, 1]);
+
+    const diffResponse = await makeRequest(
+      request,
+      'GET',
+      `/articles/${article.id}/revisions/diff?from=1&to=2`,
+      { token: contributorToken }
+    );
+    const diff = await expectSuccess(diffResponse);
+    expect(diff.content.some((chunk: any) => chunk.type === 'added')).toBeTruthy();
+
+    const restoreResponse = await makeRequest(
+      request,
+      'POST',
+      `/articles/${article.id}/revisions/1/restore`,
+      { token: contributorToken }
+    );
+    const restored = await expectSuccess(restoreResponse);
+    expect(restored.content).toBe(article.content);
+
+    const afterResponse = await makeRequest(request, 'GET', `/articles/${article.id}/revisions`, {
+      token: contributorToken,
+    });
+    const [latest] = await expectSuccess(afterResponse);
+    expect(latest.version).toBe(3);
+    expect(latest.restoredFromVersion).toBe(1);
+  });
+
+  test.skip('GET /articles/:id/revisions/diff - should return 400 for the same revision', async ({
+    request,
+  }) => {
+    const createResponse = await makeRequest(request, 'POST', '/articles', {
+      token: process.env.CONTRIBUTOR_TOKEN!,
+      data: createTestArticle(),
+    });
+    const article = await expectSuccess(createResponse);
+
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/articles/${article.id}/revisions/diff?from=1&to=1`,
+      { token: process.env.CONTRIBUTOR_TOKEN! }
+    );
+    await expectBadRequest(response);
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectBadRequest,
+  isValidIsoDate,
+} from '../fixtures/api-helpers';
+import { createTestUser, deleteTestUser } from '../fixtures/supabase-helpers';
+import { generateTestEmail } from '../fixtures/test-data';
+
+/**
+ * Audit Logs API Tests
+ *
+ * Tests the admin endpoint for the audit log:
+ * - GET /audit-logs (search by entity, actor, action and date - ADMIN only)
+ *
+ * Entries are written by admin and sensitive actions (role changes, membership
+ * approval/rejection/status changes, honorary memberships, offline payments,
+ * payment amount overrides, refunds, promo codes, account deletion)
+ */
+
+test.describe('Audit Logs API - Authentication', () => {
+  test('GET /audit-logs - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/audit-logs');
+    await expectUnauthorized(response);
+  });
+});
+
+test.describe('Audit Logs API - Non-admin', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('audit-log-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /audit-logs - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/audit-logs', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  // Note: Requires ADMIN_TOKEN
+  test.skip('PUT /users/:id/role - should record the role change with request context', async ({
+    request,
+  }) => {
+    await makeRequest(request, 'PUT', `/users/${testUserId}/role`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: { role: 'CONTRIBUTOR' },
+      headers: { 'User-Agent': 'audit-log-test' },
+    });
+
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/audit-logs?entityType=User&entityId=${testUserId}&action=ROLE_CHANGE`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const { logs, total } = await expectSuccess(response);
+
+    expect(total).toBeGreaterThanOrEqual(1);
+    expect(logs[0].oldValue).toEqual({ role: 'GUEST' });
+    expect(logs[0].newValue).toEqual({ role: 'CONTRIBUTOR' });
+    expect(logs[0].actorId).toBeTruthy();
+    expect(logs[0].userAgent).toBe('audit-log-test');
+    expect(isValidIsoDate(logs[0].createdAt)).toBeTruthy();
+  });
+});
+
+// Note: These tests require ADMIN_TOKEN
+test.describe('Audit Logs API - Admin', () => {
+  test.skip('GET /audit-logs - should page newest first', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/audit-logs?skip=0&take=5', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const { logs, total } = await expectSuccess(response);
+
+    expect(logs.length).toBeLessThanOrEqual(5);
+    expect(total).toBeGreaterThanOrEqual(logs.length);
+    for (let i = 1; i < logs.length; i++) {
+      expect(new Date(logs[i - 1].createdAt).getTime()).toBeGreaterThanOrEqual(
+        new Date(logs[i].createdAt).getTime()
+      );
+    }
+  });
+
+  test.skip('GET /audit-logs - should filter by action and date', async ({ request }) => {
+    const today = new Date().toISOString().slice(0, 10);
+
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/audit-logs?action=approve&from=${today}&to=${today}`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const { logs } = await expectSuccess(response);
+
+    for (const log of logs) {
+      expect(log.action).toBe('APPROVE');
+      expect(log.createdAt.slice(0, 10)).toBe(today);
+    }
+  });
+
+  test.skip('GET /audit-logs - should return 400 for an invalid date', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/audit-logs?from=yesterday', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    await expectBadRequest(response);
+  });
+});
@@ -0,0 +1,164 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectNotFound,
+  isValidUuid,
+} from '../fixtures/api-helpers';
+import {
+  createTestUser,
+  deleteTestUser,
+} from '../fixtures/supabase-helpers';
+import { generateTestEmail } from '../fixtures/test-data';
+
+/**
+ * Cron API Tests
+ *
+ * Tests external triggers (CRON_SECRET):
+ * - POST /cron/:job
+ *
+ * Plus admin job management:
+ * - GET /cron/jobs (jobs with latest run)
+ * - GET /cron/jobs/:name/runs (run history)
+ * - POST /cron/jobs/:name/run (run now)
+ */
+
+test.describe('Cron API - POST /cron/:job', () => {
+  test('should return 401 without cron secret', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/cron/process-expired-offers');
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 with wrong cron secret', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/cron/process-expired-offers', {
+      token: 'not-the-cron-secret',
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 with a user token', async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('cron-user'),
+      'Test123!@#'
+    );
+
+    try {
+      const response = await makeRequest(request, 'POST', '/cron/process-expired-offers', {
+        token: accessToken,
+      });
+      await expectUnauthorized(response);
+    } finally {
+      await deleteTestUser(userId);
+    }
+  });
+
+  // Note: These tests require CRON_SECRET to match the API's configuration
+  test.skip('should run a job and record the run', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/cron/process-expired-offers', {
+      token: process.env.CRON_SECRET!,
+    });
+    const run = await expectSuccess(response);
+
+    expect(isValidUuid(run.id)).toBeTruthy();
+    expect(run.jobName).toBe('process-expired-offers');
+    expect(run.trigger).toBe('EXTERNAL');
+    expect(run.status).toBe('SUCCEEDED');
+    expect(typeof run.result.processed).toBe('number');
+  });
+
+  test.skip('should return 404 for unknown job', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/cron/not-a-job', {
+      token: process.env.CRON_SECRET!,
+    });
+    await expectNotFound(response);
+  });
+});
+
+test.describe('Cron API - Admin job management', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('cron-admin-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 for GET /cron/jobs without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/cron/jobs');
+    await expectUnauthorized(response);
+  });
+
+  test('should return 403 for GET /cron/jobs as guest', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/cron/jobs', { token: testToken });
+    await expectForbidden(response);
+  });
+
+  test('should return 403 for run history as guest', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/cron/jobs/send-event-reminders/runs', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  test('should return 403 for run now as guest', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/cron/jobs/send-event-reminders/run', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require a user promoted to ADMIN in the database
+  test.skip('should list all scheduled jobs', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/cron/jobs', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const jobs = await expectSuccess(response);
+
+    expect(jobs.map((j: any) => j.name)).toEqual([
+      'process-expired-offers',
+      'cleanup-pending-registrations',
+      'send-event-reminders',
+      'update-expired-memberships',
+      'send-renewal-reminders',
+      'reconcile-payments',
+      'send-emails',
+      'prune-job-runs',
+    ]);
+  });
+
+  test.skip('should run a job now and show it in history', async ({ request }) => {
+    const adminToken = process.env.ADMIN_TOKEN!;
+
+    const runResponse = await makeRequest(
+      request,
+      'POST',
+      '/cron/jobs/update-expired-memberships/run',
+      { token: adminToken }
+    );
+    const run = await expectSuccess(runResponse);
+    expect(run.trigger).toBe('MANUAL');
+    expect(run.finishedAt).toBeDefined();
+
+    const historyResponse = await makeRequest(
+      request,
+      'GET',
+      '/cron/jobs/update-expired-memberships/runs?take=5',
+      { token: adminToken }
+    );
+    const runs = await expectSuccess(historyResponse);
+    expect(runs[0].id).toBe(run.id);
+  });
+});
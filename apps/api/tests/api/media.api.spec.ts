@@ -0,0 +1,233 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectNotFound,
+  expectBadRequest,
+} from '../fixtures/api-helpers';
+import { createTestUser, deleteTestUser } from '../fixtures/supabase-helpers';
+import { generateTestEmail, createTestArticle } from '../fixtures/test-data';
+
+/**
+ * Media API Tests
+ *
+ * Tests all 3 endpoints for uploads:
+ * - POST /media (multipart upload, optionally for an event, article, page or profile - authenticated)
+ * - GET /media (own uploads, or all for ADMIN - CONTRIBUTOR+)
+ * - DELETE /media/:id (uploader or ADMIN)
+ *
+ * Uploads go to the storage adapter named by STORAGE_DRIVER (local by default).
+ */
+
+const MISSING_ID = '00000000-0000-4000-8000-000000000000';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/**
+ * POST /media as multipart/form-data (makeRequest only sends JSON)
+ */
+async function uploadFile(
+  request: APIRequestContext,
+  options: {
+    token?: string;
+    file?: { name: string; mimeType: string; buffer: Buffer };
+    fields?: Record<string, string>;
+  }
+) {
+  const baseURL = process.env.API_URL || 'http://localhost:3001/api';
+
+  return request.post(`${baseURL}/media`, {
+    headers: options.token ? { Authorization: `Bearer ${options.token}` } : {},
+    multipart: {
+      ...options.fields,
+      ...(options.file && { file: options.file }),
+    },
+  });
+}
+
+test.describe('Media API - Authentication', () => {
+  test('POST /media - should return 401 without token', async ({ request }) => {
+    const response = await uploadFile(request, {
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('GET /media - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/media');
+    await expectUnauthorized(response);
+  });
+
+  test('DELETE /media/:id - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/media/${MISSING_ID}`);
+    await expectUnauthorized(response);
+  });
+});
+
+test.describe('Media API - Guest users', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('media-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('POST /media - should return 400 without a file', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: testToken,
+      fields: { entityType: 'profile' },
+    });
+    await expectBadRequest(response);
+  });
+
+  test('POST /media - should return 400 for an unsupported file type', async ({ request }) => {
+    // Claims to be an image, but the bytes are HTML
+    const response = await uploadFile(request, {
+      token: testToken,
+      file: {
+        name: 'avatar.png',
+        mimeType: 'image/png',
+        buffer: Buffer.from('<script>alert(1)</script>'),
+      },
+      fields: { entityType: 'profile' },
+    });
+    await expectBadRequest(response);
+  });
+
+  test('POST /media - should return 400 for an unknown entityType', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: testToken,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+      fields: { entityType: 'membership' },
+    });
+    await expectBadRequest(response);
+  });
+
+  test('POST /media - should return 403 for unattached uploads', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: testToken,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+    });
+    await expectForbidden(response);
+  });
+
+  test('POST /media - should return 403 for event media', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: testToken,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+      fields: { entityType: 'event', entityId: MISSING_ID },
+    });
+    await expectForbidden(response);
+  });
+
+  test('GET /media - should return 403 for GUEST users', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/media', { token: testToken });
+    await expectForbidden(response);
+  });
+
+  test('DELETE /media/:id - should return 404 for unknown media', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/media/${MISSING_ID}`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+});
+
+// Note: These tests require CONTRIBUTOR_TOKEN
+test.describe('Media API - Contributors', () => {
+  test.skip('should upload an image with a thumbnail, list and delete it', async ({
+    request,
+  }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const uploadResponse = await uploadFile(request, {
+      token: contributorToken,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+    });
+    expect(uploadResponse.status()).toBe(201);
+    const media = await uploadResponse.json();
+
+    expect(media.mimeType).toBe('image/png');
+    expect(media.originalName).toBe('pixel.png');
+    expect(media.fileName).not.toContain('pixel');
+    expect(media.width).toBe(1);
+    expect(media.height).toBe(1);
+    expect(media.thumbnailUrl).toMatch(/-thumb\.webp$/);
+    expect(media.entityType).toBeNull();
+
+    const listResponse = await makeRequest(request, 'GET', '/media', {
+      token: contributorToken,
+    });
+    const { media: uploads } = await expectSuccess(listResponse);
+    expect(uploads.some((upload: any) => upload.id === media.id)).toBeTruthy();
+
+    const deleteResponse = await makeRequest(request, 'DELETE', `/media/${media.id}`, {
+      token: contributorToken,
+    });
+    await expectSuccess(deleteResponse);
+  });
+
+  test.skip('POST /media - should attach an upload to an own article', async ({ request }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const articleResponse = await makeRequest(request, 'POST', '/articles', {
+      token: contributorToken,
+      data: createTestArticle(),
+    });
+    const article = await expectSuccess(articleResponse);
+
+    const uploadResponse = await uploadFile(request, {
+      token: contributorToken,
+      file: { name: 'cover.png', mimeType: 'image/png', buffer: PNG },
+      fields: { entityType: 'article', entityId: article.id },
+    });
+    const media = await uploadResponse.json();
+    expect(media.entityType).toBe('article');
+    expect(media.entityId).toBe(article.id);
+
+    const listResponse = await makeRequest(
+      request,
+      'GET',
+      `/media?entityType=article&entityId=${article.id}`,
+      { token: contributorToken }
+    );
+    const { total } = await expectSuccess(listResponse);
+    expect(total).toBe(1);
+  });
+
+  test.skip('POST /media - should return 403 for page media', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: process.env.CONTRIBUTOR_TOKEN!,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+      fields: { entityType: 'page', entityId: MISSING_ID },
+    });
+    await expectForbidden(response);
+  });
+
+  test.skip('POST /media - should return 404 for an unknown event', async ({ request }) => {
+    const response = await uploadFile(request, {
+      token: process.env.CONTRIBUTOR_TOKEN!,
+      file: { name: 'pixel.png', mimeType: 'image/png', buffer: PNG },
+      fields: { entityType: 'event', entityId: MISSING_ID },
+    });
+    await expectNotFound(response);
+  });
+});
@@ -16,6 +16,7 @@ import {
 import {
   generateTestEmail,
   createTestMembership,
+  createTestMembershipType,
   createTestProfile,
   getPastDate,
   getFutureDate,
@@ -24,15 +25,23 @@ import {
 /**
  * Memberships Module API Tests
  *
- * Tests all 12 endpoints in the Memberships module:
+ * Tests all 20 endpoints in the Memberships module:
  * - GET /memberships/types (public)
+ * - GET /memberships/types/all (all types incl. inactive - ADMIN only)
+ * - POST /memberships/types (create type - ADMIN only)
+ * - PUT /memberships/types/:id (update type, versioning price - ADMIN only)
+ * - DELETE /memberships/types/:id (deactivate type - ADMIN only)
+ * - GET /memberships/types/:id/prices (price history - ADMIN only)
  * - GET /memberships (list all - ADMIN only)
  * - GET /memberships/me (current user's memberships)
  * - GET /memberships/me/history (membership history)
+ * - GET /memberships/upgrade-quote (prorated upgrade price)
  * - GET /memberships/:id (specific membership - ADMIN only)
  * - POST /memberships (create/apply for membership)
+ * - POST /memberships/me/renew (renew own membership)
  * - POST /memberships/:id/approve (approve - ADMIN only)
  * - POST /memberships/:id/reject (reject - ADMIN only)
+ * - POST /memberships/:id/offline-payment (record cash/check payment - ADMIN only)
  * - POST /memberships/honorary/assign (assign honorary - ADMIN only)
  * - PUT /memberships/:id/status (change status - ADMIN only)
  * - DELETE /memberships/me (cancel own membership)
@@ -411,6 +420,123 @@ test.describe('Memberships API - Admin Operations', () => {
     expect(membership.status).toBe('CANCELLED');
   });
 
+  test('POST /memberships/:id/offline-payment - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: memberToken,
+        data: { method: 'CASH', amount: 50, receivedAt: getPastDate(1) },
+      }
+    );
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require the test admin to have the ADMIN role
+  test.skip('POST /memberships/:id/offline-payment - should record a check payment and activate the membership', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: adminToken,
+        data: {
+          method: 'CHECK',
+          amount: 50,
+          referenceNumber: '1234',
+          receivedAt: getPastDate(2),
+        },
+      }
+    );
+    const membership = await expectSuccess(response);
+
+    expect(membership.status).toBe('ACTIVE');
+    expect(membership.approvalNote).toBe('Paid via CHECK #1234');
+    expect(isValidUuid(membership.lastPaymentId)).toBeTruthy();
+
+    // The payment shows up in the member's payment history
+    const paymentsResponse = await makeRequest(request, 'GET', '/payments/me', {
+      token: memberToken,
+    });
+    const payments = await expectSuccess(paymentsResponse);
+    const payment = payments.find((p: any) => p.id === membership.lastPaymentId);
+
+    expect(payment.method).toBe('CHECK');
+    expect(payment.status).toBe('COMPLETED');
+    expect(payment.referenceNumber).toBe('1234');
+    expect(payment.stripePaymentId).toBeNull();
+    expect(payment.metadata.membershipId).toBe(membershipId);
+  });
+
+  test.skip('POST /memberships/:id/offline-payment - should require a reference number for checks', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: adminToken,
+        data: { method: 'CHECK', amount: 50, receivedAt: getPastDate(1) },
+      }
+    );
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /memberships/:id/offline-payment - should reject STRIPE as a method', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: adminToken,
+        data: { method: 'STRIPE', amount: 50, receivedAt: getPastDate(1) },
+      }
+    );
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /memberships/:id/offline-payment - should reject a future received date', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: adminToken,
+        data: { method: 'CASH', amount: 50, receivedAt: getFutureDate(1) },
+      }
+    );
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /memberships/:id/offline-payment - should return 400 for an active membership', async ({
+    request,
+  }) => {
+    await makeRequest(request, 'POST', `/memberships/${membershipId}/approve`, {
+      token: adminToken,
+    });
+
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/memberships/${membershipId}/offline-payment`,
+      {
+        token: adminToken,
+        data: { method: 'CASH', amount: 50, receivedAt: getPastDate(1) },
+      }
+    );
+    await expectBadRequest(response);
+  });
+
   test('PUT /memberships/:id/status - should return 403 for non-admin', async ({
     request,
   }) => {
@@ -611,6 +737,297 @@ test.describe('Memberships API - Cancellation', () => {
   });
 });
 
+test.describe('Memberships API - Membership Type Management', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('type-admin-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('POST /memberships/types - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/types', {
+      data: createTestMembershipType(),
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('POST /memberships/types - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/types', {
+      token: testToken,
+      data: createTestMembershipType(),
+    });
+    await expectForbidden(response);
+  });
+
+  test('PUT /memberships/types/:id - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'PUT',
+      '/memberships/types/00000000-0000-0000-0000-000000000000',
+      { token: testToken, data: { price: 1 } }
+    );
+    await expectForbidden(response);
+  });
+
+  test('DELETE /memberships/types/:id - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'DELETE',
+      '/memberships/types/00000000-0000-0000-0000-000000000000',
+      { token: testToken }
+    );
+    await expectForbidden(response);
+  });
+
+  test('GET /memberships/types/:id/prices - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      '/memberships/types/00000000-0000-0000-0000-000000000000/prices',
+      { token: testToken }
+    );
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require a user promoted to ADMIN in the database
+  test.skip('POST /memberships/types - should return 400 for negative price', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/types', {
+      token: process.env.ADMIN_TOKEN!,
+      data: createTestMembershipType({ price: -5 }),
+    });
+    await expectBadRequest(response);
+  });
+
+  test.skip('PUT /memberships/types/:id - should version price changes', async ({ request }) => {
+    const adminToken = process.env.ADMIN_TOKEN!;
+
+    const createResponse = await makeRequest(request, 'POST', '/memberships/types', {
+      token: adminToken,
+      data: createTestMembershipType({ price: 40 }),
+    });
+    const type = await expectSuccess(createResponse);
+    expect(type.slug).toBeDefined();
+    expect(type.isActive).toBe(true);
+
+    const updateResponse = await makeRequest(request, 'PUT', `/memberships/types/${type.id}`, {
+      token: adminToken,
+      data: { price: 45 },
+    });
+    const updated = await expectSuccess(updateResponse);
+    expect(updated.price).toBe(45);
+
+    const pricesResponse = await makeRequest(
+      request,
+      'GET',
+      `/memberships/types/${type.id}/prices`,
+      { token: adminToken }
+    );
+    const prices = await expectSuccess(pricesResponse);
+    expect(prices.length).toBe(2);
+    expect(prices[0].price).toBe(45);
+    expect(prices[0].effectiveTo).toBeNull();
+    expect(prices[1].price).toBe(40);
+    expect(isValidIsoDate(prices[1].effectiveTo)).toBeTruthy();
+
+    const deleteResponse = await makeRequest(request, 'DELETE', `/memberships/types/${type.id}`, {
+      token: adminToken,
+    });
+    await expectSuccess(deleteResponse);
+  });
+
+  test.skip('DELETE /memberships/types/:id - should block deactivation with pending memberships', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'DELETE',
+      `/memberships/types/${process.env.TEST_MEMBERSHIP_TYPE_ID}`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    await expectBadRequest(response);
+  });
+});
+
+test.describe('Memberships API - Upgrade Quote', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('upgrade-quote-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /memberships/upgrade-quote - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      '/memberships/upgrade-quote?typeId=00000000-0000-0000-0000-000000000000'
+    );
+    await expectUnauthorized(response);
+  });
+
+  test('GET /memberships/upgrade-quote - should return 400 without a valid typeId', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/memberships/upgrade-quote?typeId=abc', {
+      token: testToken,
+    });
+    await expectBadRequest(response);
+  });
+
+  test('GET /memberships/upgrade-quote - should return 404 without an active membership', async ({
+    request,
+  }) => {
+    const typesResponse = await makeRequest(request, 'GET', '/memberships/types');
+    const types = await expectSuccess(typesResponse);
+
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/memberships/upgrade-quote?typeId=${types[0].id}`,
+      { token: testToken }
+    );
+    await expectNotFound(response);
+  });
+
+  // Note: This test requires a user with an ACTIVE annual membership (MEMBER_TOKEN)
+  // and a higher-priced membership type (TEST_MEMBERSHIP_TYPE_ID)
+  test.skip('GET /memberships/upgrade-quote - should credit the unused part of the term', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/memberships/upgrade-quote?typeId=${process.env.TEST_MEMBERSHIP_TYPE_ID}`,
+      { token: process.env.MEMBER_TOKEN! }
+    );
+    const quote = await expectSuccess(response);
+
+    expect(quote.remainingDays).toBeLessThanOrEqual(quote.totalDays);
+    expect(quote.proratedCredit).toBeCloseTo(
+      (quote.currentPrice * quote.remainingDays) / quote.totalDays,
+      2
+    );
+    expect(quote.amountDue).toBeCloseTo(Math.max(0, quote.newPrice - quote.proratedCredit), 2);
+    expect(isValidIsoDate(quote.quotedAt)).toBeTruthy();
+  });
+});
+
+test.describe('Memberships API - Renewal', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('renew-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('POST /memberships/me/renew - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/me/renew');
+    await expectUnauthorized(response);
+  });
+
+  test('POST /memberships/me/renew - should return 404 without an active membership', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/me/renew', {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  // Note: These tests require a user with an ACTIVE annual membership (MEMBER_TOKEN)
+  test.skip('POST /memberships/me/renew - should create a PENDING renewal of the same type', async ({
+    request,
+  }) => {
+    const memberToken = process.env.MEMBER_TOKEN!;
+
+    const currentResponse = await makeRequest(request, 'GET', '/memberships/me', {
+      token: memberToken,
+    });
+    const current = await expectSuccess(currentResponse);
+
+    const response = await makeRequest(request, 'POST', '/memberships/me/renew', {
+      token: memberToken,
+    });
+    const renewal = await expectSuccess(response);
+
+    expect(isValidUuid(renewal.id)).toBeTruthy();
+    expect(renewal.status).toBe('PENDING');
+    expect(renewal.renewedFromId).toBe(current.id);
+    expect(renewal.membershipTypeId).toBe(current.membershipTypeId);
+    expect(renewal.creditAmount).toBeNull();
+    // The new term is set from the current expiryDate once paid
+    expect(renewal.startDate).toBeNull();
+  });
+
+  test.skip('POST /memberships/me/renew - should return 400 while a renewal is pending', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'POST', '/memberships/me/renew', {
+      token: process.env.MEMBER_TOKEN!,
+    });
+    await expectBadRequest(response);
+  });
+
+  test.skip('GET /memberships/me - should expose the grace period end', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/memberships/me', {
+      token: process.env.MEMBER_TOKEN!,
+    });
+    const membership = await expectSuccess(response);
+
+    expect(isValidIsoDate(membership.graceEndsAt)).toBeTruthy();
+    expect(new Date(membership.graceEndsAt).getTime()).toBeGreaterThan(
+      new Date(membership.expiryDate).getTime()
+    );
+  });
+});
+
 test.describe('Memberships API - Edge Cases', () => {
   test('GET /memberships/:id - should return 403 for non-admin accessing specific membership', async ({
     request,
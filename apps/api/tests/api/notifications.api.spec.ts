@@ -0,0 +1,188 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectNotFound,
+  expectBadRequest,
+} from '../fixtures/api-helpers';
+import { createTestUser, deleteTestUser } from '../fixtures/supabase-helpers';
+import { generateTestEmail } from '../fixtures/test-data';
+
+/**
+ * Notifications API Tests
+ *
+ * Tests the email outbox and unsubscribe endpoints (5 endpoints):
+ * - GET /notifications/outbox (list queued and sent emails - ADMIN only)
+ * - GET /notifications/outbox/:id (email with its bodies - ADMIN only)
+ * - POST /notifications/outbox/:id/retry (send a FAILED email again - ADMIN only)
+ * - GET /notifications/unsubscribe?token= (unsubscribe link - public)
+ * - POST /notifications/unsubscribe?token= (one-click unsubscribe - public)
+ *
+ * Emails are queued by membership activation/rejection/renewal reminders,
+ * payments, registration confirmations, waitlist offers, event reminders and
+ * event announcements, and sent by the send-emails job (see cron.api.spec.ts).
+ * Preferences are managed under /users/me/notification-preferences.
+ */
+
+const MISSING_ID = '00000000-0000-4000-8000-000000000000';
+
+test.describe('Notifications API - Authentication', () => {
+  test('GET /notifications/outbox - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/outbox');
+    await expectUnauthorized(response);
+  });
+
+  test('POST /notifications/outbox/:id/retry - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/notifications/outbox/${MISSING_ID}/retry`
+    );
+    await expectUnauthorized(response);
+  });
+});
+
+test.describe('Notifications API - Non-admin', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('notifications-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /notifications/outbox - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/outbox', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  test('GET /notifications/outbox/:id - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', `/notifications/outbox/${MISSING_ID}`, {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  test('POST /notifications/outbox/:id/retry - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/notifications/outbox/${MISSING_ID}/retry`,
+      { token: testToken }
+    );
+    await expectForbidden(response);
+  });
+});
+
+test.describe('Notifications API - Unsubscribe', () => {
+  test('GET /notifications/unsubscribe - should return 400 without a token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/unsubscribe');
+    await expectBadRequest(response);
+  });
+
+  test('GET /notifications/unsubscribe - should return 400 for a forged token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/notifications/unsubscribe?token=${Buffer.from(`${MISSING_ID}:all`).toString('base64url')}.forged`
+    );
+    await expectBadRequest(response);
+  });
+
+  test('POST /notifications/unsubscribe - should return 400 for a forged token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/notifications/unsubscribe?token=not-a-token'
+    );
+    await expectBadRequest(response);
+  });
+});
+
+// Note: These tests require ADMIN_TOKEN
+test.describe('Notifications API - Admin', () => {
+  test.skip('GET /notifications/outbox - should list emails without bodies', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/outbox?take=5', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const emails = await expectSuccess(response);
+
+    expect(emails.length).toBeLessThanOrEqual(5);
+    for (const email of emails) {
+      expect(email).toHaveProperty('template');
+      expect(email).toHaveProperty('status');
+      expect(email).not.toHaveProperty('html');
+    }
+  });
+
+  test.skip('GET /notifications/outbox - should filter by status', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/outbox?status=FAILED', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const emails = await expectSuccess(response);
+
+    for (const email of emails) {
+      expect(email.status).toBe('FAILED');
+    }
+  });
+
+  test.skip('GET /notifications/outbox - should return 400 for an invalid status', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/notifications/outbox?status=LOST', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    await expectBadRequest(response);
+  });
+
+  test.skip('GET /notifications/outbox/:id - should return 404 for an unknown email', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', `/notifications/outbox/${MISSING_ID}`, {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    await expectNotFound(response);
+  });
+
+  test.skip('POST /notifications/outbox/:id/retry - should only retry FAILED emails', async ({
+    request,
+  }) => {
+    const listResponse = await makeRequest(request, 'GET', '/notifications/outbox?status=SENT', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const [sent] = await expectSuccess(listResponse);
+    test.skip(!sent, 'No sent email to retry');
+
+    const response = await makeRequest(request, 'POST', `/notifications/outbox/${sent.id}/retry`, {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    await expectBadRequest(response);
+  });
+});
@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test';
+import Stripe from 'stripe';
 import {
   makeRequest,
   expectSuccess,
@@ -22,11 +23,22 @@ import { generateTestEmail, createTestMembership, createTestProfile } from '../f
 /**
  * Payments Module API Tests
  *
- * Tests all 5 endpoints in the Payments module:
+ * Tests all 14 endpoints in the Payments module:
  * - POST /payments/checkout-session (create Stripe checkout)
+ * - POST /payments/event-checkout-session (create Stripe checkout for a paid event)
+ * - GET /payments/checkout-quote (price of a checkout, with promo code)
+ * - POST /payments/event-subscriptions/:eventId/cancel (cancel recurring event subscription)
  * - GET /payments/me (user's payment history)
+ * - GET /payments/me/statements/:year.pdf (user's yearly payment statement)
+ * - GET /payments/users/:userId/statements/:year.pdf (a user's yearly statement - ADMIN only)
+ * - GET /payments/:id/receipt.pdf (PDF receipt - owner or ADMIN)
  * - POST /payments/webhook (Stripe webhook handler)
+ * - GET /payments/webhook-events (stored webhook events - ADMIN only)
+ * - GET /payments/webhook-events/:id (stored event with payload - ADMIN only)
+ * - POST /payments/webhook-events/:id/replay (replay a stored event - ADMIN only)
  * - PUT /payments/:id (admin override payment amount)
+ * - POST /payments/:id/refund (full or partial refund - ADMIN only)
+ * - GET /payments/:id/refunds (refunds of a payment - ADMIN only)
  * - GET /payments/:id (get payment details - future endpoint)
  */
 
@@ -131,6 +143,355 @@ test.describe('Payments API - POST /payments/checkout-session', () => {
     );
     await expectBadRequest(response);
   });
+
+  test('GET /payments/checkout-quote - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/checkout-quote?membershipId=${membershipId}`
+    );
+    await expectUnauthorized(response);
+  });
+
+  test('GET /payments/checkout-quote - should return 400 without membershipId or eventId', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/payments/checkout-quote', {
+      token: testToken,
+    });
+    await expectBadRequest(response);
+  });
+
+  test('GET /payments/checkout-quote - should price the pending membership', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/checkout-quote?membershipId=${membershipId}`,
+      { token: testToken }
+    );
+    const quote = await expectSuccess(response);
+
+    expect(quote.discountAmount).toBe(0);
+    expect(quote.promoCode).toBeNull();
+    expect(quote.amountDue).toBe(
+      Math.max(0, quote.basePrice - quote.creditAmount - quote.prorationCredit)
+    );
+  });
+
+  test('GET /payments/checkout-quote - should return 400 for an unknown promo code', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/checkout-quote?membershipId=${membershipId}&promoCode=NO-SUCH-CODE`,
+      { token: testToken }
+    );
+    await expectBadRequest(response);
+  });
+
+  // Note: Requires a PERCENT promo code for memberships (TEST_PROMO_CODE)
+  test.skip('GET /payments/checkout-quote - should apply a promo code', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/checkout-quote?membershipId=${membershipId}&promoCode=${process.env.TEST_PROMO_CODE}`,
+      { token: testToken }
+    );
+    const quote = await expectSuccess(response);
+
+    expect(quote.promoCode.code).toBe(process.env.TEST_PROMO_CODE!.toUpperCase());
+    expect(quote.discountAmount).toBeGreaterThan(0);
+    expect(quote.amountDue).toBeCloseTo(
+      quote.basePrice - quote.creditAmount - quote.prorationCredit - quote.discountAmount,
+      2
+    );
+  });
+
+  test.skip('should create checkout session with a promo code', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/checkout-session',
+      {
+        token: testToken,
+        data: {
+          membershipId,
+          promoCode: process.env.TEST_PROMO_CODE,
+          successUrl: 'http://localhost:3000/success',
+          cancelUrl: 'http://localhost:3000/cancel',
+        },
+      }
+    );
+    const result = await expectSuccess(response);
+
+    expect(result.sessionId).toBeDefined();
+  });
+
+  test.skip('should return 400 for a promo code scoped to events', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/checkout-session',
+      {
+        token: testToken,
+        data: {
+          membershipId,
+          promoCode: process.env.TEST_EVENT_PROMO_CODE,
+          successUrl: 'http://localhost:3000/success',
+          cancelUrl: 'http://localhost:3000/cancel',
+        },
+      }
+    );
+    await expectBadRequest(response);
+  });
+});
+
+test.describe('Payments API - POST /payments/event-checkout-session', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  const urls = {
+    successUrl: 'http://localhost:3000/events/success',
+    cancelUrl: 'http://localhost:3000/events/cancel',
+  };
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('event-checkout-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      data: { eventId: '00000000-0000-0000-0000-000000000000', ...urls },
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('should return 400 for missing redirect URLs', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: testToken,
+      data: { eventId: '00000000-0000-0000-0000-000000000000' },
+    });
+    await expectBadRequest(response);
+  });
+
+  test('should return 404 for non-existent event', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: testToken,
+      data: { eventId: '00000000-0000-0000-0000-000000000000', ...urls },
+    });
+    await expectNotFound(response);
+  });
+
+  // Note: These tests require a published paid event seeded via TEST_PAID_EVENT_ID
+  test.skip('should create checkout session with a PENDING registration', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_PAID_EVENT_ID!;
+
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: testToken,
+      data: { eventId, ...urls },
+    });
+    const result = await expectSuccess(response);
+
+    expect(result.sessionId).toBeDefined();
+    expect(result.url).toContain('stripe.com');
+    expect(isValidUuid(result.registrationId)).toBeTruthy();
+
+    const registrationsResponse = await makeRequest(request, 'GET', '/registrations/me', {
+      token: testToken,
+    });
+    const registrations = await expectSuccess(registrationsResponse);
+    const registration = registrations.find((r: any) => r.id === result.registrationId);
+    expect(registration.status).toBe('PENDING');
+    expect(registration.paymentStatus).toBe('PENDING');
+  });
+
+  test.skip('should reuse the PENDING registration when retrying checkout', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_PAID_EVENT_ID!;
+
+    const first = await expectSuccess(
+      await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+        token: testToken,
+        data: { eventId, ...urls },
+      })
+    );
+    const second = await expectSuccess(
+      await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+        token: testToken,
+        data: { eventId, ...urls },
+      })
+    );
+
+    expect(second.registrationId).toBe(first.registrationId);
+    expect(second.sessionId).not.toBe(first.sessionId);
+
+    // Only the newest session can be paid (needs the Stripe test key)
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+    const replaced = await stripe.checkout.sessions.retrieve(first.sessionId);
+    expect(replaced.status).toBe('expired');
+  });
+
+  test.skip('should return 400 for an invalid promo code without holding a seat', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_PAID_EVENT_ID!;
+
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: testToken,
+      data: { eventId, promoCode: 'NO-SUCH-CODE', ...urls },
+    });
+    await expectBadRequest(response);
+
+    const registrationsResponse = await makeRequest(request, 'GET', '/registrations/me', {
+      token: testToken,
+    });
+    const registrations = await expectSuccess(registrationsResponse);
+    expect(registrations.find((r: any) => r.eventId === eventId)).toBeUndefined();
+  });
+
+  // Note: Also requires ADMIN_TOKEN
+  test.skip('should reserve the last use of a capped promo code', async ({ request }) => {
+    const eventId = process.env.TEST_PAID_EVENT_ID!;
+    const code = `LAST-USE-${Date.now()}`;
+
+    await expectSuccess(
+      await makeRequest(request, 'POST', '/promo-codes', {
+        token: process.env.ADMIN_TOKEN!,
+        data: {
+          code,
+          discountType: 'FIXED',
+          discountValue: 1,
+          scope: 'EVENTS',
+          maxRedemptions: 1,
+        },
+      })
+    );
+
+    // Retrying the checkout replaces its own reservation
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expectSuccess(
+        await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+          token: testToken,
+          data: { eventId, promoCode: code, ...urls },
+        })
+      );
+    }
+
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('promo-reservation-test'),
+      'Test123!@#'
+    );
+    await makeRequest(request, 'GET', '/users/me', { token: accessToken });
+
+    // The open checkout holds the only use
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: accessToken,
+      data: { eventId, promoCode: code, ...urls },
+    });
+    await expectBadRequest(response);
+
+    await deleteTestUser(userId);
+  });
+
+  test.skip('should return 400 for a promo code on a recurring event', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/payments/event-checkout-session', {
+      token: testToken,
+      data: {
+        eventId: process.env.TEST_RECURRING_EVENT_ID!,
+        promoCode: process.env.TEST_PROMO_CODE,
+        ...urls,
+      },
+    });
+    await expectBadRequest(response);
+  });
+});
+
+test.describe('Payments API - POST /payments/event-subscriptions/:eventId/cancel', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('subscription-cancel-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/event-subscriptions/00000000-0000-0000-0000-000000000000/cancel'
+    );
+    await expectUnauthorized(response);
+  });
+
+  test('should return 404 without an active subscription', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/event-subscriptions/00000000-0000-0000-0000-000000000000/cancel',
+      { token: testToken }
+    );
+    await expectNotFound(response);
+  });
+
+  // Note: Requires a subscriber of a recurring event (TEST_RECURRING_EVENT_ID, SUBSCRIBER_TOKEN)
+  test.skip('should keep access until the end of the paid period', async ({ request }) => {
+    const eventId = process.env.TEST_RECURRING_EVENT_ID!;
+    const subscriberToken = process.env.SUBSCRIBER_TOKEN!;
+
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/event-subscriptions/${eventId}/cancel`,
+      { token: subscriberToken }
+    );
+    const registration = await expectSuccess(response);
+
+    expect(registration.status).toBe('CONFIRMED');
+    expect(isValidIsoDate(registration.subscriptionEndsAt)).toBeTruthy();
+    expect(new Date(registration.subscriptionEndsAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test.skip('should reject plain cancellation of a subscription registration', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_RECURRING_EVENT_ID!;
+    const subscriberToken = process.env.SUBSCRIBER_TOKEN!;
+
+    const response = await makeRequest(request, 'DELETE', `/events/${eventId}/register`, {
+      token: subscriberToken,
+    });
+    await expectBadRequest(response);
+  });
 });
 
 test.describe('Payments API - GET /payments/me', () => {
@@ -314,6 +675,34 @@ test.describe('Payments API - POST /payments/webhook (Stripe)', () => {
   test.skip('should create Payment record in database', async ({ request }) => {
     // Similar to above, but verify Payment entity is created
   });
+
+  test.skip('should acknowledge a redelivered event without processing it again', async ({
+    request,
+  }) => {
+    const payload = generateStripeWebhookPayload('checkout.session.completed', {
+      amount: 5000,
+      customerEmail: 'test@example.com',
+    });
+
+    const payloadString = JSON.stringify(payload);
+    const signature = generateStripeSignature(payloadString, webhookSecret);
+    const deliver = () =>
+      makeRequest(request, 'POST', '/payments/webhook', {
+        data: payloadString,
+        headers: {
+          'Content-Type': 'application/json',
+          'stripe-signature': signature,
+        },
+      });
+
+    const first = await expectSuccess(await deliver());
+    expect(first.duplicate).toBeUndefined();
+
+    // Stripe retries deliver the same event ID
+    const second = await expectSuccess(await deliver());
+    expect(second.received).toBe(true);
+    expect(second.duplicate).toBe(true);
+  });
 });
 
 test.describe('Payments API - PUT /payments/:id (Admin Override)', () => {
@@ -416,6 +805,402 @@ test.describe('Payments API - PUT /payments/:id (Admin Override)', () => {
   });
 });
 
+test.describe('Payments API - Refunds', () => {
+  let testUserId: string;
+  let testToken: string;
+  const paymentId = '00000000-0000-0000-0000-000000000000';
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('refund-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('POST /payments/:id/refund - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/payments/${paymentId}/refund`, {
+      data: { reason: 'Duplicate charge' },
+    });
+    await expectUnauthorized(response);
+  });
+
+  test('POST /payments/:id/refund - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/payments/${paymentId}/refund`, {
+      token: testToken,
+      data: { reason: 'Duplicate charge' },
+    });
+    await expectForbidden(response);
+  });
+
+  test('GET /payments/:id/refunds - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', `/payments/${paymentId}/refunds`, {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require ADMIN_TOKEN and a COMPLETED membership payment (TEST_USER_PAYMENT_ID)
+  test.skip('POST /payments/:id/refund - should return 400 without a reason', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/refund`,
+      {
+        token: process.env.ADMIN_TOKEN!,
+        data: {},
+      }
+    );
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /payments/:id/refund - should return 404 for non-existent payment', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'POST', `/payments/${paymentId}/refund`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: { reason: 'Duplicate charge' },
+    });
+    await expectNotFound(response);
+  });
+
+  test.skip('POST /payments/:id/refund - should refund part of a payment and keep access', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/refund`,
+      {
+        token: process.env.ADMIN_TOKEN!,
+        data: { amount: 10, reason: 'Goodwill discount' },
+      }
+    );
+    const refund = await expectSuccess(response);
+
+    expect(isValidUuid(refund.id)).toBeTruthy();
+    expect(refund.amount).toBe(10);
+    expect(refund.reason).toBe('Goodwill discount');
+    expect(refund.payment.refundedAmount).toBe(10);
+    expect(refund.payment.status).toBe('COMPLETED');
+  });
+
+  test.skip('POST /payments/:id/refund - should fully refund and cancel the membership', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/refund`,
+      {
+        token: process.env.ADMIN_TOKEN!,
+        data: { reason: 'Member moved away' },
+      }
+    );
+    const refund = await expectSuccess(response);
+    expect(refund.payment.status).toBe('REFUNDED');
+    expect(refund.payment.refundedAmount).toBe(refund.payment.amount);
+
+    const membershipResponse = await makeRequest(
+      request,
+      'GET',
+      `/memberships/${process.env.TEST_USER_MEMBERSHIP_ID}`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const membership = await expectSuccess(membershipResponse);
+    expect(membership.status).toBe('CANCELLED');
+
+    // Nothing left to refund
+    const againResponse = await makeRequest(
+      request,
+      'POST',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/refund`,
+      {
+        token: process.env.ADMIN_TOKEN!,
+        data: { reason: 'Member moved away' },
+      }
+    );
+    await expectBadRequest(againResponse);
+  });
+
+  test.skip('POST /payments/:id/refund - should return 400 for an offline payment', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/${process.env.TEST_OFFLINE_PAYMENT_ID}/refund`,
+      {
+        token: process.env.ADMIN_TOKEN!,
+        data: { reason: 'Paid twice' },
+      }
+    );
+    await expectBadRequest(response);
+  });
+
+  test.skip('GET /payments/:id/refunds - should list refunds newest first', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/refunds`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const refunds = await expectSuccess(response);
+
+    expect(Array.isArray(refunds)).toBeTruthy();
+    for (const refund of refunds) {
+      expect(refund.paymentId).toBe(process.env.TEST_USER_PAYMENT_ID);
+      expect(isValidIsoDate(refund.createdAt)).toBeTruthy();
+    }
+  });
+});
+
+test.describe('Payments API - Webhook Events (Admin)', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('webhook-events-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /payments/webhook-events - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/payments/webhook-events');
+    await expectUnauthorized(response);
+  });
+
+  test('GET /payments/webhook-events - should return 403 for non-admin', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/payments/webhook-events', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  test('POST /payments/webhook-events/:id/replay - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/webhook-events/evt_test_unknown/replay',
+      { token: testToken }
+    );
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require ADMIN_TOKEN
+  test.skip('GET /payments/webhook-events - should filter by status', async ({ request }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      '/payments/webhook-events?status=DEAD_LETTER',
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const events = await expectSuccess(response);
+
+    expect(Array.isArray(events)).toBeTruthy();
+    for (const event of events) {
+      expect(event.status).toBe('DEAD_LETTER');
+      expect(event.lastError).toBeTruthy();
+      expect(event.payload).toBeUndefined();
+    }
+  });
+
+  test.skip('GET /payments/webhook-events - should return 400 for an unknown status', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/payments/webhook-events?status=LOST', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    await expectBadRequest(response);
+  });
+
+  test.skip('POST /payments/webhook-events/:id/replay - should return 404 for an unknown event', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'POST',
+      '/payments/webhook-events/evt_test_unknown/replay',
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    await expectNotFound(response);
+  });
+
+  test.skip('POST /payments/webhook-events/:id/replay - should process a stored event again', async ({
+    request,
+  }) => {
+    const listResponse = await makeRequest(request, 'GET', '/payments/webhook-events?take=1', {
+      token: process.env.ADMIN_TOKEN!,
+    });
+    const [stored] = await expectSuccess(listResponse);
+
+    const response = await makeRequest(
+      request,
+      'POST',
+      `/payments/webhook-events/${stored.id}/replay`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const replayed = await expectSuccess(response);
+
+    expect(replayed.id).toBe(stored.id);
+    expect(replayed.attempts).toBe(stored.attempts + 1);
+    expect(replayed.replayedById).toBeTruthy();
+    expect(['PROCESSED', 'IGNORED', 'DEAD_LETTER']).toContain(replayed.status);
+  });
+});
+
+test.describe('Payments API - Receipts and Statements', () => {
+  let testUserId: string;
+  let testToken: string;
+  const paymentId = '00000000-0000-0000-0000-000000000000';
+  const year = new Date().getFullYear();
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('receipt-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /payments/:id/receipt.pdf - should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', `/payments/${paymentId}/receipt.pdf`);
+    await expectUnauthorized(response);
+  });
+
+  test('GET /payments/:id/receipt.pdf - should return 404 for an unknown payment', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', `/payments/${paymentId}/receipt.pdf`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  test('GET /payments/me/statements/:year.pdf - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', `/payments/me/statements/${year}.pdf`);
+    await expectUnauthorized(response);
+  });
+
+  test('GET /payments/me/statements/:year.pdf - should return a PDF with no payments', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', `/payments/me/statements/${year}.pdf`, {
+      token: testToken,
+    });
+
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toContain('application/pdf');
+    expect(response.headers()['content-disposition']).toContain(`statement-${year}.pdf`);
+    expect((await response.body()).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  test('GET /payments/me/statements/:year.pdf - should return 400 for a future year', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/me/statements/${year + 1}.pdf`,
+      { token: testToken }
+    );
+    await expectBadRequest(response);
+  });
+
+  test('GET /payments/users/:userId/statements/:year.pdf - should return 403 for non-admin', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/users/${testUserId}/statements/${year}.pdf`,
+      { token: testToken }
+    );
+    await expectForbidden(response);
+  });
+
+  // Note: These tests require ADMIN_TOKEN and a COMPLETED payment (TEST_USER_PAYMENT_ID)
+  test.skip('GET /payments/:id/receipt.pdf - should keep the receipt number on re-download', async ({
+    request,
+  }) => {
+    const first = await makeRequest(
+      request,
+      'GET',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/receipt.pdf`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    const second = await makeRequest(
+      request,
+      'GET',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/receipt.pdf`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+
+    expect(first.status()).toBe(200);
+    expect(first.headers()['content-type']).toContain('application/pdf');
+    expect(first.headers()['content-disposition']).toMatch(/receipt-R-\d{6}\.pdf/);
+    expect(second.headers()['content-disposition']).toBe(first.headers()['content-disposition']);
+  });
+
+  test.skip('GET /payments/:id/receipt.pdf - should return 404 for another user\'s payment', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/${process.env.TEST_USER_PAYMENT_ID}/receipt.pdf`,
+      { token: testToken }
+    );
+    await expectNotFound(response);
+  });
+
+  test.skip('GET /payments/users/:userId/statements/:year.pdf - should return 404 for an unknown user', async ({
+    request,
+  }) => {
+    const response = await makeRequest(
+      request,
+      'GET',
+      `/payments/users/${paymentId}/statements/${year}.pdf`,
+      { token: process.env.ADMIN_TOKEN! }
+    );
+    await expectNotFound(response);
+  });
+});
+
 test.describe('Payments API - Edge Cases', () => {
   test('should return 400 for negative payment amount', async ({ request }) => {
     const { userId, accessToken } = await createTestUser(
@@ -0,0 +1,254 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectForbidden,
+  expectNotFound,
+} from '../fixtures/api-helpers';
+import {
+  createTestUser,
+  deleteTestUser,
+} from '../fixtures/supabase-helpers';
+import { generateTestEmail, createTestEvent } from '../fixtures/test-data';
+
+/**
+ * Event Registration API Tests
+ *
+ * Tests all 3 registration endpoints:
+ * - POST /events/:id/register (register current user)
+ * - DELETE /events/:id/register (cancel own registration)
+ * - GET /registrations/me (current user's registrations)
+ *
+ * Plus seat allocation:
+ * - Concurrent registrations for the last seat
+ * - POST /events/seats/reconcile (admin only)
+ */
+
+const unknownEventId = '00000000-0000-0000-0000-000000000000';
+
+test.describe('Registrations API - POST /events/:id/register', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('register-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/events/${unknownEventId}/register`);
+    await expectUnauthorized(response);
+  });
+
+  test('should return 404 for non-existent event', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/events/${unknownEventId}/register`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  // Note: These tests require a published event seeded via TEST_FREE_EVENT_ID
+  test.skip('should confirm registration for a free event', async ({ request }) => {
+    const eventId = process.env.TEST_FREE_EVENT_ID!;
+
+    const response = await makeRequest(request, 'POST', `/events/${eventId}/register`, {
+      token: testToken,
+    });
+    const registration = await expectSuccess(response);
+
+    expect(registration.status).toBe('CONFIRMED');
+    expect(registration.confirmedAt).toBeDefined();
+  });
+
+  test.skip('should return 409 ALREADY_REGISTERED on duplicate registration', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_FREE_EVENT_ID!;
+
+    const response = await makeRequest(request, 'POST', `/events/${eventId}/register`, {
+      token: testToken,
+    });
+    expect(response.status()).toBe(409);
+    const body = await response.json();
+    expect(body.code).toBe('ALREADY_REGISTERED');
+  });
+
+  test.skip('should return 403 MEMBERS_ONLY for guests on member-only events', async ({
+    request,
+  }) => {
+    const eventId = process.env.TEST_MEMBERS_ONLY_EVENT_ID!;
+
+    const response = await makeRequest(request, 'POST', `/events/${eventId}/register`, {
+      token: testToken,
+    });
+    expect(response.status()).toBe(403);
+    const body = await response.json();
+    expect(body.code).toBe('MEMBERS_ONLY');
+  });
+});
+
+test.describe('Registrations API - DELETE /events/:id/register', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('unregister-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/events/${unknownEventId}/register`);
+    await expectUnauthorized(response);
+  });
+
+  test('should return 404 when not registered', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/events/${unknownEventId}/register`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+});
+
+test.describe('Registrations API - GET /registrations/me', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('registrations-me'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/registrations/me');
+    await expectUnauthorized(response);
+  });
+
+  test('should return empty array for new user', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/registrations/me', {
+      token: testToken,
+    });
+    const registrations = await expectSuccess(response);
+
+    expect(Array.isArray(registrations)).toBeTruthy();
+    expect(registrations.length).toBe(0);
+  });
+});
+
+test.describe('Registrations API - Seat allocation', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('seats-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return 401 for reconcile without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/events/seats/reconcile');
+    await expectUnauthorized(response);
+  });
+
+  test('should return 403 for reconcile as guest', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/events/seats/reconcile', {
+      token: testToken,
+    });
+    await expectForbidden(response);
+  });
+
+  // Note: This test requires a user promoted to CONTRIBUTOR in the database
+  test.skip('should never overbook a 1-seat event under parallel registrations', async ({
+    request,
+  }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+    const parallelRequests = 8;
+
+    const createResponse = await makeRequest(request, 'POST', '/events', {
+      token: contributorToken,
+      data: createTestEvent({ maxSeats: 1, isFree: true }),
+    });
+    const event = await expectSuccess(createResponse);
+    await makeRequest(request, 'POST', `/events/${event.id}/publish`, {
+      token: contributorToken,
+    });
+
+    const users = await Promise.all(
+      Array.from({ length: parallelRequests }, (_, i) =>
+        createTestUser(generateTestEmail(`seats-race-${i}`), 'Test123!@#')
+      )
+    );
+
+    try {
+      // Trigger JIT sync for every user before the race
+      await Promise.all(
+        users.map((u) => makeRequest(request, 'GET', '/users/me', { token: u.accessToken }))
+      );
+
+      const responses = await Promise.all(
+        users.map((u) =>
+          makeRequest(request, 'POST', `/events/${event.id}/register`, { token: u.accessToken })
+        )
+      );
+
+      const succeeded = responses.filter((r) => r.ok());
+      const rejected = responses.filter((r) => r.status() === 409);
+      expect(succeeded.length).toBe(1);
+      expect(rejected.length).toBe(parallelRequests - 1);
+
+      for (const response of rejected) {
+        const body = await response.json();
+        expect(body.code).toBe('EVENT_FULL');
+      }
+
+      const eventResponse = await makeRequest(request, 'GET', `/events/${event.slug}`);
+      const updated = await expectSuccess(eventResponse);
+      expect(updated.currentSeats).toBe(1);
+    } finally {
+      await Promise.all(users.map((u) => deleteTestUser(u.userId)));
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import { test, expect } from '@playwright/test';
+import { makeRequest, expectSuccess } from '../fixtures/api-helpers';
+import { createTestArticle, createTestPage, createTestEvent } from '../fixtures/test-data';
+import { sanitizeHtml } from '../../src/common/utils/sanitize-html.util';
+
+/**
+ * Content Sanitization Tests
+ *
+ * Rich text HTML (Event.content, Article.content, StaticPage.content) is
+ * sanitized on every write: create, update and revision restore.
+ * - The sanitizer itself runs against a list of XSS payloads (no server needed)
+ * - The write paths are checked through POST /articles, PUT /pages/:id and POST /events
+ */
+
+const IMAGE_SOURCE = 'https://project.supabase.co/storage/v1/object/public/public/';
+const OPTIONS = { imageSources: [IMAGE_SOURCE] };
+
+// Payloads that must come out without any way to run script
+const XSS_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=https://evil.example/xss.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="javascript:alert(1)">',
+  `<img src="${IMAGE_SOURCE}a.png" onerror="alert(1)">`,
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<math><mi xlink:href="javascript:alert(1)">x</mi></math>',
+  '<body onload=alert(1)>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href=" javascript:alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href="java&#x09;script:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="&#x6A;avascript&colon;alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<p onclick="alert(1)">x</p>',
+  '<p style="background:url(javascript:alert(1))">x</p>',
+  '<p style="width: expression(alert(1))">x</p>',
+  '<div><style>body{background:url("javascript:alert(1)")}</style></div>',
+  '<form action="javascript:alert(1)"><input type="submit"></form>',
+  '<details open ontoggle=alert(1)>',
+  '<scr<script>ipt>alert(1)</scr</script>ipt>',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<![CDATA[<script>alert(1)</script>]]>',
+  '<p title="</p><script>alert(1)</script>">x</p>',
+  '<a href="https://ok.example" onmouseover="alert(1)">x</a>',
+  '<textarea><script>alert(1)</script></textarea>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+  '<base href="javascript:alert(1)//">',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+];
+
+test.describe('Content Sanitization - XSS payloads', () => {
+  for (const payload of XSS_PAYLOADS) {
+    test(`should neutralize ${payload}`, () => {
+      const sanitized = sanitizeHtml(payload, OPTIONS);
+
+      expect(sanitized).not.toMatch(/<(script|svg|math|iframe|object|embed|style|form|base|meta)/i);
+      expect(sanitized).not.toMatch(/<[^>]+\son[a-z]+\s*=/i);
+      expect(sanitized).not.toMatch(/(href|src)="\s*(javascript|vbscript|data):/i);
+      expect(sanitized).not.toMatch(/url\(|expression\(/i);
+    });
+  }
+});
+
+test.describe('Content Sanitization - Editor output', () => {
+  test('should keep the HTML the editor produces', () => {
+    const html =
+      '<h2 style="text-align: center">Title</h2>' +
+      '<p>Some <strong>bold</strong>, <em>italic</em>, <u>underlined</u> and <s>struck</s> text</p>' +
+      '<ul><li><p>One</p></li></ul><ol start="3"><li><p>Three</p></li></ol>' +
+      '<blockquote><p>Quote</p></blockquote><hr>' +
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>' +
+      '<p><mark data-color="#ffc078" style="background-color: #ffc078">marked</mark>' +
+      '<span style="color: #958df1">colored</span><br>line</p>' +
+      '<table><tbody><tr><th colspan="2" colwidth="120,80">Head</th></tr>' +
+      '<tr><td>a</td><td>b</td></tr></tbody></table>';
+
+    expect(sanitizeHtml(html, OPTIONS)).toBe(html);
+  });
+
+  test('should keep links and add rel', () => {
+    expect(
+      sanitizeHtml('<a href="https://example.org" target="_blank" rel="opener">x</a>', OPTIONS)
+    ).toBe(
+      '<a href="https://example.org" target="_blank" rel="noopener noreferrer nofollow">x</a>'
+    );
+    expect(sanitizeHtml('<a href="mailto:info@example.org">x</a>', OPTIONS)).toBe(
+      '<a href="mailto:info@example.org" rel="noopener noreferrer nofollow">x</a>'
+    );
+    expect(sanitizeHtml('<a href="/events/diwali">x</a>', OPTIONS)).toBe(
+      '<a href="/events/diwali" rel="noopener noreferrer nofollow">x</a>'
+    );
+  });
+
+  test('should only keep images from the storage bucket', () => {
+    const image = `<img src="${IMAGE_SOURCE}events/a.png" alt="A">`;
+    expect(sanitizeHtml(image, OPTIONS)).toBe(image);
+
+    expect(sanitizeHtml('<img src="https://tracker.example/pixel.gif">', OPTIONS)).toBe('');
+    expect(
+      sanitizeHtml(`<img src="${IMAGE_SOURCE}../private/secret.png">`, OPTIONS)
+    ).toBe('');
+    expect(sanitizeHtml('<img src="data:image/png;base64,AAAA">', OPTIONS)).toBe('');
+  });
+
+  test('should unwrap unknown tags and keep their text', () => {
+    expect(sanitizeHtml('<div><font color="red">Hello</font></div>', OPTIONS)).toBe('Hello');
+  });
+
+  test('should escape stray markup in text', () => {
+    expect(sanitizeHtml('<p>a < b && c > d</p>', OPTIONS)).toBe(
+      '<p>a &lt; b &amp;&amp; c &gt; d</p>'
+    );
+  });
+
+  test('should close unclosed tags and drop stray closing tags', () => {
+    expect(sanitizeHtml('</div><p>Open <strong>bold', OPTIONS)).toBe(
+      '<p>Open <strong>bold</strong></p>'
+    );
+  });
+});
+
+// Note: These tests require CONTRIBUTOR_TOKEN and ADMIN_TOKEN
+test.describe('Content Sanitization - Write paths', () => {
+  const payload = '<p onclick="alert(1)">Hello</p><script>alert(1)</script>';
+
+  test.skip('POST /articles - should store sanitized content', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/articles', {
+      token: process.env.CONTRIBUTOR_TOKEN!,
+      data: { ...createTestArticle(), content: payload },
+    });
+    const article = await expectSuccess(response);
+
+    expect(article.content).toBe('<p>Hello</p>');
+  });
+
+  test.skip('PUT /pages/:id - should store sanitized content', async ({ request }) => {
+    const createResponse = await makeRequest(request, 'POST', '/pages', {
+      token: process.env.ADMIN_TOKEN!,
+      data: createTestPage(),
+    });
+    const page = await expectSuccess(createResponse);
+
+    const response = await makeRequest(request, 'PUT', `/pages/${page.id}`, {
+      token: process.env.ADMIN_TOKEN!,
+      data: { content: payload },
+    });
+    const updated = await expectSuccess(response);
+
+    expect(updated.content).toBe('<p>Hello</p>');
+  });
+
+  test.skip('POST /events - should store sanitized content', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', '/events', {
+      token: process.env.CONTRIBUTOR_TOKEN!,
+      data: { ...createTestEvent(), content: payload },
+    });
+    const event = await expectSuccess(response);
+
+    expect(event.content).toBe('<p>Hello</p>');
+  });
+});
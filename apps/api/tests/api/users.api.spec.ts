@@ -19,13 +19,15 @@ import { generateTestEmail, createTestProfile } from '../fixtures/test-data';
 /**
  * Users Module API Tests
  *
- * Tests all 11 endpoints in the Users module:
+ * Tests all 13 endpoints in the Users module:
  * - GET /users (list users - ADMIN only)
  * - GET /users/me (current user)
  * - GET /users/:id (specific user - ADMIN only)
  * - POST /users/me/profile (create profile)
  * - PUT /users/me/profile (update profile)
  * - PUT /users/:id/role (change role - ADMIN only)
+ * - GET /users/me/notification-preferences (email preferences)
+ * - PUT /users/me/notification-preferences (update email preferences)
  * - GET /users/me/export (GDPR export)
  * - GET /users/:id/export (GDPR export - ADMIN only)
  * - DELETE /users/me (soft delete self)
@@ -345,6 +347,89 @@ test.describe('Users API - Role Management', () => {
   });
 });
 
+test.describe('Users API - Notification Preferences', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeEach(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('preferences-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterEach(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('GET /users/me/notification-preferences - should return 401 without token', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/users/me/notification-preferences');
+    await expectUnauthorized(response);
+  });
+
+  test('GET /users/me/notification-preferences - should default to everything on', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'GET', '/users/me/notification-preferences', {
+      token: testToken,
+    });
+    const preferences = await expectSuccess(response);
+
+    expect(preferences.eventAnnouncements).toBe(true);
+    expect(preferences.newsletter).toBe(true);
+    expect(preferences.reminders).toBe(true);
+    expect(preferences.eventCategoryIds).toEqual([]);
+    expect(preferences.updatedAt).toBeNull();
+  });
+
+  test('PUT /users/me/notification-preferences - should update only the given fields', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'PUT', '/users/me/notification-preferences', {
+      token: testToken,
+      data: { newsletter: false },
+    });
+    const preferences = await expectSuccess(response);
+
+    expect(preferences.newsletter).toBe(false);
+    expect(preferences.eventAnnouncements).toBe(true);
+    expect(isValidIsoDate(preferences.updatedAt)).toBe(true);
+
+    const getResponse = await makeRequest(request, 'GET', '/users/me/notification-preferences', {
+      token: testToken,
+    });
+    const saved = await expectSuccess(getResponse);
+    expect(saved.newsletter).toBe(false);
+  });
+
+  test('PUT /users/me/notification-preferences - should return 400 for an unknown category', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'PUT', '/users/me/notification-preferences', {
+      token: testToken,
+      data: { eventCategoryIds: ['00000000-0000-4000-8000-000000000000'] },
+    });
+    await expectBadRequest(response);
+  });
+
+  test('PUT /users/me/notification-preferences - should return 400 for invalid data', async ({
+    request,
+  }) => {
+    const response = await makeRequest(request, 'PUT', '/users/me/notification-preferences', {
+      token: testToken,
+      data: { reminders: 'sometimes' },
+    });
+    await expectBadRequest(response);
+  });
+});
+
 test.describe('Users API - GDPR Data Export', () => {
   let testUserId: string;
   let testToken: string;
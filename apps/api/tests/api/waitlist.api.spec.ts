@@ -0,0 +1,247 @@
+import { test, expect } from '@playwright/test';
+import {
+  makeRequest,
+  expectSuccess,
+  expectUnauthorized,
+  expectNotFound,
+} from '../fixtures/api-helpers';
+import {
+  createTestUser,
+  deleteTestUser,
+} from '../fixtures/supabase-helpers';
+import { generateTestEmail, createTestEvent } from '../fixtures/test-data';
+
+/**
+ * Waitlist API Tests
+ *
+ * Tests all 5 waitlist endpoints:
+ * - POST /events/:id/waitlist (join waitlist of a full event)
+ * - DELETE /events/:id/waitlist (leave waitlist)
+ * - GET /waitlist/me (current user's waitlist entries)
+ * - POST /waitlist/:entryId/accept (accept seat offer)
+ * - POST /waitlist/:entryId/decline (decline seat offer)
+ */
+
+const unknownId = '00000000-0000-0000-0000-000000000000';
+
+test.describe('Waitlist API - Authentication', () => {
+  test('should return 401 for join without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/events/${unknownId}/waitlist`);
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 for leave without token', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/events/${unknownId}/waitlist`);
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 for GET /waitlist/me without token', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/waitlist/me');
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 for accept without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/waitlist/${unknownId}/accept`);
+    await expectUnauthorized(response);
+  });
+
+  test('should return 401 for decline without token', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/waitlist/${unknownId}/decline`);
+    await expectUnauthorized(response);
+  });
+});
+
+test.describe('Waitlist API - Authenticated', () => {
+  let testUserId: string;
+  let testToken: string;
+
+  test.beforeAll(async ({ request }) => {
+    const { userId, accessToken } = await createTestUser(
+      generateTestEmail('waitlist-test'),
+      'Test123!@#'
+    );
+    testUserId = userId;
+    testToken = accessToken;
+
+    // Trigger JIT sync
+    await makeRequest(request, 'GET', '/users/me', { token: testToken });
+  });
+
+  test.afterAll(async () => {
+    await deleteTestUser(testUserId);
+  });
+
+  test('should return empty array for new user', async ({ request }) => {
+    const response = await makeRequest(request, 'GET', '/waitlist/me', {
+      token: testToken,
+    });
+    const entries = await expectSuccess(response);
+
+    expect(Array.isArray(entries)).toBeTruthy();
+    expect(entries.length).toBe(0);
+  });
+
+  test('should return 404 when joining waitlist of non-existent event', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/events/${unknownId}/waitlist`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  test('should return 404 when leaving a waitlist the user is not on', async ({ request }) => {
+    const response = await makeRequest(request, 'DELETE', `/events/${unknownId}/waitlist`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  test('should return 404 when accepting an unknown entry', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/waitlist/${unknownId}/accept`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  test('should return 404 when declining an unknown entry', async ({ request }) => {
+    const response = await makeRequest(request, 'POST', `/waitlist/${unknownId}/decline`, {
+      token: testToken,
+    });
+    await expectNotFound(response);
+  });
+
+  // Note: This test requires a user promoted to CONTRIBUTOR in the database
+  test.skip('should offer a freed seat to the first person in line', async ({ request }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const createResponse = await makeRequest(request, 'POST', '/events', {
+      token: contributorToken,
+      data: createTestEvent({ maxSeats: 1, isFree: true }),
+    });
+    const event = await expectSuccess(createResponse);
+    await makeRequest(request, 'POST', `/events/${event.id}/publish`, {
+      token: contributorToken,
+    });
+
+    const holder = await createTestUser(generateTestEmail('waitlist-holder'), 'Test123!@#');
+    const second = await createTestUser(generateTestEmail('waitlist-second'), 'Test123!@#');
+
+    try {
+      await makeRequest(request, 'GET', '/users/me', { token: holder.accessToken });
+      await makeRequest(request, 'GET', '/users/me', { token: second.accessToken });
+
+      await makeRequest(request, 'POST', `/events/${event.id}/register`, {
+        token: holder.accessToken,
+      });
+
+      // Event is full, so both queue up
+      const firstJoin = await makeRequest(request, 'POST', `/events/${event.id}/waitlist`, {
+        token: testToken,
+      });
+      const firstEntry = await expectSuccess(firstJoin);
+      expect(firstEntry.status).toBe('WAITING');
+      expect(firstEntry.position).toBe(1);
+
+      const secondJoin = await makeRequest(request, 'POST', `/events/${event.id}/waitlist`, {
+        token: second.accessToken,
+      });
+      const secondEntry = await expectSuccess(secondJoin);
+      expect(secondEntry.position).toBe(2);
+
+      // Freed seat is offered to position 1
+      await makeRequest(request, 'DELETE', `/events/${event.id}/register`, {
+        token: holder.accessToken,
+      });
+
+      const myResponse = await makeRequest(request, 'GET', '/waitlist/me', { token: testToken });
+      const [offered] = await expectSuccess(myResponse);
+      expect(offered.status).toBe('OFFERED');
+      expect(offered.expiresAt).toBeDefined();
+
+      // Declining passes the offer on and moves the next person up
+      const declineResponse = await makeRequest(
+        request,
+        'POST',
+        `/waitlist/${offered.id}/decline`,
+        { token: testToken }
+      );
+      const declined = await expectSuccess(declineResponse);
+      expect(declined.status).toBe('DECLINED');
+
+      const secondResponse = await makeRequest(request, 'GET', '/waitlist/me', {
+        token: second.accessToken,
+      });
+      const [nextOffer] = await expectSuccess(secondResponse);
+      expect(nextOffer.status).toBe('OFFERED');
+      expect(nextOffer.position).toBe(1);
+
+      const acceptResponse = await makeRequest(
+        request,
+        'POST',
+        `/waitlist/${nextOffer.id}/accept`,
+        { token: second.accessToken }
+      );
+      const registration = await expectSuccess(acceptResponse);
+      expect(registration.status).toBe('CONFIRMED');
+    } finally {
+      await deleteTestUser(holder.userId);
+      await deleteTestUser(second.userId);
+    }
+  });
+
+  // Note: This test requires a user promoted to CONTRIBUTOR in the database
+  test.skip('should let a user who cancelled an accepted seat rejoin', async ({ request }) => {
+    const contributorToken = process.env.CONTRIBUTOR_TOKEN!;
+
+    const createResponse = await makeRequest(request, 'POST', '/events', {
+      token: contributorToken,
+      data: createTestEvent({ maxSeats: 1, isFree: true }),
+    });
+    const event = await expectSuccess(createResponse);
+    await makeRequest(request, 'POST', `/events/${event.id}/publish`, {
+      token: contributorToken,
+    });
+
+    const holder = await createTestUser(generateTestEmail('waitlist-rejoin'), 'Test123!@#');
+
+    try {
+      await makeRequest(request, 'GET', '/users/me', { token: holder.accessToken });
+      await makeRequest(request, 'POST', `/events/${event.id}/register`, {
+        token: holder.accessToken,
+      });
+
+      const joinResponse = await makeRequest(request, 'POST', `/events/${event.id}/waitlist`, {
+        token: testToken,
+      });
+      const entry = await expectSuccess(joinResponse);
+
+      // Accept the freed seat, then give it up again
+      await makeRequest(request, 'DELETE', `/events/${event.id}/register`, {
+        token: holder.accessToken,
+      });
+      const acceptResponse = await makeRequest(request, 'POST', `/waitlist/${entry.id}/accept`, {
+        token: testToken,
+      });
+      await expectSuccess(acceptResponse);
+
+      const cancelResponse = await makeRequest(request, 'DELETE', `/events/${event.id}/register`, {
+        token: testToken,
+      });
+      await expectSuccess(cancelResponse);
+
+      // The seat went to the holder again, so the event is full once more
+      await makeRequest(request, 'POST', `/events/${event.id}/register`, {
+        token: holder.accessToken,
+      });
+
+      const rejoinResponse = await makeRequest(request, 'POST', `/events/${event.id}/waitlist`, {
+        token: testToken,
+      });
+      const rejoined = await expectSuccess(rejoinResponse);
+      expect(rejoined.id).toBe(entry.id);
+      expect(rejoined.status).toBe('WAITING');
+      expect(rejoined.position).toBe(1);
+    } finally {
+      await deleteTestUser(holder.userId);
+    }
+  });
+});
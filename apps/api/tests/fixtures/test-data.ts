@@ -64,6 +64,25 @@ export function createTestMembership(overrides?: {
   };
 }
 
+/**
+ * Generate test membership type data (admin)
+ */
+export function createTestMembershipType(overrides?: {
+  name?: string;
+  price?: number;
+  durationMonths?: number | null;
+}) {
+  const timestamp = Date.now();
+  return {
+    name: overrides?.name || `Test Tier ${timestamp}`,
+    description: 'Membership type created by API tests',
+    price: overrides?.price ?? 40,
+    benefits: ['Event registration'],
+    durationMonths: overrides?.durationMonths === undefined ? 12 : overrides.durationMonths,
+    sortOrder: 99,
+  };
+}
+
 /**
  * Generate test payment data
  */
@@ -79,6 +98,67 @@ export function createTestPayment(overrides?: {
   };
 }
 
+/**
+ * Generate test event data
+ * categoryId defaults to TEST_EVENT_CATEGORY_ID from the environment
+ */
+export function createTestEvent(overrides?: {
+  title?: string;
+  categoryId?: string;
+  maxSeats?: number;
+  isFree?: boolean;
+  price?: number;
+  memberPrice?: number;
+  isVirtual?: boolean;
+  virtualLink?: string;
+  daysFromNow?: number;
+}) {
+  const timestamp = Date.now();
+  const startDate = getFutureDate(overrides?.daysFromNow ?? 30);
+  return {
+    title: overrides?.title || `Test Event ${timestamp}`,
+    content: '<p>Test event description</p>',
+    categoryId:
+      overrides?.categoryId || process.env.TEST_EVENT_CATEGORY_ID || 'will-be-fetched-from-api',
+    startDate: startDate.toISOString(),
+    maxSeats: overrides?.maxSeats ?? 50,
+    isFree: overrides?.isFree ?? true,
+    ...(overrides?.price !== undefined && { price: overrides.price }),
+    ...(overrides?.memberPrice !== undefined && { memberPrice: overrides.memberPrice }),
+    isVirtual: overrides?.isVirtual ?? false,
+    ...(overrides?.virtualLink && { virtualLink: overrides.virtualLink }),
+  };
+}
+
+/**
+ * Generate test article data
+ */
+export function createTestArticle(overrides?: { title?: string; excerpt?: string }) {
+  const timestamp = Date.now();
+  return {
+    title: overrides?.title || `Test Article ${timestamp}`,
+    excerpt: overrides?.excerpt || 'Test article excerpt',
+    content: '<p>Test article content</p>',
+  };
+}
+
+/**
+ * Generate test static page data
+ */
+export function createTestPage(overrides?: {
+  title?: string;
+  parentId?: string;
+  showInNav?: boolean;
+}) {
+  const timestamp = Date.now();
+  return {
+    title: overrides?.title || `Test Page ${timestamp}`,
+    content: '<p>Test page content</p>',
+    showInNav: overrides?.showInNav ?? true,
+    ...(overrides?.parentId && { parentId: overrides.parentId }),
+  };
+}
+
 /**
  * Generate unique test email
  */
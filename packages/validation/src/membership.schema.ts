@@ -2,12 +2,40 @@ import { z } from 'zod';
 
 export const createMembershipTypeSchema = z.object({
   name: z.string().min(1).max(100),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9-]+$/)
+    .optional(),
   description: z.string().max(500).optional(),
   price: z.number().nonnegative(),
-  durationMonths: z.number().int().positive(),
+  benefits: z.array(z.string()).optional(),
+  durationMonths: z.number().int().positive().nullable().optional(), // null = lifetime
+  maxHouseholdMembers: z.number().int().nonnegative().optional(), // 0 = individual
+  sortOrder: z.number().int().nonnegative().optional(),
+  isActive: z.boolean().optional(),
 });
 
 export const updateMembershipTypeSchema = createMembershipTypeSchema.partial();
 
+export const inviteHouseholdMemberSchema = z.object({
+  email: z.string().email(),
+  relationship: z.enum(['SPOUSE', 'CHILD', 'OTHER']),
+});
+
+export const recordOfflinePaymentSchema = z
+  .object({
+    method: z.enum(['CASH', 'CHECK', 'ZELLE', 'BANK_TRANSFER']),
+    amount: z.number().positive(),
+    referenceNumber: z.string().min(1).max(100).optional(), // Required except for cash
+    receivedAt: z.string().datetime(),
+    note: z.string().max(500).optional(),
+  })
+  .refine((data) => data.method === 'CASH' || !!data.referenceNumber, {
+    message: 'A reference number is required for check, Zelle and bank transfer payments',
+    path: ['referenceNumber'],
+  });
+
 export type CreateMembershipTypeInput = z.infer<typeof createMembershipTypeSchema>;
 export type UpdateMembershipTypeInput = z.infer<typeof updateMembershipTypeSchema>;
+export type InviteHouseholdMemberInput = z.infer<typeof inviteHouseholdMemberSchema>;
+export type RecordOfflinePaymentInput = z.infer<typeof recordOfflinePaymentSchema>;